@@ -3,6 +3,14 @@ import type { AnalyzeRequest, AnalyzeResponse, MitigationsResponse, TelemetryDat
 
 // API Configuration
 const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:8787';
+const API_KEY = import.meta.env.VITE_API_KEY || '';
+
+/**
+ * Headers for the Worker's /v1/* management API (analyst-scope key)
+ */
+function apiHeaders(extra: Record<string, string> = {}): Record<string, string> {
+  return API_KEY ? { ...extra, 'Authorization': `Bearer ${API_KEY}` } : extra;
+}
 
 /**
  * SentinelDashboard - Enterprise SOC HUD
@@ -334,7 +342,7 @@ username=admin' OR '1'='1&password=test"
     if (!container) return;
 
     try {
-      const response = await fetch(`${API_BASE}/v1/mitigations`);
+      const response = await fetch(`${API_BASE}/v1/mitigations`, { headers: apiHeaders() });
 
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -353,7 +361,8 @@ username=admin' OR '1'='1&password=test"
         sourceIP: m.sourceIP,
         attackVector: m.attackType,
         riskScore: m.riskScore,
-        action: m.ruleId === 'tracked-only' ? 'FLAGGED' : 'BLOCKED'
+        action: m.ruleId === 'tracked-only' ? 'FLAGGED' : 'BLOCKED',
+        tier: m.tier
       }));
 
       if (this.threatStream.length === 0) {
@@ -420,7 +429,7 @@ username=admin' OR '1'='1&password=test"
           </div>
         </td>
         <td class="py-3">
-          <span class="text-xs px-2 py-1 rounded border ${actionColor}">${entry.action}</span>
+          <span class="text-xs px-2 py-1 rounded border ${actionColor}">${entry.action}${entry.tier ? ` · T${entry.tier}` : ''}</span>
         </td>
       </tr>
     `;
@@ -454,19 +463,21 @@ username=admin' OR '1'='1&password=test"
       const requestBody: AnalyzeRequest = { payload };
       const response = await fetch(`${API_BASE}/v1/analyze`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: apiHeaders({ 'Content-Type': 'application/json' }),
         body: JSON.stringify(requestBody)
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
       const data: AnalyzeResponse = await response.json();
 
+      if (!response.ok || data.status === 'error') {
+        throw new Error(data.message || `HTTP ${response.status}: ${response.statusText}`);
+      }
+
       // Display executive summary
       if (summaryDiv) {
-        summaryDiv.innerHTML = this.formatExecutiveSummary(data.assessment.executive_summary);
+        summaryDiv.innerHTML = data.assessment
+          ? this.formatExecutiveSummary(data.assessment.executive_summary)
+          : this.formatExecutiveSummary(`Analysis queued (${data.id}). Results will be cached when the workflow completes.`);
       }
       if (resultsDiv) resultsDiv.classList.remove('hidden');
 
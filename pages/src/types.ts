@@ -13,10 +13,11 @@ export interface SecurityAssessment {
 }
 
 export interface AnalyzeResponse {
-    status: 'analyzed' | 'cached' | 'error';
+    status: 'analyzed' | 'cached' | 'workflow_triggered' | 'error';
     id: string;
     cacheKey: string;
-    assessment: SecurityAssessment;
+    assessment?: SecurityAssessment; // Present for analyzed / cached
+    message?: string;
 }
 
 export interface MitigationRecord {
@@ -27,6 +28,7 @@ export interface MitigationRecord {
     createdAt: string;
     expiresAt: string;
     timeRemaining: string;
+    tier?: number; // Escalation tier of an automatic block (1 = first offense)
 }
 
 export interface MitigationsResponse {
@@ -37,6 +39,7 @@ export interface MitigationsResponse {
 
 export interface AnalyzeRequest {
     payload: string;
+    mode?: 'sync' | 'async';
 }
 
 // Telemetry Types
@@ -56,4 +59,5 @@ export interface ThreatStreamEntry {
     attackVector: string;
     riskScore: number;
     action: 'BLOCKED' | 'ALLOWED' | 'FLAGGED';
+    tier?: number;
 }
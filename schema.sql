@@ -1,4 +1,14 @@
-DROP TABLE IF EXISTS security_events;
+-- Reference snapshot of the D1 schema after every migration in src/migrations/.
+-- The Worker applies migrations itself (cron trigger or POST /v1/admin/migrations)
+-- and records them in schema_migrations; change the schema there, not here.
+-- Every statement is idempotent, so applying this file never drops data.
+
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TEXT NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS security_events (
   id TEXT PRIMARY KEY,
   timestamp TEXT NOT NULL,
@@ -9,8 +19,117 @@ CREATE TABLE IF NOT EXISTS security_events (
   risk_score INTEGER,
   action TEXT,
   payload_preview TEXT,
-  metadata TEXT
+  matched_input TEXT,
+  metadata TEXT,
+  agent TEXT,               -- 0002: specialist agent whose verdict was used
+  cache_hit INTEGER,        -- 0002: 1 if the verdict came from the KV cache
+  request_method TEXT,      -- 0002
+  rule_id TEXT,             -- 0002: mitigation rule created for a block
+  asn INTEGER,              -- 0004: source network (request.cf)
+  as_organization TEXT,     -- 0004
+  city TEXT,                -- 0004
+  colo TEXT,                -- 0004: Cloudflare data center
+  tls_version TEXT,         -- 0004
+  would_block INTEGER,      -- 0006: shadow mode only; 1 if the request would have been blocked
+  cache_key TEXT            -- 0007: KV cache key of the verdict (agent verdicts only)
 );
 CREATE INDEX IF NOT EXISTS idx_timestamp ON security_events(timestamp);
 CREATE INDEX IF NOT EXISTS idx_ip ON security_events(ip_address);
 CREATE INDEX IF NOT EXISTS idx_risk ON security_events(risk_score);
+CREATE INDEX IF NOT EXISTS idx_timestamp_id ON security_events(timestamp, id);
+CREATE INDEX IF NOT EXISTS idx_rule_id ON security_events(rule_id);
+CREATE INDEX IF NOT EXISTS idx_agent ON security_events(agent);
+CREATE INDEX IF NOT EXISTS idx_asn ON security_events(asn);
+CREATE INDEX IF NOT EXISTS idx_country ON security_events(country);
+CREATE INDEX IF NOT EXISTS idx_would_block ON security_events(would_block, timestamp);
+
+-- Full-text index over payload_preview for GET /v1/events?q= (see src/events.ts)
+CREATE VIRTUAL TABLE IF NOT EXISTS security_events_fts USING fts5(
+  payload_preview,
+  content='security_events',
+  content_rowid='rowid'
+);
+CREATE TRIGGER IF NOT EXISTS security_events_fts_insert AFTER INSERT ON security_events BEGIN
+  INSERT INTO security_events_fts(rowid, payload_preview) VALUES (new.rowid, new.payload_preview);
+END;
+CREATE TRIGGER IF NOT EXISTS security_events_fts_delete AFTER DELETE ON security_events BEGIN
+  INSERT INTO security_events_fts(security_events_fts, rowid, payload_preview) VALUES ('delete', old.rowid, old.payload_preview);
+END;
+
+-- 0003: hourly rollups of downsampled `allow` events (see src/retention.ts)
+CREATE TABLE IF NOT EXISTS security_event_rollups (
+  hour TEXT NOT NULL,
+  action TEXT NOT NULL,
+  event_count INTEGER NOT NULL,
+  risk_score_sum INTEGER NOT NULL,
+  max_risk_score INTEGER NOT NULL,
+  PRIMARY KEY (hour, action)
+);
+
+-- 0003: one row per ledger archive object written to R2
+CREATE TABLE IF NOT EXISTS archive_manifests (
+  id TEXT PRIMARY KEY,
+  created_at TEXT NOT NULL,
+  object_key TEXT NOT NULL,
+  event_count INTEGER NOT NULL,
+  first_timestamp TEXT NOT NULL,
+  last_timestamp TEXT NOT NULL,
+  compressed_bytes INTEGER NOT NULL,
+  sha256 TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_archive_first_timestamp ON archive_manifests(first_timestamp);
+
+-- Admin API audit trail (see src/auth.ts)
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id TEXT PRIMARY KEY,
+  timestamp TEXT NOT NULL,
+  key_id TEXT,
+  scope TEXT,
+  method TEXT NOT NULL,
+  path TEXT NOT NULL,
+  status INTEGER NOT NULL,
+  ip_address TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_audit_timestamp ON admin_audit_log(timestamp);
+CREATE INDEX IF NOT EXISTS idx_audit_key ON admin_audit_log(key_id);
+
+-- 0005: manual mitigation changes (see src/mitigations.ts)
+CREATE TABLE IF NOT EXISTS mitigation_audit_log (
+  id TEXT PRIMARY KEY,
+  timestamp TEXT NOT NULL,
+  key_id TEXT NOT NULL,
+  action TEXT NOT NULL,     -- create | update | revoke
+  target TEXT NOT NULL,     -- IP or CIDR
+  mode TEXT,
+  expires_at TEXT,
+  rule_id TEXT,             -- Cloudflare IP Access Rule ID
+  reason TEXT,
+  previous TEXT             -- JSON of the record before the change
+);
+CREATE INDEX IF NOT EXISTS idx_mitigation_audit_target ON mitigation_audit_log(target, timestamp);
+
+-- 0007: analyst feedback on verdicts, the labeled dataset (see src/feedback.ts)
+CREATE TABLE IF NOT EXISTS verdict_feedback (
+  id TEXT PRIMARY KEY,
+  created_at TEXT NOT NULL,
+  key_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  label TEXT NOT NULL,      -- benign | malicious (ground truth)
+  outcome TEXT NOT NULL,    -- false_positive | false_negative | confirmed
+  expected_attack_type TEXT,
+  notes TEXT,
+  exception_id TEXT,        -- detection exception created with the feedback
+  event_timestamp TEXT,     -- snapshot of the event, kept past ledger retention
+  request_method TEXT,
+  request_path TEXT,
+  matched_input TEXT,
+  payload_preview TEXT,
+  attack_type TEXT,
+  risk_score INTEGER,
+  action TEXT,
+  agent TEXT,
+  assessment TEXT           -- JSON of the full assessment
+);
+CREATE INDEX IF NOT EXISTS idx_feedback_created ON verdict_feedback(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_feedback_outcome ON verdict_feedback(outcome, created_at);
+CREATE INDEX IF NOT EXISTS idx_feedback_event ON verdict_feedback(event_id);
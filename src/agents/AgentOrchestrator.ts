@@ -0,0 +1,211 @@
+import { Env, SecurityAssessment, AgentResult, MergePolicy, RequestContext, ReputationScore } from "../types";
+import { flattenInputs } from "../context";
+import { ExceptionRule, payloadHashes } from "../exceptions";
+import { BaseAgent } from "./BaseAgent";
+import { SQLiAgent } from "./SQLiAgent";
+import { XSSAgent } from "./XSSAgent";
+import { CommandInjectionAgent } from "./CommandInjectionAgent";
+import { PathTraversalAgent } from "./PathTraversalAgent";
+import { SSRFAgent } from "./SSRFAgent";
+
+const MERGE_POLICIES: readonly MergePolicy[] = ["worst-case", "highest-risk", "consensus"];
+
+// Higher = more severe. Used to pick the worst-case action across agents.
+const ACTION_SEVERITY: Record<SecurityAssessment["action"], number> = {
+    allow: 0,
+    flag: 1,
+    block: 2,
+};
+
+/**
+ * AgentOrchestrator
+ *
+ * Fans a payload out to every registered specialist agent ("Fingers") and
+ * merges their verdicts into one assessment.
+ *
+ * 1. Layers 1-2 (normalization + heuristics) run for every agent in parallel.
+ *    Detection exceptions drop the flags they suppress, then the source's
+ *    reputation modifier, if any, is added to each heuristic score.
+ * 2. Layer 3 (AI verification) runs only for agents whose heuristic score
+ *    crossed their own threshold, so a benign payload costs zero AI calls.
+ * 3. The merge policy decides the final action; every sub-verdict is kept in
+ *    `agentResults` for forensics.
+ *
+ * Merge policies:
+ * - worst-case:   most severe action wins (block > flag > allow). Default.
+ * - highest-risk: the agent with the highest risk score decides.
+ * - consensus:    like worst-case, but a block from a single agent is
+ *                 downgraded to flag unless that agent is High confidence.
+ */
+export class AgentOrchestrator {
+    private agents: BaseAgent[] = [];
+    private readonly policy: MergePolicy;
+
+    constructor(policy: MergePolicy = "worst-case") {
+        this.policy = policy;
+    }
+
+    /**
+     * Register a specialist agent. Agent names must be unique.
+     */
+    register(agent: BaseAgent): this {
+        if (this.agents.some((existing) => existing.name === agent.name)) {
+            throw new Error(`Agent already registered: ${agent.name}`);
+        }
+        this.agents.push(agent);
+        return this;
+    }
+
+    getAgents(): readonly BaseAgent[] {
+        return this.agents;
+    }
+
+    getPolicy(): MergePolicy {
+        return this.policy;
+    }
+
+    /**
+     * Run every registered agent against the request and merge the results.
+     * A RequestContext is analyzed input by input so the verdict can name the
+     * malicious parameter; a plain string is analyzed as a single payload.
+     * `reputation` (traffic pipeline only) is applied before each agent's
+     * threshold decision and recorded on the merged assessment.
+     * `verifyThreshold` (from the action policy) overrides each agent's own
+     * AI verification threshold.
+     * `exceptions` (traffic pipeline only, already matched to the request)
+     * suppress agents or flags per input; matches are recorded as `exceptions`.
+     * A failing agent is logged and excluded; if all agents fail, this throws
+     * so the caller's fail-open/fail-closed handling applies.
+     */
+    async analyze(
+        request: RequestContext | string,
+        reputation?: ReputationScore,
+        verifyThreshold?: number,
+        exceptions: readonly ExceptionRule[] = []
+    ): Promise<SecurityAssessment> {
+        if (this.agents.length === 0) {
+            throw new Error("No agents registered");
+        }
+
+        const inputs = typeof request === "string" ? [] : flattenInputs(request);
+        const hashes = await payloadHashes(exceptions, inputs);
+
+        const settled = await Promise.allSettled(
+            this.agents.map(async (agent): Promise<AgentResult> => {
+                const triage = agent.withRiskModifier(
+                    typeof request === "string" ? agent.triage(request) : agent.triageInputs(inputs, exceptions, hashes),
+                    reputation?.modifier ?? 0
+                );
+                const threshold = verifyThreshold ?? agent.threshold;
+                const verified = agent.needsVerification(triage, threshold);
+                const assessment = await agent.resolve(triage, threshold);
+                return {
+                    agent: agent.name,
+                    heuristicScore: triage.score,
+                    flags: triage.flags,
+                    verified,
+                    assessment,
+                    input: triage.input,
+                    ...(triage.exceptions ? { exceptions: triage.exceptions } : {}),
+                };
+            })
+        );
+
+        const results: AgentResult[] = [];
+        settled.forEach((outcome, index) => {
+            if (outcome.status === "fulfilled") {
+                results.push(outcome.value);
+            } else {
+                console.error(`[Orchestrator] ${this.agents[index].name} failed:`, outcome.reason);
+            }
+        });
+
+        if (results.length === 0) {
+            throw new Error("All agents failed");
+        }
+
+        const merged = mergeAssessments(results, this.policy);
+        const matches = results.flatMap((result) => result.exceptions ?? []);
+        return {
+            ...merged,
+            ...(reputation ? { reputation } : {}),
+            ...(matches.length > 0 ? { exceptions: matches } : {}),
+        };
+    }
+}
+
+/**
+ * Merge per-agent results into a single assessment under the given policy.
+ * The primary agent's assessment supplies the narrative fields; the merged
+ * risk score is the maximum across all agents.
+ */
+export function mergeAssessments(results: AgentResult[], policy: MergePolicy): SecurityAssessment {
+    const byRisk = [...results].sort((a, b) => b.assessment.riskScore - a.assessment.riskScore);
+    const riskScore = byRisk[0].assessment.riskScore;
+
+    let primary: AgentResult;
+    let action: SecurityAssessment["action"];
+
+    if (policy === "highest-risk") {
+        primary = byRisk[0];
+        action = primary.assessment.action;
+    } else {
+        const worst = Math.max(...results.map((r) => ACTION_SEVERITY[r.assessment.action]));
+        primary = byRisk.find((r) => ACTION_SEVERITY[r.assessment.action] === worst)!;
+        action = primary.assessment.action;
+
+        if (policy === "consensus" && action === "block") {
+            const concurring = results.filter((r) => r.assessment.action !== "allow").length;
+            if (concurring < 2 && primary.assessment.confidence !== "High") {
+                action = "flag";
+            }
+        }
+    }
+
+    if (action === "allow") {
+        return {
+            attackType: "Benign",
+            confidence: primary.assessment.confidence,
+            riskScore,
+            explanation: `No specialist agent detected a threat (${results.map((r) => r.agent).join(", ")}).`,
+            impact: "None",
+            mitigation: "None",
+            action: "allow",
+            executive_summary: "Payload classified as benign by all specialist agents.",
+            timestamp: new Date().toISOString(),
+            agentResults: results,
+        };
+    }
+
+    return {
+        ...primary.assessment,
+        riskScore,
+        action,
+        agentResults: results,
+        matchedInput: primary.input,
+        agent: primary.agent,
+    };
+}
+
+/**
+ * Validate a merge policy from configuration, falling back to worst-case.
+ */
+export function parseMergePolicy(value: string | undefined): MergePolicy {
+    if (!value) return "worst-case";
+    if ((MERGE_POLICIES as readonly string[]).includes(value)) return value as MergePolicy;
+    console.warn(`[Orchestrator] Unknown AGENT_MERGE_POLICY "${value}", using worst-case`);
+    return "worst-case";
+}
+
+/**
+ * Agent registry used by the request pipeline.
+ * New specialist agents are registered here.
+ */
+export function createDefaultOrchestrator(env: Env): AgentOrchestrator {
+    return new AgentOrchestrator(parseMergePolicy(env.AGENT_MERGE_POLICY))
+        .register(new SQLiAgent(env))
+        .register(new XSSAgent(env))
+        .register(new CommandInjectionAgent(env))
+        .register(new PathTraversalAgent(env))
+        .register(new SSRFAgent(env));
+}
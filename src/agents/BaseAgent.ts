@@ -1,17 +1,182 @@
+import { Env, SecurityAssessment, RequestInput, InputReference, ExceptionMatch } from "../types";
+import { DEFAULT_THRESHOLDS } from "../policy";
+import { ExceptionRule, inputExceptions } from "../exceptions";
 
-import { Env, SecurityAssessment } from "../types";
+export interface HeuristicResult {
+    score: number;
+    flags: string[];
+    points: Record<string, number>; // Score contributed by each flag (before the cap at 100)
+}
+
+/**
+ * Output of Layers 1 and 2 for a single agent.
+ * Cheap to compute, so the orchestrator runs it for every registered agent.
+ */
+export interface AgentTriage extends HeuristicResult {
+    agent: string;
+    normalizedPayload: string;
+    input?: InputReference; // Set when triaged from a decomposed request
+    exceptions?: ExceptionMatch[]; // Flags suppressed by detection exceptions
+    baseScore?: number; // Score before the reputation modifier, when one was added
+}
 
 export abstract class BaseAgent {
     protected env: Env;
     public abstract name: string;
 
+    /**
+     * Heuristic score above which Layer 3 (AI verification) is invoked.
+     * The action policy (src/policy.ts) can override it per call.
+     */
+    public readonly threshold: number = DEFAULT_THRESHOLDS.verify;
+
     constructor(env: Env) {
         this.env = env;
     }
 
+    /** Layer 1: Normalization (The Cleaner) */
+    abstract normalize(payload: string): string;
+
+    /** Layer 2: Heuristic Engine (The Filter) */
+    abstract heuristicAnalysis(payload: string): HeuristicResult;
+
+    /** Layer 3: AI Verification (The Judge) */
+    protected abstract aiVerification(
+        normalizedPayload: string,
+        heuristicScore: number,
+        flags: string[]
+    ): Promise<SecurityAssessment>;
+
+    /** Verdict for payloads that stay at or below the threshold. */
+    protected abstract lowRiskAssessment(heuristicScore: number): SecurityAssessment;
+
     /**
-     * Core analysis method that all agents must implement.
+     * Core analysis method.
      * Takes a raw string payload and returns a structued assessment.
      */
-    abstract analyze(payload: string): Promise<SecurityAssessment>;
+    async analyze(payload: string): Promise<SecurityAssessment> {
+        return await this.resolve(this.triage(payload));
+    }
+
+    /**
+     * Layers 1 + 2 only. Deterministic and fast (no I/O).
+     */
+    triage(payload: string): AgentTriage {
+        const normalizedPayload = this.normalize(payload);
+        const { score, flags, points } = this.heuristicAnalysis(normalizedPayload);
+        return { agent: this.name, normalizedPayload, score, flags, points };
+    }
+
+    /**
+     * Layers 1 + 2 over each request input on its own.
+     * Returns the highest-scoring input's triage, tagged with where it came from.
+     * Detection exceptions (see src/exceptions.ts) are applied per input before
+     * the comparison; every suppression, on any input, is kept on the result.
+     * `hashes` maps input values to their SHA-256, for rules on payloadHash.
+     */
+    triageInputs(
+        inputs: RequestInput[],
+        exceptions: readonly ExceptionRule[] = [],
+        hashes: ReadonlyMap<string, string> = new Map()
+    ): AgentTriage {
+        let worst: AgentTriage | null = null;
+        const matches: ExceptionMatch[] = [];
+        for (const input of inputs) {
+            const { location, name, value } = input;
+            const rules = inputExceptions(exceptions, this.name, input, hashes.get(value));
+            const triage = this.withExceptions({ ...this.triage(value), input: { location, name } }, rules);
+            matches.push(...(triage.exceptions ?? []));
+            if (!worst || triage.score > worst.score) {
+                worst = triage;
+            }
+        }
+        if (!worst) return this.triage("");
+        return matches.length > 0 ? { ...worst, exceptions: matches } : worst;
+    }
+
+    /**
+     * Drops the flags suppressed by detection exception rules (already matched
+     * to this agent and input) and recomputes the score from the remaining
+     * flags. A rule without `flags` suppresses every flag.
+     */
+    withExceptions(triage: AgentTriage, rules: readonly ExceptionRule[]): AgentTriage {
+        let flags = triage.flags;
+        const matches: ExceptionMatch[] = [];
+        for (const rule of rules) {
+            const suppressed = flags.filter((flag) => !rule.suppress.flags || rule.suppress.flags.includes(flag));
+            if (suppressed.length === 0) continue;
+            flags = flags.filter((flag) => !suppressed.includes(flag));
+            matches.push({ rule: rule.id, agent: this.name, ...(triage.input ? { input: triage.input } : {}), flags: suppressed });
+        }
+        if (matches.length === 0) return triage;
+
+        const score = flags.reduce((total, flag) => total + (triage.points[flag] ?? 0), 0);
+        return { ...triage, score: Math.min(score, 100), flags, exceptions: matches };
+    }
+
+    /**
+     * Adds a per-source risk modifier (see src/reputation.ts) to a triage
+     * score ahead of the threshold decision. The flag records why.
+     */
+    withRiskModifier(triage: AgentTriage, modifier: number): AgentTriage {
+        if (modifier <= 0) return triage;
+        return {
+            ...triage,
+            score: Math.min(triage.score + modifier, 100),
+            baseScore: triage.score,
+            flags: [...triage.flags, `Source Reputation (+${modifier})`],
+        };
+    }
+
+    /**
+     * Whether a triage result is escalated to Layer 3.
+     */
+    needsVerification(triage: AgentTriage, threshold: number = this.threshold): boolean {
+        return triage.score > threshold;
+    }
+
+    /**
+     * Turns a triage result into a final assessment, calling the AI judge
+     * only when the heuristic score crosses the threshold.
+     */
+    async resolve(triage: AgentTriage, threshold: number = this.threshold): Promise<SecurityAssessment> {
+        if (!this.needsVerification(triage, threshold)) {
+            return this.lowRiskAssessment(triage.score);
+        }
+        return await this.aiVerification(triage.normalizedPayload, triage.score, triage.flags);
+    }
+
+    /**
+     * Shared Layer 3 plumbing: sends the agent's specialist prompt to Workers AI
+     * and extracts the JSON verdict from the reply.
+     * Throws on inference or parse failure so each agent can apply its own fallback.
+     */
+    protected async runJudge(systemPrompt: string, normalizedPayload: string): Promise<SecurityAssessment> {
+        const response = await this.env.AI.run("@cf/meta/llama-3-8b-instruct" as any, {
+            messages: [
+                { role: "system", content: systemPrompt },
+                { role: "user", content: normalizedPayload }
+            ],
+            temperature: 0.1,
+            max_tokens: 512
+        });
+
+        // Parse response (Reusing logic from workflow.ts/index.ts for robust parsing)
+        let resultText = "";
+        if (typeof response === 'object' && response !== null && 'response' in response) {
+            resultText = (response as any).response;
+        } else {
+            resultText = JSON.stringify(response);
+        }
+
+        const jsonMatch = resultText.match(/\{[\s\S]*\}/);
+        const jsonStr = jsonMatch ? jsonMatch[0] : resultText.replace(/```json/g, "").replace(/```/g, "").trim();
+
+        const assessment = JSON.parse(jsonStr) as SecurityAssessment;
+
+        return {
+            ...assessment,
+            timestamp: new Date().toISOString()
+        };
+    }
 }
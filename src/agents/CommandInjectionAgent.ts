@@ -0,0 +1,215 @@
+import { Env, SecurityAssessment } from "../types";
+import { BaseAgent, HeuristicResult } from "./BaseAgent";
+
+// Binaries an attacker reaches for after breaking out of an argument (POSIX shells)
+const POSIX_BINARIES = [
+    "cat", "ls", "id", "whoami", "uname", "hostname", "ifconfig", "ps", "env", "printenv",
+    "wget", "curl", "nc", "ncat", "netcat", "socat", "telnet", "nslookup", "dig", "ping", "tftp", "scp", "ssh",
+    "bash", "sh", "zsh", "ksh", "dash", "busybox", "python", "python2", "python3", "perl", "ruby", "php", "node",
+    "chmod", "chown", "rm", "mkfifo", "base64", "xxd", "awk", "sed", "head", "tail", "find", "xargs",
+    "sleep", "echo", "touch", "crontab", "useradd", "passwd", "sudo", "kill",
+];
+
+// Binaries and built-ins abused through cmd.exe / PowerShell
+const WINDOWS_BINARIES = [
+    "cmd", "cmd\\.exe", "powershell", "powershell\\.exe", "pwsh", "certutil", "bitsadmin", "mshta",
+    "rundll32", "regsvr32", "wmic", "net", "net1", "ipconfig", "systeminfo", "tasklist", "taskkill",
+    "type", "dir", "reg", "schtasks", "cscript", "wscript", "msiexec", "ftp",
+];
+
+const BINARY_PATTERN = `(${[...POSIX_BINARIES, ...WINDOWS_BINARIES].join("|")})(?=$|[\\s;|&<>)\`'"/])`;
+
+export class CommandInjectionAgent extends BaseAgent {
+    public name = "CommandInjectionAgent";
+
+    constructor(env: Env) {
+        super(env);
+    }
+
+    /**
+     * Verdict for payloads at or below the threshold (Benchmark < 10ms).
+     */
+    protected lowRiskAssessment(heuristicScore: number): SecurityAssessment {
+        return {
+            attackType: "Command Injection",
+            confidence: "Low",
+            riskScore: heuristicScore, // Use heuristic score directly for low risk
+            explanation: "Heuristic analysis indicates low probability of command injection.",
+            impact: "None",
+            mitigation: "None",
+            action: "allow",
+            executive_summary: "Payload classified as benign by heuristic analysis.",
+            timestamp: new Date().toISOString(),
+        };
+    }
+
+    /**
+     * Layer 1: Normalization (The Cleaner)
+     * Undoes the shell-level obfuscation used to slip commands past filters:
+     * IFS tricks, quote splitting, variable substrings and hex/octal escapes.
+     */
+    normalize(payload: string): string {
+        let normalized = payload;
+
+        // 1. Recursive URL Decoding
+        let previous = "";
+        while (normalized !== previous) {
+            previous = normalized;
+            try {
+                normalized = decodeURIComponent(normalized);
+            } catch (e) {
+                // Malformed URI sequence, stop decoding
+                break;
+            }
+        }
+
+        // 2. ANSI-C quoting and hex/octal escapes: $'\x63\141t' -> cat
+        normalized = normalized.replace(/\$'((?:[^'\\]|\\.)*)'/g, "$1");
+        normalized = normalized.replace(/\\x([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+        normalized = normalized.replace(/\\([0-7]{3})/g, (_, oct) => String.fromCharCode(parseInt(oct, 8)));
+
+        // 3. Remove Null Bytes and line continuations
+        normalized = normalized.replace(/\0/g, "");
+        normalized = normalized.replace(/\\\r?\n/g, "");
+
+        // 4. Lowercase for case-insensitive matching
+        normalized = normalized.toLowerCase();
+
+        // 5. IFS tricks: cat${IFS}/etc/passwd, cat$IFS$9/etc/passwd
+        normalized = normalized.replace(/\$\{ifs[^}]*\}|\$ifs(\$\d)?/g, " ");
+
+        // 6. Variable substrings that evaluate to "/": ${PATH:0:1}, ${HOME:0:1}
+        normalized = normalized.replace(/\$\{(path|home|pwd|oldpwd|shell):0:1\}/g, "/");
+
+        // 7. Windows paths use forward slashes so step 8 doesn't eat their separators
+        normalized = normalized.replace(/\b[a-z]:\\[^\s;|&]*/g, (path) => path.replace(/\\/g, "/"));
+
+        // 8. Word splitting: w'h'o'am'i, c"a"t, c\at, w^h^o^a^m^i, wh$@oami
+        normalized = normalized.replace(/\$[@*]/g, "");
+        normalized = normalized.replace(/''|""/g, "");
+        normalized = normalized.replace(/(?<=[a-z0-9_./-])['"\\^]+(?=[a-z0-9_./-])/g, "");
+
+        // 9. Newlines separate commands just like ";" does
+        normalized = normalized.replace(/\r?\n/g, ";");
+
+        // 10. Normalize Whitespace
+        normalized = normalized.replace(/\s+/g, " ");
+
+        return normalized.trim();
+    }
+
+    /**
+     * Layer 2: Heuristic Engine (The Filter)
+     * Scores chaining operators, substitutions and known dangerous binaries.
+     */
+    heuristicAnalysis(payload: string): HeuristicResult {
+        let score = 0;
+        const flags: string[] = [];
+        const points: Record<string, number> = {};
+
+        // Pattern Definitions
+        const patterns = [
+            // Chaining operator followed by a known binary (High Confidence)
+            { regex: new RegExp(`(;|\\|\\|?|&&?)\\s*['"]?${BINARY_PATTERN}`), score: 70, name: "Command Chaining" },
+
+            // Command substitution running a known binary (High Confidence)
+            { regex: new RegExp(`(\`|\\$\\()\\s*['"]?${BINARY_PATTERN}`), score: 70, name: "Command Substitution" },
+
+            // Reverse shells (Critical)
+            { regex: /\/dev\/(tcp|udp)\/|\bnc(at)?\s.*\s-[a-z]*e\s|\bbash\s+-i\b|\bmkfifo\b|\bsocat\b.*\bexec:/, score: 80, name: "Reverse Shell" },
+
+            // Download-and-execute cradles (Critical)
+            { regex: /\b(curl|wget)\b[^|;]*\|\s*(ba|z|k)?sh\b|\bcertutil\b.*-urlcache|\bbitsadmin\b.*\/transfer|\b(powershell|pwsh)\b.*(downloadstring|downloadfile|\biex\b|invoke-expression|-e(nc(odedcommand)?)?\s)/, score: 80, name: "Download and Execute" },
+
+            // Windows shell invocation (Medium Confidence)
+            { regex: /\bcmd(\.exe)?\s*\/[ck]\b|\b(powershell|pwsh)(\.exe)?\s+-[a-z]+/, score: 60, name: "Windows Shell" },
+
+            // Reading system files through a shell (Medium Confidence)
+            { regex: /\b(cat|more|less|head|tail|type|nl|tac)\s+['"]?\/?(etc\/(passwd|shadow|hosts|group)|proc\/self\/)/, score: 50, name: "Sensitive File Read" },
+
+            // Timing probes used for blind injection
+            { regex: /\bsleep\s+\d+|\bping\s+-[nc]\s*\d+|\btimeout\s+\/t\s*\d+/, score: 40, name: "Time-Based Probe" },
+
+            // Shell metacharacters (Low Confidence alone, but additive)
+            { regex: /[;|`]|&&|\$\(/, score: 10, name: "Shell Metacharacter" }
+        ];
+
+        // Apply Patterns
+        for (const pattern of patterns) {
+            if (pattern.regex.test(payload)) {
+                score += pattern.score;
+                flags.push(pattern.name);
+                points[pattern.name] = pattern.score;
+            }
+        }
+
+        // Cap score at 100
+        score = Math.min(score, 100);
+
+        return { score, flags, points };
+    }
+
+    /**
+     * Layer 3: AI Verification (The Judge)
+     * Calls Workers AI to confirm malicious intent.
+     */
+    protected async aiVerification(
+        normalizedPayload: string,
+        heuristicScore: number,
+        flags: string[]
+    ): Promise<SecurityAssessment> {
+        try {
+            const systemPrompt = `You are a specialized OS Command Injection / Remote Code Execution Security Analyst.
+            Your task is to analyze the provided NORMALIZED payload and decide if it is a malicious command injection attempt.
+
+            Context:
+            - Heuristic Score: ${heuristicScore}
+            - Flags Triggered: ${flags.join(", ")}
+
+            Input:
+            "${normalizedPayload}"
+
+            Instructions:
+            1. Analyze strictly for shell command injection intent (POSIX shells, cmd.exe, PowerShell).
+            2. Ignore SQLi, XSS, or other attack types unless they facilitate command execution.
+            3. Reduce false positives (e.g. "Tom & Jerry; cat lovers" in prose is NOT command injection).
+            4. Respond strictly with the JSON schema provided.
+
+            Response Schema (JSON ONLY):
+            {
+                "attackType": "Command Injection",
+                "confidence": "High" | "Medium" | "Low",
+                "riskScore": number (0-100),
+                "explanation": "Brief reasoning",
+                "impact": "Remote Code Execution" | "Data Exfiltration" | "Denial of Service" | "None",
+                "mitigation": "Avoid Shell Invocation" | "Argument Allowlisting" | "Input Validation" | "None",
+                "action": "block" | "allow" | "flag",
+                "executive_summary": "One line summary"
+            }`;
+
+            const assessment = await this.runJudge(systemPrompt, normalizedPayload);
+
+            // Enforce minimum risk score if AI confirms attack but gives low score
+            if (assessment.action === 'block' && assessment.riskScore < 70) {
+                assessment.riskScore = 75;
+            }
+
+            return assessment;
+
+        } catch (error) {
+            console.error("Command Injection Agent AI Verification Failed:", error);
+            // Fallback: If AI fails but Heuristics were high, trust Heuristics
+            return {
+                attackType: "Command Injection (Heuristic Fallback)",
+                confidence: "Medium",
+                riskScore: heuristicScore,
+                explanation: `AI Verification failed. Heuristic analysis detected: ${flags.join(", ")}`,
+                impact: "Potential Remote Code Execution",
+                mitigation: "Manual Review",
+                action: heuristicScore > 80 ? "block" : "flag",
+                executive_summary: "Heuristic analysis detected suspicious shell command patterns when AI verification failed.",
+                timestamp: new Date().toISOString()
+            };
+        }
+    }
+}
@@ -0,0 +1,275 @@
+import { Env, SecurityAssessment } from "../types";
+import { BaseAgent, AgentTriage, HeuristicResult } from "./BaseAgent";
+
+// Overlong UTF-8 and IIS %u encodings of ".", "/" and "\" that decodeURIComponent rejects
+const OVERLONG_SEQUENCES: Array<[RegExp, string]> = [
+    [/%c0%ae|%e0%80%ae|%c0%2e|%u002e|%uff0e/gi, "."],
+    [/%c0%af|%e0%80%af|%c0%2f|%u002f|%u2215|%uff0f/gi, "/"],
+    [/%c1%9c|%c1%1c|%c0%5c|%u005c|%u2216|%uff3c/gi, "\\"],
+];
+
+// Unicode lookalikes some filesystems and frameworks fold to ASCII
+const LOOKALIKES: Array<[RegExp, string]> = [
+    [/[．․]/g, "."],
+    [/[／∕⁄]/g, "/"],
+    [/[＼∖]/g, "\\"],
+];
+
+export class PathTraversalAgent extends BaseAgent {
+    public name = "PathTraversalAgent";
+
+    /** Scores at or above this are blocked deterministically, without AI. */
+    public readonly clearCutThreshold = 90;
+    private readonly MAX_DECODE_PASSES = 5;
+
+    constructor(env: Env) {
+        super(env);
+    }
+
+    /**
+     * Clear-cut detections (e.g. "../../etc/passwd") never reach the LLM.
+     */
+    needsVerification(triage: AgentTriage, threshold: number = this.threshold): boolean {
+        return super.needsVerification(triage, threshold) && !this.isClearCut(triage, threshold);
+    }
+
+    async resolve(triage: AgentTriage, threshold: number = this.threshold): Promise<SecurityAssessment> {
+        if (this.isClearCut(triage, threshold)) {
+            return this.deterministicAssessment(triage.score, triage.flags);
+        }
+        return await super.resolve(triage, threshold);
+    }
+
+    /**
+     * Judged on the payload's own score, without the reputation modifier, so a
+     * source's history alone never causes a block without AI verification.
+     * Scores at or below the verify threshold aren't clear-cut.
+     */
+    private isClearCut(triage: AgentTriage, threshold: number): boolean {
+        const score = triage.baseScore ?? triage.score;
+        return score > threshold && score >= this.clearCutThreshold;
+    }
+
+    /**
+     * Verdict for payloads at or below the threshold (Benchmark < 10ms).
+     */
+    protected lowRiskAssessment(heuristicScore: number): SecurityAssessment {
+        return {
+            attackType: "Path Traversal",
+            confidence: "Low",
+            riskScore: heuristicScore, // Use heuristic score directly for low risk
+            explanation: "Heuristic analysis indicates low probability of path traversal.",
+            impact: "None",
+            mitigation: "None",
+            action: "allow",
+            executive_summary: "Payload classified as benign by heuristic analysis.",
+            timestamp: new Date().toISOString(),
+        };
+    }
+
+    /**
+     * Verdict for clear-cut detections, produced without AI verification.
+     */
+    private deterministicAssessment(heuristicScore: number, flags: string[]): SecurityAssessment {
+        return {
+            attackType: "Path Traversal",
+            confidence: "High",
+            riskScore: heuristicScore,
+            explanation: `Deterministic detection: ${flags.join(", ")}`,
+            impact: "Arbitrary File Read",
+            mitigation: "Canonicalize paths and serve files from an allowlist",
+            action: "block",
+            executive_summary: "This request tries to climb out of the web root to read sensitive server files such as password or configuration files.",
+            timestamp: new Date().toISOString(),
+        };
+    }
+
+    /**
+     * Layer 1: Normalization (The Cleaner)
+     * Canonicalizes paths: overlong UTF-8, double encoding, Unicode lookalikes
+     * and mixed separators all collapse to plain "../" sequences.
+     */
+    normalize(payload: string): string {
+        let normalized = payload;
+
+        // 1. Layered decoding, repeated until stable (double/triple encoding)
+        for (let pass = 0; pass < this.MAX_DECODE_PASSES; pass++) {
+            const previous = normalized;
+            for (const [pattern, replacement] of OVERLONG_SEQUENCES) {
+                normalized = normalized.replace(pattern, replacement);
+            }
+            normalized = this.urlDecode(normalized);
+            if (normalized === previous) break;
+        }
+
+        // 2. Unicode lookalikes
+        for (const [pattern, replacement] of LOOKALIKES) {
+            normalized = normalized.replace(pattern, replacement);
+        }
+
+        // 3. Lowercase for case-insensitive matching (Windows paths are case-insensitive)
+        normalized = normalized.toLowerCase();
+
+        // 4. Mixed separators: "..\..\windows" -> "../../windows"
+        normalized = normalized.replace(/\\/g, "/");
+
+        // 5. Filter-bypass dot runs and path parameters: "....//", "..;/" -> "../"
+        normalized = normalized.replace(/\.{2,}(;[^/]*)?\/+/g, "../");
+
+        // 6. Collapse repeated separators (but keep "scheme://")
+        normalized = normalized.replace(/(?<!:)\/{2,}/g, "/");
+
+        // 7. Normalize Whitespace (null bytes are kept: they are a signal here)
+        normalized = normalized.replace(/\s+/g, " ");
+
+        return normalized.trim();
+    }
+
+    /**
+     * Layer 2: Heuristic Engine (The Filter)
+     * Scores traversal sequences, web-root escapes and sensitive file targets.
+     */
+    heuristicAnalysis(payload: string): HeuristicResult {
+        let score = 0;
+        const flags: string[] = [];
+        const points: Record<string, number> = {};
+
+        // Pattern Definitions
+        const patterns = [
+            // Any parent-directory reference (Low Confidence alone, but additive)
+            { regex: /(^|[/=\s"'])\.\.(\/|$)/, score: 30, name: "Traversal Sequence" },
+
+            // Long chains used to reach the filesystem root regardless of depth
+            { regex: /(\.\.\/){3,}/, score: 20, name: "Deep Traversal" },
+
+            // Well-known sensitive files (Medium Confidence)
+            { regex: /\/etc\/(passwd|shadow|group|hosts|issue|sudoers)|\/proc\/self\/(environ|cmdline|fd|maps)|\/var\/log\/|\.ssh\/(id_[a-z0-9]+|authorized_keys)|\.(htaccess|htpasswd|env|git\/config|aws\/credentials)\b|web\.config|wp-config\.php|boot\.ini|win\.ini|system32\/(config\/sam|drivers\/etc\/hosts)/, score: 50, name: "Sensitive File Target" },
+
+            // PHP / URL stream wrappers used for LFI (High Confidence)
+            { regex: /\b(php:\/\/(filter|input|expect|fd)|expect:\/\/|phar:\/\/|zip:\/\/|data:\/\/|file:\/\/)/, score: 70, name: "Stream Wrapper" },
+
+            // Null byte to truncate an appended extension ("../../etc/passwd%00.jpg")
+            { regex: /\0/, score: 30, name: "Null Byte Truncation" },
+
+            // Absolute Windows paths
+            { regex: /(^|[\s="'])[a-z]:\/(windows|winnt|users|inetpub|boot)/, score: 30, name: "Absolute Windows Path" }
+        ];
+
+        // Apply Patterns
+        for (const pattern of patterns) {
+            if (pattern.regex.test(payload)) {
+                score += pattern.score;
+                flags.push(pattern.name);
+                points[pattern.name] = pattern.score;
+            }
+        }
+
+        // Structural check: does any path-like token climb above its starting directory?
+        if (this.escapesRoot(payload)) {
+            score += 40;
+            flags.push("Web Root Escape");
+            points["Web Root Escape"] = 40;
+        }
+
+        // Cap score at 100
+        score = Math.min(score, 100);
+
+        return { score, flags, points };
+    }
+
+    /**
+     * Walks every path-like token segment by segment. A token escapes the web
+     * root if ".." segments ever outnumber the directories descended into
+     * ("img/../logo.png" stays inside, "img/../../etc" does not).
+     */
+    escapesRoot(payload: string): boolean {
+        const tokens = payload.split(/[\s?&=;,"'<>|]+/);
+        for (const token of tokens) {
+            if (!token.includes("..")) continue;
+
+            let depth = 0;
+            for (const segment of token.split("/")) {
+                if (segment === "" || segment === ".") continue;
+                depth += segment === ".." ? -1 : 1;
+                if (depth < 0) return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Layer 3: AI Verification (The Judge)
+     * Only for ambiguous scores between the threshold and the clear-cut line.
+     */
+    protected async aiVerification(
+        normalizedPayload: string,
+        heuristicScore: number,
+        flags: string[]
+    ): Promise<SecurityAssessment> {
+        try {
+            const systemPrompt = `You are a specialized Path Traversal / Local File Inclusion Security Analyst.
+            Your task is to analyze the provided NORMALIZED payload and decide if it is a malicious attempt to read files outside the web root.
+
+            Context:
+            - Heuristic Score: ${heuristicScore}
+            - Flags Triggered: ${flags.join(", ")}
+
+            Input:
+            "${normalizedPayload}"
+
+            Instructions:
+            1. Analyze strictly for path traversal and local file inclusion intent.
+            2. Ignore SQLi, XSS, or other attack types unless they facilitate file access.
+            3. Reduce false positives (e.g. relative asset links like "../css/site.css" are NOT traversal attacks).
+            4. Respond strictly with the JSON schema provided.
+
+            Response Schema (JSON ONLY):
+            {
+                "attackType": "Path Traversal",
+                "confidence": "High" | "Medium" | "Low",
+                "riskScore": number (0-100),
+                "explanation": "Brief reasoning",
+                "impact": "Arbitrary File Read" | "Remote Code Execution" | "None",
+                "mitigation": "Path Canonicalization" | "File Allowlist" | "Input Validation" | "None",
+                "action": "block" | "allow" | "flag",
+                "executive_summary": "One line summary"
+            }`;
+
+            const assessment = await this.runJudge(systemPrompt, normalizedPayload);
+
+            // Enforce minimum risk score if AI confirms attack but gives low score
+            if (assessment.action === 'block' && assessment.riskScore < 70) {
+                assessment.riskScore = 75;
+            }
+
+            return assessment;
+
+        } catch (error) {
+            console.error("Path Traversal Agent AI Verification Failed:", error);
+            // Fallback: If AI fails but Heuristics were high, trust Heuristics
+            return {
+                attackType: "Path Traversal (Heuristic Fallback)",
+                confidence: "Medium",
+                riskScore: heuristicScore,
+                explanation: `AI Verification failed. Heuristic analysis detected: ${flags.join(", ")}`,
+                impact: "Potential Arbitrary File Read",
+                mitigation: "Manual Review",
+                action: heuristicScore > 80 ? "block" : "flag",
+                executive_summary: "Heuristic analysis detected suspicious file path patterns when AI verification failed.",
+                timestamp: new Date().toISOString()
+            };
+        }
+    }
+
+    /**
+     * URL-decodes valid sequences only, so one stray "%" (or an undecodable
+     * overlong byte) doesn't stop the rest of the payload from being decoded.
+     */
+    private urlDecode(value: string): string {
+        try {
+            return decodeURIComponent(value);
+        } catch (e) {
+            return value.replace(/%([0-7][0-9a-f])/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+        }
+    }
+}
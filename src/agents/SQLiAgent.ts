@@ -1,5 +1,5 @@
 import { Env, SecurityAssessment } from "../types";
-import { BaseAgent } from "./BaseAgent";
+import { BaseAgent, HeuristicResult } from "./BaseAgent";
 
 export interface SQLiMetadata {
     normalizedPayload: string;
@@ -9,41 +9,26 @@ export interface SQLiMetadata {
 
 export class SQLiAgent extends BaseAgent {
     public name = "SQLiAgent";
-    private readonly THRESHOLD = 50;
 
     constructor(env: Env) {
         super(env);
     }
 
     /**
-     * Main analysis method.
-     * Orchestrates the 3-layer detection logic.
+     * Verdict for payloads at or below the threshold (Benchmark < 10ms).
      */
-    async analyze(payload: string): Promise<SecurityAssessment> {
-        // Layer 1: Normalization
-        const normalized = this.normalize(payload);
-
-        // Layer 2: Heuristic Engine
-        const { score, flags } = this.heuristicAnalysis(normalized);
-
-        // If score is low, return early (Benchmark < 10ms)
-        if (score <= this.THRESHOLD) {
-            return {
-                attackType: "SQLi",
-                confidence: "Low",
-                riskScore: score, // Use heuristic score directly for low risk
-                explanation: "Heuristic analysis indicates low probability of SQL injection.",
-                impact: "None",
-                mitigation: "None",
-                action: "allow",
-                executive_summary: "Payload classified as benign by heuristic analysis.",
-                timestamp: new Date().toISOString(),
-            };
-        }
-
-        // Layer 3: AI Verification (The Judge)
-        // Only called if Heuristic Score > 50
-        return await this.aiVerification(normalized, score, flags);
+    protected lowRiskAssessment(heuristicScore: number): SecurityAssessment {
+        return {
+            attackType: "SQLi",
+            confidence: "Low",
+            riskScore: heuristicScore, // Use heuristic score directly for low risk
+            explanation: "Heuristic analysis indicates low probability of SQL injection.",
+            impact: "None",
+            mitigation: "None",
+            action: "allow",
+            executive_summary: "Payload classified as benign by heuristic analysis.",
+            timestamp: new Date().toISOString(),
+        };
     }
 
     /**
@@ -93,9 +78,10 @@ export class SQLiAgent extends BaseAgent {
      * Layer 2: Heuristic Engine (The Filter)
      * Scores the payload based on regex patterns and keywords.
      */
-    heuristicAnalysis(payload: string): { score: number; flags: string[] } {
+    heuristicAnalysis(payload: string): HeuristicResult {
         let score = 0;
         const flags: string[] = [];
+        const points: Record<string, number> = {};
 
         // Pattern Definitions
         const patterns = [
@@ -126,6 +112,7 @@ export class SQLiAgent extends BaseAgent {
             if (pattern.regex.test(payload)) {
                 score += pattern.score;
                 flags.push(pattern.name);
+                points[pattern.name] = pattern.score;
             }
         }
 
@@ -142,19 +129,20 @@ export class SQLiAgent extends BaseAgent {
         if (keywordCount >= 2) {
             score += 20;
             flags.push("Multiple SQL Keywords");
+            points["Multiple SQL Keywords"] = 20;
         }
 
         // Cap score at 100
         score = Math.min(score, 100);
 
-        return { score, flags };
+        return { score, flags, points };
     }
 
     /**
      * Layer 3: AI Verification (The Judge)
      * Calls Llama 3.3-70b to confirm malicious intent.
      */
-    private async aiVerification(
+    protected async aiVerification(
         normalizedPayload: string,
         heuristicScore: number,
         flags: string[]
@@ -188,37 +176,14 @@ export class SQLiAgent extends BaseAgent {
                 "executive_summary": "One line summary"
             }`;
 
-            const response = await this.env.AI.run("@cf/meta/llama-3-8b-instruct" as any, {
-                messages: [
-                    { role: "system", content: systemPrompt },
-                    { role: "user", content: normalizedPayload }
-                ],
-                temperature: 0.1,
-                max_tokens: 512
-            });
-
-            // Parse response (Reusing logic from workflow.ts/index.ts for robust parsing)
-            let resultText = "";
-            if (typeof response === 'object' && response !== null && 'response' in response) {
-                resultText = (response as any).response;
-            } else {
-                resultText = JSON.stringify(response);
-            }
-
-            const jsonMatch = resultText.match(/\{[\s\S]*\}/);
-            const jsonStr = jsonMatch ? jsonMatch[0] : resultText.replace(/```json/g, "").replace(/```/g, "").trim();
-
-            const assessment = JSON.parse(jsonStr) as SecurityAssessment;
+            const assessment = await this.runJudge(systemPrompt, normalizedPayload);
 
             // Enforce minimum risk score if AI confirms attack but gives low score
             if (assessment.action === 'block' && assessment.riskScore < 70) {
                 assessment.riskScore = 75;
             }
 
-            return {
-                ...assessment,
-                timestamp: new Date().toISOString()
-            };
+            return assessment;
 
         } catch (error) {
             console.error("SQLi Agent AI Verification Failed:", error);
@@ -0,0 +1,292 @@
+import { Env, SecurityAssessment } from "../types";
+import { BaseAgent, HeuristicResult } from "./BaseAgent";
+import { ParsedIP, parseIP, formatIP } from "../net";
+
+export type TargetCategory =
+    | "metadata"
+    | "loopback"
+    | "private"
+    | "link-local"
+    | "reserved"
+    | "internal-hostname"
+    | "public";
+
+export interface UrlTarget {
+    url: string;
+    scheme: string;
+    host: string;
+    address: string | null; // Canonical IP when the host is (or embeds) an IP literal
+    category: TargetCategory;
+    obfuscated: boolean; // Host used a non-canonical IP notation (decimal, hex, octal, IPv6-mapped)
+}
+
+// Cloud instance metadata endpoints (AWS/GCP/Azure/DO, ECS task role, Alibaba, Oracle, AWS IPv6)
+const METADATA_ADDRESSES = new Set([
+    "169.254.169.254", "169.254.170.2", "100.100.100.200", "192.0.0.192", "fd00:ec2::254",
+]);
+const METADATA_HOSTNAMES = new Set([
+    "metadata", "metadata.google.internal", "instance-data", "instance-data.ec2.internal", "metadata.azure.internal",
+]);
+
+// Public DNS names that always resolve to loopback
+const LOOPBACK_HOSTNAMES = /^(localhost|localtest\.me|lvh\.me)$|\.(localhost|localtest\.me|lvh\.me)$/;
+
+// Internal-only TLDs
+const INTERNAL_HOSTNAMES = /\.(internal|local|localdomain|lan|intranet|corp|home\.arpa)$/;
+
+// Wildcard DNS services that resolve "10.0.0.1.nip.io" / "10-0-0-1.sslip.io" to the embedded IP
+const WILDCARD_DNS = /(?:^|\.)(\d{1,3}[.-]\d{1,3}[.-]\d{1,3}[.-]\d{1,3})\.(nip\.io|sslip\.io|xip\.io)$/;
+
+// Schemes that let an attacker speak raw protocols to internal services
+const DANGEROUS_SCHEMES = new Set(["gopher", "dict", "file", "ldap", "ldaps", "tftp", "jar", "netdoc", "smb", "sftp"]);
+
+const CATEGORY_SCORES: Partial<Record<TargetCategory, { score: number; name: string }>> = {
+    "metadata": { score: 90, name: "Cloud Metadata Target" },
+    "loopback": { score: 70, name: "Loopback Target" },
+    "private": { score: 60, name: "Private Network Target" },
+    "link-local": { score: 60, name: "Link-Local Target" },
+    "internal-hostname": { score: 40, name: "Internal Hostname" },
+    "reserved": { score: 30, name: "Reserved Address Target" },
+};
+
+export class SSRFAgent extends BaseAgent {
+    public name = "SSRFAgent";
+
+    constructor(env: Env) {
+        super(env);
+    }
+
+    /**
+     * Verdict for payloads at or below the threshold (Benchmark < 10ms).
+     */
+    protected lowRiskAssessment(heuristicScore: number): SecurityAssessment {
+        return {
+            attackType: "SSRF",
+            confidence: "Low",
+            riskScore: heuristicScore, // Use heuristic score directly for low risk
+            explanation: "Heuristic analysis indicates low probability of server-side request forgery.",
+            impact: "None",
+            mitigation: "None",
+            action: "allow",
+            executive_summary: "Payload classified as benign by heuristic analysis.",
+            timestamp: new Date().toISOString(),
+        };
+    }
+
+    /**
+     * Layer 1: Normalization (The Cleaner)
+     * Decodes the payload so embedded URLs can be extracted intact.
+     */
+    normalize(payload: string): string {
+        let normalized = payload;
+
+        // 1. Recursive URL Decoding (URLs in query strings are usually encoded at least once)
+        let previous = "";
+        while (normalized !== previous) {
+            previous = normalized;
+            try {
+                normalized = decodeURIComponent(normalized);
+            } catch (e) {
+                // Malformed URI sequence, stop decoding
+                break;
+            }
+        }
+
+        // 2. Remove Null Bytes
+        normalized = normalized.replace(/\0/g, "");
+
+        // 3. Lowercase (schemes and hostnames are case-insensitive)
+        normalized = normalized.toLowerCase();
+
+        // 4. Backslash authority separators that browsers/clients accept: "http:\\127.0.0.1"
+        normalized = normalized.replace(/\b(https?|ftp|gopher|file):[\\/]{2,}/g, "$1://");
+
+        // 5. Normalize Whitespace
+        normalized = normalized.replace(/\s+/g, " ");
+
+        return normalized.trim();
+    }
+
+    /**
+     * Layer 2: Heuristic Engine (The Filter)
+     * Extracts every URL and scores it by where it points.
+     */
+    heuristicAnalysis(payload: string): HeuristicResult {
+        let score = 0;
+        const flags: string[] = [];
+        const points: Record<string, number> = {};
+        const addFlag = (name: string, value: number) => {
+            if (flags.includes(name)) return;
+            flags.push(name);
+            points[name] = value;
+            score += value;
+        };
+
+        for (const target of this.extractTargets(payload)) {
+            const categoryScore = CATEGORY_SCORES[target.category];
+            if (categoryScore) addFlag(categoryScore.name, categoryScore.score);
+
+            if (DANGEROUS_SCHEMES.has(target.scheme)) addFlag("Dangerous URL Scheme", 50);
+            if (target.obfuscated) addFlag("Obfuscated IP Notation", 30);
+        }
+
+        // Cap score at 100
+        score = Math.min(score, 100);
+
+        return { score, flags, points };
+    }
+
+    /**
+     * Find every URL-like value ("scheme://..." and protocol-relative "//host")
+     * and classify its target. Only scheme + authority is captured, so URLs
+     * nested in another URL's query string are found as well.
+     */
+    extractTargets(payload: string): UrlTarget[] {
+        const urls = [
+            ...(payload.match(/\b[a-z][a-z0-9+.-]*:\/\/[^\s"'<>`{}|^/?#\\&]*/g) || []),
+            ...(payload.match(/(?<=[=\s"'(]|^)\/\/[a-z0-9[][^\s"'<>`{}|^/?#\\&]*/g) || []).map((url) => `http:${url}`),
+        ];
+
+        const targets: UrlTarget[] = [];
+        for (const url of urls) {
+            const target = this.parseTarget(url);
+            if (target) targets.push(target);
+        }
+        return targets;
+    }
+
+    /**
+     * Split a URL into scheme and host without trusting the WHATWG parser,
+     * which only canonicalizes hosts for special schemes (not gopher://, dict://).
+     */
+    parseTarget(url: string): UrlTarget | null {
+        const match = url.match(/^([a-z][a-z0-9+.-]*):\/\/([^/?#]*)/);
+        if (!match) return null;
+
+        const scheme = match[1];
+        // Drop userinfo: "http://trusted.com@127.0.0.1" targets 127.0.0.1
+        const authority = match[2].slice(match[2].lastIndexOf("@") + 1);
+        let host = authority.startsWith("[")
+            ? authority.slice(0, authority.indexOf("]") + 1)
+            : authority.replace(/:\d*$/, "");
+        host = host.replace(/\.$/, "");
+
+        return { url, scheme, host, ...this.classifyHost(host) };
+    }
+
+    /**
+     * Classify a host as metadata / loopback / private / link-local / reserved /
+     * internal hostname / public.
+     */
+    classifyHost(host: string): Pick<UrlTarget, "address" | "category" | "obfuscated"> {
+        const literal = host.replace(/^\[|\]$/g, "");
+        const ip = parseIP(literal, true);
+        if (ip) {
+            const address = formatIP(ip);
+            return { address, category: this.classifyIP(ip, address), obfuscated: address !== literal };
+        }
+
+        const wildcard = host.match(WILDCARD_DNS);
+        if (wildcard) {
+            const embedded = parseIP(wildcard[1].replace(/-/g, "."));
+            if (embedded) {
+                const address = formatIP(embedded);
+                return { address, category: this.classifyIP(embedded, address), obfuscated: true };
+            }
+        }
+
+        if (METADATA_HOSTNAMES.has(host)) return { address: null, category: "metadata", obfuscated: false };
+        if (LOOPBACK_HOSTNAMES.test(host)) return { address: null, category: "loopback", obfuscated: false };
+        if (INTERNAL_HOSTNAMES.test(host)) return { address: null, category: "internal-hostname", obfuscated: false };
+        return { address: null, category: "public", obfuscated: false };
+    }
+
+    private classifyIP(ip: ParsedIP, address: string): TargetCategory {
+        if (METADATA_ADDRESSES.has(address)) return "metadata";
+
+        const [a, b] = ip.bytes;
+        if (ip.version === 4) {
+            if (a === 127 || a === 0) return "loopback"; // 0.0.0.0 reaches the local host on Linux
+            if (a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168)) return "private";
+            if (a === 100 && b >= 64 && b <= 127) return "private"; // Carrier-grade NAT
+            if (a === 169 && b === 254) return "link-local";
+            if (a >= 224) return "reserved"; // Multicast and 240/4
+            return "public";
+        }
+
+        if (address === "::1" || address === "::") return "loopback";
+        if (a === 0xfe && (b & 0xc0) === 0x80) return "link-local"; // fe80::/10
+        if ((a & 0xfe) === 0xfc) return "private"; // fc00::/7 unique local
+        if (a === 0xff) return "reserved"; // Multicast
+        return "public";
+    }
+
+    /**
+     * Layer 3: AI Verification (The Judge)
+     * Calls Workers AI to confirm malicious intent.
+     */
+    protected async aiVerification(
+        normalizedPayload: string,
+        heuristicScore: number,
+        flags: string[]
+    ): Promise<SecurityAssessment> {
+        try {
+            const targets = this.extractTargets(normalizedPayload)
+                .map((t) => `${t.url} -> ${t.address ?? t.host} (${t.category})`)
+                .join("; ");
+
+            const systemPrompt = `You are a specialized Server-Side Request Forgery (SSRF) Security Analyst.
+            Your task is to analyze the provided NORMALIZED payload and decide if it is a malicious attempt to make the server request internal resources.
+
+            Context:
+            - Heuristic Score: ${heuristicScore}
+            - Flags Triggered: ${flags.join(", ")}
+            - Resolved Targets: ${targets}
+
+            Input:
+            "${normalizedPayload}"
+
+            Instructions:
+            1. Analyze strictly for SSRF intent (cloud metadata, loopback and internal network targets, protocol smuggling).
+            2. Ignore SQLi, XSS, or other attack types unless they facilitate SSRF.
+            3. Reduce false positives (e.g. a public webhook URL or a link to a public website is NOT SSRF).
+            4. Respond strictly with the JSON schema provided.
+
+            Response Schema (JSON ONLY):
+            {
+                "attackType": "SSRF",
+                "confidence": "High" | "Medium" | "Low",
+                "riskScore": number (0-100),
+                "explanation": "Brief reasoning",
+                "impact": "Credential Theft" | "Internal Network Access" | "None",
+                "mitigation": "Destination Allowlist" | "Egress Filtering" | "Input Validation" | "None",
+                "action": "block" | "allow" | "flag",
+                "executive_summary": "One line summary"
+            }`;
+
+            const assessment = await this.runJudge(systemPrompt, normalizedPayload);
+
+            // Enforce minimum risk score if AI confirms attack but gives low score
+            if (assessment.action === 'block' && assessment.riskScore < 70) {
+                assessment.riskScore = 75;
+            }
+
+            return assessment;
+
+        } catch (error) {
+            console.error("SSRF Agent AI Verification Failed:", error);
+            // Fallback: If AI fails but Heuristics were high, trust Heuristics
+            return {
+                attackType: "SSRF (Heuristic Fallback)",
+                confidence: "Medium",
+                riskScore: heuristicScore,
+                explanation: `AI Verification failed. Heuristic analysis detected: ${flags.join(", ")}`,
+                impact: "Potential Internal Network Access",
+                mitigation: "Manual Review",
+                action: heuristicScore > 80 ? "block" : "flag",
+                executive_summary: "Heuristic analysis detected URLs pointing at internal or cloud metadata services when AI verification failed.",
+                timestamp: new Date().toISOString()
+            };
+        }
+    }
+}
@@ -0,0 +1,124 @@
+import { Env, AnalyzeRequest, AnalyzeResponse, NetworkContext, WorkflowParams, isAnalyzeRequest } from "./types";
+import { SecurityMemory } from "./memory";
+import { AgentOrchestrator, createDefaultOrchestrator } from "./agents/AgentOrchestrator";
+import { StoredPolicy, loadPolicy, verifyThreshold, shouldCache, applyPolicy } from "./policy";
+import { enrichRequest } from "./enrichment";
+
+/**
+ * On-Demand Analysis (`POST /v1/analyze`)
+ *
+ * Analyzes a single payload outside the traffic pipeline, e.g. from the
+ * dashboard sandbox or a SOC playbook.
+ * - sync (default): checks the Palm (KV), then runs the agent fan-out inline.
+ * - async: triggers SentinelWorkflow, which writes its verdict to the same
+ *   cache key, so a later sync call for the payload returns "cached".
+ *
+ * The cache key is the SHA-256 of the payload alone (results are shared across
+ * callers) and the ID is "scan-<cacheKey>", the workflow instance ID.
+ *
+ * The action policy applies without a route: only its defaults and
+ * attack-type rules affect the verdict.
+ */
+
+export const MAX_PAYLOAD_LENGTH = 100_000;
+
+/**
+ * Analyze one validated request. `network` is the caller's source network,
+ * passed to the workflow for the SOC alert in async mode.
+ * Failures are reported as `status: "error"` rather than thrown.
+ */
+export async function analyzePayload(
+    env: Env,
+    body: AnalyzeRequest,
+    orchestrator: AgentOrchestrator = createDefaultOrchestrator(env),
+    policy?: StoredPolicy,
+    network?: NetworkContext
+): Promise<AnalyzeResponse> {
+    const cacheKey = await SecurityMemory.hash(body.payload);
+    const id = `scan-${cacheKey}`;
+    const memory = new SecurityMemory(env);
+
+    try {
+        policy ??= await loadPolicy(env);
+        const cached = await memory.getAssessment(cacheKey);
+        if (cached) {
+            return { status: "cached", id, cacheKey, assessment: applyPolicy(policy, cached) };
+        }
+
+        if (body.mode === "async") {
+            if (!env.SENTINEL_WORKFLOW) {
+                return { status: "error", id, cacheKey, message: "Async mode requires the SENTINEL_WORKFLOW binding" };
+            }
+            // No sourceIP: the caller is an analyst, not the attacker, and must not be auto-blocked.
+            // Its network still goes into the SOC alert's observables.
+            const params: WorkflowParams = {
+                payload: body.payload,
+                cacheKey,
+                timestamp: new Date().toISOString(),
+                network,
+            };
+            try {
+                await env.SENTINEL_WORKFLOW.create({ id, params });
+                return { status: "workflow_triggered", id, cacheKey };
+            } catch (error) {
+                // Instance IDs are unique: the same payload is already being analyzed
+                if (await workflowExists(env, id)) {
+                    return { status: "workflow_triggered", id, cacheKey, message: "Analysis already in progress" };
+                }
+                throw error;
+            }
+        }
+
+        const assessment = await orchestrator.analyze(body.payload, undefined, verifyThreshold(policy, {}));
+        if (shouldCache(policy, assessment)) {
+            await memory.storeAssessment(cacheKey, assessment);
+        }
+        return { status: "analyzed", id, cacheKey, assessment: applyPolicy(policy, assessment) };
+
+    } catch (error) {
+        console.error("[Analyze] Analysis failed:", error);
+        return { status: "error", id, cacheKey, message: "Analysis failed" };
+    }
+}
+
+/**
+ * HTTP handler: validates the body and maps the result to a status code.
+ */
+export async function handleAnalyzeRequest(
+    request: Request,
+    env: Env,
+    corsHeaders: Record<string, string>
+): Promise<Response> {
+    const json = (body: unknown, status: number) =>
+        new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...corsHeaders } });
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch (e) {
+        return json({ status: "error", message: "Request body must be valid JSON" }, 400);
+    }
+
+    if (!isAnalyzeRequest(body)) {
+        return json({ status: "error", message: "Expected {\"payload\": string, \"mode\"?: \"sync\" | \"async\"}" }, 400);
+    }
+    if (body.payload.trim().length === 0) {
+        return json({ status: "error", message: "payload must not be empty" }, 400);
+    }
+    if (body.payload.length > MAX_PAYLOAD_LENGTH) {
+        return json({ status: "error", message: `payload exceeds ${MAX_PAYLOAD_LENGTH} characters` }, 413);
+    }
+
+    const result = await analyzePayload(env, body, undefined, undefined, enrichRequest(request));
+    const status = result.status === "workflow_triggered" ? 202 : result.status === "error" ? 500 : 200;
+    return json(result, status);
+}
+
+async function workflowExists(env: Env, id: string): Promise<boolean> {
+    try {
+        await env.SENTINEL_WORKFLOW.get(id);
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
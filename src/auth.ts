@@ -0,0 +1,292 @@
+import { Env, ApiKey, ApiScope, AuthPrincipal } from "./types";
+
+/**
+ * Management API Authentication
+ *
+ * Every `/v1/*` route requires an API key, sent as `Authorization: Bearer <key>`
+ * or `X-API-Key: <key>`. Keys carry a scope:
+ * - analyst: read access (GET routes), on-demand analysis, verdict feedback
+ *            and detection exceptions pinned to specific traffic (see
+ *            src/exceptions.ts; exceptions for all traffic need admin).
+ * - admin:   everything, including routes that change state.
+ *
+ * `API_KEY` is the built-in admin key (key id "default"). Additional keys come
+ * from the `API_KEYS` secret, a JSON array:
+ *   [{"id": "soc-dashboard", "key": "...", "scope": "analyst", "rateLimit": 60}]
+ *
+ * Each key is rate limited per minute (KV fixed window), and every admin call
+ * is written to the D1 `admin_audit_log` table, as are analyst calls that
+ * create detection exceptions (AUDITED_ROUTES).
+ */
+
+const DEFAULT_RATE_LIMIT = 120; // Requests per minute per key
+const RATE_WINDOW_SECONDS = 60;
+const RATE_LIMIT_PREFIX = "ratelimit:api:";
+
+const SCOPE_RANK: Record<ApiScope, number> = {
+    analyst: 0,
+    admin: 1,
+};
+
+// Routes whose scope differs from the method default (reads = analyst, writes = admin)
+const ROUTE_SCOPES: Record<string, ApiScope> = {
+    "POST /v1/analyze": "analyst",
+    "POST /v1/analyze/batch": "analyst",
+    "POST /v1/exceptions": "analyst", // Analysts register detection exceptions (audited); deleting one needs admin
+    "GET /v1/events/export": "admin", // Bulk ledger export; admin calls are audited
+    "GET /v1/admin/migrations": "admin",
+};
+
+// Same, for routes with a path parameter
+const ROUTE_PATTERN_SCOPES: { method: string; pattern: RegExp; scope: ApiScope }[] = [
+    { method: "POST", pattern: /^\/v1\/events\/[^/]+\/feedback$/, scope: "analyst" }, // Verdict feedback (src/feedback.ts)
+];
+
+// Analyst routes audited like admin calls: both can create detection exceptions
+const AUDITED_ROUTES: { method: string; pattern: RegExp }[] = [
+    { method: "POST", pattern: /^\/v1\/exceptions$/ },
+    { method: "POST", pattern: /^\/v1\/events\/[^/]+\/feedback$/ },
+];
+
+export type AuthResult =
+    | { ok: true; principal: AuthPrincipal }
+    | { ok: false; principal: AuthPrincipal | null; response: Response };
+
+export interface AdminAuditEntry {
+    keyId: string | null;
+    scope: ApiScope | null;
+    method: string;
+    path: string;
+    status: number;
+    sourceIP: string;
+}
+
+/**
+ * Scope a route requires.
+ */
+export function requiredScope(method: string, pathname: string): ApiScope {
+    const override = ROUTE_SCOPES[`${method} ${pathname}`];
+    if (override) return override;
+    const pattern = ROUTE_PATTERN_SCOPES.find((route) => route.method === method && route.pattern.test(pathname));
+    if (pattern) return pattern.scope;
+    return method === "GET" || method === "HEAD" ? "analyst" : "admin";
+}
+
+/**
+ * All configured API keys: `API_KEY` (admin) plus the entries in `API_KEYS`.
+ * Malformed entries are logged and skipped.
+ */
+export function parseApiKeys(env: Env): ApiKey[] {
+    const keys: ApiKey[] = [];
+    if (env.API_KEY) {
+        keys.push({ id: "default", key: env.API_KEY, scope: "admin" });
+    }
+    if (!env.API_KEYS) return keys;
+
+    try {
+        const parsed = JSON.parse(env.API_KEYS) as unknown;
+        if (!Array.isArray(parsed)) {
+            console.error("[Auth] API_KEYS must be a JSON array");
+            return keys;
+        }
+        for (const entry of parsed) {
+            if (
+                typeof entry === "object" && entry !== null &&
+                typeof entry.id === "string" &&
+                typeof entry.key === "string" && entry.key.length > 0 &&
+                (entry.scope === "analyst" || entry.scope === "admin")
+            ) {
+                keys.push({
+                    id: entry.id,
+                    key: entry.key,
+                    scope: entry.scope,
+                    rateLimit: typeof entry.rateLimit === "number" ? entry.rateLimit : undefined,
+                });
+            } else {
+                console.error("[Auth] Skipping malformed API_KEYS entry");
+            }
+        }
+    } catch (error) {
+        console.error("[Auth] Failed to parse API_KEYS:", error);
+    }
+    return keys;
+}
+
+/**
+ * Read the presented key from `Authorization: Bearer` or `X-API-Key`.
+ */
+export function extractApiKey(request: Request): string | null {
+    const authorization = request.headers.get("Authorization");
+    const bearer = authorization?.match(/^Bearer\s+(.+)$/i);
+    if (bearer) return bearer[1].trim();
+    return request.headers.get("X-API-Key");
+}
+
+/**
+ * Constant-time string comparison. Both sides are hashed first so neither the
+ * content nor the length of a configured key leaks through timing.
+ */
+export async function timingSafeEqual(a: string, b: string): Promise<boolean> {
+    const encoder = new TextEncoder();
+    const [hashA, hashB] = await Promise.all([
+        crypto.subtle.digest("SHA-256", encoder.encode(a)),
+        crypto.subtle.digest("SHA-256", encoder.encode(b)),
+    ]);
+    const bytesA = new Uint8Array(hashA);
+    const bytesB = new Uint8Array(hashB);
+
+    let diff = 0;
+    for (let i = 0; i < bytesA.length; i++) {
+        diff |= bytesA[i] ^ bytesB[i];
+    }
+    return diff === 0;
+}
+
+/**
+ * Resolve the caller for a request, or null if no configured key matches.
+ * Every key is compared (no early exit) so timing doesn't reveal which matched.
+ */
+export async function authenticate(request: Request, env: Env): Promise<AuthPrincipal | null> {
+    const presented = extractApiKey(request);
+    if (!presented) return null;
+
+    let match: ApiKey | null = null;
+    for (const candidate of parseApiKeys(env)) {
+        if (await timingSafeEqual(presented, candidate.key)) {
+            match = match ?? candidate;
+        }
+    }
+    if (!match) return null;
+
+    return {
+        keyId: match.id,
+        scope: match.scope,
+        rateLimit: match.rateLimit ?? defaultRateLimit(env),
+    };
+}
+
+/**
+ * Fixed-window rate limit per key, counted in KV.
+ * KV is eventually consistent, so the limit is approximate under bursts across
+ * locations; it is meant to stop runaway scripts, not to meter billing.
+ */
+export async function checkRateLimit(
+    env: Env,
+    principal: AuthPrincipal
+): Promise<{ allowed: boolean; retryAfter: number }> {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    const windowStart = nowSeconds - (nowSeconds % RATE_WINDOW_SECONDS);
+    const retryAfter = windowStart + RATE_WINDOW_SECONDS - nowSeconds;
+    const key = `${RATE_LIMIT_PREFIX}${principal.keyId}:${windowStart}`;
+
+    try {
+        const count = parseInt((await env.SENTINEL_KV.get(key)) || "0", 10);
+        if (count >= principal.rateLimit) {
+            return { allowed: false, retryAfter };
+        }
+        // KV requires a TTL of at least 60 seconds
+        await env.SENTINEL_KV.put(key, String(count + 1), { expirationTtl: RATE_WINDOW_SECONDS * 2 });
+    } catch (error) {
+        // Fail open: a KV outage must not lock operators out of the API
+        console.error("[Auth] Rate limit check failed:", error);
+    }
+    return { allowed: true, retryAfter };
+}
+
+/**
+ * Authenticate, check scope and apply the rate limit for a management route.
+ * On failure, `response` is the 401/403/429 to return.
+ */
+export async function authorize(
+    request: Request,
+    env: Env,
+    scope: ApiScope,
+    corsHeaders: Record<string, string>
+): Promise<AuthResult> {
+    const principal = await authenticate(request, env);
+    if (!principal) {
+        return {
+            ok: false,
+            principal: null,
+            response: errorResponse(401, "Unauthorized", "Missing or invalid API key", {
+                "WWW-Authenticate": 'Bearer realm="sentinel"',
+                ...corsHeaders,
+            }),
+        };
+    }
+
+    if (SCOPE_RANK[principal.scope] < SCOPE_RANK[scope]) {
+        return {
+            ok: false,
+            principal,
+            response: errorResponse(403, "Forbidden", `This route requires the ${scope} scope`, corsHeaders),
+        };
+    }
+
+    const { allowed, retryAfter } = await checkRateLimit(env, principal);
+    if (!allowed) {
+        return {
+            ok: false,
+            principal,
+            response: errorResponse(429, "Too Many Requests", `Rate limit of ${principal.rateLimit} requests per minute exceeded`, {
+                "Retry-After": String(retryAfter),
+                ...corsHeaders,
+            }),
+        };
+    }
+
+    return { ok: true, principal };
+}
+
+/**
+ * Whether a call belongs in the admin audit log: any call to an admin route
+ * (including rejected attempts) and any call made with an admin key.
+ */
+export function isAdminCall(scope: ApiScope, principal: AuthPrincipal | null): boolean {
+    return scope === "admin" || principal?.scope === "admin";
+}
+
+/**
+ * Whether an analyst route is audited anyway (see AUDITED_ROUTES).
+ */
+export function isAuditedRoute(method: string, pathname: string): boolean {
+    return AUDITED_ROUTES.some((route) => route.method === method && route.pattern.test(pathname));
+}
+
+/**
+ * Write an admin audit entry to D1. Never throws.
+ */
+export async function logAdminAction(env: Env, entry: AdminAuditEntry): Promise<void> {
+    try {
+        await env.DB.prepare(
+            `INSERT INTO admin_audit_log
+            (id, timestamp, key_id, scope, method, path, status, ip_address)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+            .bind(
+                crypto.randomUUID(),
+                new Date().toISOString(),
+                entry.keyId,
+                entry.scope,
+                entry.method,
+                entry.path,
+                entry.status,
+                entry.sourceIP
+            )
+            .run();
+    } catch (error) {
+        console.error("[Auth] Failed to write admin audit log:", error);
+    }
+}
+
+function defaultRateLimit(env: Env): number {
+    const configured = parseInt(env.API_RATE_LIMIT || "", 10);
+    return configured > 0 ? configured : DEFAULT_RATE_LIMIT;
+}
+
+function errorResponse(status: number, error: string, message: string, headers: Record<string, string>): Response {
+    return new Response(JSON.stringify({ error, message }), {
+        status,
+        headers: { "Content-Type": "application/json", ...headers },
+    });
+}
@@ -0,0 +1,183 @@
+import { Env, AnalyzeResponse, BatchAnalyzeResult, isAnalyzeRequest } from "./types";
+import { SecurityMemory } from "./memory";
+import { createDefaultOrchestrator } from "./agents/AgentOrchestrator";
+import { analyzePayload, MAX_PAYLOAD_LENGTH } from "./analyze";
+import { loadPolicy } from "./policy";
+
+/**
+ * Batch Analysis (`POST /v1/analyze/batch`)
+ *
+ * Offline triage for historical request lines (e.g. access logs). The body is
+ * NDJSON, one `AnalyzeRequest` per line; the response streams one
+ * `BatchAnalyzeResult` per input line, in completion order (use `line` to
+ * correlate).
+ *
+ * - Items are deduplicated by the `/v1/analyze` cache key (SHA-256 of the
+ *   payload): repeats in the batch reuse the first verdict ("duplicate"),
+ *   and payloads already in KV are served from cache ("hit").
+ * - Every item runs agent heuristics; AI verification only runs for agents
+ *   above their threshold. At most BATCH_CONCURRENCY items are in flight, and
+ *   since one item can call every agent's judge, Workers AI calls are capped
+ *   separately at BATCH_AI_CONCURRENCY across the batch.
+ * - Items are always analyzed inline; `mode` is ignored.
+ */
+
+export const MAX_BATCH_ITEMS = 5000;
+
+// Workers allow 6 simultaneous outbound connections per request; stay within it
+export const BATCH_CONCURRENCY = 6;
+export const BATCH_AI_CONCURRENCY = 6;
+
+export async function handleBatchAnalyzeRequest(
+    request: Request,
+    env: Env,
+    corsHeaders: Record<string, string>
+): Promise<Response> {
+    if (!request.body) {
+        return new Response(JSON.stringify({ status: "error", message: "Request body must be NDJSON" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json", ...corsHeaders },
+        });
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const encoder = new TextEncoder();
+    const emit = (result: BatchAnalyzeResult) => writer.write(encoder.encode(JSON.stringify(result) + "\n"));
+
+    // Runs after the response is returned; the open stream keeps the request alive
+    const body = request.body;
+    (async () => {
+        try {
+            await analyzeBatch(env, body, emit);
+        } catch (error) {
+            console.error("[Batch] Batch analysis failed:", error);
+            await emit({ line: 0, status: "error", cache: "miss", id: "", cacheKey: "", message: "Batch aborted" }).catch(() => {});
+        }
+        await writer.close();
+    })().catch(async (error) => {
+        // The client went away: writes and close() reject once the stream is cancelled
+        console.error("[Batch] Failed to finish the response stream:", error);
+        await writer.abort(error).catch(() => {});
+    });
+
+    return new Response(readable, {
+        status: 200,
+        headers: { "Content-Type": "application/x-ndjson", ...corsHeaders },
+    });
+}
+
+/**
+ * Analyze every NDJSON line in `body`, calling `emit` once per non-empty line.
+ */
+export async function analyzeBatch(
+    env: Env,
+    body: ReadableStream<Uint8Array>,
+    emit: (result: BatchAnalyzeResult) => Promise<void>
+): Promise<void> {
+    const orchestrator = createDefaultOrchestrator(withAILimit(env, BATCH_AI_CONCURRENCY));
+    const policy = await loadPolicy(env); // One policy version for the whole batch
+    const verdicts = new Map<string, Promise<AnalyzeResponse>>();
+    const inFlight = new Set<Promise<void>>();
+    let items = 0;
+
+    for await (const { line, text } of readLines(body)) {
+        if (text.trim().length === 0) continue;
+
+        if (++items > MAX_BATCH_ITEMS) {
+            await emit({ line, status: "error", cache: "miss", id: "", cacheKey: "", message: `Batch limit of ${MAX_BATCH_ITEMS} items reached; remaining lines skipped` });
+            break;
+        }
+
+        const task = (async () => {
+            let item: unknown;
+            try {
+                item = JSON.parse(text);
+            } catch (e) {
+                await emit({ line, status: "error", cache: "miss", id: "", cacheKey: "", message: "Line is not valid JSON" });
+                return;
+            }
+            if (!isAnalyzeRequest(item) || item.payload.length > MAX_PAYLOAD_LENGTH) {
+                await emit({ line, status: "error", cache: "miss", id: "", cacheKey: "", message: "Expected {\"payload\": string}" });
+                return;
+            }
+
+            const cacheKey = await SecurityMemory.hash(item.payload);
+            const existing = verdicts.get(cacheKey);
+            if (existing) {
+                await emit({ ...(await existing), line, cache: "duplicate" });
+                return;
+            }
+
+            const verdict = analyzePayload(env, { payload: item.payload }, orchestrator, policy);
+            verdicts.set(cacheKey, verdict);
+            const result = await verdict;
+            await emit({ ...result, line, cache: result.status === "cached" ? "hit" : "miss" });
+        })().catch((error) => {
+            // Only emit() can throw here (client went away); the batch keeps draining
+            console.error(`[Batch] Failed to emit line ${line}:`, error);
+        });
+
+        inFlight.add(task);
+        task.finally(() => inFlight.delete(task));
+        if (inFlight.size >= BATCH_CONCURRENCY) {
+            await Promise.race(inFlight);
+        }
+    }
+
+    await Promise.all(inFlight);
+}
+
+/**
+ * `env` with its Workers AI binding limited to `limit` concurrent `run` calls;
+ * later calls wait for a slot.
+ */
+function withAILimit(env: Env, limit: number): Env {
+    const run = env.AI.run.bind(env.AI) as (...args: unknown[]) => Promise<unknown>;
+    const waiting: (() => void)[] = [];
+    let active = 0;
+
+    const limited = async (...args: unknown[]): Promise<unknown> => {
+        while (active >= limit) {
+            await new Promise<void>((resolve) => waiting.push(resolve));
+        }
+        active++;
+        try {
+            return await run(...args);
+        } finally {
+            active--;
+            waiting.shift()?.();
+        }
+    };
+    return { ...env, AI: { run: limited } as unknown as Env["AI"] };
+}
+
+/**
+ * Split a byte stream into lines (1-based line numbers), decoding UTF-8 incrementally.
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<{ line: number; text: string }> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = "";
+    let line = 0;
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            buffered += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+            let newline: number;
+            while ((newline = buffered.indexOf("\n")) !== -1) {
+                yield { line: ++line, text: buffered.slice(0, newline) };
+                buffered = buffered.slice(newline + 1);
+            }
+
+            if (done) {
+                if (buffered.length > 0) yield { line: ++line, text: buffered };
+                return;
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
@@ -0,0 +1,174 @@
+import { Env, MitigationMode } from "./types";
+import { parseCIDR } from "./net";
+
+/**
+ * Cloudflare API Client (IP Access Rules)
+ *
+ * Zone-level IP Access Rules back Sentinel's mitigations at the edge, before
+ * the Worker runs. Used by SentinelWorkflow (`mitigate-threat`) and the
+ * mitigation management API. Requires CLOUDFLARE_API_TOKEN (Zone → Firewall
+ * Services → Edit) and CLOUDFLARE_ZONE_ID.
+ * API: https://developers.cloudflare.com/api/resources/firewall/subresources/access_rules/
+ */
+
+const API_BASE = "https://api.cloudflare.com/client/v4";
+
+// Notes prefix on rules created by SentinelWorkflow's auto-mitigation
+export const AUTO_BLOCK_NOTE = "Auto-blocked by Sentinel AI";
+// Notes prefix on rules created through the mitigation management API
+export const MANUAL_BLOCK_NOTE = "Blocked by Sentinel AI (manual)";
+// CIDR prefix lengths IP Access Rules accept as `ip_range`
+export const ACCESS_RULE_PREFIXES: Readonly<Record<4 | 6, readonly number[]>> = { 4: [16, 24], 6: [32, 48, 64] };
+
+const LIST_PAGE_SIZE = 500;
+
+export type AccessRuleMode = "block" | "managed_challenge";
+
+export class CloudflareApiError extends Error {
+    constructor(public readonly status: number, message: string, public readonly retryAfter: string | null = null) {
+        super(message);
+        this.name = "CloudflareApiError";
+    }
+}
+
+export interface AccessRuleInput {
+    target: string; // IP or CIDR range
+    mode: AccessRuleMode;
+    notes: string;
+}
+
+export interface AccessRule {
+    id: string;
+    mode: string;
+    notes: string;
+    configuration: { target: string; value: string };
+    created_on: string;
+}
+
+export function isCloudflareConfigured(env: Env): boolean {
+    return Boolean(env.CLOUDFLARE_API_TOKEN && env.CLOUDFLARE_ZONE_ID);
+}
+
+/**
+ * Access rule mode for a Sentinel mitigation mode; null for modes that have
+ * no edge rule (`track`).
+ */
+export function accessRuleMode(mode: MitigationMode): AccessRuleMode | null {
+    if (mode === "block") return "block";
+    if (mode === "challenge") return "managed_challenge";
+    return null;
+}
+
+/**
+ * Whether a stored ruleId refers to a Cloudflare rule rather than a local
+ * marker ("tracked-only", "ips-blocked-...").
+ */
+export function isAccessRuleId(ruleId: string | null | undefined): ruleId is string {
+    return typeof ruleId === "string" && /^[0-9a-f]{32}$/i.test(ruleId);
+}
+
+/**
+ * Whether a rule was created by Sentinel (workflow or management API), going
+ * by the notes prefix.
+ */
+export function isSentinelRule(rule: Pick<AccessRule, "notes">): boolean {
+    return rule.notes.startsWith(AUTO_BLOCK_NOTE) || rule.notes.startsWith(MANUAL_BLOCK_NOTE);
+}
+
+/**
+ * Create an IP Access Rule. Returns the rule ID.
+ */
+export async function createAccessRule(env: Env, input: AccessRuleInput): Promise<string> {
+    const { result } = await callApi<{ id: string }>(env, "POST", "", {
+        mode: input.mode,
+        configuration: accessRuleConfiguration(input.target),
+        notes: input.notes,
+    });
+    return result.id;
+}
+
+/**
+ * Change the mode and/or notes of an existing rule.
+ */
+export async function updateAccessRule(
+    env: Env,
+    ruleId: string,
+    changes: { mode?: AccessRuleMode; notes?: string }
+): Promise<void> {
+    await callApi(env, "PATCH", `/${ruleId}`, changes);
+}
+
+/**
+ * Delete a rule. A rule that no longer exists counts as deleted.
+ */
+export async function deleteAccessRule(env: Env, ruleId: string): Promise<void> {
+    try {
+        await callApi(env, "DELETE", `/${ruleId}`);
+    } catch (error) {
+        if (error instanceof CloudflareApiError && error.status === 404) return;
+        throw error;
+    }
+}
+
+/**
+ * All rules whose notes contain `notes` (case-insensitive, as matched by the
+ * API), following `result_info` pagination to the last page.
+ */
+export async function listAccessRules(env: Env, notes: string): Promise<AccessRule[]> {
+    const rules: AccessRule[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+        const query = new URLSearchParams({ notes, page: String(page), per_page: String(LIST_PAGE_SIZE) });
+        const { result, result_info } = await callApi<AccessRule[]>(env, "GET", `?${query}`);
+        rules.push(...result);
+        totalPages = result_info?.total_pages ?? page;
+        page++;
+    } while (page <= totalPages);
+
+    return rules;
+}
+
+/**
+ * `configuration` for a target: a single address is `ip` / `ip6`, a range is
+ * `ip_range` (only ACCESS_RULE_PREFIXES; callers validate ranges up front).
+ */
+function accessRuleConfiguration(target: string): { target: "ip" | "ip6" | "ip_range"; value: string } {
+    const range = parseCIDR(target);
+    if (range && range.prefixLength < range.bytes.length * 8) {
+        return { target: "ip_range", value: target };
+    }
+    return { target: range?.version === 6 ? "ip6" : "ip", value: target };
+}
+
+interface ApiResponse<T> {
+    result: T;
+    result_info?: { page: number; per_page: number; total_pages: number; total_count: number };
+}
+
+async function callApi<T = unknown>(env: Env, method: string, path: string, body?: unknown): Promise<ApiResponse<T>> {
+    if (!isCloudflareConfigured(env)) {
+        throw new CloudflareApiError(0, "CLOUDFLARE_API_TOKEN and CLOUDFLARE_ZONE_ID are not configured");
+    }
+
+    const response = await fetch(`${API_BASE}/zones/${env.CLOUDFLARE_ZONE_ID}/firewall/access_rules/rules${path}`, {
+        method,
+        headers: {
+            "Authorization": `Bearer ${env.CLOUDFLARE_API_TOKEN}`,
+            "Content-Type": "application/json",
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (response.status === 429) {
+        const retryAfter = response.headers.get("Retry-After");
+        throw new CloudflareApiError(429, `Rate limited by Cloudflare API (429). Retry after ${retryAfter}s`, retryAfter);
+    }
+    if (!response.ok) {
+        const errorBody = await response.text();
+        throw new CloudflareApiError(response.status, `Cloudflare API returned ${response.status}: ${errorBody}`);
+    }
+
+    return await response.json() as ApiResponse<T>;
+}
@@ -0,0 +1,174 @@
+import { RequestBody, RequestContext, RequestInput, InputReference } from "./types";
+
+/**
+ * Request Decomposition
+ *
+ * Splits an incoming request into named inputs (query parameters, body fields,
+ * cookies, selected headers and the path) so every agent scores each value on
+ * its own. A detection can then name the exact parameter that was malicious,
+ * and a `key=value` from the query no longer blends into body text.
+ */
+
+// Headers that carry attacker-controlled content worth inspecting
+export const INSPECTED_HEADERS = ["user-agent", "referer", "origin", "x-forwarded-for", "x-forwarded-host"] as const;
+
+// Parameter names outside this shape are analyzed as values too ("?<svg onload=alert(1)>")
+const PLAIN_NAME = /^[\w.\-[\]]*$/;
+
+/**
+ * Build the RequestContext for a request.
+ * The body is read from a clone, so the original request can still be forwarded.
+ */
+export async function buildRequestContext(request: Request, url: URL): Promise<RequestContext> {
+    const query: Record<string, string[]> = emptyRecord();
+    url.searchParams.forEach((value, key) => appendValue(query, key, value));
+
+    const headers: Record<string, string> = emptyRecord();
+    for (const name of INSPECTED_HEADERS) {
+        const value = request.headers.get(name);
+        if (value) headers[name] = value;
+    }
+
+    return {
+        method: request.method,
+        path: url.pathname,
+        query,
+        body: await parseBody(request),
+        cookies: parseCookies(request.headers.get("Cookie")),
+        headers,
+    };
+}
+
+/**
+ * Parse the body by Content-Type: JSON, URL-encoded form, multipart or plain text.
+ * A body that fails to parse as its declared type is kept as raw text.
+ */
+export async function parseBody(request: Request): Promise<RequestBody> {
+    if (!["POST", "PUT", "PATCH"].includes(request.method) || !request.body) {
+        return { type: "none", fields: emptyRecord() };
+    }
+
+    const contentType = (request.headers.get("Content-Type") || "").toLowerCase();
+    const fields: Record<string, string[]> = emptyRecord();
+
+    try {
+        if (contentType.includes("multipart/form-data")) {
+            const form = await request.clone().formData();
+            form.forEach((value, key) => {
+                // Uploaded file contents are not inspected, but the client-supplied filename is
+                appendValue(fields, key, typeof value === "string" ? value : value.name);
+            });
+            return { type: "multipart", fields };
+        }
+
+        const text = await request.clone().text();
+        if (text.length === 0) return { type: "none", fields };
+
+        if (contentType.includes("application/x-www-form-urlencoded")) {
+            new URLSearchParams(text).forEach((value, key) => appendValue(fields, key, value));
+            return { type: "form", fields };
+        }
+
+        if (contentType.includes("json")) {
+            try {
+                flattenJSON(JSON.parse(text), "", fields);
+                return { type: "json", fields };
+            } catch (e) {
+                // Malformed JSON, analyze as raw text below
+            }
+        }
+
+        fields[""] = [text];
+        return { type: "text", fields };
+    } catch (error) {
+        console.error("[Context] Failed to read request body:", error);
+        return { type: "none", fields };
+    }
+}
+
+/**
+ * Split a Cookie header into name -> value. Values are URL-decoded when possible.
+ */
+export function parseCookies(header: string | null): Record<string, string> {
+    const cookies: Record<string, string> = emptyRecord();
+    if (!header) return cookies;
+
+    for (const pair of header.split(";")) {
+        const index = pair.indexOf("=");
+        const name = (index === -1 ? pair : pair.slice(0, index)).trim();
+        const value = index === -1 ? "" : pair.slice(index + 1).trim();
+        if (!name) continue;
+        try {
+            cookies[name] = decodeURIComponent(value);
+        } catch (e) {
+            cookies[name] = value;
+        }
+    }
+    return cookies;
+}
+
+/**
+ * Flatten a JSON document into field paths: {"user": {"tags": ["a"]}} -> "user.tags[0]" = "a".
+ */
+export function flattenJSON(value: unknown, path: string, fields: Record<string, string[]>): void {
+    if (Array.isArray(value)) {
+        value.forEach((item, index) => flattenJSON(item, `${path}[${index}]`, fields));
+    } else if (typeof value === "object" && value !== null) {
+        for (const [key, child] of Object.entries(value)) {
+            flattenJSON(child, path ? `${path}.${key}` : key, fields);
+        }
+    } else if (value !== null && value !== undefined) {
+        appendValue(fields, path, String(value));
+    }
+}
+
+/**
+ * Every non-empty value in the context, in a stable order:
+ * path, query, body, cookies, headers.
+ */
+export function flattenInputs(context: RequestContext): RequestInput[] {
+    const inputs: RequestInput[] = [{ location: "path", name: "", value: context.path }];
+
+    const addFields = (location: "query" | "body", fields: Record<string, string[]>) => {
+        for (const [name, values] of Object.entries(fields)) {
+            if (!PLAIN_NAME.test(name)) inputs.push({ location, name, value: name });
+            for (const value of values) {
+                if (value) inputs.push({ location, name, value });
+            }
+        }
+    };
+    addFields("query", context.query);
+    addFields("body", context.body.fields);
+
+    for (const [name, value] of Object.entries(context.cookies)) {
+        if (value) inputs.push({ location: "cookie", name, value });
+    }
+    for (const [name, value] of Object.entries(context.headers)) {
+        inputs.push({ location: "header", name, value });
+    }
+    return inputs;
+}
+
+/**
+ * Human-readable input name: "query.id", "cookie.session", "body.user.name", "path".
+ */
+export function formatInputName(input: InputReference): string {
+    return input.name ? `${input.location}.${input.name}` : input.location;
+}
+
+/**
+ * Stable text form of a context, used as the cache fingerprint and the D1 payload preview.
+ */
+export function serializeContext(context: RequestContext): string {
+    const inputs = flattenInputs(context).map((input) => `${formatInputName(input)}=${input.value}`);
+    return [`${context.method} ${context.path}`, ...inputs.slice(1)].join(" ");
+}
+
+function appendValue(target: Record<string, string[]>, key: string, value: string): void {
+    (target[key] ??= []).push(value);
+}
+
+// Prototype-less, so attacker-chosen names like "__proto__" are ordinary keys
+function emptyRecord<T>(): Record<string, T> {
+    return Object.create(null);
+}
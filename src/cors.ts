@@ -0,0 +1,42 @@
+import { Env } from "./types";
+
+/**
+ * CORS Allowlist
+ *
+ * `CORS_ALLOWED_ORIGINS` is a comma-separated list of origins allowed to call
+ * the API from a browser (e.g. "https://sentinel-dashboard.pages.dev").
+ * "*" allows any origin; unset allows none. Allowed origins are echoed back
+ * individually, never as a wildcard, so credentials headers keep working.
+ */
+
+export const CORS_ALLOWED_METHODS = "GET, POST, PUT, PATCH, DELETE, OPTIONS";
+export const CORS_ALLOWED_HEADERS = "Content-Type, Authorization, X-API-Key";
+
+export function parseAllowedOrigins(raw: string | undefined): string[] {
+    if (!raw) return [];
+    return raw
+        .split(",")
+        .map((origin) => origin.trim().replace(/\/+$/, "").toLowerCase())
+        .filter((origin) => origin.length > 0);
+}
+
+/**
+ * CORS headers for a request. Empty when the request's Origin isn't allowed.
+ */
+export function buildCorsHeaders(request: Request, env: Env): Record<string, string> {
+    const origin = request.headers.get("Origin");
+    if (!origin) return {};
+
+    const allowed = parseAllowedOrigins(env.CORS_ALLOWED_ORIGINS);
+    if (!allowed.includes("*") && !allowed.includes(origin.toLowerCase())) {
+        return { "Vary": "Origin" };
+    }
+
+    return {
+        "Access-Control-Allow-Origin": origin,
+        "Access-Control-Allow-Methods": CORS_ALLOWED_METHODS,
+        "Access-Control-Allow-Headers": CORS_ALLOWED_HEADERS,
+        "Access-Control-Max-Age": "86400",
+        "Vary": "Origin",
+    };
+}
@@ -0,0 +1,48 @@
+import { NetworkContext } from "./types";
+import { parseIP, formatIP } from "./net";
+
+/**
+ * Network Enrichment
+ *
+ * Captures who a request came from, network-wise: the normalized client IP
+ * and the geo/ASN/TLS fields Cloudflare attaches as `request.cf`. Stored on
+ * every ledger event and added to SOC alert observables so analysts can pivot
+ * on an ASN or country instead of a single IP.
+ */
+
+/**
+ * Network context for an incoming request. Fields Cloudflare didn't provide
+ * (e.g. `wrangler dev` without a cf object) are null.
+ */
+export function enrichRequest(request: Request): NetworkContext {
+    const cf = (request.cf ?? {}) as Record<string, unknown>;
+    const { ip, version } = normalizeIP(request.headers.get("CF-Connecting-IP"));
+
+    return {
+        ip,
+        ipVersion: version,
+        asn: typeof cf.asn === "number" ? cf.asn : null,
+        asOrganization: stringField(cf.asOrganization),
+        country: stringField(cf.country) ?? stringField(request.headers.get("CF-IPCountry")),
+        city: stringField(cf.city),
+        region: stringField(cf.region),
+        colo: stringField(cf.colo),
+        tlsVersion: stringField(cf.tlsVersion),
+        httpProtocol: stringField(cf.httpProtocol),
+    };
+}
+
+/**
+ * Canonical form of a client IP, so one address can't appear under several
+ * spellings in the ledger, cache keys or mitigation keys. IPv4-mapped IPv6
+ * ("::ffff:203.0.113.5") becomes plain IPv4.
+ */
+export function normalizeIP(raw: string | null): { ip: string; version: 4 | 6 | null } {
+    const parsed = raw ? parseIP(raw.trim()) : null;
+    if (!parsed) return { ip: "unknown", version: null };
+    return { ip: formatIP(parsed), version: parsed.version };
+}
+
+function stringField(value: unknown): string | null {
+    return typeof value === "string" && value.length > 0 ? value : null;
+}
@@ -0,0 +1,366 @@
+import { Env, SecurityAssessment, SecurityEvent, SecurityEventDetail } from "./types";
+import { normalizeIP } from "./enrichment";
+
+/**
+ * Forensic Ledger Queries (`GET /v1/events`, `GET /v1/events/:id`)
+ *
+ * Reads back the D1 `security_events` table written by `logSecurityEvent`.
+ * Events are returned newest first and paginated with an opaque cursor over
+ * `(timestamp, id)`, so pages stay stable while new events are inserted.
+ *
+ * Filters (all optional):
+ *   from, to          ISO-8601 time range (from inclusive, to exclusive)
+ *   ip                exact source IP
+ *   asn, country      source network (ASN number, ISO country code)
+ *   attack_type       exact attack type (case-insensitive)
+ *   action            allow | block | flag
+ *   min_risk, max_risk  risk score range (inclusive)
+ *   would_block       true | false: shadow-mode events that would / wouldn't have been blocked
+ *   q                 full-text search over payload_preview (FTS5)
+ *   limit             page size, default 50, max 200
+ *   cursor            `nextCursor` from the previous page
+ */
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const EVENT_COLUMNS =
+    "id, timestamp, ip_address, country, asn, as_organization, city, colo, tls_version, request_method, request_path, attack_type, risk_score, action, payload_preview, matched_input, agent, cache_hit, rule_id, would_block";
+
+export interface EventFilters {
+    from?: string;
+    to?: string;
+    ip?: string;
+    asn?: number;
+    country?: string;
+    attackType?: string;
+    action?: SecurityAssessment["action"];
+    minRisk?: number;
+    maxRisk?: number;
+    wouldBlock?: boolean;
+    search?: string;
+}
+
+export interface EventQuery extends EventFilters {
+    limit: number;
+    cursor?: EventCursor;
+}
+
+export interface EventCursor {
+    timestamp: string;
+    id: string;
+}
+
+export class EventQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "EventQueryError";
+    }
+}
+
+export interface EventRow {
+    id: string;
+    timestamp: string;
+    ip_address: string | null;
+    country: string | null;
+    request_path: string | null;
+    attack_type: string | null;
+    risk_score: number | null;
+    action: string | null;
+    payload_preview: string | null;
+    matched_input: string | null;
+    agent: string | null;
+    cache_hit: number | null;
+    request_method: string | null;
+    rule_id: string | null;
+    asn: number | null;
+    as_organization: string | null;
+    city: string | null;
+    colo: string | null;
+    tls_version: string | null;
+    would_block: number | null;
+    metadata?: string | null;
+}
+
+/**
+ * Parse the shared filter parameters. Throws EventQueryError on invalid input.
+ */
+export function parseEventFilters(params: URLSearchParams): EventFilters {
+    const filters: EventFilters = {};
+
+    for (const key of ["from", "to"] as const) {
+        const value = params.get(key);
+        if (value === null) continue;
+        const date = new Date(value);
+        if (isNaN(date.getTime())) throw new EventQueryError(`${key} must be an ISO-8601 timestamp`);
+        filters[key] = date.toISOString();
+    }
+
+    const ip = params.get("ip");
+    if (ip) {
+        // Match the normalized form stored by the ledger ("::ffff:1.2.3.4" -> "1.2.3.4")
+        const normalized = normalizeIP(ip);
+        filters.ip = normalized.version ? normalized.ip : ip;
+    }
+
+    const asn = params.get("asn");
+    if (asn !== null) {
+        const parsed = Number(asn.replace(/^AS/i, ""));
+        if (!Number.isInteger(parsed) || parsed < 0) throw new EventQueryError("asn must be an AS number");
+        filters.asn = parsed;
+    }
+
+    const country = params.get("country");
+    if (country) filters.country = country.toUpperCase();
+
+    const attackType = params.get("attack_type");
+    if (attackType) filters.attackType = attackType;
+
+    const action = params.get("action");
+    if (action !== null) {
+        if (action !== "allow" && action !== "block" && action !== "flag") {
+            throw new EventQueryError("action must be one of allow, block, flag");
+        }
+        filters.action = action;
+    }
+
+    filters.minRisk = parseRisk(params, "min_risk");
+    filters.maxRisk = parseRisk(params, "max_risk");
+
+    const wouldBlock = params.get("would_block");
+    if (wouldBlock !== null) {
+        if (wouldBlock !== "true" && wouldBlock !== "false") {
+            throw new EventQueryError("would_block must be true or false");
+        }
+        filters.wouldBlock = wouldBlock === "true";
+    }
+
+    const search = params.get("q")?.trim();
+    if (search) filters.search = search;
+
+    return filters;
+}
+
+/**
+ * Parse `GET /v1/events` query parameters. Throws EventQueryError on invalid input.
+ */
+export function parseEventQuery(params: URLSearchParams): EventQuery {
+    const query: EventQuery = { ...parseEventFilters(params), limit: DEFAULT_PAGE_SIZE };
+
+    const limit = params.get("limit");
+    if (limit !== null) {
+        const parsed = Number(limit);
+        if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_PAGE_SIZE) {
+            throw new EventQueryError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+        }
+        query.limit = parsed;
+    }
+
+    const cursor = params.get("cursor");
+    if (cursor) query.cursor = decodeCursor(cursor);
+
+    return query;
+}
+
+/**
+ * WHERE clause (without the keyword) and bindings for a set of filters.
+ */
+export function buildEventFilterClause(filters: EventFilters): { clause: string; bindings: unknown[] } {
+    const conditions: string[] = [];
+    const bindings: unknown[] = [];
+
+    if (filters.from) { conditions.push("timestamp >= ?"); bindings.push(filters.from); }
+    if (filters.to) { conditions.push("timestamp < ?"); bindings.push(filters.to); }
+    if (filters.ip) { conditions.push("ip_address = ?"); bindings.push(filters.ip); }
+    if (filters.asn !== undefined) { conditions.push("asn = ?"); bindings.push(filters.asn); }
+    if (filters.country) { conditions.push("country = ?"); bindings.push(filters.country); }
+    if (filters.attackType) { conditions.push("attack_type = ? COLLATE NOCASE"); bindings.push(filters.attackType); }
+    if (filters.action) { conditions.push("action = ?"); bindings.push(filters.action); }
+    if (filters.minRisk !== undefined) { conditions.push("risk_score >= ?"); bindings.push(filters.minRisk); }
+    if (filters.maxRisk !== undefined) { conditions.push("risk_score <= ?"); bindings.push(filters.maxRisk); }
+    if (filters.wouldBlock !== undefined) { conditions.push("would_block = ?"); bindings.push(filters.wouldBlock ? 1 : 0); }
+    if (filters.search) {
+        conditions.push("rowid IN (SELECT rowid FROM security_events_fts WHERE security_events_fts MATCH ?)");
+        bindings.push(toFtsQuery(filters.search));
+    }
+
+    return { clause: conditions.length > 0 ? conditions.join(" AND ") : "1 = 1", bindings };
+}
+
+/**
+ * One page of events, newest first.
+ */
+export async function queryEvents(
+    env: Env,
+    query: EventQuery
+): Promise<{ events: SecurityEvent[]; nextCursor: string | null }> {
+    // Fetch one extra row to know whether another page exists
+    const results = await selectEventRows(env, query, query.limit + 1, query.cursor);
+
+    const rows = results.slice(0, query.limit);
+    const last = rows[rows.length - 1];
+    const nextCursor = results.length > query.limit && last
+        ? encodeCursor({ timestamp: last.timestamp, id: last.id })
+        : null;
+
+    return { events: rows.map(toSecurityEvent), nextCursor };
+}
+
+/**
+ * Raw rows matching `filters`, newest first, strictly after `cursor`.
+ */
+export async function selectEventRows(
+    env: Env,
+    filters: EventFilters,
+    limit: number,
+    cursor?: EventCursor,
+    withMetadata = false
+): Promise<EventRow[]> {
+    const { clause, bindings } = buildEventFilterClause(filters);
+    let where = clause;
+
+    if (cursor) {
+        where += " AND (timestamp < ? OR (timestamp = ? AND id < ?))";
+        bindings.push(cursor.timestamp, cursor.timestamp, cursor.id);
+    }
+
+    const columns = withMetadata ? `${EVENT_COLUMNS}, metadata` : EVENT_COLUMNS;
+    const { results } = await env.DB.prepare(
+        `SELECT ${columns} FROM security_events WHERE ${where} ORDER BY timestamp DESC, id DESC LIMIT ?`
+    )
+        .bind(...bindings, limit)
+        .all<EventRow>();
+
+    return results;
+}
+
+/**
+ * A single event with its parsed metadata (including the stored full assessment).
+ */
+export async function getEvent(env: Env, id: string): Promise<SecurityEventDetail | null> {
+    const row = await env.DB.prepare(`SELECT ${EVENT_COLUMNS}, metadata FROM security_events WHERE id = ?`)
+        .bind(id)
+        .first<EventRow>();
+    return row ? toSecurityEventDetail(row) : null;
+}
+
+/**
+ * HTTP handler for `GET /v1/events` and `GET /v1/events/:id`.
+ */
+export async function handleEventsRequest(
+    url: URL,
+    env: Env,
+    corsHeaders: Record<string, string>
+): Promise<Response> {
+    const json = (body: unknown, status = 200) =>
+        new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...corsHeaders } });
+
+    try {
+        if (url.pathname === "/v1/events") {
+            const { events, nextCursor } = await queryEvents(env, parseEventQuery(url.searchParams));
+            return json({ success: true, events, nextCursor });
+        }
+
+        const id = decodeEventId(url.pathname.slice("/v1/events/".length));
+        const event = await getEvent(env, id);
+        if (!event) {
+            return json({ error: "Not Found", message: `No event with id ${id}` }, 404);
+        }
+        return json({ success: true, event });
+
+    } catch (error) {
+        if (error instanceof EventQueryError) {
+            return json({ error: "Bad Request", message: error.message }, 400);
+        }
+        console.error("[Events] Query failed:", error);
+        return json({ error: "Internal Server Error", message: "Failed to query security events" }, 500);
+    }
+}
+
+/**
+ * URL-decode an event id path segment. Throws EventQueryError on malformed
+ * escapes such as "%E0".
+ */
+export function decodeEventId(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch (e) {
+        throw new EventQueryError("event id is not a valid URL-encoded string");
+    }
+}
+
+export function toSecurityEvent(row: EventRow): SecurityEvent {
+    return {
+        id: row.id,
+        timestamp: row.timestamp,
+        ipAddress: row.ip_address,
+        country: row.country,
+        requestPath: row.request_path,
+        attackType: row.attack_type,
+        riskScore: row.risk_score,
+        action: row.action as SecurityEvent["action"],
+        payloadPreview: row.payload_preview,
+        matchedInput: row.matched_input,
+        agent: row.agent,
+        cacheHit: row.cache_hit === null ? null : row.cache_hit === 1,
+        requestMethod: row.request_method,
+        ruleId: row.rule_id,
+        asn: row.asn,
+        asOrganization: row.as_organization,
+        city: row.city,
+        colo: row.colo,
+        tlsVersion: row.tls_version,
+        wouldBlock: row.would_block === null ? null : row.would_block === 1,
+    };
+}
+
+export function toSecurityEventDetail(row: EventRow): SecurityEventDetail {
+    let metadata: Record<string, unknown> | null = null;
+    if (row.metadata) {
+        try {
+            metadata = JSON.parse(row.metadata);
+        } catch (error) {
+            console.error(`[Events] Unparsable metadata for event ${row.id}:`, error);
+        }
+    }
+    return { ...toSecurityEvent(row), metadata };
+}
+
+/**
+ * Quote every term so attack payloads ("' OR 1=1 --") are searched literally
+ * instead of being parsed as FTS5 query syntax. Terms are ANDed.
+ */
+export function toFtsQuery(search: string): string {
+    return search
+        .split(/\s+/)
+        .filter((term) => term.length > 0)
+        .map((term) => `"${term.replace(/"/g, '""')}"`)
+        .join(" ");
+}
+
+export function encodeCursor(cursor: EventCursor): string {
+    return btoa(JSON.stringify([cursor.timestamp, cursor.id]))
+        .replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeCursor(value: string): EventCursor {
+    try {
+        const parsed = JSON.parse(atob(value.replace(/-/g, "+").replace(/_/g, "/")));
+        if (Array.isArray(parsed) && typeof parsed[0] === "string" && typeof parsed[1] === "string") {
+            return { timestamp: parsed[0], id: parsed[1] };
+        }
+    } catch (e) {
+        // Fall through to the error below
+    }
+    throw new EventQueryError("cursor is invalid");
+}
+
+function parseRisk(params: URLSearchParams, key: string): number | undefined {
+    const value = params.get(key);
+    if (value === null) return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > 100) {
+        throw new EventQueryError(`${key} must be a number between 0 and 100`);
+    }
+    return parsed;
+}
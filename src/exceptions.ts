@@ -0,0 +1,391 @@
+import { AuthPrincipal, Env, NetworkContext, RequestInput } from "./types";
+import { parseCIDR, parseIP, cidrContains } from "./net";
+import { canonicalTarget } from "./mitigations";
+import { matchesRoute } from "./ratelimit";
+import { formatInputName } from "./context";
+import { SecurityMemory } from "./memory";
+
+/**
+ * Detection Exceptions (`/v1/exceptions`)
+ *
+ * Some applications legitimately send what looks like an attack: a CMS saves
+ * HTML, a help text reads "Select a valid option from the table". An
+ * exception rule suppresses agents or heuristic flags for the traffic it
+ * matches, so the suppressed flags neither count towards the heuristic score
+ * nor reach the AI judge:
+ *
+ *   {
+ *     "match": { "path": "/cms/save", "methods": ["POST"], "input": "body.content" },
+ *     "suppress": { "agents": ["SQLiAgent"], "flags": ["Multiple SQL Keywords"] },
+ *     "reason": "CMS help texts quote SQL keywords",
+ *     "ttlSeconds": 2592000
+ *   }
+ *
+ * `match` (every given field must match, at least one is required):
+ *   path         route pattern, `*` matches anything ("/cms/*")
+ *   methods      HTTP methods
+ *   ip           source IP or CIDR range
+ *   header       {"name", "value"}: request header with exactly this value
+ *   input        request input as named in the ledger ("body.content", "query.q", "path"); `*` allowed
+ *   payloadHash  hex SHA-256 of the input value
+ * `suppress` (at least one):
+ *   agents       only these agents; without `flags` their whole heuristic result is dropped
+ *   flags        heuristic flags to drop, as listed in `agentResults[].flags`
+ *
+ * Rules not pinned to specific traffic need an admin key: without an ip,
+ * header or payloadHash, a path with a literal segment ("/cms/*", not "/*")
+ * or an input naming a field ("body.content", "query.q*", not "body.*" or
+ * "*.*"), a rule can switch agents off everywhere, whether it drops them
+ * whole or lists all their flags.
+ *
+ * The agent's score is recomputed from its remaining flags; the source
+ * reputation modifier is still added. Every suppression is recorded on the
+ * assessment as `exceptions` (rule id, agent, input, flags).
+ *
+ * Rules are stored in KV as `exception:<id>` and expire with the record. They
+ * are cached in the isolate for EXCEPTION_CACHE_TTL_MS, like mitigations. The
+ * traffic pipeline adds the ids of the rules matching a request to its cache
+ * key, so verdicts cached before a rule existed are not reused.
+ * Exceptions apply to the traffic pipeline only: `/v1/analyze` has no request
+ * to match against.
+ *
+ * Management API (every create is written to the admin audit log):
+ *   GET    /v1/exceptions       list rules (analyst)
+ *   POST   /v1/exceptions       {"match", "suppress", "reason", "ttlSeconds"?} (analyst)
+ *   DELETE /v1/exceptions/:id   delete a rule (admin)
+ */
+
+export const EXCEPTION_PREFIX = "exception:";
+export const EXCEPTION_CACHE_TTL_MS = 30_000;
+export const DEFAULT_EXCEPTION_TTL_SECONDS = 60 * 60 * 24 * 30; // 30 days
+export const MAX_EXCEPTION_TTL_SECONDS = 60 * 60 * 24 * 365; // 1 year
+const MIN_TTL_SECONDS = 60; // KV minimum
+const MAX_REASON_LENGTH = 500;
+const MAX_LIST_ENTRIES = 50;
+const SPECIFIC_INPUT = /^(query|body|cookie|header)\.[^*]+$/; // Literal prefix of an input glob that names a field
+
+export interface ExceptionCriteria {
+    path?: string;
+    methods?: string[];
+    ip?: string; // Canonical IP or CIDR
+    header?: { name: string; value: string }; // Lowercase name
+    input?: string;
+    payloadHash?: string; // Lowercase hex
+}
+
+export interface ExceptionSuppression {
+    agents?: string[];
+    flags?: string[];
+}
+
+export interface ExceptionRule {
+    id: string;
+    match: ExceptionCriteria;
+    suppress: ExceptionSuppression;
+    reason: string;
+    createdBy: string; // API key id
+    createdAt: string;
+    expiresAt: string;
+}
+
+export class ExceptionRequestError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+        this.name = "ExceptionRequestError";
+    }
+}
+
+// Per-isolate cache of the stored rules
+let exceptionCache: { loadedAt: number; rules: ExceptionRule[] } | null = null;
+
+/**
+ * Rules whose request-level criteria (path, methods, ip, header) match.
+ * Input-level criteria are checked per input by the agents (see inputExceptions).
+ */
+export async function findExceptions(
+    env: Env,
+    request: Request,
+    url: URL,
+    network: NetworkContext,
+    now: number = Date.now()
+): Promise<ExceptionRule[]> {
+    const rules = await loadExceptions(env, now);
+    if (rules.length === 0) return [];
+
+    const ip = parseIP(network.ip);
+    return rules.filter(({ match, expiresAt }) => {
+        if (Date.parse(expiresAt) <= now) return false;
+        if (match.path !== undefined && !matchesRoute(match.path, url.pathname)) return false;
+        if (match.methods !== undefined && !match.methods.includes(request.method)) return false;
+        if (match.ip !== undefined) {
+            const range = parseCIDR(match.ip);
+            if (!ip || !range || !cidrContains(range, ip)) return false;
+        }
+        if (match.header !== undefined && request.headers.get(match.header.name) !== match.header.value) return false;
+        return true;
+    });
+}
+
+/**
+ * Rules from `rules` (already matched to the request) that apply to one
+ * agent on one input. `payloadHash` is the input value's hash, when any rule
+ * matches on it.
+ */
+export function inputExceptions(
+    rules: readonly ExceptionRule[],
+    agent: string,
+    input: RequestInput,
+    payloadHash?: string
+): ExceptionRule[] {
+    return rules.filter(({ match, suppress }) => {
+        if (suppress.agents !== undefined && !suppress.agents.includes(agent)) return false;
+        if (match.input !== undefined && !matchesRoute(match.input, formatInputName(input))) return false;
+        if (match.payloadHash !== undefined && match.payloadHash !== payloadHash) return false;
+        return true;
+    });
+}
+
+/**
+ * Hashes of the input values, keyed by value. Only computed when a rule
+ * matches on payloadHash.
+ */
+export async function payloadHashes(rules: readonly ExceptionRule[], inputs: RequestInput[]): Promise<Map<string, string>> {
+    const hashes = new Map<string, string>();
+    if (!rules.some((rule) => rule.match.payloadHash !== undefined)) return hashes;
+
+    for (const { value } of inputs) {
+        if (!hashes.has(value)) hashes.set(value, await SecurityMemory.hash(value));
+    }
+    return hashes;
+}
+
+export function clearExceptionCache(): void {
+    exceptionCache = null;
+}
+
+/**
+ * Validate and store a new rule. Rules that switch whole agents off for all
+ * traffic are refused (403) unless `principal` is an admin.
+ */
+export async function createException(env: Env, principal: AuthPrincipal, body: Record<string, unknown>): Promise<ExceptionRule> {
+    const ttlSeconds = parseTtl(body.ttlSeconds);
+    const now = new Date();
+    const rule: ExceptionRule = {
+        id: crypto.randomUUID(),
+        match: parseCriteria(body.match),
+        suppress: parseSuppression(body.suppress),
+        reason: parseReason(body.reason),
+        createdBy: principal.keyId,
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+    };
+    if (principal.scope !== "admin" && coversAllTraffic(rule.match)) {
+        throw new ExceptionRequestError(403, "Exceptions without a specific path, ip, header, input or payloadHash need an admin key");
+    }
+
+    await env.SENTINEL_KV.put(`${EXCEPTION_PREFIX}${rule.id}`, JSON.stringify(rule), { expirationTtl: ttlSeconds });
+    // Apply in this isolate right away; other isolates pick it up within the cache TTL
+    if (exceptionCache) exceptionCache.rules = [...exceptionCache.rules, rule];
+    console.log(`[Exceptions] ${principal.keyId} created ${rule.id}: ${rule.reason}`);
+    return rule;
+}
+
+/**
+ * Delete a rule. Throws a 404 ExceptionRequestError if there is none.
+ */
+export async function deleteException(env: Env, principal: AuthPrincipal, id: string): Promise<ExceptionRule> {
+    const key = `${EXCEPTION_PREFIX}${id}`;
+    const rule = await env.SENTINEL_KV.get<ExceptionRule>(key, "json");
+    if (!rule) throw new ExceptionRequestError(404, `No exception ${id}`);
+
+    await env.SENTINEL_KV.delete(key);
+    if (exceptionCache) exceptionCache.rules = exceptionCache.rules.filter((cached) => cached.id !== id);
+    console.log(`[Exceptions] ${principal.keyId} deleted ${id}`);
+    return rule;
+}
+
+/**
+ * HTTP handler for `/v1/exceptions` and `/v1/exceptions/:id`.
+ */
+export async function handleExceptionsRequest(
+    request: Request,
+    env: Env,
+    url: URL,
+    principal: AuthPrincipal,
+    corsHeaders: Record<string, string>
+): Promise<Response> {
+    const json = (body: unknown, status = 200) =>
+        new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...corsHeaders } });
+
+    try {
+        if (url.pathname === "/v1/exceptions") {
+            if (request.method === "GET") {
+                return json({ success: true, exceptions: await listExceptions(env) });
+            }
+            return json({ success: true, exception: await createException(env, principal, await readBody(request)) }, 201);
+        }
+
+        let id: string;
+        try {
+            id = decodeURIComponent(url.pathname.slice("/v1/exceptions/".length));
+        } catch (e) {
+            throw new ExceptionRequestError(400, "exception id is not a valid URL-encoded string");
+        }
+        return json({ success: true, deleted: await deleteException(env, principal, id) });
+
+    } catch (error) {
+        if (error instanceof ExceptionRequestError) {
+            const label = error.status === 404 ? "Not Found" : error.status === 403 ? "Forbidden" : "Bad Request";
+            return json({ error: label, message: error.message }, error.status);
+        }
+        console.error("[Exceptions] Request failed:", error);
+        return json({ error: "Internal Server Error", message: "Failed to process exception request" }, 500);
+    }
+}
+
+async function loadExceptions(env: Env, now: number): Promise<ExceptionRule[]> {
+    if (exceptionCache && now - exceptionCache.loadedAt < EXCEPTION_CACHE_TTL_MS) return exceptionCache.rules;
+
+    try {
+        exceptionCache = { loadedAt: now, rules: await listExceptions(env) };
+    } catch (error) {
+        // Keep applying the last known rules; retry after the TTL
+        console.error("[Exceptions] Failed to load rules:", error);
+        exceptionCache = { loadedAt: now, rules: exceptionCache?.rules ?? [] };
+    }
+    return exceptionCache.rules;
+}
+
+async function listExceptions(env: Env): Promise<ExceptionRule[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined;
+
+    // Paginated: KV list returns at most 1000 keys per call
+    do {
+        const page = await env.SENTINEL_KV.list({ prefix: EXCEPTION_PREFIX, cursor });
+        keys.push(...page.keys.map((key) => key.name));
+        cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    const rules: ExceptionRule[] = [];
+    for (let i = 0; i < keys.length; i += MAX_LIST_ENTRIES) {
+        const batch = await Promise.all(
+            keys.slice(i, i + MAX_LIST_ENTRIES).map((key) => env.SENTINEL_KV.get<ExceptionRule>(key, "json"))
+        );
+        for (const rule of batch) if (rule) rules.push(rule);
+    }
+    return rules;
+}
+
+async function readBody(request: Request): Promise<Record<string, unknown>> {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch (e) {
+        throw new ExceptionRequestError(400, "Request body must be valid JSON");
+    }
+    if (!isObject(body)) {
+        throw new ExceptionRequestError(400, "Request body must be a JSON object");
+    }
+    return body;
+}
+
+function parseCriteria(raw: unknown): ExceptionCriteria {
+    if (!isObject(raw)) throw new ExceptionRequestError(400, "match must be an object");
+
+    const match: ExceptionCriteria = {};
+    for (const key of Object.keys(raw)) {
+        if (!["path", "methods", "ip", "header", "input", "payloadHash"].includes(key)) {
+            throw new ExceptionRequestError(400, `match has unknown field "${key}"`);
+        }
+    }
+
+    if (raw.path !== undefined) {
+        if (typeof raw.path !== "string" || !raw.path.startsWith("/")) {
+            throw new ExceptionRequestError(400, 'match.path must be a path pattern starting with "/"');
+        }
+        match.path = raw.path;
+    }
+    if (raw.methods !== undefined) {
+        if (!isStringList(raw.methods)) throw new ExceptionRequestError(400, "match.methods must be a non-empty array of HTTP methods");
+        match.methods = raw.methods.map((method) => method.toUpperCase());
+    }
+    if (raw.ip !== undefined) {
+        const target = typeof raw.ip === "string" ? canonicalTarget(raw.ip) : null;
+        if (!target) throw new ExceptionRequestError(400, "match.ip must be an IP address or CIDR range");
+        match.ip = target;
+    }
+    if (raw.header !== undefined) {
+        const header = raw.header;
+        if (!isObject(header) || typeof header.name !== "string" || !header.name || typeof header.value !== "string") {
+            throw new ExceptionRequestError(400, "match.header must be an object with string name and value");
+        }
+        match.header = { name: header.name.toLowerCase(), value: header.value };
+    }
+    if (raw.input !== undefined) {
+        if (typeof raw.input !== "string" || !raw.input) throw new ExceptionRequestError(400, 'match.input must be an input name such as "body.content"');
+        match.input = raw.input;
+    }
+    if (raw.payloadHash !== undefined) {
+        if (typeof raw.payloadHash !== "string" || !/^[0-9a-f]{64}$/i.test(raw.payloadHash)) {
+            throw new ExceptionRequestError(400, "match.payloadHash must be a hex SHA-256 digest");
+        }
+        match.payloadHash = raw.payloadHash.toLowerCase();
+    }
+
+    if (Object.keys(match).length === 0) {
+        throw new ExceptionRequestError(400, "match needs at least one of path, methods, ip, header, input, payloadHash");
+    }
+    return match;
+}
+
+function parseSuppression(raw: unknown): ExceptionSuppression {
+    if (!isObject(raw)) throw new ExceptionRequestError(400, "suppress must be an object");
+
+    const suppress: ExceptionSuppression = {};
+    if (raw.agents !== undefined) {
+        if (!isStringList(raw.agents)) throw new ExceptionRequestError(400, "suppress.agents must be a non-empty array of agent names");
+        suppress.agents = raw.agents;
+    }
+    if (raw.flags !== undefined) {
+        if (!isStringList(raw.flags)) throw new ExceptionRequestError(400, "suppress.flags must be a non-empty array of flag names");
+        suppress.flags = raw.flags;
+    }
+
+    if (!suppress.agents && !suppress.flags) {
+        throw new ExceptionRequestError(400, "suppress needs agents, flags or both");
+    }
+    return suppress;
+}
+
+// Judged by what the patterns match (see matchesRoute), not how they're spelled: the
+// text before the first `*` must pin a path segment or an input field. Methods don't count.
+function coversAllTraffic(match: ExceptionCriteria): boolean {
+    if (match.ip !== undefined || match.header !== undefined || match.payloadHash !== undefined) return false;
+    if (match.path !== undefined && (!match.path.includes("*") || match.path.split("*")[0].length > 1)) return false;
+    if (match.input !== undefined && (!match.input.includes("*") || SPECIFIC_INPUT.test(match.input.split("*")[0]))) return false;
+    return true;
+}
+
+function parseReason(raw: unknown): string {
+    if (typeof raw !== "string" || !raw.trim() || raw.length > MAX_REASON_LENGTH) {
+        throw new ExceptionRequestError(400, `reason is required (a string of at most ${MAX_REASON_LENGTH} characters)`);
+    }
+    return raw;
+}
+
+function parseTtl(raw: unknown): number {
+    if (raw === undefined) return DEFAULT_EXCEPTION_TTL_SECONDS;
+    if (typeof raw !== "number" || !Number.isInteger(raw) || raw < MIN_TTL_SECONDS || raw > MAX_EXCEPTION_TTL_SECONDS) {
+        throw new ExceptionRequestError(400, `ttlSeconds must be an integer between ${MIN_TTL_SECONDS} and ${MAX_EXCEPTION_TTL_SECONDS}`);
+    }
+    return raw;
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === "string" && item.length > 0);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
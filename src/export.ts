@@ -0,0 +1,209 @@
+import { Env, NetworkContext, SecurityAssessment, SecurityEventDetail, isSecurityAssessment } from "./types";
+import { EventFilters, EventCursor, EventQueryError, parseEventFilters, selectEventRows, toSecurityEventDetail } from "./events";
+import { toDetectionFinding } from "./ocsf";
+import { normalizeIP } from "./enrichment";
+
+/**
+ * Forensic Ledger Export (`GET /v1/events/export`)
+ *
+ * Streams `security_events` for compliance reviews in one of three formats:
+ * - csv:    one row per event (ledger columns only)
+ * - ndjson: one event per line, including the parsed metadata
+ * - ocsf:   one OCSF Detection Finding per line (same mapping as SOC alerts)
+ *
+ * `from` and `to` are required; every other `/v1/events` filter applies.
+ * Rows are read from D1 in keyset-paginated pages and written as they arrive,
+ * so exports of any size run in constant memory.
+ */
+
+export type ExportFormat = "csv" | "ndjson" | "ocsf";
+
+export const EXPORT_PAGE_SIZE = 500;
+
+export const CSV_COLUMNS = [
+    "id",
+    "timestamp",
+    "ip_address",
+    "country",
+    "asn",
+    "as_organization",
+    "city",
+    "colo",
+    "tls_version",
+    "request_method",
+    "request_path",
+    "attack_type",
+    "risk_score",
+    "action",
+    "payload_preview",
+    "matched_input",
+    "agent",
+    "cache_hit",
+    "rule_id",
+    "would_block",
+] as const;
+
+const FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+    csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+    ndjson: { contentType: "application/x-ndjson", extension: "ndjson" },
+    ocsf: { contentType: "application/x-ndjson", extension: "ocsf.ndjson" },
+};
+
+export async function handleEventExportRequest(
+    url: URL,
+    env: Env,
+    corsHeaders: Record<string, string>
+): Promise<Response> {
+    let format: ExportFormat;
+    let filters: EventFilters;
+    try {
+        format = parseExportFormat(url.searchParams.get("format"));
+        filters = parseEventFilters(url.searchParams);
+        if (!filters.from || !filters.to) {
+            throw new EventQueryError("from and to are required for exports");
+        }
+    } catch (error) {
+        const message = error instanceof EventQueryError ? error.message : "Invalid export request";
+        return new Response(JSON.stringify({ error: "Bad Request", message }), {
+            status: 400,
+            headers: { "Content-Type": "application/json", ...corsHeaders },
+        });
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const encoder = new TextEncoder();
+
+    // Runs after the response is returned; the open stream keeps the request alive
+    (async () => {
+        try {
+            await exportEvents(env, filters, format, (chunk) => writer.write(encoder.encode(chunk)));
+            await writer.close();
+        } catch (error) {
+            // Abort rather than close so the client sees a truncated transfer, not a short file
+            console.error("[Export] Export failed:", error);
+            await writer.abort(error).catch(() => {});
+        }
+    })();
+
+    const filename = `sentinel-events-${filters.from.slice(0, 10)}-${filters.to.slice(0, 10)}.${FORMATS[format].extension}`;
+    return new Response(readable, {
+        status: 200,
+        headers: {
+            "Content-Type": FORMATS[format].contentType,
+            "Content-Disposition": `attachment; filename="${filename}"`,
+            ...corsHeaders,
+        },
+    });
+}
+
+/**
+ * Write every event matching `filters`, newest first, one page at a time.
+ */
+export async function exportEvents(
+    env: Env,
+    filters: EventFilters,
+    format: ExportFormat,
+    write: (chunk: string) => Promise<void>
+): Promise<number> {
+    if (format === "csv") {
+        await write(CSV_COLUMNS.join(",") + "\r\n");
+    }
+
+    let cursor: EventCursor | undefined;
+    let exported = 0;
+
+    while (true) {
+        const rows = await selectEventRows(env, filters, EXPORT_PAGE_SIZE, cursor, format !== "csv");
+
+        for (const row of rows) {
+            if (format === "csv") {
+                await write(CSV_COLUMNS.map((column) => csvField(row[column])).join(",") + "\r\n");
+            } else {
+                const event = toSecurityEventDetail(row);
+                const record = format === "ocsf" ? toOcsfFinding(event) : event;
+                await write(JSON.stringify(record) + "\n");
+            }
+        }
+        exported += rows.length;
+
+        if (rows.length < EXPORT_PAGE_SIZE) return exported;
+        const last = rows[rows.length - 1];
+        cursor = { timestamp: last.timestamp, id: last.id };
+    }
+}
+
+/**
+ * Map a ledger event to an OCSF Detection Finding. Uses the stored full
+ * assessment when present, otherwise rebuilds one from the ledger columns.
+ */
+export function toOcsfFinding(event: SecurityEventDetail) {
+    return toDetectionFinding(storedAssessment(event), {
+        uid: event.id,
+        time: new Date(event.timestamp).getTime(),
+        rawData: {
+            eventId: event.id,
+            sourceIP: event.ipAddress,
+            requestPath: event.requestPath,
+            matchedInput: event.matchedInput,
+        },
+        network: ledgerNetwork(event),
+    });
+}
+
+/**
+ * Encode one CSV field (RFC 4180). Text starting with a formula trigger is
+ * prefixed with `'` so attack payloads can't execute when opened in a spreadsheet.
+ */
+export function csvField(value: string | number | null | undefined): string {
+    if (value === null || value === undefined) return "";
+    let text = String(value);
+    if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+        text = "'" + text;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function ledgerNetwork(event: SecurityEventDetail): NetworkContext {
+    const { ip, version } = normalizeIP(event.ipAddress);
+    return {
+        ip,
+        ipVersion: version,
+        asn: event.asn,
+        asOrganization: event.asOrganization,
+        country: event.country === "Unknown" ? null : event.country,
+        city: event.city,
+        region: null,
+        colo: event.colo,
+        tlsVersion: event.tlsVersion,
+        httpProtocol: null,
+    };
+}
+
+function parseExportFormat(value: string | null): ExportFormat {
+    if (value === null) return "ndjson";
+    if (value === "csv" || value === "ndjson" || value === "ocsf") return value;
+    throw new EventQueryError("format must be one of csv, ndjson, ocsf");
+}
+
+function storedAssessment(event: SecurityEventDetail): SecurityAssessment {
+    const metadata = event.metadata ?? {};
+    const full = metadata.full_assessment;
+    if (isSecurityAssessment(full)) {
+        return { ...full, timestamp: full.timestamp || event.timestamp };
+    }
+
+    const text = (value: unknown) => (typeof value === "string" ? value : "");
+    const confidence = metadata.confidence;
+    return {
+        attackType: event.attackType ?? "Unknown",
+        confidence: confidence === "High" || confidence === "Medium" || confidence === "Low" ? confidence : "Low",
+        explanation: text(metadata.explanation),
+        impact: text(metadata.impact),
+        mitigation: text(metadata.mitigation),
+        riskScore: event.riskScore ?? 0,
+        action: event.action ?? "flag",
+        timestamp: event.timestamp,
+        executive_summary: text(metadata.executive_summary),
+    };
+}
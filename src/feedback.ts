@@ -0,0 +1,420 @@
+import { AuthPrincipal, Env, SecurityAssessment, SecurityEventDetail } from "./types";
+import { getEvent, decodeEventId, EventQueryError, EventCursor, encodeCursor, decodeCursor, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./events";
+import { SecurityMemory } from "./memory";
+import { createException, deleteException, ExceptionRequestError, ExceptionRule } from "./exceptions";
+
+/**
+ * Verdict Feedback (`POST /v1/events/:id/feedback`, `GET /v1/feedback`)
+ *
+ * Analysts tell Sentinel when a verdict was wrong (or confirm it was right):
+ *
+ *   POST /v1/events/:id/feedback
+ *   {
+ *     "label": "benign",                       // ground truth: benign | malicious
+ *     "attackType": "SQL Injection",           // optional, what it really was (malicious only)
+ *     "notes": "CMS help text",                // optional
+ *     "exception": {                           // optional, benign only (see src/exceptions.ts)
+ *       "suppress": { "flags": ["Multiple SQL Keywords"] },
+ *       "match": { ... },                      // default: the event's path and matched input
+ *       "reason": "...", "ttlSeconds": 2592000 // reason defaults to the notes
+ *     }
+ *   }
+ *
+ * The label is compared with the event's action to classify the verdict:
+ * `false_positive` (benign, but blocked or flagged), `false_negative`
+ * (malicious, but allowed) or `confirmed`. Feedback on an agent verdict
+ * also deletes the cached assessment for its cache key, so the next
+ * identical request is analyzed again (with the new exception, if any).
+ *
+ * Each feedback row keeps a snapshot of the event (request, verdict and full
+ * assessment) in the D1 `verdict_feedback` table, so the labeled dataset
+ * survives ledger retention. `GET /v1/feedback` pages through it, newest
+ * first, to tune heuristics and prompts:
+ *   label             benign | malicious
+ *   outcome           false_positive | false_negative | confirmed
+ *   from, to          ISO-8601 range over when the feedback was given
+ *   limit, cursor     as for /v1/events
+ */
+
+export const FEEDBACK_LABELS = ["benign", "malicious"] as const;
+export const FEEDBACK_OUTCOMES = ["false_positive", "false_negative", "confirmed"] as const;
+const MAX_NOTES_LENGTH = 1000;
+
+export type FeedbackLabel = typeof FEEDBACK_LABELS[number];
+export type FeedbackOutcome = typeof FEEDBACK_OUTCOMES[number];
+
+export interface VerdictFeedback {
+    id: string;
+    createdAt: string;
+    createdBy: string; // API key id
+    eventId: string;
+    label: FeedbackLabel;
+    outcome: FeedbackOutcome;
+    expectedAttackType: string | null;
+    notes: string | null;
+    exceptionId: string | null; // Detection exception created with the feedback
+    event: {
+        timestamp: string | null;
+        requestMethod: string | null;
+        requestPath: string | null;
+        matchedInput: string | null;
+        payloadPreview: string | null;
+        attackType: string | null;
+        riskScore: number | null;
+        action: string | null;
+        agent: string | null;
+    };
+    assessment: SecurityAssessment | null; // Full assessment as logged, when available
+}
+
+export interface FeedbackQuery {
+    label?: FeedbackLabel;
+    outcome?: FeedbackOutcome;
+    from?: string;
+    to?: string;
+    limit: number;
+    cursor?: EventCursor; // Over (created_at, id)
+}
+
+export class FeedbackRequestError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+        this.name = "FeedbackRequestError";
+    }
+}
+
+interface FeedbackRow {
+    id: string;
+    created_at: string;
+    key_id: string;
+    event_id: string;
+    label: string;
+    outcome: string;
+    expected_attack_type: string | null;
+    notes: string | null;
+    exception_id: string | null;
+    event_timestamp: string | null;
+    request_method: string | null;
+    request_path: string | null;
+    matched_input: string | null;
+    payload_preview: string | null;
+    attack_type: string | null;
+    risk_score: number | null;
+    action: string | null;
+    agent: string | null;
+    assessment: string | null;
+}
+
+/**
+ * Whether the event's verdict agrees with the analyst's label.
+ */
+export function feedbackOutcome(label: FeedbackLabel, action: string | null): FeedbackOutcome {
+    const enforced = action === "block" || action === "flag";
+    if (label === "benign" && enforced) return "false_positive";
+    if (label === "malicious" && !enforced) return "false_negative";
+    return "confirmed";
+}
+
+/**
+ * Record feedback on a ledger event, create the requested exception and
+ * invalidate the event's cached verdict. Throws a 404 FeedbackRequestError
+ * for an unknown event. The exception is removed again if the feedback row
+ * can't be written.
+ */
+export async function submitFeedback(
+    env: Env,
+    principal: AuthPrincipal,
+    eventId: string,
+    body: Record<string, unknown>
+): Promise<{ feedback: VerdictFeedback; exception: ExceptionRule | null; cacheInvalidated: boolean }> {
+    const label = body.label;
+    if (!(FEEDBACK_LABELS as readonly unknown[]).includes(label)) {
+        throw new FeedbackRequestError(400, `label must be one of ${FEEDBACK_LABELS.join(", ")}`);
+    }
+    const expectedAttackType = optionalString(body.attackType, "attackType", 100);
+    const notes = optionalString(body.notes, "notes", MAX_NOTES_LENGTH);
+    if (label === "benign" && expectedAttackType !== null) {
+        throw new FeedbackRequestError(400, "attackType is only allowed with label malicious");
+    }
+    if (body.exception !== undefined && label !== "benign") {
+        throw new FeedbackRequestError(400, "exception is only allowed with label benign");
+    }
+
+    const event = await getEvent(env, eventId);
+    if (!event) throw new FeedbackRequestError(404, `No event with id ${eventId}`);
+
+    const exception = body.exception === undefined
+        ? null
+        : await createException(env, principal, exceptionRequest(body.exception, event, notes));
+
+    const feedback: VerdictFeedback = {
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+        createdBy: principal.keyId,
+        eventId: event.id,
+        label: label as FeedbackLabel,
+        outcome: feedbackOutcome(label as FeedbackLabel, event.action),
+        expectedAttackType,
+        notes,
+        exceptionId: exception?.id ?? null,
+        event: {
+            timestamp: event.timestamp,
+            requestMethod: event.requestMethod,
+            requestPath: event.requestPath,
+            matchedInput: event.matchedInput,
+            payloadPreview: event.payloadPreview,
+            attackType: event.attackType,
+            riskScore: event.riskScore,
+            action: event.action,
+            agent: event.agent,
+        },
+        assessment: fullAssessment(event),
+    };
+
+    try {
+        await insertFeedback(env, feedback, event);
+    } catch (error) {
+        // No exception without the feedback row that explains it
+        if (exception) await discardException(env, principal, exception);
+        throw error;
+    }
+
+    // Only agent verdicts are cached; mitigation and rate-limit events have no key
+    const row = await env.DB.prepare("SELECT cache_key FROM security_events WHERE id = ?")
+        .bind(event.id)
+        .first<{ cache_key: string | null }>();
+    const cacheKey = row?.cache_key ?? null;
+    if (cacheKey) await new SecurityMemory(env).invalidateAssessment(cacheKey);
+
+    console.log(`[Feedback] ${principal.keyId} labeled ${event.id} ${feedback.label} (${feedback.outcome})`);
+    return { feedback, exception, cacheInvalidated: cacheKey !== null };
+}
+
+async function insertFeedback(env: Env, feedback: VerdictFeedback, event: SecurityEventDetail): Promise<void> {
+    await env.DB.prepare(
+        `INSERT INTO verdict_feedback
+        (id, created_at, key_id, event_id, label, outcome, expected_attack_type, notes, exception_id, event_timestamp,
+            request_method, request_path, matched_input, payload_preview, attack_type, risk_score, action, agent, assessment)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+        .bind(
+            feedback.id,
+            feedback.createdAt,
+            feedback.createdBy,
+            feedback.eventId,
+            feedback.label,
+            feedback.outcome,
+            feedback.expectedAttackType,
+            feedback.notes,
+            feedback.exceptionId,
+            event.timestamp,
+            event.requestMethod,
+            event.requestPath,
+            event.matchedInput,
+            event.payloadPreview,
+            event.attackType,
+            event.riskScore,
+            event.action,
+            event.agent,
+            feedback.assessment ? JSON.stringify(feedback.assessment) : null
+        )
+        .run();
+}
+
+async function discardException(env: Env, principal: AuthPrincipal, exception: ExceptionRule): Promise<void> {
+    try {
+        await deleteException(env, principal, exception.id);
+    } catch (error) {
+        console.error(`[Feedback] Failed to remove exception ${exception.id} after the feedback insert failed:`, error);
+    }
+}
+
+/**
+ * Parse `GET /v1/feedback` query parameters. Throws EventQueryError on invalid input.
+ */
+export function parseFeedbackQuery(params: URLSearchParams): FeedbackQuery {
+    const query: FeedbackQuery = { limit: DEFAULT_PAGE_SIZE };
+
+    const label = params.get("label");
+    if (label !== null) {
+        if (!(FEEDBACK_LABELS as readonly string[]).includes(label)) {
+            throw new EventQueryError(`label must be one of ${FEEDBACK_LABELS.join(", ")}`);
+        }
+        query.label = label as FeedbackLabel;
+    }
+
+    const outcome = params.get("outcome");
+    if (outcome !== null) {
+        if (!(FEEDBACK_OUTCOMES as readonly string[]).includes(outcome)) {
+            throw new EventQueryError(`outcome must be one of ${FEEDBACK_OUTCOMES.join(", ")}`);
+        }
+        query.outcome = outcome as FeedbackOutcome;
+    }
+
+    for (const key of ["from", "to"] as const) {
+        const value = params.get(key);
+        if (value === null) continue;
+        const time = new Date(value).getTime();
+        if (isNaN(time)) throw new EventQueryError(`${key} must be an ISO-8601 timestamp`);
+        query[key] = new Date(time).toISOString();
+    }
+
+    const limit = params.get("limit");
+    if (limit !== null) {
+        const parsed = Number(limit);
+        if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_PAGE_SIZE) {
+            throw new EventQueryError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+        }
+        query.limit = parsed;
+    }
+
+    const cursor = params.get("cursor");
+    if (cursor) query.cursor = decodeCursor(cursor);
+
+    return query;
+}
+
+/**
+ * One page of feedback, newest first.
+ */
+export async function queryFeedback(env: Env, query: FeedbackQuery): Promise<{ feedback: VerdictFeedback[]; nextCursor: string | null }> {
+    const conditions: string[] = [];
+    const bindings: unknown[] = [];
+
+    if (query.label) { conditions.push("label = ?"); bindings.push(query.label); }
+    if (query.outcome) { conditions.push("outcome = ?"); bindings.push(query.outcome); }
+    if (query.from) { conditions.push("created_at >= ?"); bindings.push(query.from); }
+    if (query.to) { conditions.push("created_at < ?"); bindings.push(query.to); }
+    if (query.cursor) {
+        conditions.push("(created_at < ? OR (created_at = ? AND id < ?))");
+        bindings.push(query.cursor.timestamp, query.cursor.timestamp, query.cursor.id);
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const { results } = await env.DB.prepare(
+        `SELECT * FROM verdict_feedback WHERE ${conditions.length > 0 ? conditions.join(" AND ") : "1 = 1"}
+        ORDER BY created_at DESC, id DESC LIMIT ?`
+    )
+        .bind(...bindings, query.limit + 1)
+        .all<FeedbackRow>();
+
+    const rows = results.slice(0, query.limit);
+    const last = rows[rows.length - 1];
+    const nextCursor = results.length > query.limit && last
+        ? encodeCursor({ timestamp: last.created_at, id: last.id })
+        : null;
+
+    return { feedback: rows.map(toVerdictFeedback), nextCursor };
+}
+
+/**
+ * HTTP handler for `POST /v1/events/:id/feedback` and `GET /v1/feedback`.
+ */
+export async function handleFeedbackRequest(
+    request: Request,
+    env: Env,
+    url: URL,
+    principal: AuthPrincipal,
+    corsHeaders: Record<string, string>
+): Promise<Response> {
+    const json = (body: unknown, status = 200) =>
+        new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...corsHeaders } });
+
+    try {
+        if (url.pathname === "/v1/feedback") {
+            const { feedback, nextCursor } = await queryFeedback(env, parseFeedbackQuery(url.searchParams));
+            return json({ success: true, feedback, nextCursor });
+        }
+
+        const eventId = decodeEventId(url.pathname.slice("/v1/events/".length, -"/feedback".length));
+        const result = await submitFeedback(env, principal, eventId, await readBody(request));
+        return json({ success: true, ...result }, 201);
+
+    } catch (error) {
+        if (error instanceof FeedbackRequestError || error instanceof ExceptionRequestError) {
+            const label = error.status === 404 ? "Not Found" : error.status === 403 ? "Forbidden" : "Bad Request";
+            return json({ error: label, message: error.message }, error.status);
+        }
+        if (error instanceof EventQueryError) {
+            return json({ error: "Bad Request", message: error.message }, 400);
+        }
+        console.error("[Feedback] Request failed:", error);
+        return json({ error: "Internal Server Error", message: "Failed to process feedback" }, 500);
+    }
+}
+
+// Exception rule request for `POST /v1/exceptions`, defaulted from the event
+function exceptionRequest(raw: unknown, event: SecurityEventDetail, notes: string | null): Record<string, unknown> {
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+        throw new FeedbackRequestError(400, "exception must be an object");
+    }
+    const request = raw as Record<string, unknown>;
+
+    let match = request.match;
+    if (match === undefined) {
+        if (!event.requestPath) throw new FeedbackRequestError(400, "exception.match is required for events without a request path");
+        match = { path: event.requestPath, ...(event.matchedInput ? { input: event.matchedInput } : {}) };
+    }
+    const reason = request.reason ?? notes ?? `Feedback on event ${event.id}`;
+    return { ...request, match, reason };
+}
+
+function fullAssessment(event: SecurityEventDetail): SecurityAssessment | null {
+    const assessment = event.metadata?.full_assessment;
+    return typeof assessment === "object" && assessment !== null ? assessment as SecurityAssessment : null;
+}
+
+function toVerdictFeedback(row: FeedbackRow): VerdictFeedback {
+    let assessment: SecurityAssessment | null = null;
+    if (row.assessment) {
+        try {
+            assessment = JSON.parse(row.assessment);
+        } catch (error) {
+            console.error(`[Feedback] Unparsable assessment for feedback ${row.id}:`, error);
+        }
+    }
+    return {
+        id: row.id,
+        createdAt: row.created_at,
+        createdBy: row.key_id,
+        eventId: row.event_id,
+        label: row.label as FeedbackLabel,
+        outcome: row.outcome as FeedbackOutcome,
+        expectedAttackType: row.expected_attack_type,
+        notes: row.notes,
+        exceptionId: row.exception_id,
+        event: {
+            timestamp: row.event_timestamp,
+            requestMethod: row.request_method,
+            requestPath: row.request_path,
+            matchedInput: row.matched_input,
+            payloadPreview: row.payload_preview,
+            attackType: row.attack_type,
+            riskScore: row.risk_score,
+            action: row.action,
+            agent: row.agent,
+        },
+        assessment,
+    };
+}
+
+async function readBody(request: Request): Promise<Record<string, unknown>> {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch (e) {
+        throw new FeedbackRequestError(400, "Request body must be valid JSON");
+    }
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        throw new FeedbackRequestError(400, "Request body must be a JSON object");
+    }
+    return body as Record<string, unknown>;
+}
+
+function optionalString(value: unknown, key: string, maxLength: number): string | null {
+    if (value === undefined || value === null) return null;
+    if (typeof value !== "string" || !value.trim() || value.length > maxLength) {
+        throw new FeedbackRequestError(400, `${key} must be a non-empty string of at most ${maxLength} characters`);
+    }
+    return value;
+}
@@ -1,11 +1,42 @@
 
-import { Env, isAnalyzeRequest, AnalyzeResponse, SecurityAssessment, isSecurityAssessment } from "./types";
+import { Env, isAnalyzeRequest, AnalyzeResponse, SecurityAssessment, isSecurityAssessment, NetworkContext, AuthPrincipal } from "./types";
 import { SentinelWorkflow } from "./workflow";
 import { SecurityMemory } from "./memory";
-import { SQLiAgent } from "./agents/SQLiAgent";
+import { createDefaultOrchestrator } from "./agents/AgentOrchestrator";
+import { resolveOrigin, forwardToOrigin, SentinelVerdict } from "./proxy";
+import { buildRequestContext, serializeContext, formatInputName } from "./context";
+import { enrichRequest } from "./enrichment";
+import { getReputation, recordReputation } from "./reputation";
+import { escalateBlock } from "./penalties";
+import { findRateLimitViolation, rateLimitAssessment, shouldMitigate, RateLimiter } from "./ratelimit";
+import { findActiveMitigation, isAllowlisted, mitigationAssessment, putMitigation, handleMitigationsRequest, cleanupMitigations } from "./mitigations";
+import { loadPolicy, verifyThreshold, shouldCache, applyPolicy, isShadowMode, handlePolicyRequest } from "./policy";
+import { handleShadowReportRequest } from "./shadow";
+import { findExceptions, handleExceptionsRequest } from "./exceptions";
+import { authorize, requiredScope, isAdminCall, isAuditedRoute, logAdminAction } from "./auth";
+import { buildCorsHeaders } from "./cors";
+import { handleAnalyzeRequest } from "./analyze";
+import { handleBatchAnalyzeRequest } from "./batch";
+import { handleEventsRequest } from "./events";
+import { handleFeedbackRequest } from "./feedback";
+import { handleEventExportRequest } from "./export";
+import { runMigrations, handleMigrationsRequest } from "./migrations";
+import { applyRetention } from "./retention";
 
-// Export workflow class for Cloudflare Runtime to discover it
-export { SentinelWorkflow };
+// Export workflow and Durable Object classes for Cloudflare Runtime to discover them
+export { SentinelWorkflow, RateLimiter };
+
+// Request details recorded alongside an assessment in the D1 ledger
+interface LedgerContext {
+    network: NetworkContext;
+    requestMethod: string;
+    requestPath: string;
+    payloadPreview: string;
+    cacheHit: boolean;
+    ruleId: string | null; // Mitigation rule created for a block
+    wouldBlock: boolean | null; // Shadow mode only: the request was forwarded, would it have been blocked?
+    cacheKey: string | null; // KV cache key of an agent verdict, so feedback can invalidate it
+}
 
 /**
  * D1 Forensic Ledger - Security Event Logger
@@ -14,16 +45,11 @@ export { SentinelWorkflow };
 async function logSecurityEvent(
     env: Env,
     assessment: SecurityAssessment,
-    sourceIP: string,
-    requestPath: string,
-    payloadPreview: string
+    event: LedgerContext
 ): Promise<void> {
     try {
         const eventId = crypto.randomUUID();
-        // Extract country from Cloudflare headers (passed from request context if available)
-        // For this function, we'll placeholder it or pass it in if we extracted it.
-        // In this implementation, we'll default to "Unknown" or handle it at call site.
-        const country = "Unknown";
+        const matchedInput = assessment.matchedInput ? formatInputName(assessment.matchedInput) : null;
 
         const metadata = JSON.stringify({
             confidence: assessment.confidence,
@@ -36,29 +62,154 @@ async function logSecurityEvent(
 
         await env.DB.prepare(
             `INSERT INTO security_events 
-            (id, timestamp, ip_address, country, request_path, attack_type, risk_score, action, payload_preview, metadata) 
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+            (id, timestamp, ip_address, country, asn, as_organization, city, colo, tls_version, request_method, request_path, attack_type, risk_score, action, payload_preview, matched_input, agent, cache_hit, rule_id, would_block, cache_key, metadata) 
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
         )
             .bind(
                 eventId,
                 assessment.timestamp,
-                sourceIP,
-                country,
-                requestPath,
+                event.network.ip,
+                event.network.country ?? "Unknown",
+                event.network.asn,
+                event.network.asOrganization,
+                event.network.city,
+                event.network.colo,
+                event.network.tlsVersion,
+                event.requestMethod,
+                event.requestPath,
                 assessment.attackType,
                 assessment.riskScore,
                 assessment.action,
-                payloadPreview,
+                event.payloadPreview,
+                matchedInput,
+                assessment.agent ?? null,
+                event.cacheHit ? 1 : 0,
+                event.ruleId,
+                event.wouldBlock === null ? null : event.wouldBlock ? 1 : 0,
+                event.cacheKey,
                 metadata
             )
             .run();
-
-        console.log(`[D1 Ledger] Logged: ${assessment.attackType} (Risk: ${assessment.riskScore})`);
     } catch (error) {
         console.error("[D1 Ledger] Failed to log:", error);
     }
 }
 
+/**
+ * Auto-mitigation for a blocked request: later requests from the source are
+ * rejected up front, for longer if it is a repeat offender (see src/penalties.ts).
+ * Allowlisted and unidentifiable sources are never auto-mitigated, and a source
+ * that already has a live block (e.g. one that landed mid-burst) isn't
+ * escalated again.
+ */
+async function autoMitigate(
+    env: Env,
+    ctx: ExecutionContext,
+    network: NetworkContext,
+    assessment: SecurityAssessment,
+    ruleId: string
+): Promise<void> {
+    if (network.ipVersion === null || await isAllowlisted(env, network.ip)) return;
+
+    ctx.waitUntil((async () => {
+        if (await findActiveMitigation(env, network.ip)) return;
+        const penalty = await escalateBlock(env, network.ip, assessment.attackType);
+        await putMitigation(env, {
+            ruleId,
+            sourceIP: network.ip,
+            attackType: assessment.attackType,
+            riskScore: assessment.riskScore,
+            createdAt: new Date().toISOString(),
+            expiresAt: new Date(Date.now() + penalty.durationSeconds * 1000).toISOString(),
+            mode: "block",
+            tier: penalty.tier,
+        }, penalty.durationSeconds);
+    })());
+}
+
+// Verdict headers for a forwarded request (see src/proxy.ts)
+function verdictOf(assessment: SecurityAssessment, cacheHit: boolean): SentinelVerdict {
+    return {
+        riskScore: assessment.riskScore,
+        attackType: assessment.attackType,
+        action: assessment.action,
+        cacheHit,
+    };
+}
+
+/**
+ * Management API routes. Callers are already authenticated and authorized.
+ */
+async function handleApiRequest(
+    request: Request,
+    env: Env,
+    url: URL,
+    principal: AuthPrincipal,
+    corsHeaders: Record<string, string>
+): Promise<Response> {
+    if ((request.method === "GET" || request.method === "POST") && url.pathname === "/v1/mitigations") {
+        return await handleMitigationsRequest(request, env, url, principal, corsHeaders);
+    }
+
+    if ((request.method === "PATCH" || request.method === "DELETE") && /^\/v1\/mitigations\/[^/]+$/.test(url.pathname)) {
+        return await handleMitigationsRequest(request, env, url, principal, corsHeaders);
+    }
+
+    if ((request.method === "GET" || request.method === "PUT") && url.pathname === "/v1/policy") {
+        return await handlePolicyRequest(request, env, url, principal, corsHeaders);
+    }
+
+    if (request.method === "GET" && /^\/v1\/policy\/versions(\/[^/]+)?$/.test(url.pathname)) {
+        return await handlePolicyRequest(request, env, url, principal, corsHeaders);
+    }
+
+    if (request.method === "POST" && url.pathname === "/v1/policy/rollback") {
+        return await handlePolicyRequest(request, env, url, principal, corsHeaders);
+    }
+
+    if ((request.method === "GET" || request.method === "POST") && url.pathname === "/v1/exceptions") {
+        return await handleExceptionsRequest(request, env, url, principal, corsHeaders);
+    }
+
+    if (request.method === "DELETE" && /^\/v1\/exceptions\/[^/]+$/.test(url.pathname)) {
+        return await handleExceptionsRequest(request, env, url, principal, corsHeaders);
+    }
+
+    if (request.method === "POST" && url.pathname === "/v1/analyze") {
+        return await handleAnalyzeRequest(request, env, corsHeaders);
+    }
+
+    if (request.method === "POST" && url.pathname === "/v1/analyze/batch") {
+        return await handleBatchAnalyzeRequest(request, env, corsHeaders);
+    }
+
+    if ((request.method === "GET" || request.method === "POST") && url.pathname === "/v1/admin/migrations") {
+        return await handleMigrationsRequest(request, env, corsHeaders);
+    }
+
+    if (request.method === "GET" && url.pathname === "/v1/shadow/report") {
+        return await handleShadowReportRequest(url, env, corsHeaders);
+    }
+
+    if (request.method === "GET" && url.pathname === "/v1/events/export") {
+        return await handleEventExportRequest(url, env, corsHeaders);
+    }
+
+    if (request.method === "POST" && /^\/v1\/events\/[^/]+\/feedback$/.test(url.pathname)) {
+        return await handleFeedbackRequest(request, env, url, principal, corsHeaders);
+    }
+
+    if (request.method === "GET" && url.pathname === "/v1/feedback") {
+        return await handleFeedbackRequest(request, env, url, principal, corsHeaders);
+    }
+
+    if (request.method === "GET" && /^\/v1\/events(\/[^/]+)?$/.test(url.pathname)) {
+        return await handleEventsRequest(url, env, corsHeaders);
+    }
+
+    return new Response("Not Found", { status: 404, headers: corsHeaders });
+}
+
 export default {
     /**
      * Sentinel API Entrypoint
@@ -69,108 +220,185 @@ export default {
         env: Env,
         ctx: ExecutionContext
     ): Promise<Response> {
-        // --- Preflight (OPTIONS) ---
-        if (request.method === "OPTIONS") {
-            return new Response(null, {
-                status: 204,
-                headers: {
-                    "Access-Control-Allow-Origin": "*",
-                    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-                    "Access-Control-Allow-Headers": "Content-Type",
-                }
-            });
-        }
+        // CORS: only origins in CORS_ALLOWED_ORIGINS get Access-Control-* headers
+        const corsHeaders = buildCorsHeaders(request, env);
 
         const url = new URL(request.url);
-        const corsHeaders = {
-            "Access-Control-Allow-Origin": "*",
-            "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-            "Access-Control-Allow-Headers": "Content-Type",
-        };
+        const origin = resolveOrigin(url, env);
+        const isSentinelRoute = url.pathname === "/health" || url.pathname.startsWith("/v1/");
+
+        // --- Preflight (OPTIONS) ---
+        // Only for Sentinel's own routes: in reverse-proxy mode, preflights for
+        // other paths go through the pipeline to the origin, which owns its CORS.
+        if (request.method === "OPTIONS" && (isSentinelRoute || !origin)) {
+            return new Response(null, { status: 204, headers: corsHeaders });
+        }
 
         // --- HAND Architecture: High-Performance Security Pipeline ---
 
-        // 1. Exclusions (Health, Root, etc.)
-        const excludedPaths = ["/v1/analyze", "/v1/mitigations", "/health", "/"];
-        const isExcluded = excludedPaths.includes(url.pathname);
+        // 1. Exclusions (Health, Management API, Root)
+        // The root path is only Sentinel's own status page when no origin is protected.
+        const isExcluded = isSentinelRoute || (url.pathname === "/" && !origin);
 
         if (!isExcluded) {
             try {
-                // --- Extraction ---
-                const sourceIP = request.headers.get("CF-Connecting-IP") || "unknown";
-                let extractedPayload = "";
-
-                // Body
-                if (["POST", "PUT", "PATCH"].includes(request.method)) {
-                    try {
-                        const clonedRequest = request.clone();
-                        extractedPayload += await clonedRequest.text() + " ";
-                    } catch (e) { }
+                const network = enrichRequest(request);
+                const sourceIP = network.ip;
+
+                const policy = await loadPolicy(env);
+                const policyContext = { path: url.pathname, method: request.method };
+
+                // --- Shadow Mode ---
+                // The pipeline runs and logs as usual, but every request is forwarded (see src/shadow.ts)
+                const shadow = isShadowMode(policy, policyContext);
+                const passThrough = async (verdict: SentinelVerdict) => origin
+                    ? await forwardToOrigin(request, origin, verdict)
+                    : new Response("Welcome to the Protected Origin", {
+                        status: 200,
+                        headers: { "Content-Type": "text/plain", ...corsHeaders }
+                    });
+
+                // --- Active Mitigations ---
+                // Sources under a block are rejected before extraction and hashing
+                const mitigation = await findActiveMitigation(env, sourceIP);
+                if (mitigation) {
+                    console.log(`[Sentinel] ${shadow ? "WOULD BLOCK" : "BLOCKED"} ${sourceIP} - active mitigation ${mitigation.target}`);
+                    const assessment = mitigationAssessment(mitigation);
+                    ctx.waitUntil(
+                        logSecurityEvent(env, assessment, {
+                            network,
+                            requestMethod: request.method,
+                            requestPath: url.pathname,
+                            payloadPreview: `${request.method} ${url.pathname}`.substring(0, 200),
+                            cacheHit: false,
+                            ruleId: mitigation.ruleId,
+                            wouldBlock: shadow ? true : null,
+                            cacheKey: null,
+                        })
+                    );
+                    if (shadow) {
+                        return await passThrough({ ...verdictOf(assessment, false), wouldBlock: true });
+                    }
+                    return new Response(JSON.stringify({
+                        error: "Forbidden",
+                        message: "Request blocked by Sentinel AI",
+                        mitigation: { target: mitigation.target, expiresAt: mitigation.expiresAt },
+                    }), { status: 403, headers: { "Content-Type": "application/json", ...corsHeaders } });
                 }
-                // Query Params
-                url.searchParams.forEach((value, key) => extractedPayload += `${key}=${value} `);
-                // Headers
-                ["User-Agent", "Referer", "Cookie"].forEach(header => {
-                    const val = request.headers.get(header);
-                    if (val) extractedPayload += `${header}:${val} `;
-                });
-                // Path
-                extractedPayload += `path:${url.pathname} `;
 
-                if (extractedPayload.trim().length === 0) extractedPayload = `GET ${url.pathname}`;
+                // --- Rate Limits ---
+                // Bursts (credential stuffing, scraping) are rejected before content inspection
+                const violation = await findRateLimitViolation(env, request, url, network);
+                if (violation) {
+                    const assessment = rateLimitAssessment(violation);
+                    // Shadow routes never feed the mitigation flow: a block would apply to every route
+                    const ruleId = !shadow && shouldMitigate(violation) ? `ips-ratelimited-${violation.rule.id}` : null;
+                    console.log(`[Sentinel] ${shadow ? "WOULD RATE LIMIT" : "RATE LIMITED"} ${sourceIP} - rule ${violation.rule.id}`);
+                    ctx.waitUntil(
+                        logSecurityEvent(env, assessment, {
+                            network,
+                            requestMethod: request.method,
+                            requestPath: url.pathname,
+                            payloadPreview: `${request.method} ${url.pathname}`.substring(0, 200),
+                            cacheHit: false,
+                            ruleId,
+                            wouldBlock: shadow ? true : null,
+                            cacheKey: null,
+                        })
+                    );
+                    if (shadow) {
+                        return await passThrough({ ...verdictOf(assessment, false), wouldBlock: true });
+                    }
+                    if (ruleId) {
+                        await autoMitigate(env, ctx, network, assessment, ruleId);
+                    }
+                    return new Response(JSON.stringify({
+                        error: "Too Many Requests",
+                        message: "Request rate limited by Sentinel AI",
+                        rateLimit: { rule: violation.rule.id, limit: violation.rule.limit, windowSeconds: violation.rule.windowSeconds },
+                    }), {
+                        status: 429,
+                        headers: { "Content-Type": "application/json", "Retry-After": String(violation.result.retryAfter), ...corsHeaders },
+                    });
+                }
+
+                // --- Extraction ---
+                // Decompose the request into named inputs (query, body fields, cookies, headers, path)
+                const requestContext = await buildRequestContext(request, url);
+                const fingerprint = serializeContext(requestContext);
+
+                // --- Detection Exceptions ---
+                // Analyst rules that suppress agents or flags for this request (see src/exceptions.ts)
+                const exceptions = await findExceptions(env, request, url, network);
 
                 // --- Part 2: The Palm (Hot Cache) ---
-                // SHA-256 Hash of Payload + IP (or just Payload if IP agnostic, but user asked for Payload + IP)
-                // Actually constraint said "Hash incoming payload + Client IP"
-                const encoder = new TextEncoder();
-                const data = encoder.encode(`${extractedPayload}-${sourceIP}-v1`);
-                const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-                const hashArray = Array.from(new Uint8Array(hashBuffer));
-                const cacheKey = hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+                // SHA-256 Hash of request fingerprint + Client IP; matching exception
+                // rules are part of the key so verdicts cached before a rule aren't reused
+                const cacheKey = await SecurityMemory.cacheKey(
+                    exceptions.length > 0 ? `${fingerprint}\n${exceptions.map((rule) => rule.id).sort().join(",")}` : fingerprint,
+                    sourceIP
+                );
 
                 const memory = new SecurityMemory(env);
                 // Check Hot Cache (0ms logic goal)
                 let assessment = await memory.getAssessment(cacheKey);
+                const cacheHit = assessment !== null;
 
                 if (assessment) {
                     console.log(`[Palm] Cache Hit for ${sourceIP} (Block Status: ${assessment.action})`);
                 } else {
-                    // --- Part 1: The Finger (SQLi Agent Triage) ---
-                    console.log(`[Palm] Cache Miss. Invoking SQLi Finger...`);
-                    const sqliAgent = new SQLiAgent(env);
-                    assessment = await sqliAgent.analyze(extractedPayload);
+                    // --- Part 1: The Fingers (Specialist Agent Triage) ---
+                    console.log(`[Palm] Cache Miss. Invoking agent fan-out...`);
+                    const reputation = await getReputation(env, network);
+                    const orchestrator = createDefaultOrchestrator(env);
+                    assessment = await orchestrator.analyze(requestContext, reputation, verifyThreshold(policy, policyContext), exceptions);
 
                     // --- Part 2: The Palm (Write to Cache) ---
                     // Cache if high risk or confirmed benign to save compute
-                    if (assessment.riskScore > 50 || assessment.confidence === "High") {
+                    if (shouldCache(policy, assessment, policyContext)) {
                         // Cache for 1 hour as per requirements for high risk logic
                         // We cache broadly to optimize performance
                         await memory.storeAssessment(cacheKey, assessment);
                     }
                 }
 
+                // --- Action Policy ---
+                // Applied after the cache so policy changes also cover cached verdicts
+                assessment = applyPolicy(policy, assessment, policyContext);
+
+                const wouldBlock = shadow ? assessment.action === 'block' : null;
+                const ruleId = assessment.action === 'block' && !shadow ? "ips-blocked-" + cacheKey.substring(0, 8) : null;
+
                 // --- Part 3: The Ledger (D1 Audit) ---
                 // Non-blocking logging
                 ctx.waitUntil(
-                    logSecurityEvent(env, assessment, sourceIP, url.pathname, extractedPayload.substring(0, 200))
+                    logSecurityEvent(env, assessment, {
+                        network,
+                        requestMethod: request.method,
+                        requestPath: url.pathname,
+                        payloadPreview: fingerprint.substring(0, 200),
+                        cacheHit,
+                        ruleId,
+                        wouldBlock,
+                        cacheKey,
+                    })
                 );
 
+                // Repeat offenders start the next request with a higher score
+                ctx.waitUntil(recordReputation(env, network, assessment.action));
+
                 // --- Enforcement ---
+                if (shadow) {
+                    if (wouldBlock) console.log(`[Sentinel] WOULD BLOCK ${sourceIP} - ${assessment.attackType} (shadow mode)`);
+                    return await passThrough({ ...verdictOf(assessment, cacheHit), wouldBlock: wouldBlock ?? false });
+                }
+
                 if (assessment.action === 'block') {
-                    console.log(`[Sentinel] BLOCKED ${sourceIP} - ${assessment.attackType}`);
-
-                    // Add to auto-mitigation (if configured)
-                    ctx.waitUntil((async () => {
-                        const ruleMetadata = {
-                            ruleId: "ips-blocked-" + cacheKey.substring(0, 8),
-                            sourceIP,
-                            attackType: assessment.attackType,
-                            riskScore: assessment.riskScore,
-                            createdAt: new Date().toISOString(),
-                            expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
-                        };
-                        await env.SENTINEL_KV.put(`mitigation:${sourceIP}`, JSON.stringify(ruleMetadata), { expirationTtl: 3600 });
-                    })());
+                    const via = assessment.matchedInput ? ` via ${formatInputName(assessment.matchedInput)}` : "";
+                    console.log(`[Sentinel] BLOCKED ${sourceIP} - ${assessment.attackType}${via}`);
+
+                    // Add to auto-mitigation: later requests from this source are rejected up front.
+                    await autoMitigate(env, ctx, network, assessment, ruleId!);
 
                     return new Response(JSON.stringify({
                         error: "Forbidden",
@@ -183,15 +411,15 @@ export default {
                     }), { status: 403, headers: { "Content-Type": "application/json", ...corsHeaders } });
                 }
 
-                // Allow 
-                return new Response("Welcome to the Protected Origin", {
-                    status: 200,
-                    headers: { "Content-Type": "text/plain", ...corsHeaders }
-                });
+                // Allow
+                return await passThrough(verdictOf(assessment, cacheHit));
 
             } catch (error) {
                 console.error("[Sentinel] Pipeline Error:", error);
                 // Fail Open
+                if (origin) {
+                    return await forwardToOrigin(request, origin, null);
+                }
                 return new Response("Welcome to the Protected Origin (Fail Open)", {
                     status: 200,
                     headers: { "Content-Type": "text/plain", ...corsHeaders }
@@ -205,22 +433,23 @@ export default {
             return new Response(JSON.stringify({ status: "healthy" }), { headers: { "Content-Type": "application/json", ...corsHeaders } });
         }
 
-        if (request.method === "GET" && url.pathname === "/v1/mitigations") {
-            // ... existing mitigation list logic ...
-            // Re-implementing briefly for completeness based on existing logic
-            const list = await env.SENTINEL_KV.list({ prefix: "mitigation:", limit: 100 });
-            const mitigations: any[] = [];
-            for (const key of list.keys) {
-                const res = await env.SENTINEL_KV.get(key.name);
-                if (res) mitigations.push(JSON.parse(res));
-            }
-            return new Response(JSON.stringify({ success: true, mitigations }), { headers: { "Content-Type": "application/json", ...corsHeaders } });
-        }
+        // --- Management API (/v1/*): API key, scope, rate limit, admin audit ---
+        if (url.pathname.startsWith("/v1/")) {
+            const scope = requiredScope(request.method, url.pathname);
+            const auth = await authorize(request, env, scope, corsHeaders);
+            const response = auth.ok ? await handleApiRequest(request, env, url, auth.principal, corsHeaders) : auth.response;
 
-        if (request.method === "POST" && url.pathname === "/v1/analyze") {
-            // ... existing analyze logic ...
-            // Could be refactored to use Agents too, but keeping minimal changes to core pipeline first
-            return new Response("Use main entrypoint for coverage", { status: 200, headers: corsHeaders });
+            if (isAdminCall(scope, auth.principal) || isAuditedRoute(request.method, url.pathname)) {
+                ctx.waitUntil(logAdminAction(env, {
+                    keyId: auth.principal?.keyId ?? null,
+                    scope: auth.principal?.scope ?? null,
+                    method: request.method,
+                    path: url.pathname,
+                    status: response.status,
+                    sourceIP: request.headers.get("CF-Connecting-IP") || "unknown",
+                }));
+            }
+            return response;
         }
 
         if (request.method === "GET" && url.pathname === "/") {
@@ -239,22 +468,23 @@ export default {
         env: Env,
         ctx: ExecutionContext
     ): Promise<void> {
-        // ... existing scheduled logic (keep as is or stub for brevity if unchanged logic is desired, 
-        // but user asked for full file. I will retain the core logic) ...
-        // For limits of this output, assuming the existing scheduled task logic was fine and focusing on the HAND refactor in fetch.
-        // To be safe and compliant "generate the full... code", I will include the scheduled handler.
+        // Keep the D1 schema current (no-op when every migration is applied)
+        try {
+            await runMigrations(env);
+        } catch (e) {
+            console.error("Scheduled migrations failed", e);
+        }
 
+        // Ledger retention: archive, downsample and delete expired events
         try {
-            const listResult = await env.SENTINEL_KV.list({ prefix: "mitigation:", limit: 1000 });
-            for (const key of listResult.keys) {
-                const metaStr = await env.SENTINEL_KV.get(key.name);
-                if (!metaStr) continue;
-                const meta = JSON.parse(metaStr) as any;
-                if (new Date() >= new Date(meta.expiresAt)) {
-                    await env.SENTINEL_KV.delete(key.name);
-                    console.log(`[Cleanup] Expired rule ${meta.ruleId}`);
-                }
-            }
+            await applyRetention(env);
+        } catch (e) {
+            console.error("Scheduled retention failed", e);
+        }
+
+        // Self-healing: remove expired mitigations and their Cloudflare rules
+        try {
+            await cleanupMitigations(env);
         } catch (e) {
             console.error("Scheduled cleanup failed", e);
         }
@@ -35,6 +35,26 @@ export class SecurityMemory {
         this.kv = env.SENTINEL_KV;
     }
 
+    /**
+     * Cache key for a request: SHA-256 of the request fingerprint + client IP.
+     * The version suffix is bumped whenever the fingerprint format changes.
+     */
+    static async cacheKey(fingerprint: string, sourceIP: string): Promise<string> {
+        return await SecurityMemory.hash(`${fingerprint}-${sourceIP}-v2`);
+    }
+
+    /**
+     * Hex SHA-256 digest. Used directly as the cache key for on-demand
+     * analysis (`/v1/analyze`), where results are shared across callers.
+     */
+    static async hash(value: string): Promise<string> {
+        const data = new TextEncoder().encode(value);
+        const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+        return Array.from(new Uint8Array(hashBuffer))
+            .map((b) => b.toString(16).padStart(2, "0"))
+            .join("");
+    }
+
     /**
      * Store a security assessment in KV.
      * 
@@ -0,0 +1,61 @@
+import { Migration } from "../types";
+
+/**
+ * Baseline: the ledger, its FTS index and the admin audit log as previously
+ * created by schema.sql. Everything is IF NOT EXISTS so databases set up from
+ * the old schema file are adopted without losing data.
+ */
+export const initialSchema: Migration = {
+    version: 1,
+    name: "initial_schema",
+    columns: [
+        // Ledgers created before per-input analysis
+        { table: "security_events", name: "matched_input", definition: "TEXT" },
+    ],
+    statements: [
+        `CREATE TABLE IF NOT EXISTS security_events (
+            id TEXT PRIMARY KEY,
+            timestamp TEXT NOT NULL,
+            ip_address TEXT,
+            country TEXT,
+            request_path TEXT,
+            attack_type TEXT,
+            risk_score INTEGER,
+            action TEXT,
+            payload_preview TEXT,
+            matched_input TEXT,
+            metadata TEXT
+        )`,
+        "CREATE INDEX IF NOT EXISTS idx_timestamp ON security_events(timestamp)",
+        "CREATE INDEX IF NOT EXISTS idx_ip ON security_events(ip_address)",
+        "CREATE INDEX IF NOT EXISTS idx_risk ON security_events(risk_score)",
+        "CREATE INDEX IF NOT EXISTS idx_timestamp_id ON security_events(timestamp, id)",
+
+        `CREATE VIRTUAL TABLE IF NOT EXISTS security_events_fts USING fts5(
+            payload_preview,
+            content='security_events',
+            content_rowid='rowid'
+        )`,
+        `CREATE TRIGGER IF NOT EXISTS security_events_fts_insert AFTER INSERT ON security_events BEGIN
+            INSERT INTO security_events_fts(rowid, payload_preview) VALUES (new.rowid, new.payload_preview);
+        END`,
+        `CREATE TRIGGER IF NOT EXISTS security_events_fts_delete AFTER DELETE ON security_events BEGIN
+            INSERT INTO security_events_fts(security_events_fts, rowid, payload_preview) VALUES ('delete', old.rowid, old.payload_preview);
+        END`,
+        // Index events written before the FTS table existed
+        "INSERT INTO security_events_fts(security_events_fts) VALUES ('rebuild')",
+
+        `CREATE TABLE IF NOT EXISTS admin_audit_log (
+            id TEXT PRIMARY KEY,
+            timestamp TEXT NOT NULL,
+            key_id TEXT,
+            scope TEXT,
+            method TEXT NOT NULL,
+            path TEXT NOT NULL,
+            status INTEGER NOT NULL,
+            ip_address TEXT
+        )`,
+        "CREATE INDEX IF NOT EXISTS idx_audit_timestamp ON admin_audit_log(timestamp)",
+        "CREATE INDEX IF NOT EXISTS idx_audit_key ON admin_audit_log(key_id)",
+    ],
+};
@@ -0,0 +1,23 @@
+import { Migration } from "../types";
+
+/**
+ * Request context on ledger events: which agent decided, whether the verdict
+ * came from the KV cache, the HTTP method and the mitigation rule created for
+ * a block. `country` predates this migration on most ledgers but is listed so
+ * hand-created tables get it too.
+ */
+export const eventContext: Migration = {
+    version: 2,
+    name: "event_context",
+    columns: [
+        { table: "security_events", name: "country", definition: "TEXT" },
+        { table: "security_events", name: "agent", definition: "TEXT" },
+        { table: "security_events", name: "cache_hit", definition: "INTEGER" }, // 0 | 1
+        { table: "security_events", name: "request_method", definition: "TEXT" },
+        { table: "security_events", name: "rule_id", definition: "TEXT" },
+    ],
+    statements: [
+        "CREATE INDEX IF NOT EXISTS idx_rule_id ON security_events(rule_id)",
+        "CREATE INDEX IF NOT EXISTS idx_agent ON security_events(agent)",
+    ],
+};
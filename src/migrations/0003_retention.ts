@@ -0,0 +1,32 @@
+import { Migration } from "../types";
+
+/**
+ * Tables for the ledger retention policy (see src/retention.ts): hourly
+ * rollups of downsampled `allow` events, and a manifest of every archive
+ * object written to R2.
+ */
+export const retention: Migration = {
+    version: 3,
+    name: "retention",
+    statements: [
+        `CREATE TABLE IF NOT EXISTS security_event_rollups (
+            hour TEXT NOT NULL,
+            action TEXT NOT NULL,
+            event_count INTEGER NOT NULL,
+            risk_score_sum INTEGER NOT NULL,
+            max_risk_score INTEGER NOT NULL,
+            PRIMARY KEY (hour, action)
+        )`,
+        `CREATE TABLE IF NOT EXISTS archive_manifests (
+            id TEXT PRIMARY KEY,
+            created_at TEXT NOT NULL,
+            object_key TEXT NOT NULL,
+            event_count INTEGER NOT NULL,
+            first_timestamp TEXT NOT NULL,
+            last_timestamp TEXT NOT NULL,
+            compressed_bytes INTEGER NOT NULL,
+            sha256 TEXT NOT NULL
+        )`,
+        "CREATE INDEX IF NOT EXISTS idx_archive_first_timestamp ON archive_manifests(first_timestamp)",
+    ],
+};
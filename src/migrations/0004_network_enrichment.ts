@@ -0,0 +1,21 @@
+import { Migration } from "../types";
+
+/**
+ * Source network of ledger events (see src/enrichment.ts), so events can be
+ * grouped by ASN or data center instead of only by IP.
+ */
+export const networkEnrichment: Migration = {
+    version: 4,
+    name: "network_enrichment",
+    columns: [
+        { table: "security_events", name: "asn", definition: "INTEGER" },
+        { table: "security_events", name: "as_organization", definition: "TEXT" },
+        { table: "security_events", name: "city", definition: "TEXT" },
+        { table: "security_events", name: "colo", definition: "TEXT" },
+        { table: "security_events", name: "tls_version", definition: "TEXT" },
+    ],
+    statements: [
+        "CREATE INDEX IF NOT EXISTS idx_asn ON security_events(asn)",
+        "CREATE INDEX IF NOT EXISTS idx_country ON security_events(country)",
+    ],
+};
@@ -0,0 +1,25 @@
+import { Migration } from "../types";
+
+/**
+ * Change history of manual mitigations (see src/mitigations.ts): who created,
+ * changed or revoked which block, with the record as it was before.
+ */
+export const mitigationAudit: Migration = {
+    version: 5,
+    name: "mitigation_audit",
+    statements: [
+        `CREATE TABLE IF NOT EXISTS mitigation_audit_log (
+            id TEXT PRIMARY KEY,
+            timestamp TEXT NOT NULL,
+            key_id TEXT NOT NULL,
+            action TEXT NOT NULL,
+            target TEXT NOT NULL,
+            mode TEXT,
+            expires_at TEXT,
+            rule_id TEXT,
+            reason TEXT,
+            previous TEXT
+        )`,
+        "CREATE INDEX IF NOT EXISTS idx_mitigation_audit_target ON mitigation_audit_log(target, timestamp)",
+    ],
+};
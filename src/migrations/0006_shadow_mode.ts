@@ -0,0 +1,17 @@
+import { Migration } from "../types";
+
+/**
+ * Shadow mode marker on ledger events (see src/shadow.ts): NULL for enforced
+ * traffic, 0 or 1 for requests evaluated in shadow mode, 1 meaning Sentinel
+ * would have blocked the request but forwarded it.
+ */
+export const shadowMode: Migration = {
+    version: 6,
+    name: "shadow_mode",
+    columns: [
+        { table: "security_events", name: "would_block", definition: "INTEGER" }, // NULL | 0 | 1
+    ],
+    statements: [
+        "CREATE INDEX IF NOT EXISTS idx_would_block ON security_events(would_block, timestamp)",
+    ],
+};
@@ -0,0 +1,41 @@
+import { Migration } from "../types";
+
+/**
+ * Analyst feedback on verdicts (see src/feedback.ts): one labeled row per
+ * correction, with a snapshot of the event so the dataset outlives ledger
+ * retention. Ledger events also record the cache key of their verdict, so
+ * feedback can invalidate it.
+ */
+export const verdictFeedback: Migration = {
+    version: 7,
+    name: "verdict_feedback",
+    columns: [
+        { table: "security_events", name: "cache_key", definition: "TEXT" },
+    ],
+    statements: [
+        `CREATE TABLE IF NOT EXISTS verdict_feedback (
+            id TEXT PRIMARY KEY,
+            created_at TEXT NOT NULL,
+            key_id TEXT NOT NULL,
+            event_id TEXT NOT NULL,
+            label TEXT NOT NULL,
+            outcome TEXT NOT NULL,
+            expected_attack_type TEXT,
+            notes TEXT,
+            exception_id TEXT,
+            event_timestamp TEXT,
+            request_method TEXT,
+            request_path TEXT,
+            matched_input TEXT,
+            payload_preview TEXT,
+            attack_type TEXT,
+            risk_score INTEGER,
+            action TEXT,
+            agent TEXT,
+            assessment TEXT
+        )`,
+        "CREATE INDEX IF NOT EXISTS idx_feedback_created ON verdict_feedback(created_at, id)",
+        "CREATE INDEX IF NOT EXISTS idx_feedback_outcome ON verdict_feedback(outcome, created_at)",
+        "CREATE INDEX IF NOT EXISTS idx_feedback_event ON verdict_feedback(event_id)",
+    ],
+};
@@ -0,0 +1,162 @@
+import { Env, Migration } from "../types";
+import { initialSchema } from "./0001_initial_schema";
+import { eventContext } from "./0002_event_context";
+import { retention } from "./0003_retention";
+import { networkEnrichment } from "./0004_network_enrichment";
+import { mitigationAudit } from "./0005_mitigation_audit";
+import { shadowMode } from "./0006_shadow_mode";
+import { verdictFeedback } from "./0007_verdict_feedback";
+
+/**
+ * D1 Schema Migrations
+ *
+ * Versioned, forward-only migrations for the Sentinel D1 database. Applied
+ * versions are recorded in `schema_migrations`; the runner is idempotent and
+ * runs from the cron trigger and from `POST /v1/admin/migrations`.
+ *
+ * To change the schema, add a new file (`NNNN_<name>.ts`) and append it to
+ * MIGRATIONS. Never edit a migration that has shipped.
+ */
+
+export const MIGRATIONS: Migration[] = [
+    initialSchema,
+    eventContext,
+    retention,
+    networkEnrichment,
+    mitigationAudit,
+    shadowMode,
+    verdictFeedback,
+];
+
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    appliedAt: string;
+}
+
+export interface MigrationStatus {
+    current: number; // Highest applied version (0 for a fresh database)
+    applied: AppliedMigration[];
+    pending: { version: number; name: string }[];
+}
+
+const CREATE_MIGRATIONS_TABLE = `CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TEXT NOT NULL
+)`;
+
+/**
+ * Apply every pending migration in version order. Each migration runs as one
+ * D1 batch (a single transaction), so a failure leaves it unapplied.
+ * Returns the migrations applied by this call.
+ */
+export async function runMigrations(
+    env: Env,
+    migrations: Migration[] = MIGRATIONS
+): Promise<{ version: number; name: string }[]> {
+    const db = env.DB;
+    await db.prepare(CREATE_MIGRATIONS_TABLE).run();
+    const applied = new Set((await listApplied(env)).map((m) => m.version));
+    const ran: { version: number; name: string }[] = [];
+
+    for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+        if (applied.has(migration.version)) continue;
+
+        const statements: D1PreparedStatement[] = [];
+        for (const column of await missingColumns(env, migration)) {
+            statements.push(db.prepare(`ALTER TABLE ${column.table} ADD COLUMN ${column.name} ${column.definition}`));
+        }
+        for (const sql of migration.statements) {
+            statements.push(db.prepare(sql));
+        }
+        statements.push(
+            db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)")
+                .bind(migration.version, migration.name, new Date().toISOString())
+        );
+
+        try {
+            await db.batch(statements);
+        } catch (error) {
+            // Another isolate (cron vs. maintenance route) may have applied it first
+            const row = await db.prepare("SELECT version FROM schema_migrations WHERE version = ?")
+                .bind(migration.version)
+                .first();
+            if (row) continue;
+            throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        console.log(`[Migrations] Applied ${migration.version} (${migration.name})`);
+        ran.push({ version: migration.version, name: migration.name });
+    }
+
+    return ran;
+}
+
+/**
+ * Applied and pending migrations, without changing anything.
+ */
+export async function getMigrationStatus(env: Env, migrations: Migration[] = MIGRATIONS): Promise<MigrationStatus> {
+    await env.DB.prepare(CREATE_MIGRATIONS_TABLE).run();
+    const applied = await listApplied(env);
+    const versions = new Set(applied.map((m) => m.version));
+
+    return {
+        current: applied.reduce((max, m) => Math.max(max, m.version), 0),
+        applied,
+        pending: migrations
+            .filter((m) => !versions.has(m.version))
+            .sort((a, b) => a.version - b.version)
+            .map(({ version, name }) => ({ version, name })),
+    };
+}
+
+/**
+ * HTTP handler for `GET /v1/admin/migrations` (status) and `POST /v1/admin/migrations` (run).
+ */
+export async function handleMigrationsRequest(
+    request: Request,
+    env: Env,
+    corsHeaders: Record<string, string>
+): Promise<Response> {
+    const json = (body: unknown, status = 200) =>
+        new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...corsHeaders } });
+
+    try {
+        const applied = request.method === "POST" ? await runMigrations(env) : undefined;
+        const status = await getMigrationStatus(env);
+        return json({ success: true, ...(applied ? { applied } : {}), ...status });
+    } catch (error) {
+        console.error("[Migrations] Failed:", error);
+        return json({ error: "Internal Server Error", message: error instanceof Error ? error.message : "Migration failed" }, 500);
+    }
+}
+
+async function listApplied(env: Env): Promise<AppliedMigration[]> {
+    const { results } = await env.DB.prepare(
+        "SELECT version, name, applied_at FROM schema_migrations ORDER BY version"
+    ).all<{ version: number; name: string; applied_at: string }>();
+    return results.map((row) => ({ version: row.version, name: row.name, appliedAt: row.applied_at }));
+}
+
+/**
+ * Column changes of a migration that still need an ALTER TABLE. Columns on
+ * tables that don't exist yet are skipped: the migration's CREATE TABLE adds them.
+ */
+async function missingColumns(env: Env, migration: Migration): Promise<NonNullable<Migration["columns"]>> {
+    const missing: NonNullable<Migration["columns"]> = [];
+    const existing = new Map<string, Set<string>>();
+
+    for (const column of migration.columns ?? []) {
+        let names = existing.get(column.table);
+        if (!names) {
+            const { results } = await env.DB.prepare(`PRAGMA table_info(${column.table})`).all<{ name: string }>();
+            names = new Set(results.map((row) => row.name));
+            existing.set(column.table, names);
+        }
+        if (names.size > 0 && !names.has(column.name)) {
+            missing.push(column);
+        }
+    }
+    return missing;
+}
@@ -0,0 +1,673 @@
+import { AuthPrincipal, Env, MitigationMode, MitigationRecord, SecurityAssessment } from "./types";
+import { ParsedCIDR, parseCIDR, parseIP, cidrContains, formatCIDR } from "./net";
+import {
+    ACCESS_RULE_PREFIXES,
+    CloudflareApiError,
+    MANUAL_BLOCK_NOTE,
+    accessRuleMode,
+    createAccessRule,
+    deleteAccessRule,
+    isAccessRuleId,
+    isCloudflareConfigured,
+    isSentinelRule,
+    listAccessRules,
+    updateAccessRule,
+} from "./cloudflare";
+
+/**
+ * Active Mitigation Enforcement
+ *
+ * Blocks written to KV (`mitigation:<ip>` by the traffic pipeline and
+ * SentinelWorkflow, `mitigation:<cidr>` for ranges) are checked before a
+ * request is decomposed or hashed, so a blocked source is rejected even when
+ * it sends a payload the agents haven't seen.
+ *
+ * - `allowlist:<ip or cidr>` keys are exceptions: a source they cover is never
+ *   rejected by a mitigation (it is still analyzed as usual).
+ * - The most specific matching rule decides the mode.
+ * - Rules are loaded with KV list (names, expirations and metadata only) and
+ *   cached in the isolate for ENFORCEMENT_CACHE_TTL_MS, so enforcement costs no
+ *   KV read per request. A block written by this isolate applies immediately;
+ *   blocks from other isolates apply within the cache TTL.
+ *
+ * Management API (admin scope):
+ *   GET    /v1/mitigations        list records
+ *   POST   /v1/mitigations        {"ip", "mode"?, "ttlSeconds"?, "reason"?}
+ *   PATCH  /v1/mitigations/:ip    {"mode"?, "ttlSeconds"?, "reason"?}; ttlSeconds restarts the clock
+ *   DELETE /v1/mitigations/:ip    revoke
+ * `:ip` is an IP or a URL-encoded CIDR ("198.51.100.0%2F24"). The Cloudflare
+ * IP Access Rule (if configured) is changed first and the KV record only once
+ * that succeeded, so the two stay in sync. Every change is recorded in the
+ * D1 `mitigation_audit_log` with the caller's key id.
+ *
+ * Self-healing cleanup (`scheduled` handler, see cleanupMitigations) deletes
+ * the Cloudflare rules of expired records and of Sentinel rules whose KV
+ * record is gone. KV evicts a record at its expiry, usually before the cron
+ * sees it, so most expired rules are found by the second, orphan pass.
+ */
+
+export const MITIGATION_PREFIX = "mitigation:";
+export const ALLOWLIST_PREFIX = "allowlist:";
+export const ENFORCEMENT_CACHE_TTL_MS = 30_000;
+export const DEFAULT_MANUAL_TTL_SECONDS = 60 * 60 * 24; // 1 day
+export const MAX_MANUAL_TTL_SECONDS = 60 * 60 * 24 * 30; // 30 days
+const MIN_TTL_SECONDS = 60; // KV minimum
+const MAX_REASON_LENGTH = 500;
+const MITIGATION_MODES: readonly MitigationMode[] = ["block", "challenge", "track"];
+
+// Orphaned rules younger than this are left alone: SentinelWorkflow creates
+// the rule before it writes the KV record
+export const ORPHAN_GRACE_MS = 10 * 60 * 1000;
+// Cloudflare API deletions per cleanup run; the next run picks up the rest
+export const MAX_CLEANUP_DELETIONS = 200;
+
+// Stored as KV metadata so rules can be loaded without reading values
+interface MitigationMetadata {
+    mode: MitigationMode;
+    ruleId: string | null;
+}
+
+interface Range {
+    target: string; // Canonical IP or CIDR from the key name
+    range: ParsedCIDR;
+    expiresAt: number | null; // Epoch ms, from the KV expiration
+}
+
+interface Rule extends Range, MitigationMetadata {}
+
+interface ListedRange extends Range {
+    key: string;
+    metadata: MitigationMetadata | null;
+}
+
+export class MitigationRequestError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+        this.name = "MitigationRequestError";
+    }
+}
+
+export interface MitigationChanges {
+    mode?: MitigationMode;
+    ttlSeconds?: number;
+    reason?: string;
+}
+
+export interface CleanupResult {
+    scanned: number; // KV records listed
+    expired: number; // Expired KV records removed
+    rulesDeleted: number; // Cloudflare rules of expired records
+    orphansDeleted: number; // Sentinel rules without a KV record
+    errors: number;
+    complete: boolean; // false if work was left for the next run (429, errors, MAX_CLEANUP_DELETIONS)
+}
+
+export interface MitigationMatch {
+    target: string;
+    mode: MitigationMode;
+    ruleId: string | null;
+    expiresAt: string | null;
+}
+
+interface RuleSet {
+    loadedAt: number;
+    mitigations: Rule[];
+    allowlist: Range[];
+}
+
+// Per-isolate cache; see the module comment
+let ruleCache: RuleSet | null = null;
+
+/**
+ * The mitigation a request from `ip` must be rejected under, if any.
+ * Only `block` rules are enforced here: `challenge` rules are served by
+ * Cloudflare's managed challenge before the request reaches the Worker, and
+ * `track` rules are informational. KV failures fail open.
+ */
+export async function findActiveMitigation(env: Env, ip: string, now: number = Date.now()): Promise<MitigationMatch | null> {
+    const parsed = parseIP(ip);
+    if (!parsed) return null;
+
+    const rules = await loadRules(env, now);
+    if (rules.allowlist.some((entry) => isLive(entry, now) && cidrContains(entry.range, parsed))) {
+        return null;
+    }
+
+    let match: Rule | null = null;
+    for (const rule of rules.mitigations) {
+        if (!isLive(rule, now) || !cidrContains(rule.range, parsed)) continue;
+        if (!match || rule.range.prefixLength > match.range.prefixLength) match = rule;
+    }
+
+    if (!match || match.mode !== "block") return null;
+    return {
+        target: match.target,
+        mode: match.mode,
+        ruleId: match.ruleId,
+        expiresAt: match.expiresAt !== null ? new Date(match.expiresAt).toISOString() : null,
+    };
+}
+
+/**
+ * Whether `ip` is covered by an allowlist entry. Allowlisted sources are never
+ * auto-mitigated.
+ */
+export async function isAllowlisted(env: Env, ip: string, now: number = Date.now()): Promise<boolean> {
+    const parsed = parseIP(ip);
+    if (!parsed) return false;
+    const rules = await loadRules(env, now);
+    return rules.allowlist.some((entry) => isLive(entry, now) && cidrContains(entry.range, parsed));
+}
+
+/**
+ * Write a mitigation record (key `mitigation:<record.sourceIP>`) and apply it
+ * to this isolate's rule cache right away.
+ */
+export async function putMitigation(env: Env, record: MitigationRecord, ttlSeconds: number): Promise<void> {
+    const metadata: MitigationMetadata = { mode: record.mode ?? "block", ruleId: record.ruleId };
+    await env.SENTINEL_KV.put(`${MITIGATION_PREFIX}${record.sourceIP}`, JSON.stringify(record), {
+        expirationTtl: ttlSeconds,
+        metadata,
+    });
+
+    const range = parseCIDR(record.sourceIP);
+    if (ruleCache && range) {
+        const target = formatTarget(range);
+        ruleCache.mitigations = ruleCache.mitigations.filter((rule) => rule.target !== target);
+        ruleCache.mitigations.push({ target, range, expiresAt: Date.now() + ttlSeconds * 1000, ...metadata });
+    }
+}
+
+/**
+ * Ledger assessment for a request rejected by an active mitigation.
+ */
+export function mitigationAssessment(match: MitigationMatch): SecurityAssessment {
+    return {
+        attackType: "Active Mitigation",
+        confidence: "High",
+        riskScore: 100,
+        explanation: `Source matches active mitigation ${match.target}.`,
+        impact: "None",
+        mitigation: match.expiresAt ? `Source blocked until ${match.expiresAt}` : "Source blocked",
+        action: "block",
+        executive_summary: "Request rejected without analysis: the source is under an active block.",
+        timestamp: new Date().toISOString(),
+    };
+}
+
+/**
+ * Drop the isolate's rule cache (tests, or after bulk KV changes).
+ */
+export function clearMitigationCache(): void {
+    ruleCache = null;
+}
+
+/**
+ * Canonical key target for an IP or CIDR ("::ffff:10.0.0.1" -> "10.0.0.1",
+ * "10.1.2.3/8" -> "10.0.0.0/8"), or null if invalid.
+ */
+export function canonicalTarget(input: string): string | null {
+    const range = parseCIDR(input);
+    return range ? formatTarget(range) : null;
+}
+
+/**
+ * Create a manual mitigation. Throws MitigationRequestError (409) if the
+ * target already has one or is allowlisted, and CloudflareApiError if the
+ * edge rule can't be created (nothing is written then).
+ */
+export async function createMitigation(
+    env: Env,
+    principal: AuthPrincipal,
+    target: string,
+    changes: MitigationChanges
+): Promise<MitigationRecord> {
+    if (await readMitigation(env, target)) {
+        throw new MitigationRequestError(409, `${target} already has a mitigation; use PATCH to change it`);
+    }
+    if (!target.includes("/") && await isAllowlisted(env, target)) {
+        throw new MitigationRequestError(409, `${target} is allowlisted`);
+    }
+
+    const mode = changes.mode ?? "block";
+    const ttlSeconds = changes.ttlSeconds ?? DEFAULT_MANUAL_TTL_SECONDS;
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlSeconds * 1000).toISOString();
+
+    const edgeMode = accessRuleMode(mode);
+    const ruleId = edgeMode && isCloudflareConfigured(env)
+        ? await createAccessRule(env, { target, mode: edgeMode, notes: manualNotes(principal, changes.reason, expiresAt) })
+        : null;
+
+    const record: MitigationRecord = {
+        ruleId,
+        sourceIP: target,
+        attackType: "Manual",
+        riskScore: 100,
+        createdAt: now.toISOString(),
+        expiresAt,
+        mode,
+        reason: changes.reason,
+        createdBy: principal.keyId,
+    };
+
+    try {
+        await putMitigation(env, record, ttlSeconds);
+    } catch (error) {
+        // Don't leave an edge rule behind without its record
+        if (ruleId) await deleteAccessRule(env, ruleId).catch((e) => console.error(`[Mitigations] Rollback of rule ${ruleId} failed:`, e));
+        throw error;
+    }
+
+    await logMitigationChange(env, principal, "create", record, null);
+    return record;
+}
+
+/**
+ * Change the mode, expiry or reason of a mitigation, creating, updating or
+ * deleting the edge rule to match the new mode.
+ */
+export async function updateMitigation(
+    env: Env,
+    principal: AuthPrincipal,
+    target: string,
+    changes: MitigationChanges
+): Promise<MitigationRecord> {
+    const existing = await readMitigation(env, target);
+    if (!existing) throw new MitigationRequestError(404, `No mitigation for ${target}`);
+
+    const now = Date.now();
+    const mode = changes.mode ?? existing.mode ?? (existing.ruleId === "tracked-only" ? "track" : "block");
+    const expiresAt = changes.ttlSeconds !== undefined
+        ? new Date(now + changes.ttlSeconds * 1000).toISOString()
+        : existing.expiresAt;
+    const ttlSeconds = Math.max(Math.ceil((Date.parse(expiresAt) - now) / 1000), MIN_TTL_SECONDS);
+    const reason = changes.reason ?? existing.reason;
+
+    let ruleId = existing.ruleId;
+    const edgeMode = accessRuleMode(mode);
+    if (isAccessRuleId(ruleId)) {
+        if (edgeMode) {
+            await updateAccessRule(env, ruleId, { mode: edgeMode, notes: manualNotes(principal, reason, expiresAt) });
+        } else {
+            await deleteAccessRule(env, ruleId);
+            ruleId = null;
+        }
+    } else if (edgeMode && isCloudflareConfigured(env)) {
+        ruleId = await createAccessRule(env, { target, mode: edgeMode, notes: manualNotes(principal, reason, expiresAt) });
+    }
+
+    const record: MitigationRecord = {
+        ...existing,
+        sourceIP: target,
+        ruleId,
+        mode,
+        expiresAt,
+        reason,
+        updatedAt: new Date(now).toISOString(),
+    };
+    await putMitigation(env, record, ttlSeconds);
+
+    await logMitigationChange(env, principal, "update", record, existing);
+    return record;
+}
+
+/**
+ * Revoke a mitigation: delete the edge rule, then the KV record.
+ */
+export async function revokeMitigation(env: Env, principal: AuthPrincipal, target: string): Promise<MitigationRecord> {
+    const existing = await readMitigation(env, target);
+    if (!existing) throw new MitigationRequestError(404, `No mitigation for ${target}`);
+
+    if (isAccessRuleId(existing.ruleId)) {
+        await deleteAccessRule(env, existing.ruleId);
+    }
+    await env.SENTINEL_KV.delete(`${MITIGATION_PREFIX}${target}`);
+    if (ruleCache) {
+        ruleCache.mitigations = ruleCache.mitigations.filter((rule) => rule.target !== target);
+    }
+
+    await logMitigationChange(env, principal, "revoke", existing, existing);
+    return existing;
+}
+
+/**
+ * Remove expired mitigations as of `now`:
+ * 1. Expired KV records: delete the Cloudflare rule (if any), then the record.
+ *    A record whose rule could not be deleted is kept for the next run.
+ * 2. Orphans: Sentinel rules (see isSentinelRule) older than ORPHAN_GRACE_MS
+ *    that no KV record refers to.
+ * A 429 from the Cloudflare API ends the run's API calls. The orphan pass is
+ * skipped unless every KV record was read, so a record that failed to load
+ * can't make its live rule look orphaned.
+ */
+export async function cleanupMitigations(env: Env, now: number = Date.now()): Promise<CleanupResult> {
+    const result: CleanupResult = { scanned: 0, expired: 0, rulesDeleted: 0, orphansDeleted: 0, errors: 0, complete: true };
+    const apiEnabled = isCloudflareConfigured(env);
+    let deletions = 0;
+    let rateLimited = false;
+    let scanComplete = true;
+
+    // Delete one rule within the run's budget; false if it was left in place
+    const deleteRule = async (ruleId: string): Promise<boolean> => {
+        if (rateLimited || deletions >= MAX_CLEANUP_DELETIONS) {
+            result.complete = false;
+            return false;
+        }
+        deletions++;
+        try {
+            await deleteAccessRule(env, ruleId);
+            return true;
+        } catch (error) {
+            if (error instanceof CloudflareApiError && error.status === 429) {
+                rateLimited = true;
+                console.warn(`[Sentinel Cleanup] Cloudflare API rate limit hit. Retry-After: ${error.retryAfter}s`);
+            } else {
+                console.error(`[Sentinel Cleanup] Failed to delete rule ${ruleId}:`, error);
+            }
+            result.errors++;
+            result.complete = false;
+            return false;
+        }
+    };
+
+    const referenced = new Set<string>();
+    const entries = await listRanges(env, MITIGATION_PREFIX);
+    result.scanned = entries.length;
+
+    for (const entry of entries) {
+        try {
+            const rule = await withMetadata(env, entry);
+            const expiresAt = rule.expiresAt ?? await recordExpiry(env, entry.key);
+            if (expiresAt === null || expiresAt > now) {
+                if (rule.ruleId) referenced.add(rule.ruleId);
+                continue;
+            }
+
+            if (apiEnabled && isAccessRuleId(rule.ruleId)) {
+                if (!await deleteRule(rule.ruleId)) {
+                    referenced.add(rule.ruleId);
+                    continue;
+                }
+                result.rulesDeleted++;
+            }
+            await env.SENTINEL_KV.delete(entry.key);
+            result.expired++;
+            if (ruleCache) {
+                ruleCache.mitigations = ruleCache.mitigations.filter((cached) => cached.target !== rule.target);
+            }
+            console.log(`[Sentinel Cleanup] Expired mitigation for ${rule.target} (rule: ${rule.ruleId})`);
+        } catch (error) {
+            console.error(`[Sentinel Cleanup] Failed to clean up ${entry.key}:`, error);
+            scanComplete = false;
+            result.errors++;
+            result.complete = false;
+        }
+    }
+
+    if (apiEnabled && !rateLimited && scanComplete) {
+        try {
+            const rules = await listAccessRules(env, "Sentinel AI");
+            const orphans = rules.filter((rule) =>
+                isSentinelRule(rule) && !referenced.has(rule.id) && ruleAge(rule.created_on, now) >= ORPHAN_GRACE_MS
+            );
+            for (const orphan of orphans) {
+                if (!await deleteRule(orphan.id)) continue;
+                result.orphansDeleted++;
+                console.log(`[Sentinel Cleanup] Deleted orphaned rule ${orphan.id} for ${orphan.configuration.value}`);
+            }
+        } catch (error) {
+            console.error("[Sentinel Cleanup] Failed to list Cloudflare rules:", error);
+            result.errors++;
+            result.complete = false;
+        }
+    }
+
+    console.log(
+        `[Sentinel Cleanup] Scanned ${result.scanned} records: ${result.expired} expired, ` +
+        `${result.rulesDeleted} rules and ${result.orphansDeleted} orphaned rules deleted, ${result.errors} errors`
+    );
+    return result;
+}
+
+/**
+ * HTTP handler for `/v1/mitigations` and `/v1/mitigations/:ip`.
+ */
+export async function handleMitigationsRequest(
+    request: Request,
+    env: Env,
+    url: URL,
+    principal: AuthPrincipal,
+    corsHeaders: Record<string, string>
+): Promise<Response> {
+    const json = (body: unknown, status = 200) =>
+        new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...corsHeaders } });
+
+    try {
+        if (url.pathname === "/v1/mitigations") {
+            if (request.method === "GET") {
+                const list = await env.SENTINEL_KV.list({ prefix: MITIGATION_PREFIX, limit: 100 });
+                const mitigations: MitigationRecord[] = [];
+                for (const key of list.keys) {
+                    const record = await env.SENTINEL_KV.get<MitigationRecord>(key.name, "json");
+                    if (record) mitigations.push(record);
+                }
+                return json({ success: true, mitigations });
+            }
+
+            const body = await readBody(request);
+            if (typeof body.ip !== "string") throw new MitigationRequestError(400, "ip must be an IP address or CIDR range");
+            const record = await createMitigation(env, principal, parseTarget(body.ip), parseChanges(body));
+            return json({ success: true, mitigation: record }, 201);
+        }
+
+        let segment: string;
+        try {
+            segment = decodeURIComponent(url.pathname.slice("/v1/mitigations/".length));
+        } catch (e) {
+            throw new MitigationRequestError(400, "ip must be an IP address or CIDR range");
+        }
+        const target = parseTarget(segment);
+        if (request.method === "DELETE") {
+            return json({ success: true, revoked: await revokeMitigation(env, principal, target) });
+        }
+
+        const changes = parseChanges(await readBody(request));
+        if (Object.values(changes).every((value) => value === undefined)) {
+            throw new MitigationRequestError(400, "Expected at least one of mode, ttlSeconds, reason");
+        }
+        return json({ success: true, mitigation: await updateMitigation(env, principal, target, changes) });
+
+    } catch (error) {
+        if (error instanceof MitigationRequestError) {
+            const label = error.status === 404 ? "Not Found" : error.status === 409 ? "Conflict" : "Bad Request";
+            return json({ error: label, message: error.message }, error.status);
+        }
+        if (error instanceof CloudflareApiError) {
+            console.error("[Mitigations] Cloudflare API call failed:", error);
+            return json({ error: "Bad Gateway", message: `Cloudflare IP Access Rule change failed: ${error.message}` }, 502);
+        }
+        console.error("[Mitigations] Request failed:", error);
+        return json({ error: "Internal Server Error", message: "Failed to change mitigation" }, 500);
+    }
+}
+
+async function readMitigation(env: Env, target: string): Promise<MitigationRecord | null> {
+    return await env.SENTINEL_KV.get<MitigationRecord>(`${MITIGATION_PREFIX}${target}`, "json");
+}
+
+async function readBody(request: Request): Promise<Record<string, unknown>> {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch (e) {
+        throw new MitigationRequestError(400, "Request body must be valid JSON");
+    }
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        throw new MitigationRequestError(400, "Request body must be a JSON object");
+    }
+    return body as Record<string, unknown>;
+}
+
+// Ranges are limited to the prefixes Cloudflare IP Access Rules accept
+function parseTarget(input: string): string {
+    const target = canonicalTarget(input);
+    if (!target) throw new MitigationRequestError(400, "ip must be an IP address or CIDR range");
+
+    const range = parseCIDR(target)!;
+    if (range.prefixLength < range.bytes.length * 8 && !ACCESS_RULE_PREFIXES[range.version].includes(range.prefixLength)) {
+        throw new MitigationRequestError(400, "CIDR ranges must be /16 or /24 for IPv4, /32, /48 or /64 for IPv6");
+    }
+    return target;
+}
+
+function parseChanges(body: Record<string, unknown>): MitigationChanges {
+    const changes: MitigationChanges = {};
+
+    if (body.mode !== undefined) {
+        if (!(MITIGATION_MODES as readonly unknown[]).includes(body.mode)) {
+            throw new MitigationRequestError(400, `mode must be one of ${MITIGATION_MODES.join(", ")}`);
+        }
+        changes.mode = body.mode as MitigationMode;
+    }
+
+    if (body.ttlSeconds !== undefined) {
+        const ttl = body.ttlSeconds;
+        if (typeof ttl !== "number" || !Number.isInteger(ttl) || ttl < MIN_TTL_SECONDS || ttl > MAX_MANUAL_TTL_SECONDS) {
+            throw new MitigationRequestError(400, `ttlSeconds must be an integer between ${MIN_TTL_SECONDS} and ${MAX_MANUAL_TTL_SECONDS}`);
+        }
+        changes.ttlSeconds = ttl;
+    }
+
+    if (body.reason !== undefined) {
+        if (typeof body.reason !== "string" || body.reason.length > MAX_REASON_LENGTH) {
+            throw new MitigationRequestError(400, `reason must be a string of at most ${MAX_REASON_LENGTH} characters`);
+        }
+        changes.reason = body.reason;
+    }
+
+    return changes;
+}
+
+function manualNotes(principal: AuthPrincipal, reason: string | undefined, expiresAt: string): string {
+    return `${MANUAL_BLOCK_NOTE} | Key: ${principal.keyId} | Reason: ${reason ?? "-"} | Expires: ${expiresAt}`;
+}
+
+/**
+ * Record a mitigation change in D1. Never throws: the change itself has
+ * already been applied.
+ */
+async function logMitigationChange(
+    env: Env,
+    principal: AuthPrincipal,
+    action: "create" | "update" | "revoke",
+    record: MitigationRecord,
+    previous: MitigationRecord | null
+): Promise<void> {
+    try {
+        await env.DB.prepare(
+            `INSERT INTO mitigation_audit_log
+            (id, timestamp, key_id, action, target, mode, expires_at, rule_id, reason, previous)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+            .bind(
+                crypto.randomUUID(),
+                new Date().toISOString(),
+                principal.keyId,
+                action,
+                record.sourceIP,
+                record.mode ?? null,
+                record.expiresAt,
+                record.ruleId,
+                record.reason ?? null,
+                previous ? JSON.stringify(previous) : null
+            )
+            .run();
+    } catch (error) {
+        console.error("[Mitigations] Failed to write mitigation audit log:", error);
+    }
+}
+
+async function loadRules(env: Env, now: number): Promise<RuleSet> {
+    if (ruleCache && now - ruleCache.loadedAt < ENFORCEMENT_CACHE_TTL_MS) return ruleCache;
+
+    try {
+        const [mitigations, allowlist] = await Promise.all([
+            listRanges(env, MITIGATION_PREFIX),
+            listRanges(env, ALLOWLIST_PREFIX),
+        ]);
+        ruleCache = {
+            loadedAt: now,
+            mitigations: await Promise.all(mitigations.map((entry) => withMetadata(env, entry))),
+            allowlist,
+        };
+    } catch (error) {
+        // Keep enforcing the last known rules; retry after the TTL rather than on every request
+        console.error("[Mitigations] Failed to load rules:", error);
+        ruleCache = { mitigations: [], allowlist: [], ...ruleCache, loadedAt: now };
+    }
+    return ruleCache;
+}
+
+async function listRanges(env: Env, prefix: string): Promise<ListedRange[]> {
+    const entries: ListedRange[] = [];
+    let cursor: string | undefined;
+
+    // Paginated: KV list returns at most 1000 keys per call
+    do {
+        const page = await env.SENTINEL_KV.list<MitigationMetadata>({ prefix, cursor });
+        for (const key of page.keys) {
+            const range = parseCIDR(key.name.slice(prefix.length));
+            if (!range) continue;
+            entries.push({
+                key: key.name,
+                target: formatTarget(range),
+                range,
+                expiresAt: key.expiration ? key.expiration * 1000 : null,
+                metadata: key.metadata ?? null,
+            });
+        }
+        cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return entries;
+}
+
+/**
+ * Records written before metadata existed have no mode in the listing; their
+ * value tells tracked-only entries (SentinelWorkflow, risk 71-94) from blocks.
+ */
+async function withMetadata(env: Env, entry: ListedRange): Promise<Rule> {
+    const { key, metadata, ...range } = entry;
+    if (metadata?.mode) return { ...range, mode: metadata.mode, ruleId: metadata.ruleId ?? null };
+
+    const record = await env.SENTINEL_KV.get<MitigationRecord>(key, "json");
+    return {
+        ...range,
+        mode: record?.mode ?? (record?.ruleId === "tracked-only" ? "track" : "block"),
+        ruleId: record?.ruleId ?? null,
+    };
+}
+
+// Expiry of a record stored without a KV expiration (epoch ms), from its value
+async function recordExpiry(env: Env, key: string): Promise<number | null> {
+    const record = await env.SENTINEL_KV.get<MitigationRecord>(key, "json");
+    const expiresAt = record ? Date.parse(record.expiresAt) : NaN;
+    return Number.isNaN(expiresAt) ? null : expiresAt;
+}
+
+// Milliseconds since a rule's `created_on`; unparseable dates count as old
+function ruleAge(createdOn: string, now: number): number {
+    const created = Date.parse(createdOn);
+    return Number.isNaN(created) ? Infinity : now - created;
+}
+
+// Single hosts are keyed by the bare address, ranges as CIDR
+function formatTarget(range: ParsedCIDR): string {
+    const text = formatCIDR(range);
+    return range.prefixLength === range.bytes.length * 8 ? text.slice(0, text.lastIndexOf("/")) : text;
+}
+
+function isLive(range: Range, now: number): boolean {
+    return range.expiresAt === null || range.expiresAt > now;
+}
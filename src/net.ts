@@ -0,0 +1,192 @@
+/**
+ * IP Address Utilities
+ *
+ * Addresses are handled as byte arrays (4 bytes for IPv4, 16 for IPv6) so the
+ * same code can canonicalize, classify and compare them regardless of the
+ * notation an attacker (or a proxy header) used.
+ */
+
+export interface ParsedIP {
+    version: 4 | 6;
+    bytes: number[];
+}
+
+/**
+ * Parse an IPv4 address.
+ *
+ * Strict mode accepts only dotted-quad decimal ("127.0.0.1").
+ * Lenient mode follows inet_aton(), which most HTTP clients still honour:
+ * decimal ("2130706433"), hex ("0x7f.1"), octal ("0177.0.0.1") and short
+ * forms ("127.1") all resolve to the same address.
+ */
+export function parseIPv4(input: string, lenient = false): number[] | null {
+    const parts = input.split(".");
+    if (parts.length === 0 || parts.length > 4 || parts.some((p) => p === "")) return null;
+
+    if (!lenient) {
+        if (parts.length !== 4) return null;
+        const bytes = parts.map((p) => (/^(0|[1-9]\d{0,2})$/.test(p) ? Number(p) : NaN));
+        return bytes.every((b) => b <= 255) ? bytes : null;
+    }
+
+    const values: number[] = [];
+    for (const part of parts) {
+        let value: number;
+        if (/^0x[0-9a-f]*$/i.test(part)) value = part.length === 2 ? 0 : parseInt(part.slice(2), 16);
+        else if (/^0[0-7]*$/.test(part)) value = parseInt(part, 8);
+        else if (/^[1-9]\d*$/.test(part)) value = Number(part);
+        else return null;
+        values.push(value);
+    }
+
+    // All parts but the last are single bytes; the last fills the remaining bytes
+    const last = values.pop()!;
+    if (values.some((v) => v > 255)) return null;
+    const remainingBytes = 4 - values.length;
+    if (last >= Math.pow(256, remainingBytes)) return null;
+
+    const bytes = [...values];
+    for (let i = remainingBytes - 1; i >= 0; i--) {
+        bytes.push(Math.floor(last / Math.pow(256, i)) % 256);
+    }
+    return bytes;
+}
+
+/**
+ * Parse an IPv6 address (brackets and zone IDs are tolerated).
+ * Supports "::" compression and an embedded dotted IPv4 tail ("::ffff:127.0.0.1").
+ */
+export function parseIPv6(input: string): number[] | null {
+    let address = input.replace(/^\[|\]$/g, "").replace(/%.*$/, "").toLowerCase();
+    if (!address.includes(":")) return null;
+
+    // Embedded IPv4 tail -> two hextets
+    const v4Tail = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+    if (v4Tail) {
+        const v4 = parseIPv4(v4Tail[2]);
+        if (!v4) return null;
+        address = `${v4Tail[1]}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+    }
+
+    const halves = address.split("::");
+    if (halves.length > 2) return null;
+
+    const toGroups = (half: string) => (half === "" ? [] : half.split(":"));
+    const head = toGroups(halves[0]);
+    const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+    const missing = 8 - head.length - tail.length;
+    if ((halves.length === 1 && missing !== 0) || (halves.length === 2 && missing < 1)) return null;
+
+    const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+    const bytes: number[] = [];
+    for (const group of groups) {
+        if (!/^[0-9a-f]{1,4}$/.test(group)) return null;
+        const value = parseInt(group, 16);
+        bytes.push(value >> 8, value & 0xff);
+    }
+    return bytes;
+}
+
+/**
+ * Parse any IP literal. IPv4-mapped/compatible IPv6 addresses are unwrapped
+ * to IPv4 so "::ffff:169.254.169.254" and "169.254.169.254" compare equal.
+ */
+export function parseIP(input: string, lenient = false): ParsedIP | null {
+    const v4 = parseIPv4(input, lenient);
+    if (v4) return { version: 4, bytes: v4 };
+
+    const v6 = parseIPv6(input);
+    if (!v6) return null;
+
+    const embedded = embeddedIPv4(v6);
+    return embedded ? { version: 4, bytes: embedded } : { version: 6, bytes: v6 };
+}
+
+/**
+ * Extract the IPv4 address from an IPv4-mapped (::ffff:a.b.c.d) or
+ * IPv4-compatible (::a.b.c.d) IPv6 address.
+ */
+export function embeddedIPv4(bytes: number[]): number[] | null {
+    if (bytes.slice(0, 10).some((b) => b !== 0)) return null;
+    const marker = bytes.slice(10, 12);
+    const isMapped = marker[0] === 0xff && marker[1] === 0xff;
+    // "::" and "::1" are IPv6 addresses in their own right, not compatible forms
+    const tail = bytes.slice(12);
+    const isCompatible = marker[0] === 0 && marker[1] === 0 && ((tail[0] | tail[1] | tail[2]) !== 0 || tail[3] > 1);
+    return isMapped || isCompatible ? tail : null;
+}
+
+/**
+ * Canonical text form: dotted quad for IPv4, RFC 5952 compressed for IPv6.
+ */
+export function formatIP(ip: ParsedIP): string {
+    if (ip.version === 4) return ip.bytes.join(".");
+
+    const groups: number[] = [];
+    for (let i = 0; i < 16; i += 2) groups.push((ip.bytes[i] << 8) | ip.bytes[i + 1]);
+
+    // Longest run (length >= 2) of zero groups is compressed to "::"
+    let bestStart = -1;
+    let bestLength = 0;
+    for (let i = 0; i < 8; ) {
+        if (groups[i] !== 0) { i++; continue; }
+        let j = i;
+        while (j < 8 && groups[j] === 0) j++;
+        if (j - i > bestLength && j - i >= 2) { bestStart = i; bestLength = j - i; }
+        i = j;
+    }
+
+    const hex = groups.map((g) => g.toString(16));
+    if (bestStart === -1) return hex.join(":");
+    const head = hex.slice(0, bestStart).join(":");
+    const tail = hex.slice(bestStart + bestLength).join(":");
+    return `${head}::${tail}`;
+}
+
+export interface ParsedCIDR extends ParsedIP {
+    prefixLength: number;
+}
+
+/**
+ * Parse a CIDR range ("203.0.113.0/24", "2001:db8::/32"). A bare address is
+ * a single-host range. Host bits are cleared, so "203.0.113.7/24" and
+ * "203.0.113.0/24" are the same range.
+ */
+export function parseCIDR(input: string): ParsedCIDR | null {
+    const [address, length, ...rest] = input.trim().split("/");
+    if (rest.length > 0) return null;
+
+    const ip = parseIP(address);
+    if (!ip) return null;
+
+    const maxLength = ip.bytes.length * 8;
+    if (length !== undefined && !/^\d{1,3}$/.test(length)) return null;
+    // An IPv4-mapped IPv6 range ("::ffff:10.0.0.0/104") was unwrapped to IPv4 by parseIP
+    let prefixLength = length === undefined ? maxLength : Number(length);
+    if (ip.version === 4 && address.includes(":") && length !== undefined) prefixLength -= 96;
+    if (prefixLength < 0 || prefixLength > maxLength) return null;
+
+    const bytes = ip.bytes.map((byte, i) => {
+        const bits = Math.min(Math.max(prefixLength - i * 8, 0), 8);
+        return byte & ((0xff << (8 - bits)) & 0xff);
+    });
+    return { version: ip.version, bytes, prefixLength };
+}
+
+export function formatCIDR(cidr: ParsedCIDR): string {
+    return `${formatIP(cidr)}/${cidr.prefixLength}`;
+}
+
+/**
+ * Whether `ip` falls inside `cidr`. Addresses of the other IP version never match.
+ */
+export function cidrContains(cidr: ParsedCIDR, ip: ParsedIP): boolean {
+    if (cidr.version !== ip.version) return false;
+    for (let i = 0; i < cidr.bytes.length; i++) {
+        const bits = Math.min(Math.max(cidr.prefixLength - i * 8, 0), 8);
+        if (bits === 0) return true;
+        const mask = (0xff << (8 - bits)) & 0xff;
+        if ((ip.bytes[i] & mask) !== cidr.bytes[i]) return false;
+    }
+    return true;
+}
@@ -0,0 +1,156 @@
+import { SecurityAssessment, NetworkContext } from "./types";
+
+/**
+ * OCSF Detection Finding Mapping
+ *
+ * Shared by the SOC webhook (SentinelWorkflow `trigger-soc-alert`) and the
+ * forensic ledger export (`GET /v1/events/export?format=ocsf`).
+ * OCSF Schema: https://schema.ocsf.io/1.0.0/classes/detection_finding
+ */
+
+export type AlertSeverity = "critical" | "high" | "medium";
+
+export interface DetectionFindingOptions {
+    uid: string; // finding_info.uid
+    rawData: Record<string, unknown>; // Serialized into raw_data for SIEM correlation
+    time?: number; // Event time (epoch ms), defaults to now
+    network?: NetworkContext; // Source network: src_endpoint plus IP/ASN/geo observables
+}
+
+/**
+ * Human-readable alert severity for a risk score.
+ */
+export function alertSeverity(riskScore: number): AlertSeverity {
+    if (riskScore >= 90) return "critical";
+    if (riskScore >= 70) return "high";
+    return "medium";
+}
+
+/**
+ * OCSF severity_id for a risk score.
+ * OCSF Severity: 1=Informational, 2=Low, 3=Medium, 4=High, 5=Critical, 6=Fatal
+ */
+export function ocsfSeverityId(riskScore: number): number {
+    if (riskScore >= 95) return 5; // Critical
+    if (riskScore >= 90) return 4; // High
+    if (riskScore >= 70) return 3; // Medium
+    return 2; // Low
+}
+
+/**
+ * Construct an OCSF-compliant Detection Finding for an assessment.
+ */
+export function toDetectionFinding(assessment: SecurityAssessment, options: DetectionFindingOptions) {
+    const time = options.time ?? Date.now();
+    const network = options.network;
+
+    return {
+        // OCSF Core Fields
+        class_uid: 2004, // Detection Finding
+        class_name: "Detection Finding",
+        category_uid: 2, // Findings
+        category_name: "Findings",
+        activity_id: 1, // Create
+        activity_name: "Create",
+        severity_id: ocsfSeverityId(assessment.riskScore),
+        severity: alertSeverity(assessment.riskScore), // Human-readable: critical, high, medium
+        time,
+
+        // Finding Information
+        finding_info: {
+            uid: options.uid,
+            title: `${assessment.attackType} Detected`,
+            desc: assessment.executive_summary, // Human-readable summary for analysts
+            types: [assessment.attackType],
+            created_time: new Date(assessment.timestamp).getTime(),
+            modified_time: time,
+        },
+
+        // Detection Metadata
+        metadata: {
+            product: {
+                name: "Sentinel AI",
+                vendor_name: "Sentinel AI",
+                version: "1.0.0",
+            },
+            version: "1.0.0",
+        },
+
+        // Observables (Attack Details)
+        observables: [
+            {
+                name: "attack_type",
+                type: "Other",
+                value: assessment.attackType,
+            },
+            {
+                name: "risk_score",
+                type: "Other",
+                value: assessment.riskScore.toString(),
+            },
+            {
+                name: "confidence",
+                type: "Other",
+                value: assessment.confidence,
+            },
+            ...(network ? networkObservables(network) : []),
+        ],
+
+        // Source Endpoint (when the source network is known)
+        ...(network ? { src_endpoint: sourceEndpoint(network) } : {}),
+
+        // Remediation
+        remediation: {
+            desc: assessment.mitigation,
+            kb_articles: [],
+        },
+
+        // Raw Data (for SIEM correlation)
+        raw_data: JSON.stringify({
+            ...options.rawData,
+            assessment: {
+                attackType: assessment.attackType,
+                confidence: assessment.confidence,
+                riskScore: assessment.riskScore,
+                action: assessment.action,
+                explanation: assessment.explanation,
+                impact: assessment.impact,
+                mitigation: assessment.mitigation,
+                executive_summary: assessment.executive_summary,
+            },
+            originalTimestamp: assessment.timestamp,
+        }),
+    };
+}
+
+export type DetectionFinding = ReturnType<typeof toDetectionFinding>;
+
+/**
+ * Observables for the source network, so SIEM rules can pivot on ASN or
+ * country. Unknown fields are omitted.
+ */
+function networkObservables(network: NetworkContext): { name: string; type: string; value: string }[] {
+    const observables: { name: string; type: string; value: string }[] = [];
+    const add = (name: string, type: string, value: string | number | null) => {
+        if (value !== null) observables.push({ name, type, value: String(value) });
+    };
+
+    if (network.ipVersion !== null) add("src_endpoint.ip", "IP Address", network.ip);
+    add("src_endpoint.autonomous_system.number", "Other", network.asn);
+    add("src_endpoint.autonomous_system.name", "Other", network.asOrganization);
+    add("src_endpoint.location.country", "Other", network.country);
+    add("src_endpoint.location.city", "Other", network.city);
+    add("cloudflare.colo", "Other", network.colo);
+    add("tls.version", "Other", network.tlsVersion);
+    return observables;
+}
+
+function sourceEndpoint(network: NetworkContext) {
+    return {
+        ip: network.ipVersion !== null ? network.ip : undefined,
+        location: { country: network.country ?? undefined, city: network.city ?? undefined, region: network.region ?? undefined },
+        autonomous_system: network.asn !== null
+            ? { number: network.asn, name: network.asOrganization ?? undefined }
+            : undefined,
+    };
+}
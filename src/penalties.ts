@@ -0,0 +1,240 @@
+import { Env } from "./types";
+import { parseIP, parseCIDR, formatCIDR, formatIP } from "./net";
+
+/**
+ * Escalating Block Durations
+ *
+ * An automatic block lasts longer each time the same source is blocked again
+ * within a lookback window: by default 1h, 6h, 24h, then 7d for every further
+ * block. Offenses are counted for the IP and for its network (/24 for IPv4,
+ * /64 for IPv6); the higher count decides the tier, so rotating addresses
+ * within a network doesn't reset the penalty.
+ *
+ * The policy is read from BLOCK_PENALTY_POLICY (JSON), with optional
+ * per-attack-type overrides:
+ *   {
+ *     "tiers": ["1h", "6h", "24h", "7d"],
+ *     "lookback": "30d",
+ *     "attackTypes": { "Command Injection": { "tiers": ["24h", "7d"] } }
+ *   }
+ * Durations are seconds or a number with an s / m / h / d suffix. Overrides
+ * inherit unset fields from the top level. "Rate Abuse" (src/ratelimit.ts)
+ * has built-in shorter tiers (10m, 1h, 6h, 24h) unless overridden.
+ *
+ * Offense history lives in KV (`offenses:ip:<ip>`, `offenses:net:<cidr>`).
+ * A block of an IP that is still inside its current block's duration (a burst
+ * of requests blocked before the mitigation reached every isolate) is not a
+ * new offense: it gets the current block's tier. Lookups fail open to the
+ * first tier.
+ */
+
+export const DEFAULT_BLOCK_TIERS: readonly number[] = [
+    60 * 60, // 1 hour
+    60 * 60 * 6, // 6 hours
+    60 * 60 * 24, // 24 hours
+    60 * 60 * 24 * 7, // 7 days
+];
+export const DEFAULT_LOOKBACK_SECONDS = 60 * 60 * 24 * 30; // 30 days
+
+// Built-in per-attack-type tiers; BLOCK_PENALTY_POLICY overrides replace them
+const DEFAULT_ATTACK_TYPE_TIERS: Record<string, readonly number[]> = {
+    "Rate Abuse": [60 * 10, 60 * 60, 60 * 60 * 6, 60 * 60 * 24], // Bursts, not exploits: start short
+};
+
+const KEY_PREFIX = "offenses:";
+const MAX_OFFENSES_KEPT = 50; // More than any sensible tier list needs
+const MIN_DURATION_SECONDS = 60; // KV minimum TTL
+
+export interface PenaltyPolicy {
+    tiers: number[]; // Block duration per tier, in seconds
+    lookbackSeconds: number;
+}
+
+export interface BlockPenaltyConfig extends PenaltyPolicy {
+    attackTypes: Record<string, PenaltyPolicy>;
+}
+
+export interface BlockPenalty {
+    tier: number; // 1-based
+    durationSeconds: number;
+    priorOffenses: number; // Blocks of the IP or its network within the lookback
+}
+
+interface OffenseHistory {
+    offenses: number[]; // Epoch ms, oldest first
+    block?: BlockPenalty & { until: number }; // Latest block of an IP, until epoch ms
+}
+
+/**
+ * Read the penalty policy from BLOCK_PENALTY_POLICY. A missing or invalid
+ * value falls back to the defaults; invalid overrides are skipped.
+ */
+export function parsePenaltyPolicy(env: Env): BlockPenaltyConfig {
+    const config: BlockPenaltyConfig = {
+        tiers: [...DEFAULT_BLOCK_TIERS],
+        lookbackSeconds: DEFAULT_LOOKBACK_SECONDS,
+        attackTypes: {},
+    };
+    if (env.BLOCK_PENALTY_POLICY) {
+        try {
+            applyPolicyJSON(config, JSON.parse(env.BLOCK_PENALTY_POLICY) as unknown);
+        } catch (error) {
+            console.error("[Penalties] Failed to parse BLOCK_PENALTY_POLICY:", error);
+        }
+    }
+
+    for (const [attackType, tiers] of Object.entries(DEFAULT_ATTACK_TYPE_TIERS)) {
+        config.attackTypes[attackType] ??= { tiers: [...tiers], lookbackSeconds: config.lookbackSeconds };
+    }
+    return config;
+}
+
+/**
+ * Policy for an attack type: its override, or the top-level policy.
+ */
+export function policyFor(config: BlockPenaltyConfig, attackType: string): PenaltyPolicy {
+    return config.attackTypes[attackType] ?? config;
+}
+
+/**
+ * Tier for a source with `priorOffenses` blocks in the lookback window.
+ * Sources past the last tier stay on it.
+ */
+export function selectTier(policy: PenaltyPolicy, priorOffenses: number): BlockPenalty {
+    const index = Math.min(priorOffenses, policy.tiers.length - 1);
+    return { tier: index + 1, durationSeconds: policy.tiers[index], priorOffenses };
+}
+
+/**
+ * Choose the block duration for `ip` and count this block as an offense.
+ * Call once per block; sources that aren't a single IP get the first tier,
+ * and an IP still inside its current block keeps that block's tier.
+ */
+export async function escalateBlock(
+    env: Env,
+    ip: string,
+    attackType: string,
+    now: number = Date.now()
+): Promise<BlockPenalty> {
+    const config = parsePenaltyPolicy(env);
+    const policy = policyFor(config, attackType);
+    const keys = offenseKeys(ip);
+    if (keys.length === 0) return selectTier(policy, 0);
+
+    const histories = await Promise.all(keys.map((key) => readHistory(env, key)));
+    const current = histories[0].block;
+    if (current && current.until > now) {
+        return { tier: current.tier, durationSeconds: current.durationSeconds, priorOffenses: current.priorOffenses };
+    }
+
+    const windowStart = now - policy.lookbackSeconds * 1000;
+    const priorOffenses = Math.max(...histories.map((history) => history.offenses.filter((at) => at > windowStart).length));
+    const penalty = selectTier(policy, priorOffenses);
+
+    // Keep history for the longest lookback any attack type uses
+    const ttl = Math.max(config.lookbackSeconds, ...Object.values(config.attackTypes).map((p) => p.lookbackSeconds));
+    const keepAfter = now - ttl * 1000;
+    await Promise.all(keys.map(async (key, i) => {
+        const history: OffenseHistory = {
+            offenses: [...histories[i].offenses.filter((at) => at > keepAfter), now].slice(-MAX_OFFENSES_KEPT),
+        };
+        if (i === 0) history.block = { ...penalty, until: now + penalty.durationSeconds * 1000 };
+        try {
+            await env.SENTINEL_KV.put(key, JSON.stringify(history), { expirationTtl: ttl });
+        } catch (error) {
+            console.error(`[Penalties] Failed to record offense for ${key}:`, error);
+        }
+    }));
+
+    return penalty;
+}
+
+/**
+ * Parse a duration: seconds, or a number with an s / m / h / d suffix.
+ * Returns null for anything else or anything shorter than `minSeconds`
+ * (default: a minute, the KV minimum TTL).
+ */
+export function parseDuration(value: unknown, minSeconds: number = MIN_DURATION_SECONDS): number | null {
+    let seconds: number;
+    if (typeof value === "number") {
+        seconds = value;
+    } else if (typeof value === "string") {
+        const match = value.trim().match(/^(\d+)\s*([smhd]?)$/i);
+        if (!match) return null;
+        const unit = { "": 1, s: 1, m: 60, h: 60 * 60, d: 60 * 60 * 24 }[match[2].toLowerCase() as "" | "s" | "m" | "h" | "d"];
+        seconds = Number(match[1]) * unit;
+    } else {
+        return null;
+    }
+    return Number.isInteger(seconds) && seconds >= minSeconds ? seconds : null;
+}
+
+function applyPolicyJSON(config: BlockPenaltyConfig, parsed: unknown): void {
+    if (!isObject(parsed)) {
+        console.error("[Penalties] BLOCK_PENALTY_POLICY must be a JSON object");
+        return;
+    }
+
+    const base = parsePolicy(parsed, config);
+    if (!base) {
+        console.error("[Penalties] Invalid BLOCK_PENALTY_POLICY, using defaults");
+        return;
+    }
+    config.tiers = base.tiers;
+    config.lookbackSeconds = base.lookbackSeconds;
+
+    if (isObject(parsed.attackTypes)) {
+        for (const [attackType, override] of Object.entries(parsed.attackTypes)) {
+            const policy = isObject(override) ? parsePolicy(override, base) : null;
+            if (policy) {
+                config.attackTypes[attackType] = policy;
+            } else {
+                console.error(`[Penalties] Skipping invalid BLOCK_PENALTY_POLICY override for "${attackType}"`);
+            }
+        }
+    }
+}
+
+function parsePolicy(raw: Record<string, unknown>, fallback: PenaltyPolicy): PenaltyPolicy | null {
+    let tiers = fallback.tiers;
+    if (raw.tiers !== undefined) {
+        if (!Array.isArray(raw.tiers) || raw.tiers.length === 0) return null;
+        const parsed = raw.tiers.map((tier) => parseDuration(tier));
+        if (parsed.some((tier) => tier === null)) return null;
+        tiers = parsed as number[];
+    }
+
+    let lookbackSeconds = fallback.lookbackSeconds;
+    if (raw.lookback !== undefined) {
+        const parsed = parseDuration(raw.lookback);
+        if (parsed === null) return null;
+        lookbackSeconds = parsed;
+    }
+
+    return { tiers, lookbackSeconds };
+}
+
+// KV keys for the IP and its network; empty if `ip` isn't a single address
+function offenseKeys(ip: string): string[] {
+    const parsed = parseIP(ip);
+    if (!parsed) return [];
+    const network = parseCIDR(`${formatIP(parsed)}/${parsed.version === 4 ? 24 : 64}`);
+    return [`${KEY_PREFIX}ip:${formatIP(parsed)}`, `${KEY_PREFIX}net:${formatCIDR(network!)}`];
+}
+
+async function readHistory(env: Env, key: string): Promise<OffenseHistory> {
+    try {
+        const history = await env.SENTINEL_KV.get<OffenseHistory>(key, "json");
+        return {
+            offenses: Array.isArray(history?.offenses) ? history.offenses.filter((at) => typeof at === "number") : [],
+            block: typeof history?.block?.until === "number" ? history.block : undefined,
+        };
+    } catch (error) {
+        console.error(`[Penalties] Failed to read ${key}:`, error);
+        return { offenses: [] };
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,493 @@
+import { AuthPrincipal, Env, MitigationMode, PolicyDecision, SecurityAssessment } from "./types";
+import { matchesRoute } from "./ratelimit";
+
+/**
+ * Action Policy
+ *
+ * Every threshold that turns a score into a decision lives here, so one
+ * document controls the agents, the Palm, the traffic pipeline and
+ * SentinelWorkflow:
+ *   {
+ *     "defaults": { "block": null, "alert": 80 },
+ *     "rules": [
+ *       { "id": "admin-strict", "match": { "path": "/admin/*" }, "block": 60 },
+ *       { "id": "search-flag-only", "match": { "path": "/search" }, "maxAction": "flag" },
+ *       { "id": "sqli-post", "match": { "methods": ["POST"], "attackTypes": ["SQLi"] }, "mitigate": 90 }
+ *     ]
+ *   }
+ *
+ * Thresholds (risk scores 0-100; defaults reproduce the built-in behavior):
+ * - verify (50):   heuristic score above which an agent asks the AI judge
+ * - cache (50):    risk score above which a verdict is cached (High confidence always is)
+ * - block (null):  risk score at or above which a request is blocked; null leaves it to the agents
+ * - flag (null):   same for flag
+ * - maxAction:     most severe action allowed ("flag" = monitor only)
+ * - alert (80):    SOC alert above this score (blocks always alert)
+ * - track (70):    SentinelWorkflow records the source above this score
+ * - mitigate (95): SentinelWorkflow blocks the source at or above this score
+ * - shadow (false): monitor only; the traffic pipeline runs and logs every
+ *                   decision but forwards the request (see src/shadow.ts)
+ *
+ * Every rule whose `match` fits (all given fields must match; `path` is a
+ * pattern with `*`) is applied on top of `defaults`, in document order, so
+ * later rules win. Rules with a path or method never match outside the
+ * traffic pipeline; `verify` and `shadow` are decided before the attack type
+ * is known, so rules with `attackTypes` can't change them. `attackTypes` are
+ * the agents' types ("SQLi", "XSS", "Command Injection", "Path Traversal",
+ * "SSRF"); a heuristic fallback verdict ("SQLi (Heuristic Fallback)") matches
+ * its base type.
+ *
+ * Documents are validated on upload and stored as numbered versions in KV
+ * (`policy:version:<n>`, `policy:current`); rolling back re-publishes an old
+ * version under a new number. Each isolate caches the current policy for
+ * POLICY_CACHE_TTL_MS; a KV failure keeps the last known one.
+ *
+ * Management API (admin scope for writes):
+ *   GET  /v1/policy                   current version
+ *   PUT  /v1/policy                   publish a document (400 with `errors` if invalid)
+ *   GET  /v1/policy/versions          version history
+ *   GET  /v1/policy/versions/:n       one version
+ *   POST /v1/policy/rollback          {"version": n}
+ */
+
+export const POLICY_CACHE_TTL_MS = 30_000;
+export const MAX_POLICY_RULES = 100;
+
+const CURRENT_KEY = "policy:current";
+const VERSION_PREFIX = "policy:version:";
+const ACTIONS: readonly SecurityAssessment["action"][] = ["allow", "flag", "block"];
+const HEURISTIC_FALLBACK_SUFFIX = " (Heuristic Fallback)";
+
+export interface PolicyThresholds {
+    verify: number;
+    cache: number;
+    block: number | null;
+    flag: number | null;
+    maxAction: SecurityAssessment["action"];
+    alert: number;
+    track: number;
+    mitigate: number;
+    shadow: boolean;
+}
+
+export interface PolicyMatch {
+    path?: string;
+    methods?: string[];
+    attackTypes?: string[];
+}
+
+export interface PolicyRule extends Partial<PolicyThresholds> {
+    id: string;
+    match: PolicyMatch;
+}
+
+export interface PolicyDocument {
+    defaults: Partial<PolicyThresholds>;
+    rules: PolicyRule[];
+}
+
+export interface StoredPolicy {
+    version: number; // 0 = built-in default, never stored
+    document: PolicyDocument;
+    createdAt: string | null;
+    createdBy: string | null; // API key id
+    rolledBackFrom?: number;
+}
+
+// Where a decision is made; fields that aren't known are omitted
+export interface PolicyContext {
+    path?: string;
+    method?: string;
+    attackType?: string;
+}
+
+export interface ResolvedPolicy extends PolicyThresholds {
+    version: number;
+    rules: string[]; // Ids of the rules that matched
+}
+
+export const DEFAULT_THRESHOLDS: Readonly<PolicyThresholds> = {
+    verify: 50,
+    cache: 50,
+    block: null,
+    flag: null,
+    maxAction: "block",
+    alert: 80,
+    track: 70,
+    mitigate: 95,
+    shadow: false,
+};
+
+export const DEFAULT_POLICY: StoredPolicy = {
+    version: 0,
+    document: { defaults: {}, rules: [] },
+    createdAt: null,
+    createdBy: null,
+};
+
+const THRESHOLD_KEYS = Object.keys(DEFAULT_THRESHOLDS) as (keyof PolicyThresholds)[];
+const NULLABLE_KEYS: readonly (keyof PolicyThresholds)[] = ["block", "flag"];
+
+const ACTION_SEVERITY: Record<SecurityAssessment["action"], number> = { allow: 0, flag: 1, block: 2 };
+
+export class PolicyRequestError extends Error {
+    constructor(public readonly status: number, message: string, public readonly errors: string[] = []) {
+        super(message);
+        this.name = "PolicyRequestError";
+    }
+}
+
+// Per-isolate cache of the current policy
+let policyCache: { loadedAt: number; policy: StoredPolicy } | null = null;
+
+/**
+ * The current policy (the built-in default until one is published).
+ */
+export async function loadPolicy(env: Env, now: number = Date.now()): Promise<StoredPolicy> {
+    if (policyCache && now - policyCache.loadedAt < POLICY_CACHE_TTL_MS) return policyCache.policy;
+
+    try {
+        const stored = await env.SENTINEL_KV.get<StoredPolicy>(CURRENT_KEY, "json");
+        policyCache = { loadedAt: now, policy: stored ?? DEFAULT_POLICY };
+    } catch (error) {
+        // Keep deciding with the last known policy; retry after the TTL
+        console.error("[Policy] Failed to load policy:", error);
+        policyCache = { loadedAt: now, policy: policyCache?.policy ?? DEFAULT_POLICY };
+    }
+    return policyCache.policy;
+}
+
+export function clearPolicyCache(): void {
+    policyCache = null;
+}
+
+/**
+ * Thresholds that apply in `context`: defaults, then every matching rule.
+ */
+export function resolvePolicy(policy: StoredPolicy, context: PolicyContext): ResolvedPolicy {
+    const resolved: ResolvedPolicy = {
+        ...DEFAULT_THRESHOLDS,
+        ...policy.document.defaults,
+        version: policy.version,
+        rules: [],
+    };
+
+    for (const rule of policy.document.rules) {
+        if (!ruleMatches(rule.match, context)) continue;
+        for (const key of THRESHOLD_KEYS) {
+            if (rule[key] !== undefined) (resolved as unknown as Record<string, unknown>)[key] = rule[key];
+        }
+        resolved.rules.push(rule.id);
+    }
+    return resolved;
+}
+
+/**
+ * Heuristic score above which agents escalate to AI verification.
+ */
+export function verifyThreshold(policy: StoredPolicy, context: PolicyContext): number {
+    const { attackType: _ignored, ...known } = context;
+    return resolvePolicy(policy, known).verify;
+}
+
+/**
+ * Whether requests in `context` run in shadow mode: analyzed and logged, never
+ * enforced.
+ */
+export function isShadowMode(policy: StoredPolicy, context: PolicyContext): boolean {
+    const { attackType: _ignored, ...known } = context;
+    return resolvePolicy(policy, known).shadow;
+}
+
+/**
+ * Whether a verdict is worth caching: high risk, or confident either way.
+ */
+export function shouldCache(policy: StoredPolicy, assessment: SecurityAssessment, context: PolicyContext = {}): boolean {
+    const { cache } = resolvePolicy(policy, { ...context, attackType: assessment.attackType });
+    return assessment.riskScore > cache || assessment.confidence === "High";
+}
+
+/**
+ * Final action for a verdict. Thresholds can raise the agents' action,
+ * `maxAction` caps it. When the policy changes the action, or any rule
+ * matched, the decision is recorded as `policy` on the returned assessment.
+ */
+export function applyPolicy(policy: StoredPolicy, assessment: SecurityAssessment, context: PolicyContext = {}): SecurityAssessment {
+    const resolved = resolvePolicy(policy, { ...context, attackType: assessment.attackType });
+
+    let action = assessment.action;
+    if (resolved.block !== null && assessment.riskScore >= resolved.block) {
+        action = "block";
+    } else if (resolved.flag !== null && assessment.riskScore >= resolved.flag && action === "allow") {
+        action = "flag";
+    }
+    if (ACTION_SEVERITY[action] > ACTION_SEVERITY[resolved.maxAction]) {
+        action = resolved.maxAction;
+    }
+
+    if (action === assessment.action && resolved.rules.length === 0) return assessment;
+
+    const decision: PolicyDecision = { version: resolved.version, rules: resolved.rules, originalAction: assessment.action };
+    return { ...assessment, action, policy: decision };
+}
+
+/**
+ * Whether a verdict triggers a SOC alert.
+ */
+export function shouldAlert(policy: StoredPolicy, assessment: SecurityAssessment, context: PolicyContext = {}): boolean {
+    const { alert } = resolvePolicy(policy, { ...context, attackType: assessment.attackType });
+    return assessment.action === "block" || assessment.riskScore > alert;
+}
+
+/**
+ * How SentinelWorkflow mitigates the source of a verdict: `block` at or above
+ * `mitigate`, `track` above `track`, otherwise null.
+ */
+export function mitigationMode(policy: StoredPolicy, assessment: SecurityAssessment, context: PolicyContext = {}): MitigationMode | null {
+    const { track, mitigate } = resolvePolicy(policy, { ...context, attackType: assessment.attackType });
+    if (assessment.riskScore >= mitigate) return "block";
+    if (assessment.riskScore > track) return "track";
+    return null;
+}
+
+/**
+ * Validate an uploaded document. Returns the normalized document, or the
+ * list of problems found.
+ */
+export function validatePolicy(input: unknown): { ok: true; document: PolicyDocument } | { ok: false; errors: string[] } {
+    const errors: string[] = [];
+    if (!isObject(input)) return { ok: false, errors: ["Policy must be a JSON object"] };
+
+    for (const key of Object.keys(input)) {
+        if (key !== "defaults" && key !== "rules") errors.push(`Unknown field "${key}"`);
+    }
+
+    const defaults = input.defaults === undefined ? {} : validateThresholds(input.defaults, "defaults", errors, []);
+
+    const rules: PolicyRule[] = [];
+    if (input.rules !== undefined) {
+        if (!Array.isArray(input.rules)) {
+            errors.push("rules must be an array");
+        } else if (input.rules.length > MAX_POLICY_RULES) {
+            errors.push(`rules may hold at most ${MAX_POLICY_RULES} entries`);
+        } else {
+            const ids = new Set<string>();
+            input.rules.forEach((raw, index) => {
+                const rule = validateRule(raw, `rules[${index}]`, errors);
+                if (!rule) return;
+                if (ids.has(rule.id)) errors.push(`rules[${index}].id "${rule.id}" is not unique`);
+                ids.add(rule.id);
+                rules.push(rule);
+            });
+        }
+    }
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, document: { defaults: defaults ?? {}, rules } };
+}
+
+/**
+ * Validate and publish a document as the next version.
+ */
+export async function publishPolicy(
+    env: Env,
+    principal: AuthPrincipal,
+    input: unknown,
+    rolledBackFrom?: number
+): Promise<StoredPolicy> {
+    const result = validatePolicy(input);
+    if (!result.ok) throw new PolicyRequestError(400, "Invalid policy", result.errors);
+
+    const current = await env.SENTINEL_KV.get<StoredPolicy>(CURRENT_KEY, "json");
+    const stored: StoredPolicy = {
+        version: (current?.version ?? 0) + 1,
+        document: result.document,
+        createdAt: new Date().toISOString(),
+        createdBy: principal.keyId,
+        ...(rolledBackFrom !== undefined ? { rolledBackFrom } : {}),
+    };
+
+    // Version first: `policy:current` must never point at a version that isn't stored
+    await env.SENTINEL_KV.put(versionKey(stored.version), JSON.stringify(stored));
+    await env.SENTINEL_KV.put(CURRENT_KEY, JSON.stringify(stored));
+    policyCache = { loadedAt: Date.now(), policy: stored };
+    return stored;
+}
+
+/**
+ * HTTP handler for `/v1/policy` and its sub-routes.
+ */
+export async function handlePolicyRequest(
+    request: Request,
+    env: Env,
+    url: URL,
+    principal: AuthPrincipal,
+    corsHeaders: Record<string, string>
+): Promise<Response> {
+    const json = (body: unknown, status = 200) =>
+        new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...corsHeaders } });
+
+    try {
+        if (url.pathname === "/v1/policy") {
+            if (request.method === "GET") {
+                return json({ success: true, policy: await env.SENTINEL_KV.get<StoredPolicy>(CURRENT_KEY, "json") ?? DEFAULT_POLICY });
+            }
+            return json({ success: true, policy: await publishPolicy(env, principal, await readBody(request)) }, 201);
+        }
+
+        if (url.pathname === "/v1/policy/versions") {
+            return json({ success: true, versions: await listVersions(env) });
+        }
+
+        if (url.pathname === "/v1/policy/rollback") {
+            const body = await readBody(request);
+            if (!isObject(body) || typeof body.version !== "number") {
+                throw new PolicyRequestError(400, "version must be a policy version number");
+            }
+            const target = await readVersion(env, body.version);
+            return json({ success: true, policy: await publishPolicy(env, principal, target.document, target.version) }, 201);
+        }
+
+        const version = Number(url.pathname.slice("/v1/policy/versions/".length));
+        return json({ success: true, policy: await readVersion(env, version) });
+
+    } catch (error) {
+        if (error instanceof PolicyRequestError) {
+            const label = error.status === 404 ? "Not Found" : "Bad Request";
+            return json({ error: label, message: error.message, ...(error.errors.length ? { errors: error.errors } : {}) }, error.status);
+        }
+        console.error("[Policy] Request failed:", error);
+        return json({ error: "Internal Server Error", message: "Failed to process policy request" }, 500);
+    }
+}
+
+function ruleMatches(match: PolicyMatch, context: PolicyContext): boolean {
+    if (match.path !== undefined && (context.path === undefined || !matchesRoute(match.path, context.path))) return false;
+    if (match.methods !== undefined && (context.method === undefined || !match.methods.includes(context.method))) return false;
+    if (match.attackTypes !== undefined && (context.attackType === undefined || !match.attackTypes.includes(baseAttackType(context.attackType)))) return false;
+    return true;
+}
+
+// Agents tag verdicts reached without the AI judge as "<type> (Heuristic Fallback)"
+function baseAttackType(attackType: string): string {
+    return attackType.endsWith(HEURISTIC_FALLBACK_SUFFIX) ? attackType.slice(0, -HEURISTIC_FALLBACK_SUFFIX.length) : attackType;
+}
+
+function validateRule(raw: unknown, at: string, errors: string[]): PolicyRule | null {
+    if (!isObject(raw)) {
+        errors.push(`${at} must be an object`);
+        return null;
+    }
+    const before = errors.length;
+
+    if (typeof raw.id !== "string" || !raw.id.trim()) errors.push(`${at}.id must be a non-empty string`);
+
+    const match: PolicyMatch = {};
+    if (!isObject(raw.match)) {
+        errors.push(`${at}.match must be an object`);
+    } else {
+        for (const key of Object.keys(raw.match)) {
+            if (key !== "path" && key !== "methods" && key !== "attackTypes") errors.push(`${at}.match has unknown field "${key}"`);
+        }
+        if (raw.match.path !== undefined) {
+            if (typeof raw.match.path !== "string" || !raw.match.path.startsWith("/")) {
+                errors.push(`${at}.match.path must be a path pattern starting with "/"`);
+            } else {
+                match.path = raw.match.path;
+            }
+        }
+        for (const key of ["methods", "attackTypes"] as const) {
+            const value = raw.match[key];
+            if (value === undefined) continue;
+            if (!Array.isArray(value) || value.length === 0 || !value.every((v) => typeof v === "string" && v)) {
+                errors.push(`${at}.match.${key} must be a non-empty array of strings`);
+            } else {
+                match[key] = key === "methods" ? value.map((m: string) => m.toUpperCase()) : [...value];
+            }
+        }
+    }
+
+    const thresholds = validateThresholds(raw, at, errors, ["id", "match"]);
+    if (errors.length > before) return null;
+    return { id: raw.id as string, match, ...thresholds };
+}
+
+function validateThresholds(
+    raw: unknown,
+    at: string,
+    errors: string[],
+    otherKeys: string[]
+): Partial<PolicyThresholds> | null {
+    if (!isObject(raw)) {
+        errors.push(`${at} must be an object`);
+        return null;
+    }
+
+    const thresholds: Partial<PolicyThresholds> = {};
+    for (const [key, value] of Object.entries(raw)) {
+        if (otherKeys.includes(key)) continue;
+        if (!THRESHOLD_KEYS.includes(key as keyof PolicyThresholds)) {
+            errors.push(`${at} has unknown field "${key}"`);
+        } else if (key === "shadow") {
+            if (typeof value !== "boolean") {
+                errors.push(`${at}.shadow must be true or false`);
+            } else {
+                thresholds.shadow = value;
+            }
+        } else if (key === "maxAction") {
+            if (!ACTIONS.includes(value as SecurityAssessment["action"])) {
+                errors.push(`${at}.maxAction must be one of ${ACTIONS.join(", ")}`);
+            } else {
+                thresholds.maxAction = value as SecurityAssessment["action"];
+            }
+        } else if (value === null && NULLABLE_KEYS.includes(key as keyof PolicyThresholds)) {
+            (thresholds as Record<string, unknown>)[key] = null;
+        } else if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > 100) {
+            errors.push(`${at}.${key} must be an integer from 0 to 100${NULLABLE_KEYS.includes(key as keyof PolicyThresholds) ? " or null" : ""}`);
+        } else {
+            (thresholds as Record<string, unknown>)[key] = value;
+        }
+    }
+    return thresholds;
+}
+
+async function listVersions(env: Env): Promise<Omit<StoredPolicy, "document">[]> {
+    const versions: Omit<StoredPolicy, "document">[] = [];
+    let cursor: string | undefined;
+    do {
+        const page = await env.SENTINEL_KV.list({ prefix: VERSION_PREFIX, cursor });
+        for (const key of page.keys) {
+            const stored = await env.SENTINEL_KV.get<StoredPolicy>(key.name, "json");
+            if (!stored) continue;
+            const { document: _document, ...summary } = stored;
+            versions.push(summary);
+        }
+        cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return versions.sort((a, b) => b.version - a.version);
+}
+
+async function readVersion(env: Env, version: number): Promise<StoredPolicy> {
+    if (!Number.isInteger(version) || version < 1) {
+        throw new PolicyRequestError(400, "version must be a positive integer");
+    }
+    const stored = await env.SENTINEL_KV.get<StoredPolicy>(versionKey(version), "json");
+    if (!stored) throw new PolicyRequestError(404, `No policy version ${version}`);
+    return stored;
+}
+
+// Zero-padded so KV lists versions in order
+function versionKey(version: number): string {
+    return `${VERSION_PREFIX}${String(version).padStart(6, "0")}`;
+}
+
+async function readBody(request: Request): Promise<unknown> {
+    try {
+        return await request.json();
+    } catch {
+        throw new PolicyRequestError(400, "Request body must be valid JSON");
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,163 @@
+import { Env, SecurityAssessment } from "./types";
+
+/**
+ * Origin Forwarding (Reverse-Proxy Mode)
+ *
+ * Once the HAND pipeline allows a request, Sentinel streams it through to the
+ * protected application instead of answering it itself. Origins are resolved
+ * per hostname/route from `ORIGIN_ROUTES`, falling back to `ORIGIN_URL`.
+ *
+ * The verdict travels with the request in `X-Sentinel-*` headers so the origin
+ * can make its own decisions (e.g. extra logging for flagged traffic), and is
+ * echoed on the response for debugging at the client. In shadow mode a request
+ * Sentinel would have blocked is still forwarded, with `X-Sentinel-Would-Block`.
+ */
+
+export const VERDICT_HEADERS = {
+    riskScore: "X-Sentinel-Risk-Score",
+    attackType: "X-Sentinel-Attack-Type",
+    action: "X-Sentinel-Action",
+    cache: "X-Sentinel-Cache",
+    failOpen: "X-Sentinel-Fail-Open",
+    wouldBlock: "X-Sentinel-Would-Block",
+} as const;
+
+export interface SentinelVerdict {
+    riskScore: number;
+    attackType: string;
+    action: SecurityAssessment["action"];
+    cacheHit: boolean;
+    wouldBlock?: boolean; // Shadow mode: blocked if the route were enforced
+}
+
+/**
+ * Parse the `ORIGIN_ROUTES` variable.
+ *
+ * Format: JSON object mapping a route key to an origin URL. A key is either a
+ * hostname ("app.example.com"), a hostname plus path prefix
+ * ("app.example.com/api/") or a bare path prefix matching any host ("/api/").
+ */
+export function parseOriginRoutes(raw: string | undefined): Record<string, string> {
+    if (!raw) return {};
+    try {
+        const parsed = JSON.parse(raw) as unknown;
+        if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+            console.error("[Proxy] ORIGIN_ROUTES must be a JSON object");
+            return {};
+        }
+        const routes: Record<string, string> = {};
+        for (const [key, value] of Object.entries(parsed)) {
+            if (typeof value === "string") routes[key.toLowerCase()] = value;
+        }
+        return routes;
+    } catch (error) {
+        console.error("[Proxy] Failed to parse ORIGIN_ROUTES:", error);
+        return {};
+    }
+}
+
+/**
+ * Resolve the origin for a request URL.
+ * The longest matching route key wins; returns null when no origin is configured.
+ */
+export function resolveOrigin(url: URL, env: Env): string | null {
+    const routes = parseOriginRoutes(env.ORIGIN_ROUTES);
+    const host = url.hostname.toLowerCase();
+    const hostAndPath = `${host}${url.pathname}`;
+
+    let bestKey: string | null = null;
+    for (const key of Object.keys(routes)) {
+        const matches = key.startsWith("/")
+            ? url.pathname.startsWith(key)
+            : key === host || (key.includes("/") && hostAndPath.startsWith(key));
+
+        if (matches && (bestKey === null || key.length > bestKey.length)) {
+            bestKey = key;
+        }
+    }
+
+    if (bestKey !== null) return routes[bestKey];
+    return env.ORIGIN_URL || null;
+}
+
+/**
+ * Build the upstream URL: the origin's scheme/host (and optional base path)
+ * followed by the original path and query string.
+ */
+export function buildUpstreamUrl(url: URL, origin: string): URL {
+    const upstream = new URL(origin);
+    const basePath = upstream.pathname.replace(/\/$/, "");
+    upstream.pathname = `${basePath}${url.pathname}`;
+    upstream.search = url.search;
+    return upstream;
+}
+
+function applyVerdictHeaders(headers: Headers, verdict: SentinelVerdict | null): void {
+    if (!verdict) {
+        headers.set(VERDICT_HEADERS.failOpen, "true");
+        return;
+    }
+    headers.set(VERDICT_HEADERS.riskScore, verdict.riskScore.toString());
+    headers.set(VERDICT_HEADERS.attackType, verdict.attackType);
+    headers.set(VERDICT_HEADERS.action, verdict.action);
+    headers.set(VERDICT_HEADERS.cache, verdict.cacheHit ? "HIT" : "MISS");
+    if (verdict.wouldBlock) headers.set(VERDICT_HEADERS.wouldBlock, "true");
+}
+
+/**
+ * Forward an allowed request to its origin.
+ *
+ * Method, headers and body are preserved; the body is streamed, not buffered.
+ * Client-supplied `X-Sentinel-*` headers are stripped first so an attacker
+ * cannot forge a verdict for the origin. Pass `verdict = null` on the
+ * fail-open path.
+ */
+export async function forwardToOrigin(
+    request: Request,
+    origin: string,
+    verdict: SentinelVerdict | null
+): Promise<Response> {
+    const url = new URL(request.url);
+    let upstreamUrl: URL;
+    try {
+        upstreamUrl = buildUpstreamUrl(url, origin);
+    } catch (error) {
+        console.error(`[Proxy] Invalid origin URL "${origin}":`, error);
+        return badGateway();
+    }
+
+    const headers = new Headers(request.headers);
+    for (const name of [...headers.keys()]) {
+        if (name.toLowerCase().startsWith("x-sentinel-")) headers.delete(name);
+    }
+    headers.set("X-Forwarded-Host", url.host);
+    headers.set("X-Forwarded-Proto", url.protocol.replace(":", ""));
+    applyVerdictHeaders(headers, verdict);
+
+    const hasBody = !["GET", "HEAD"].includes(request.method);
+
+    try {
+        const upstreamRequest = new Request(upstreamUrl.toString(), {
+            method: request.method,
+            headers,
+            body: hasBody ? request.body : null,
+            redirect: "manual",
+            // Required by the Fetch spec for streaming request bodies outside Workers
+            ...(hasBody ? { duplex: "half" } : {}),
+        } as RequestInit);
+        const upstreamResponse = await fetch(upstreamRequest);
+        const response = new Response(upstreamResponse.body, upstreamResponse);
+        applyVerdictHeaders(response.headers, verdict);
+        return response;
+    } catch (error) {
+        console.error(`[Proxy] Origin fetch failed for ${upstreamUrl.host}:`, error);
+        return badGateway();
+    }
+}
+
+function badGateway(): Response {
+    return new Response(JSON.stringify({
+        error: "Bad Gateway",
+        message: "Sentinel could not reach the protected origin",
+    }), { status: 502, headers: { "Content-Type": "application/json" } });
+}
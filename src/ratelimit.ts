@@ -0,0 +1,287 @@
+import { Env, NetworkContext, SecurityAssessment } from "./types";
+import { parseDuration } from "./penalties";
+
+/**
+ * Traffic Rate Limiting
+ *
+ * Content inspection can't see credential stuffing or scraping: every single
+ * request looks benign. Rate limits run in the traffic pipeline right after
+ * the active mitigation check, before extraction and analysis.
+ *
+ * Rules come from RATE_LIMITS (JSON array). Unset, DEFAULT_RATE_LIMITS applies
+ * (300 requests per minute per client IP on every route). Example:
+ *   [
+ *     {"id": "default", "route": "/*", "limit": 300, "window": "1m", "key": "ip"},
+ *     {"id": "login", "route": "/login", "methods": ["POST"], "limit": 5, "window": "1m", "key": "ip"},
+ *     {"id": "api", "route": "/api/*", "limit": 100, "window": "1m", "key": "apiKey", "header": "X-API-Key"}
+ *   ]
+ * - `route` is a path pattern; `*` matches any characters, including `/`.
+ * - `key` is what is counted: `ip` (client IP) or `apiKey` (the value of
+ *   `header`, default Authorization, hashed before use). Requests without the
+ *   key are not counted against the rule.
+ * - Every matching rule is checked; the first one exceeded rejects the request.
+ * - `mitigate` (default true, `ip` rules only): the first rejection in a
+ *   window also blocks the source through the mitigation flow, as "Rate Abuse"
+ *   with its own escalation tiers (see src/penalties.ts).
+ *
+ * Counting happens in the RateLimiter Durable Object, one instance per rule
+ * and client, so limits hold across isolates and locations. Windows slide:
+ * the previous fixed window's count is weighted by how much of it still
+ * overlaps. Without the RATE_LIMITER binding, or if the object can't be
+ * reached, requests are let through.
+ */
+
+export const RATE_ABUSE_ATTACK_TYPE = "Rate Abuse";
+
+export const DEFAULT_RATE_LIMITS: readonly RateLimitRule[] = [
+    { id: "default", route: "/*", methods: null, limit: 300, windowSeconds: 60, key: "ip", header: null, mitigate: true },
+];
+
+const DEFAULT_KEY_HEADER = "Authorization";
+
+export type RateLimitKey = "ip" | "apiKey";
+
+export interface RateLimitRule {
+    id: string;
+    route: string;
+    methods: string[] | null; // null = any method
+    limit: number; // Requests per window
+    windowSeconds: number;
+    key: RateLimitKey;
+    header: string | null; // apiKey rules only
+    mitigate: boolean;
+}
+
+// Request body of the RateLimiter object
+export interface RateLimitCheck {
+    limit: number;
+    windowMs: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    count: number; // Requests in the sliding window, including this one if allowed
+    retryAfter: number; // Seconds until the current window ends
+    rejected: number; // Rejections in the current window, including this one
+}
+
+export interface RateLimitViolation {
+    rule: RateLimitRule;
+    result: RateLimitResult;
+}
+
+interface WindowState {
+    windowStart: number; // Epoch ms
+    current: number;
+    previous: number; // Count of the window before windowStart
+    rejected: number;
+}
+
+/**
+ * Read the rate limit rules from RATE_LIMITS. A missing or malformed value
+ * falls back to DEFAULT_RATE_LIMITS; malformed rules are skipped.
+ */
+export function parseRateLimits(env: Env): RateLimitRule[] {
+    if (!env.RATE_LIMITS) return [...DEFAULT_RATE_LIMITS];
+
+    try {
+        const parsed = JSON.parse(env.RATE_LIMITS) as unknown;
+        if (!Array.isArray(parsed)) {
+            console.error("[RateLimit] RATE_LIMITS must be a JSON array");
+            return [...DEFAULT_RATE_LIMITS];
+        }
+
+        const rules: RateLimitRule[] = [];
+        for (const entry of parsed) {
+            const rule = parseRule(entry);
+            if (rule) {
+                rules.push(rule);
+            } else {
+                console.error("[RateLimit] Skipping malformed RATE_LIMITS entry");
+            }
+        }
+        return rules;
+    } catch (error) {
+        console.error("[RateLimit] Failed to parse RATE_LIMITS:", error);
+        return [...DEFAULT_RATE_LIMITS];
+    }
+}
+
+/**
+ * Whether `pathname` matches a route pattern (`*` = any characters).
+ */
+export function matchesRoute(route: string, pathname: string): boolean {
+    const pattern = route.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+    return new RegExp(`^${pattern}$`).test(pathname);
+}
+
+/**
+ * The first rate limit the request exceeds, if any. Each matching rule counts
+ * the request, even when an earlier rule already rejected it.
+ */
+export async function findRateLimitViolation(
+    env: Env,
+    request: Request,
+    url: URL,
+    network: NetworkContext
+): Promise<RateLimitViolation | null> {
+    const namespace = env.RATE_LIMITER;
+    if (!namespace) return null;
+
+    const rules = parseRateLimits(env).filter((rule) =>
+        matchesRoute(rule.route, url.pathname) && (!rule.methods || rule.methods.includes(request.method))
+    );
+
+    const results = await Promise.all(rules.map(async (rule): Promise<RateLimitViolation | null> => {
+        const client = await clientKey(rule, request, network);
+        if (!client) return null;
+
+        try {
+            const stub = namespace.get(namespace.idFromName(`${rule.id}:${rule.key}:${client}`));
+            const check: RateLimitCheck = { limit: rule.limit, windowMs: rule.windowSeconds * 1000 };
+            const response = await stub.fetch("https://rate-limiter/check", {
+                method: "POST",
+                body: JSON.stringify(check),
+            });
+            if (!response.ok) throw new Error(`RateLimiter returned ${response.status}`);
+
+            const result = await response.json() as RateLimitResult;
+            return result.allowed ? null : { rule, result };
+        } catch (error) {
+            // Fail open: a limiter outage must not take the protected site down
+            console.error(`[RateLimit] Check failed for rule ${rule.id}:`, error);
+            return null;
+        }
+    }));
+
+    return results.find((violation) => violation !== null) ?? null;
+}
+
+/**
+ * Whether a violation should also block the source: once per window, for
+ * rules that count by IP and have mitigation enabled.
+ */
+export function shouldMitigate(violation: RateLimitViolation): boolean {
+    return violation.rule.mitigate && violation.rule.key === "ip" && violation.result.rejected === 1;
+}
+
+/**
+ * Ledger assessment for a request rejected by a rate limit.
+ */
+export function rateLimitAssessment(violation: RateLimitViolation): SecurityAssessment {
+    const { rule, result } = violation;
+    const subject = rule.key === "ip" ? "client IP" : "API key";
+    return {
+        attackType: RATE_ABUSE_ATTACK_TYPE,
+        confidence: "High",
+        riskScore: 80,
+        explanation: `${result.count} requests in ${rule.windowSeconds}s from one ${subject} exceed rate limit "${rule.id}" (${rule.limit} per ${rule.windowSeconds}s).`,
+        impact: "Credential stuffing, scraping or resource exhaustion",
+        mitigation: `Rate limited; retry after ${result.retryAfter}s`,
+        action: "block",
+        executive_summary: "Request rejected: the client sent more requests than this route allows.",
+        timestamp: new Date().toISOString(),
+    };
+}
+
+/**
+ * RateLimiter Durable Object
+ *
+ * One instance per rule and client (see findRateLimitViolation). A Durable
+ * Object processes one request at a time, so counts are exact. State is
+ * removed by an alarm once two windows pass without traffic.
+ */
+export class RateLimiter {
+    constructor(private readonly state: DurableObjectState, _env: Env) {}
+
+    async fetch(request: Request): Promise<Response> {
+        let check: RateLimitCheck;
+        try {
+            check = await request.json() as RateLimitCheck;
+        } catch {
+            return new Response("Invalid JSON", { status: 400 });
+        }
+        if (!(check.limit > 0) || !(check.windowMs > 0)) {
+            return new Response("limit and windowMs must be positive", { status: 400 });
+        }
+        return Response.json(await this.check(check, Date.now()));
+    }
+
+    async alarm(): Promise<void> {
+        await this.state.storage.deleteAll();
+    }
+
+    private async check({ limit, windowMs }: RateLimitCheck, now: number): Promise<RateLimitResult> {
+        const windowStart = now - (now % windowMs);
+        let window = await this.state.storage.get<WindowState>("window");
+
+        if (!window || window.windowStart !== windowStart) {
+            const previous = window && windowStart - window.windowStart === windowMs ? window.current : 0;
+            window = { windowStart, current: 0, previous, rejected: 0 };
+        }
+
+        // Sliding window estimate: the part of the previous window still in range
+        const overlap = 1 - (now - windowStart) / windowMs;
+        const estimate = window.previous * overlap + window.current;
+        const allowed = estimate + 1 <= limit;
+        if (allowed) {
+            window.current++;
+        } else {
+            window.rejected++;
+        }
+
+        await this.state.storage.put("window", window);
+        await this.state.storage.setAlarm(windowStart + windowMs * 2);
+
+        return {
+            allowed,
+            count: Math.floor(estimate) + (allowed ? 1 : 0),
+            retryAfter: Math.ceil((windowStart + windowMs - now) / 1000),
+            rejected: window.rejected,
+        };
+    }
+}
+
+function parseRule(entry: unknown): RateLimitRule | null {
+    if (typeof entry !== "object" || entry === null) return null;
+    const raw = entry as Record<string, unknown>;
+
+    const windowSeconds = parseDuration(raw.window, 1);
+    const key = raw.key ?? "ip";
+    if (
+        typeof raw.id !== "string" || !raw.id ||
+        typeof raw.route !== "string" || !raw.route.startsWith("/") ||
+        typeof raw.limit !== "number" || !Number.isInteger(raw.limit) || raw.limit < 1 ||
+        windowSeconds === null ||
+        (key !== "ip" && key !== "apiKey") ||
+        (raw.methods !== undefined && (!Array.isArray(raw.methods) || !raw.methods.every((m) => typeof m === "string"))) ||
+        (raw.header !== undefined && typeof raw.header !== "string") ||
+        (raw.mitigate !== undefined && typeof raw.mitigate !== "boolean")
+    ) {
+        return null;
+    }
+
+    return {
+        id: raw.id,
+        route: raw.route,
+        methods: raw.methods ? (raw.methods as string[]).map((m) => m.toUpperCase()) : null,
+        limit: raw.limit,
+        windowSeconds,
+        key,
+        header: key === "apiKey" ? (raw.header as string | undefined) ?? DEFAULT_KEY_HEADER : null,
+        mitigate: (raw.mitigate as boolean | undefined) ?? true,
+    };
+}
+
+// What a rule counts the request against; null if the request doesn't carry it
+async function clientKey(rule: RateLimitRule, request: Request, network: NetworkContext): Promise<string | null> {
+    if (rule.key === "ip") {
+        return network.ipVersion !== null ? network.ip : null;
+    }
+
+    const value = request.headers.get(rule.header ?? DEFAULT_KEY_HEADER);
+    if (!value) return null;
+    // Never put credentials in object names or logs
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest).slice(0, 16), (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,149 @@
+import { Env, NetworkContext, ReputationScore, SecurityAssessment } from "./types";
+import { parseIP, formatIP } from "./net";
+
+/**
+ * Source Reputation
+ *
+ * Remembers how a source has behaved so repeat offenders aren't judged as
+ * first-time visitors. Every non-allow verdict adds weight to three KV
+ * entries: the client IP, its network (/24 for IPv4, /64 for IPv6) and its
+ * ASN. Scores decay exponentially with REPUTATION_HALF_LIFE_MS, so a source
+ * that stops attacking is forgiven within a few half-lives.
+ *
+ * The combined modifier is added to each agent's heuristic score before the
+ * threshold decision (see AgentOrchestrator), so a borderline payload from a
+ * source with a bad record is escalated to AI verification.
+ *
+ * KV allows about one write per second per key; under a flood some updates
+ * are dropped, which only under-counts an already high score.
+ */
+
+export const REPUTATION_HALF_LIFE_MS = 6 * 60 * 60 * 1000; // 6 hours
+export const MAX_REPUTATION_MODIFIER = 30;
+
+// Weight added per verdict
+const ACTION_WEIGHTS: Record<SecurityAssessment["action"], number> = {
+    allow: 0,
+    flag: 4,
+    block: 10,
+};
+
+// Share of each scope's score that counts towards the modifier, and its cap.
+// Networks and ASNs are shared by many clients, so they count for less.
+const SCOPE_WEIGHTS = {
+    ip: { factor: 1, cap: MAX_REPUTATION_MODIFIER },
+    network: { factor: 0.5, cap: 15 },
+    asn: { factor: 0.2, cap: 10 },
+} as const;
+
+const KEY_PREFIX = "reputation:";
+const ENTRY_TTL_SECONDS = 60 * 60 * 24 * 7; // Decayed to ~0 long before this
+
+type ReputationScope = keyof typeof SCOPE_WEIGHTS;
+
+interface ReputationEntry {
+    score: number; // As of updatedAt
+    updatedAt: number; // Epoch ms
+    events: number; // Non-allow verdicts recorded
+}
+
+/**
+ * KV keys for a request's source, by scope. Scopes that can't be derived
+ * (unknown IP, no ASN) are omitted.
+ */
+export function reputationKeys(network: NetworkContext): Partial<Record<ReputationScope, string>> {
+    const keys: Partial<Record<ReputationScope, string>> = {};
+    const parsed = network.ipVersion !== null ? parseIP(network.ip) : null;
+
+    if (parsed) {
+        keys.ip = `${KEY_PREFIX}ip:${formatIP(parsed)}`;
+
+        const prefixBytes = parsed.version === 4 ? 3 : 8;
+        const bytes = parsed.bytes.map((b, i) => (i < prefixBytes ? b : 0));
+        keys.network = `${KEY_PREFIX}net:${formatIP({ version: parsed.version, bytes })}/${prefixBytes * 8}`;
+    }
+    if (network.asn !== null) {
+        keys.asn = `${KEY_PREFIX}asn:${network.asn}`;
+    }
+    return keys;
+}
+
+/**
+ * Score of an entry as of `now`.
+ */
+export function decayScore(entry: Pick<ReputationEntry, "score" | "updatedAt">, now: number): number {
+    const elapsed = Math.max(0, now - entry.updatedAt);
+    return entry.score * Math.pow(0.5, elapsed / REPUTATION_HALF_LIFE_MS);
+}
+
+/**
+ * Current reputation of a request's source. KV failures count as a clean
+ * record: reputation only ever raises scores, so failing open is safe.
+ */
+export async function getReputation(env: Env, network: NetworkContext, now: number = Date.now()): Promise<ReputationScore> {
+    const keys = reputationKeys(network);
+    const scores = { ip: 0, network: 0, asn: 0 };
+
+    await Promise.all(
+        (Object.keys(keys) as ReputationScope[]).map(async (scope) => {
+            const entry = await readEntry(env, keys[scope]!);
+            if (entry) scores[scope] = decayScore(entry, now);
+        })
+    );
+
+    let modifier = 0;
+    for (const scope of Object.keys(SCOPE_WEIGHTS) as ReputationScope[]) {
+        const { factor, cap } = SCOPE_WEIGHTS[scope];
+        modifier += Math.min(scores[scope] * factor, cap);
+    }
+
+    return {
+        modifier: Math.min(Math.round(modifier), MAX_REPUTATION_MODIFIER),
+        ip: round(scores.ip),
+        network: round(scores.network),
+        asn: round(scores.asn),
+    };
+}
+
+/**
+ * Add a verdict to the source's history. `allow` verdicts carry no weight
+ * and cost no KV writes.
+ */
+export async function recordReputation(
+    env: Env,
+    network: NetworkContext,
+    action: SecurityAssessment["action"],
+    now: number = Date.now()
+): Promise<void> {
+    const weight = ACTION_WEIGHTS[action];
+    if (weight === 0) return;
+
+    const keys = Object.values(reputationKeys(network));
+    await Promise.all(keys.map(async (key) => {
+        try {
+            const entry = await readEntry(env, key);
+            const updated: ReputationEntry = {
+                score: (entry ? decayScore(entry, now) : 0) + weight,
+                updatedAt: now,
+                events: (entry?.events ?? 0) + 1,
+            };
+            await env.SENTINEL_KV.put(key, JSON.stringify(updated), { expirationTtl: ENTRY_TTL_SECONDS });
+        } catch (error) {
+            console.error(`[Reputation] Failed to update ${key}:`, error);
+        }
+    }));
+}
+
+async function readEntry(env: Env, key: string): Promise<ReputationEntry | null> {
+    try {
+        const entry = await env.SENTINEL_KV.get<ReputationEntry>(key, "json");
+        return entry && typeof entry.score === "number" && typeof entry.updatedAt === "number" ? entry : null;
+    } catch (error) {
+        console.error(`[Reputation] Failed to read ${key}:`, error);
+        return null;
+    }
+}
+
+function round(score: number): number {
+    return Math.round(score * 10) / 10;
+}
@@ -0,0 +1,190 @@
+import { Env } from "./types";
+import { EventRow, toSecurityEventDetail } from "./events";
+
+/**
+ * Forensic Ledger Retention (runs from the `scheduled` handler)
+ *
+ * Every allowed request is logged, so `security_events` would otherwise grow
+ * until it hits D1's database size limit. Each run:
+ * 1. Expires `allow` rows older than ALLOW_RETENTION_DAYS, then every row older
+ *    than RETENTION_DAYS, oldest first, in batches of RETENTION_BATCH_SIZE.
+ * 2. If ARCHIVE_BUCKET is bound, writes each batch to R2 as gzipped NDJSON
+ *    (same shape as `/v1/events/export?format=ndjson`) and records the object
+ *    in `archive_manifests`.
+ * 3. Downsamples expired `allow` rows into hourly `security_event_rollups`.
+ * 4. Deletes the batch. The manifest entry, rollup and delete are one D1
+ *    batch, so rows are either recorded, rolled up and deleted together or
+ *    left in place for the next run.
+ *
+ * A run stops after MAX_RETENTION_BATCHES; the next cron run picks up the rest.
+ */
+
+export const DEFAULT_RETENTION_DAYS = 30;
+export const RETENTION_BATCH_SIZE = 1000;
+export const MAX_RETENTION_BATCHES = 20;
+
+export interface RetentionPolicy {
+    retentionDays: number;
+    allowRetentionDays: number; // Never longer than retentionDays
+}
+
+export interface RetentionResult {
+    deleted: number;
+    rolledUp: number; // `allow` rows folded into hourly rollups
+    archives: string[]; // R2 object keys written
+    complete: boolean; // false if the run stopped at MAX_RETENTION_BATCHES
+}
+
+const ARCHIVE_PREFIX = "security_events/";
+
+/**
+ * Read the retention policy from the environment. Invalid or non-positive
+ * values fall back to the defaults.
+ */
+export function parseRetentionPolicy(env: Env): RetentionPolicy {
+    const days = (value: string | undefined, fallback: number) => {
+        const parsed = Number(value);
+        return value && Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+    };
+    const retentionDays = days(env.RETENTION_DAYS, DEFAULT_RETENTION_DAYS);
+    return {
+        retentionDays,
+        allowRetentionDays: Math.min(days(env.ALLOW_RETENTION_DAYS, retentionDays), retentionDays),
+    };
+}
+
+/**
+ * Apply the retention policy as of `now`.
+ */
+export async function applyRetention(env: Env, now: Date = new Date()): Promise<RetentionResult> {
+    const policy = parseRetentionPolicy(env);
+    const result: RetentionResult = { deleted: 0, rolledUp: 0, archives: [], complete: true };
+    let batches = 0;
+
+    const passes = [
+        { filter: "action = 'allow' AND timestamp < ?", cutoff: cutoffFor(now, policy.allowRetentionDays) },
+        { filter: "timestamp < ?", cutoff: cutoffFor(now, policy.retentionDays) },
+    ];
+
+    for (const pass of passes) {
+        while (true) {
+            if (batches >= MAX_RETENTION_BATCHES) {
+                result.complete = false;
+                return result;
+            }
+
+            const { results: rows } = await env.DB.prepare(
+                `SELECT * FROM security_events WHERE ${pass.filter} ORDER BY timestamp, id LIMIT ?`
+            )
+                .bind(pass.cutoff, RETENTION_BATCH_SIZE)
+                .all<EventRow>();
+            if (rows.length === 0) break;
+
+            batches++;
+            await expireBatch(env, rows, pass.filter, pass.cutoff, now, result);
+            if (rows.length < RETENTION_BATCH_SIZE) break;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Archive, roll up and delete one batch of expired rows (sorted by timestamp, id).
+ */
+async function expireBatch(
+    env: Env,
+    rows: EventRow[],
+    filter: string,
+    cutoff: string,
+    now: Date,
+    result: RetentionResult
+): Promise<void> {
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+
+    // Same rows as the SELECT: everything up to and including the last (timestamp, id)
+    const inBatch = `${filter} AND (timestamp < ? OR (timestamp = ? AND id <= ?))`;
+    const bindings = [cutoff, last.timestamp, last.timestamp, last.id];
+
+    const statements: D1PreparedStatement[] = [
+        env.DB.prepare(
+            `INSERT INTO security_event_rollups (hour, action, event_count, risk_score_sum, max_risk_score)
+            SELECT substr(timestamp, 1, 13) || ':00:00Z', action, COUNT(*), COALESCE(SUM(risk_score), 0), COALESCE(MAX(risk_score), 0)
+            FROM security_events
+            WHERE action = 'allow' AND ${inBatch}
+            GROUP BY 1, 2
+            ON CONFLICT(hour, action) DO UPDATE SET
+                event_count = event_count + excluded.event_count,
+                risk_score_sum = risk_score_sum + excluded.risk_score_sum,
+                max_risk_score = MAX(max_risk_score, excluded.max_risk_score)`
+        ).bind(...bindings),
+        env.DB.prepare(`DELETE FROM security_events WHERE ${inBatch}`).bind(...bindings),
+    ];
+
+    if (env.ARCHIVE_BUCKET) {
+        const archive = await writeArchive(env.ARCHIVE_BUCKET, rows, now);
+        statements.push(
+            env.DB.prepare(
+                `INSERT INTO archive_manifests
+                (id, created_at, object_key, event_count, first_timestamp, last_timestamp, compressed_bytes, sha256)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+            ).bind(
+                crypto.randomUUID(),
+                now.toISOString(),
+                archive.key,
+                rows.length,
+                first.timestamp,
+                last.timestamp,
+                archive.bytes,
+                archive.sha256
+            )
+        );
+        result.archives.push(archive.key);
+    }
+
+    // If this fails after the R2 write, the rows stay in D1 and are archived
+    // again next run; the orphaned object has no manifest entry.
+    await env.DB.batch(statements);
+
+    const rolledUp = rows.filter((row) => row.action === "allow").length;
+    result.deleted += rows.length;
+    result.rolledUp += rolledUp;
+    console.log(`[Retention] Expired ${rows.length} events (${rolledUp} rolled up) through ${last.timestamp}`);
+}
+
+/**
+ * Write rows to R2 as gzipped NDJSON. Keys are partitioned by the date of the
+ * oldest row: security_events/YYYY/MM/DD/<first timestamp>-<uuid>.ndjson.gz
+ */
+async function writeArchive(
+    bucket: NonNullable<Env["ARCHIVE_BUCKET"]>,
+    rows: EventRow[],
+    now: Date
+): Promise<{ key: string; bytes: number; sha256: string }> {
+    const ndjson = rows.map((row) => JSON.stringify(toSecurityEventDetail(row))).join("\n") + "\n";
+    const compressed = await new Response(
+        new Blob([ndjson]).stream().pipeThrough(new CompressionStream("gzip"))
+    ).arrayBuffer();
+    const digest = await crypto.subtle.digest("SHA-256", compressed);
+    const sha256 = Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+
+    const first = rows[0].timestamp;
+    const key = `${ARCHIVE_PREFIX}${first.slice(0, 4)}/${first.slice(5, 7)}/${first.slice(8, 10)}/${first.replace(/[:.]/g, "-")}-${crypto.randomUUID()}.ndjson.gz`;
+
+    await bucket.put(key, compressed, {
+        httpMetadata: { contentType: "application/x-ndjson", contentEncoding: "gzip" },
+        customMetadata: {
+            eventCount: String(rows.length),
+            firstTimestamp: first,
+            lastTimestamp: rows[rows.length - 1].timestamp,
+            archivedAt: now.toISOString(),
+        },
+    });
+
+    return { key, bytes: compressed.byteLength, sha256 };
+}
+
+function cutoffFor(now: Date, days: number): string {
+    return new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+}
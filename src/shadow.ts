@@ -0,0 +1,147 @@
+import { Env } from "./types";
+import { EventQueryError } from "./events";
+
+/**
+ * Shadow Mode (`GET /v1/shadow/report`)
+ *
+ * Before Sentinel enforces anything on a new application, it can run in
+ * shadow mode: the whole traffic pipeline (mitigations, rate limits, agents,
+ * action policy) runs and every decision goes to the ledger, but the request
+ * is always forwarded. Nothing is auto-mitigated from a shadow route.
+ *
+ * Shadow mode is part of the action policy (src/policy.ts): `"shadow": true`
+ * in `defaults` covers every route, a rule covers the routes and methods it
+ * matches (rules can also turn it off again for a route).
+ *
+ * Shadow events carry `would_block` in the ledger (0 or 1; NULL for enforced
+ * traffic). This report compares, over a period, how much shadow traffic
+ * would have been blocked, on which routes, why and from where:
+ *   from, to   ISO-8601 time range (default: the last 24 hours)
+ * Individual events: `GET /v1/events?would_block=true`.
+ */
+
+export const DEFAULT_REPORT_PERIOD_MS = 24 * 60 * 60 * 1000;
+export const REPORT_TOP_N = 20;
+
+export interface ShadowRouteSummary {
+    path: string | null;
+    evaluated: number;
+    wouldBlock: number;
+    wouldBlockRate: number; // 0-1
+}
+
+export interface ShadowReport {
+    from: string;
+    to: string;
+    evaluated: number; // Shadow-mode requests in the period
+    wouldBlock: number;
+    wouldFlag: number; // Forwarded as `flag` (not counted in wouldBlock)
+    wouldBlockRate: number;
+    routes: ShadowRouteSummary[]; // Most would-be blocks first
+    attackTypes: { attackType: string | null; wouldBlock: number }[]; // Includes "Active Mitigation" and "Rate Abuse"
+    sources: { ip: string | null; wouldBlock: number }[];
+}
+
+interface TotalsRow {
+    evaluated: number;
+    would_block: number | null;
+    would_flag: number | null;
+}
+
+interface RouteRow {
+    path: string | null;
+    evaluated: number;
+    would_block: number | null;
+}
+
+/**
+ * Summarize shadow-mode events in [from, to).
+ */
+export async function buildShadowReport(env: Env, from: string, to: string): Promise<ShadowReport> {
+    const shadowEvents = "FROM security_events WHERE would_block IS NOT NULL AND timestamp >= ? AND timestamp < ?";
+    const blockedEvents = "FROM security_events WHERE would_block = 1 AND timestamp >= ? AND timestamp < ?";
+
+    const [totals, routes, attackTypes, sources] = await Promise.all([
+        env.DB.prepare(
+            `SELECT COUNT(*) AS evaluated, SUM(would_block) AS would_block,
+                SUM(CASE WHEN would_block = 0 AND action = 'flag' THEN 1 ELSE 0 END) AS would_flag ${shadowEvents}`
+        ).bind(from, to).first<TotalsRow>(),
+        env.DB.prepare(
+            `SELECT request_path AS path, COUNT(*) AS evaluated, SUM(would_block) AS would_block ${shadowEvents}
+            GROUP BY request_path ORDER BY would_block DESC, evaluated DESC LIMIT ?`
+        ).bind(from, to, REPORT_TOP_N).all<RouteRow>(),
+        env.DB.prepare(
+            `SELECT attack_type, COUNT(*) AS would_block ${blockedEvents}
+            GROUP BY attack_type ORDER BY would_block DESC LIMIT ?`
+        ).bind(from, to, REPORT_TOP_N).all<{ attack_type: string | null; would_block: number }>(),
+        env.DB.prepare(
+            `SELECT ip_address, COUNT(*) AS would_block ${blockedEvents}
+            GROUP BY ip_address ORDER BY would_block DESC LIMIT ?`
+        ).bind(from, to, REPORT_TOP_N).all<{ ip_address: string | null; would_block: number }>(),
+    ]);
+
+    const evaluated = totals?.evaluated ?? 0;
+    const wouldBlock = totals?.would_block ?? 0;
+    return {
+        from,
+        to,
+        evaluated,
+        wouldBlock,
+        wouldFlag: totals?.would_flag ?? 0,
+        wouldBlockRate: rate(wouldBlock, evaluated),
+        routes: routes.results.map((row) => ({
+            path: row.path,
+            evaluated: row.evaluated,
+            wouldBlock: row.would_block ?? 0,
+            wouldBlockRate: rate(row.would_block ?? 0, row.evaluated),
+        })),
+        attackTypes: attackTypes.results.map((row) => ({ attackType: row.attack_type, wouldBlock: row.would_block })),
+        sources: sources.results.map((row) => ({ ip: row.ip_address, wouldBlock: row.would_block })),
+    };
+}
+
+/**
+ * HTTP handler for `GET /v1/shadow/report`.
+ */
+export async function handleShadowReportRequest(
+    url: URL,
+    env: Env,
+    corsHeaders: Record<string, string>
+): Promise<Response> {
+    const json = (body: unknown, status = 200) =>
+        new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...corsHeaders } });
+
+    try {
+        const { from, to } = parsePeriod(url.searchParams, Date.now());
+        return json({ success: true, report: await buildShadowReport(env, from, to) });
+    } catch (error) {
+        if (error instanceof EventQueryError) {
+            return json({ error: "Bad Request", message: error.message }, 400);
+        }
+        console.error("[Shadow] Report failed:", error);
+        return json({ error: "Internal Server Error", message: "Failed to build shadow report" }, 500);
+    }
+}
+
+/**
+ * Report period from `from` / `to`, defaulting to the DEFAULT_REPORT_PERIOD_MS
+ * before `to` (or now). Throws EventQueryError on invalid input.
+ */
+export function parsePeriod(params: URLSearchParams, now: number): { from: string; to: string } {
+    const parse = (key: "from" | "to"): number | null => {
+        const value = params.get(key);
+        if (value === null) return null;
+        const time = new Date(value).getTime();
+        if (isNaN(time)) throw new EventQueryError(`${key} must be an ISO-8601 timestamp`);
+        return time;
+    };
+
+    const to = parse("to") ?? now;
+    const from = parse("from") ?? to - DEFAULT_REPORT_PERIOD_MS;
+    if (from >= to) throw new EventQueryError("from must be before to");
+    return { from: new Date(from).toISOString(), to: new Date(to).toISOString() };
+}
+
+function rate(part: number, total: number): number {
+    return total > 0 ? Math.round((part / total) * 10_000) / 10_000 : 0;
+}
@@ -1,5 +1,5 @@
 
-import { Ai, KVNamespace, Workflow, D1Database } from "@cloudflare/workers-types";
+import { Ai, KVNamespace, Workflow, D1Database, R2Bucket } from "@cloudflare/workers-types";
 
 // --- Environment Bindings ---
 export interface Env {
@@ -8,11 +8,40 @@ export interface Env {
     SENTINEL_WORKFLOW: Workflow;
     DB: D1Database; // D1 Database for forensic audit logging
     ENVIRONMENT: 'production' | 'staging' | 'dev';
-    API_KEY: string;
+    API_KEY: string; // Admin API key for the /v1/* management routes
+    API_KEYS?: string; // Optional: JSON array of additional scoped API keys (see src/auth.ts)
+    API_RATE_LIMIT?: string; // Optional: Default requests per minute per API key (default: 120)
+    CORS_ALLOWED_ORIGINS?: string; // Optional: Comma-separated origins allowed to call the API
     SOC_WEBHOOK_URL?: string; // Optional: SOC platform webhook endpoint
     SOC_API_KEY?: string; // Optional: Authentication key for SOC webhook
     CLOUDFLARE_API_TOKEN?: string; // Optional: Cloudflare API token for auto-mitigation
     CLOUDFLARE_ZONE_ID?: string; // Optional: Cloudflare Zone ID for IP blocking
+    ORIGIN_URL?: string; // Optional: Default origin for reverse-proxy mode
+    ORIGIN_ROUTES?: string; // Optional: JSON map of hostname/route -> origin URL
+    AGENT_MERGE_POLICY?: MergePolicy; // Optional: Verdict merge policy (default: worst-case)
+    ARCHIVE_BUCKET?: R2Bucket; // Optional: R2 bucket for archived ledger rows (see src/retention.ts)
+    RETENTION_DAYS?: string; // Optional: Days to keep full ledger rows (default: 30)
+    ALLOW_RETENTION_DAYS?: string; // Optional: Days to keep full `allow` rows before downsampling (default: RETENTION_DAYS)
+    BLOCK_PENALTY_POLICY?: string; // Optional: JSON escalating block durations (see src/penalties.ts)
+    RATE_LIMITER?: DurableObjectNamespace; // Optional: RateLimiter Durable Object; rate limiting is off without it
+    RATE_LIMITS?: string; // Optional: JSON array of rate limit rules (see src/ratelimit.ts)
+}
+
+// --- API Authentication ---
+export type ApiScope = 'analyst' | 'admin'; // analyst = read-only, admin = read + write
+
+export interface ApiKey {
+    id: string; // Stable identifier recorded in the audit log (never the key itself)
+    key: string;
+    scope: ApiScope;
+    rateLimit?: number; // Requests per minute, overrides API_RATE_LIMIT
+}
+
+// The caller behind an authenticated request
+export interface AuthPrincipal {
+    keyId: string;
+    scope: ApiScope;
+    rateLimit: number;
 }
 
 // --- API Request/Response ---
@@ -20,21 +49,155 @@ export interface AnalyzeRequest {
     payload: string;
     source?: string;
     metadata?: Record<string, unknown>;
+    mode?: 'sync' | 'async'; // sync (default): run the agents inline; async: trigger SentinelWorkflow
 }
 
 export interface AnalyzeResponse {
-    status: 'workflow_triggered' | 'workflow_deduplicated' | 'error';
-    id?: string;
-    cacheKey?: string;
+    status: 'analyzed' | 'cached' | 'workflow_triggered' | 'error';
+    id: string; // Workflow instance ID ("scan-" + cacheKey), also used for sync results
+    cacheKey: string;
+    assessment?: SecurityAssessment; // Present for analyzed / cached
     message?: string;
 }
 
+// One NDJSON line of a POST /v1/analyze/batch response
+export interface BatchAnalyzeResult extends AnalyzeResponse {
+    line: number; // 1-based input line number
+    cache: 'hit' | 'miss' | 'duplicate'; // duplicate = same payload earlier in the batch
+}
+
+// A row of the D1 security_events ledger, as returned by GET /v1/events
+export interface SecurityEvent {
+    id: string;
+    timestamp: string;
+    ipAddress: string | null;
+    country: string | null;
+    requestPath: string | null;
+    attackType: string | null;
+    riskScore: number | null;
+    action: SecurityAssessment['action'] | null;
+    payloadPreview: string | null;
+    matchedInput: string | null; // Formatted input name, e.g. "query.id"
+    agent: string | null;
+    cacheHit: boolean | null; // Verdict served from the KV cache (null for events logged before migration 2)
+    requestMethod: string | null;
+    ruleId: string | null; // Mitigation rule created for a block
+    asn: number | null;
+    asOrganization: string | null;
+    city: string | null;
+    colo: string | null;
+    tlsVersion: string | null;
+    wouldBlock: boolean | null; // Shadow mode only (see src/shadow.ts); null for enforced traffic
+}
+
+// GET /v1/events/:id; metadata includes the stored full_assessment
+export interface SecurityEventDetail extends SecurityEvent {
+    metadata: Record<string, unknown> | null;
+}
+
 // --- Workflow ---
 export interface WorkflowParams {
     payload: string;
     cacheKey: string;
     timestamp: string;
     sourceIP?: string; // Optional: Source IP address for auto-mitigation
+    network?: NetworkContext; // Optional: Source network, added to SOC alert observables
+}
+
+// --- Network Enrichment (see src/enrichment.ts) ---
+// Source network of a request, from CF-Connecting-IP and request.cf
+export interface NetworkContext {
+    ip: string; // Normalized (IPv4 dotted quad / RFC 5952 IPv6), "unknown" if absent or invalid
+    ipVersion: 4 | 6 | null;
+    asn: number | null;
+    asOrganization: string | null;
+    country: string | null; // ISO 3166-1 alpha-2 ("T1" = Tor)
+    city: string | null;
+    region: string | null;
+    colo: string | null; // Cloudflare data center (IATA code)
+    tlsVersion: string | null; // null for plain HTTP
+    httpProtocol: string | null;
+}
+
+// --- Source Reputation (see src/reputation.ts) ---
+// Decayed history of a request's source, applied before the agents' threshold decision
+export interface ReputationScore {
+    modifier: number; // Added to each agent's heuristic score (0 to MAX_REPUTATION_MODIFIER)
+    ip: number; // Decayed score per scope
+    network: number; // /24 (IPv4) or /64 (IPv6)
+    asn: number;
+}
+
+// --- Action Policy (see src/policy.ts) ---
+export interface PolicyDecision {
+    version: number; // Policy version (0 = built-in defaults)
+    rules: string[]; // Ids of the matching rules
+    originalAction: SecurityAssessment['action']; // The agents' action before the policy
+}
+
+// --- Detection Exceptions (see src/exceptions.ts) ---
+export interface ExceptionMatch {
+    rule: string; // Exception rule id
+    agent: string;
+    input?: InputReference; // Request input the flags were suppressed on
+    flags: string[]; // Heuristic flags the rule suppressed
+}
+
+// --- Mitigations (see src/mitigations.ts) ---
+// block: 403 at the Worker; challenge: left to Cloudflare's managed challenge;
+// track: recorded for the dashboard only, never enforced
+export type MitigationMode = 'block' | 'challenge' | 'track';
+
+// Value of a `mitigation:<ip or CIDR>` KV record
+export interface MitigationRecord {
+    ruleId: string | null; // Cloudflare IP Access Rule ID, "tracked-only" or an ips-blocked-* marker
+    sourceIP: string; // IP or CIDR range the record applies to
+    attackType: string;
+    riskScore: number;
+    createdAt: string;
+    expiresAt: string;
+    mode?: MitigationMode; // Absent on records written before modes existed
+    reason?: string; // Manual mitigations only
+    createdBy?: string; // API key id, for manual mitigations
+    updatedAt?: string;
+    tier?: number; // Escalation tier (1-based) of an automatic block, see src/penalties.ts
+}
+
+// --- D1 Migrations (see src/migrations/) ---
+export interface Migration {
+    version: number; // Applied in ascending order, recorded in schema_migrations
+    name: string;
+    // Columns added to existing tables only when missing (ALTER TABLE ... ADD COLUMN).
+    // Tables created by `statements` must declare these columns themselves.
+    columns?: { table: string; name: string; definition: string }[];
+    statements: string[]; // Idempotent SQL, run with the column changes in one D1 batch
+}
+
+// --- Request Decomposition (see src/context.ts) ---
+export type InputLocation = 'path' | 'query' | 'body' | 'cookie' | 'header';
+
+export interface InputReference {
+    location: InputLocation;
+    name: string; // Parameter, field path, cookie or header name ("" for the path and raw bodies)
+}
+
+// A single value taken from the request, analyzed on its own by every agent
+export interface RequestInput extends InputReference {
+    value: string;
+}
+
+export interface RequestBody {
+    type: 'none' | 'json' | 'form' | 'multipart' | 'text';
+    fields: Record<string, string[]>; // Flattened field path -> values ("user.name", "items[0]")
+}
+
+export interface RequestContext {
+    method: string;
+    path: string;
+    query: Record<string, string[]>;
+    body: RequestBody;
+    cookies: Record<string, string>;
+    headers: Record<string, string>; // Inspected headers only, lowercase names
 }
 
 // --- Domain Models ---
@@ -48,8 +211,28 @@ export interface SecurityAssessment {
     action: 'allow' | 'block' | 'flag';
     timestamp: string;
     executive_summary: string; // Human-readable 1-2 sentence summary for Junior Security Analysts
+    agentResults?: AgentResult[]; // Per-agent sub-verdicts when produced by the AgentOrchestrator
+    matchedInput?: InputReference; // Request input the detection came from (e.g. query "id")
+    agent?: string; // Specialist agent whose verdict was used (AgentOrchestrator, non-allow only)
+    reputation?: ReputationScore; // Source reputation applied by the AgentOrchestrator
+    policy?: PolicyDecision; // Action policy applied to the verdict, when it changed the action or a rule matched
+    exceptions?: ExceptionMatch[]; // Detection exceptions that suppressed agents or flags
 }
 
+// Per-agent sub-result recorded on a merged assessment
+export interface AgentResult {
+    agent: string;
+    heuristicScore: number;
+    flags: string[];
+    verified: boolean; // true if Layer 3 (AI verification) ran for this agent
+    assessment: SecurityAssessment;
+    input?: InputReference; // Highest-scoring request input for this agent
+    exceptions?: ExceptionMatch[]; // Flags suppressed by detection exceptions, on any input
+}
+
+// How the orchestrator combines agent verdicts (see src/agents/AgentOrchestrator.ts)
+export type MergePolicy = 'worst-case' | 'highest-risk' | 'consensus';
+
 // Type guard for SecurityAssessment validation
 export function isSecurityAssessment(obj: unknown): obj is SecurityAssessment {
     if (typeof obj !== 'object' || obj === null) return false;
@@ -72,6 +255,8 @@ export function isSecurityAssessment(obj: unknown): obj is SecurityAssessment {
 // standard strict type guard to avoid 'as any'
 export function isAnalyzeRequest(body: unknown): body is AnalyzeRequest {
     if (typeof body !== 'object' || body === null) return false;
-    const valid = 'payload' in body && typeof (body as AnalyzeRequest).payload === 'string';
+    const candidate = body as Record<string, unknown>;
+    const valid = 'payload' in body && typeof candidate.payload === 'string' &&
+        (candidate.mode === undefined || candidate.mode === 'sync' || candidate.mode === 'async');
     return valid;
 }
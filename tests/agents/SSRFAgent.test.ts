@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SSRFAgent } from '../../src/agents/SSRFAgent';
+import { Env } from '../../src/types';
+
+describe('SSRFAgent', () => {
+    let agent: SSRFAgent;
+    let mockEnv: Env;
+
+    beforeEach(() => {
+        // Mock Environment
+        mockEnv = {
+            AI: {
+                run: vi.fn(),
+            } as any,
+            SENTINEL_KV: {} as any,
+            SENTINEL_WORKFLOW: {} as any,
+            DB: {} as any, // Mock D1 database
+            ENVIRONMENT: 'dev',
+            API_KEY: 'test-key',
+        };
+        agent = new SSRFAgent(mockEnv);
+    });
+
+    describe('Layer 1: Normalization', () => {
+        it('should decode single and double URL encoding', () => {
+            expect(agent.normalize("url=http%3A%2F%2F127.0.0.1%2Fadmin")).toBe("url=http://127.0.0.1/admin");
+            expect(agent.normalize("url=http%253A%252F%252Flocalhost")).toBe("url=http://localhost");
+        });
+
+        it('should lowercase schemes and hosts', () => {
+            expect(agent.normalize("HTTP://LocalHost/")).toBe("http://localhost/");
+        });
+
+        it('should normalize backslash authority separators', () => {
+            expect(agent.normalize("http:\\\\127.0.0.1\\admin")).toBe("http://127.0.0.1\\admin");
+        });
+    });
+
+    describe('Target Extraction', () => {
+        it('should extract every URL in the payload', () => {
+            const targets = agent.extractTargets("a=http://example.com/x&b=gopher://10.0.0.1:70/_ user-agent:curl");
+            expect(targets.map(t => t.host)).toEqual(["example.com", "10.0.0.1"]);
+            expect(targets[1].scheme).toBe("gopher");
+        });
+
+        it('should extract URLs nested in another URL', () => {
+            const targets = agent.extractTargets("redirect=https://example.com/login?next=http://10.0.0.5/admin");
+            expect(targets.map(t => t.category)).toEqual(["public", "private"]);
+        });
+
+        it('should extract protocol-relative URLs', () => {
+            const targets = agent.extractTargets("next=//169.254.169.254/latest");
+            expect(targets).toHaveLength(1);
+            expect(targets[0].category).toBe("metadata");
+        });
+
+        it('should resolve the real host behind userinfo and ports', () => {
+            const target = agent.parseTarget("http://trusted.com@127.0.0.1:8080/")!;
+            expect(target.host).toBe("127.0.0.1");
+            expect(target.category).toBe("loopback");
+        });
+    });
+
+    describe('Host Classification', () => {
+        it('should classify private, link-local and reserved ranges', () => {
+            expect(agent.classifyHost("10.1.2.3").category).toBe("private");
+            expect(agent.classifyHost("172.20.0.1").category).toBe("private");
+            expect(agent.classifyHost("192.168.1.1").category).toBe("private");
+            expect(agent.classifyHost("169.254.1.1").category).toBe("link-local");
+            expect(agent.classifyHost("239.0.0.1").category).toBe("reserved");
+            expect(agent.classifyHost("8.8.8.8").category).toBe("public");
+        });
+
+        it('should canonicalize decimal, hex and octal IPv4 notations', () => {
+            expect(agent.classifyHost("2130706433")).toEqual({ address: "127.0.0.1", category: "loopback", obfuscated: true });
+            expect(agent.classifyHost("0xa9fea9fe")).toEqual({ address: "169.254.169.254", category: "metadata", obfuscated: true });
+            expect(agent.classifyHost("0177.0.0.1").address).toBe("127.0.0.1");
+            expect(agent.classifyHost("127.1").address).toBe("127.0.0.1");
+        });
+
+        it('should unwrap IPv4-mapped IPv6 addresses', () => {
+            expect(agent.classifyHost("[::ffff:169.254.169.254]")).toEqual({ address: "169.254.169.254", category: "metadata", obfuscated: true });
+            expect(agent.classifyHost("[::ffff:7f00:1]").category).toBe("loopback");
+        });
+
+        it('should classify IPv6 ranges', () => {
+            expect(agent.classifyHost("[::1]")).toEqual({ address: "::1", category: "loopback", obfuscated: false });
+            expect(agent.classifyHost("[fe80::1%25eth0]").category).toBe("link-local");
+            expect(agent.classifyHost("[fd12:3456::1]").category).toBe("private");
+            expect(agent.classifyHost("[fd00:ec2::254]").category).toBe("metadata");
+        });
+
+        it('should classify internal and loopback hostnames', () => {
+            expect(agent.classifyHost("metadata.google.internal").category).toBe("metadata");
+            expect(agent.classifyHost("localhost").category).toBe("loopback");
+            expect(agent.classifyHost("api.localtest.me").category).toBe("loopback");
+            expect(agent.classifyHost("db.corp").category).toBe("internal-hostname");
+            expect(agent.classifyHost("example.com").category).toBe("public");
+        });
+
+        it('should resolve wildcard DNS names to their embedded IP', () => {
+            expect(agent.classifyHost("169.254.169.254.nip.io").category).toBe("metadata");
+            expect(agent.classifyHost("app.10-0-0-1.sslip.io").category).toBe("private");
+        });
+    });
+
+    describe('Layer 2: Heuristic Analysis', () => {
+        it('should detect cloud metadata targets', () => {
+            const { score, flags } = agent.heuristicAnalysis(agent.normalize("url=http://169.254.169.254/latest/meta-data/"));
+            expect(score).toBe(90);
+            expect(flags).toContain("Cloud Metadata Target");
+        });
+
+        it('should stack scheme and obfuscation signals', () => {
+            const { score, flags } = agent.heuristicAnalysis(agent.normalize("url=gopher://2130706433:6379/_FLUSHALL"));
+            expect(score).toBe(100);
+            expect(flags).toEqual(expect.arrayContaining(["Loopback Target", "Dangerous URL Scheme", "Obfuscated IP Notation"]));
+        });
+
+        it('should detect file:// URLs', () => {
+            const { flags } = agent.heuristicAnalysis(agent.normalize("src=file:///etc/passwd"));
+            expect(flags).toContain("Dangerous URL Scheme");
+        });
+
+        it('should score public URLs zero', () => {
+            const { score } = agent.heuristicAnalysis(agent.normalize("callback=https://hooks.example.com/notify"));
+            expect(score).toBe(0);
+        });
+
+        it('should score standard text low', () => {
+            const { score } = agent.heuristicAnalysis(agent.normalize("Hello world, this is a test comment."));
+            expect(score).toBe(0);
+        });
+    });
+
+    describe('Layer 3: AI Verification', () => {
+        it('should NOT call AI if heuristic score is low', async () => {
+            await agent.analyze("Just a normal search query");
+            expect(mockEnv.AI.run).not.toHaveBeenCalled();
+        });
+
+        it('should call AI with the resolved targets', async () => {
+            (mockEnv.AI.run as any).mockResolvedValue({
+                response: JSON.stringify({
+                    attackType: "SSRF",
+                    confidence: "High",
+                    riskScore: 95,
+                    explanation: "Cloud metadata credential theft",
+                    action: "block"
+                })
+            });
+
+            const result = await agent.analyze("url=http://0xa9fea9fe/latest/meta-data/iam/");
+            expect(mockEnv.AI.run).toHaveBeenCalled();
+            const prompt = (mockEnv.AI.run as any).mock.calls[0][1].messages[0].content;
+            expect(prompt).toContain("169.254.169.254 (metadata)");
+            expect(result.action).toBe("block");
+        });
+
+        it('should handle AI JSON parsing errors gracefully (Fallback to Heuristics)', async () => {
+            (mockEnv.AI.run as any).mockResolvedValue({
+                response: "I am not a JSON object"
+            });
+
+            const result = await agent.analyze("url=http://169.254.169.254/latest/meta-data/");
+            expect(result.attackType).toContain("SSRF (Heuristic Fallback)");
+            expect(result.action).toBe("block");
+        });
+    });
+});
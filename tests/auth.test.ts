@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { authorize, authenticate, parseApiKeys, requiredScope, timingSafeEqual, isAdminCall, isAuditedRoute, logAdminAction } from '../src/auth';
+import { buildCorsHeaders } from '../src/cors';
+import { Env } from '../src/types';
+
+function request(headers: Record<string, string> = {}) {
+    return new Request('https://sentinel.example.com/v1/mitigations', { headers });
+}
+
+describe('Management API Authentication', () => {
+    let mockEnv: Env;
+    let kvStore: Map<string, string>;
+
+    beforeEach(() => {
+        kvStore = new Map();
+        mockEnv = {
+            AI: {} as any,
+            SENTINEL_KV: {
+                get: vi.fn(async (key: string) => kvStore.get(key) ?? null),
+                put: vi.fn(async (key: string, value: string) => { kvStore.set(key, value); }),
+            } as any,
+            SENTINEL_WORKFLOW: {} as any,
+            DB: {} as any,
+            ENVIRONMENT: 'dev',
+            API_KEY: 'admin-secret',
+            API_KEYS: JSON.stringify([
+                { id: 'dashboard', key: 'analyst-secret', scope: 'analyst', rateLimit: 2 },
+                { id: 'broken', scope: 'admin' },
+            ]),
+        };
+    });
+
+    describe('Key Configuration', () => {
+        it('should combine API_KEY (admin) with scoped API_KEYS entries', () => {
+            const keys = parseApiKeys(mockEnv);
+            expect(keys.map(k => [k.id, k.scope])).toEqual([['default', 'admin'], ['dashboard', 'analyst']]);
+        });
+
+        it('should ignore an unparsable API_KEYS value', () => {
+            mockEnv.API_KEYS = 'not json';
+            expect(parseApiKeys(mockEnv)).toHaveLength(1);
+        });
+
+        it('should compare keys in constant time', async () => {
+            expect(await timingSafeEqual('admin-secret', 'admin-secret')).toBe(true);
+            expect(await timingSafeEqual('admin-secret', 'admin-secreT')).toBe(false);
+            expect(await timingSafeEqual('admin-secret', 'admin')).toBe(false);
+        });
+    });
+
+    describe('Authentication', () => {
+        it('should accept Bearer and X-API-Key credentials', async () => {
+            expect((await authenticate(request({ Authorization: 'Bearer admin-secret' }), mockEnv))?.keyId).toBe('default');
+            expect((await authenticate(request({ 'X-API-Key': 'analyst-secret' }), mockEnv))?.scope).toBe('analyst');
+        });
+
+        it('should reject missing and unknown keys with 401', async () => {
+            const missing = await authorize(request(), mockEnv, 'analyst', {});
+            expect(missing.ok).toBe(false);
+            if (!missing.ok) expect(missing.response.status).toBe(401);
+
+            const unknown = await authorize(request({ Authorization: 'Bearer guess' }), mockEnv, 'analyst', {});
+            if (!unknown.ok) expect(unknown.response.status).toBe(401);
+        });
+
+        it('should enforce scopes with 403', async () => {
+            const result = await authorize(request({ 'X-API-Key': 'analyst-secret' }), mockEnv, 'admin', {});
+            expect(result.ok).toBe(false);
+            if (!result.ok) expect(result.response.status).toBe(403);
+
+            expect((await authorize(request({ 'X-API-Key': 'admin-secret' }), mockEnv, 'analyst', {})).ok).toBe(true);
+        });
+
+        it('should rate limit each key with 429', async () => {
+            const analyst = request({ 'X-API-Key': 'analyst-secret' });
+            expect((await authorize(analyst, mockEnv, 'analyst', {})).ok).toBe(true);
+            expect((await authorize(analyst, mockEnv, 'analyst', {})).ok).toBe(true);
+
+            const limited = await authorize(analyst, mockEnv, 'analyst', {});
+            expect(limited.ok).toBe(false);
+            if (!limited.ok) {
+                expect(limited.response.status).toBe(429);
+                expect(limited.response.headers.get('Retry-After')).toBeTruthy();
+            }
+
+            // Other keys have their own window
+            expect((await authorize(request({ 'X-API-Key': 'admin-secret' }), mockEnv, 'analyst', {})).ok).toBe(true);
+        });
+    });
+
+    describe('Route Scopes and Audit', () => {
+        it('should require admin for writes and analyst for reads', () => {
+            expect(requiredScope('GET', '/v1/mitigations')).toBe('analyst');
+            expect(requiredScope('DELETE', '/v1/mitigations/1.2.3.4')).toBe('admin');
+            expect(requiredScope('POST', '/v1/mitigations')).toBe('admin');
+            expect(requiredScope('PATCH', '/v1/mitigations/1.2.3.4')).toBe('admin');
+            expect(requiredScope('POST', '/v1/analyze')).toBe('analyst');
+            expect(requiredScope('POST', '/v1/exceptions')).toBe('analyst');
+            expect(requiredScope('DELETE', '/v1/exceptions/abc')).toBe('admin');
+            expect(requiredScope('GET', '/v1/events')).toBe('analyst');
+            expect(requiredScope('POST', '/v1/events/evt-1/feedback')).toBe('analyst');
+            expect(requiredScope('POST', '/v1/events/evt-1')).toBe('admin');
+            expect(requiredScope('GET', '/v1/events/export')).toBe('admin');
+            expect(requiredScope('GET', '/v1/admin/migrations')).toBe('admin');
+        });
+
+        it('should audit admin routes and admin keys', () => {
+            expect(isAdminCall('admin', null)).toBe(true);
+            expect(isAdminCall('analyst', { keyId: 'default', scope: 'admin', rateLimit: 120 })).toBe(true);
+            expect(isAdminCall('analyst', { keyId: 'dashboard', scope: 'analyst', rateLimit: 2 })).toBe(false);
+        });
+
+        it('should audit analyst routes that create detection exceptions', () => {
+            expect(isAuditedRoute('POST', '/v1/exceptions')).toBe(true);
+            expect(isAuditedRoute('POST', '/v1/events/evt-1/feedback')).toBe(true);
+            expect(isAuditedRoute('GET', '/v1/exceptions')).toBe(false);
+            expect(isAuditedRoute('POST', '/v1/analyze')).toBe(false);
+        });
+
+        it('should write audit entries to D1', async () => {
+            const bind = vi.fn().mockReturnValue({ run: vi.fn().mockResolvedValue({}) });
+            mockEnv.DB = { prepare: vi.fn().mockReturnValue({ bind }) } as any;
+
+            await logAdminAction(mockEnv, { keyId: 'default', scope: 'admin', method: 'DELETE', path: '/v1/mitigations/x', status: 200, sourceIP: '203.0.113.7' });
+
+            expect((mockEnv.DB.prepare as any).mock.calls[0][0]).toContain('INSERT INTO admin_audit_log');
+            expect(bind.mock.calls[0].slice(2)).toEqual(['default', 'admin', 'DELETE', '/v1/mitigations/x', 200, '203.0.113.7']);
+        });
+    });
+
+    describe('CORS Allowlist', () => {
+        it('should echo allowed origins only', () => {
+            mockEnv.CORS_ALLOWED_ORIGINS = 'https://dashboard.example.com, http://localhost:5173/';
+
+            const allowed = buildCorsHeaders(request({ Origin: 'https://dashboard.example.com' }), mockEnv);
+            expect(allowed['Access-Control-Allow-Origin']).toBe('https://dashboard.example.com');
+            expect(allowed['Access-Control-Allow-Headers']).toContain('Authorization');
+
+            expect(buildCorsHeaders(request({ Origin: 'http://localhost:5173' }), mockEnv)['Access-Control-Allow-Origin']).toBe('http://localhost:5173');
+            expect(buildCorsHeaders(request({ Origin: 'https://evil.example' }), mockEnv)['Access-Control-Allow-Origin']).toBeUndefined();
+        });
+
+        it('should allow no cross-origin access when unset', () => {
+            expect(buildCorsHeaders(request({ Origin: 'https://dashboard.example.com' }), mockEnv)['Access-Control-Allow-Origin']).toBeUndefined();
+        });
+    });
+});
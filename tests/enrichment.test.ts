@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { enrichRequest, normalizeIP } from '../src/enrichment';
+import { toDetectionFinding } from '../src/ocsf';
+import { SecurityAssessment } from '../src/types';
+
+function request(headers: Record<string, string>, cf?: Record<string, unknown>): Request {
+    const req = new Request('https://sentinel.example/', { headers });
+    if (cf) Object.defineProperty(req, 'cf', { value: cf });
+    return req;
+}
+
+describe('Network Enrichment', () => {
+    describe('normalizeIP', () => {
+        it('should canonicalise IPv4 and IPv4-mapped IPv6', () => {
+            expect(normalizeIP('203.0.113.5')).toEqual({ ip: '203.0.113.5', version: 4 });
+            expect(normalizeIP(' ::ffff:203.0.113.5 ')).toEqual({ ip: '203.0.113.5', version: 4 });
+        });
+
+        it('should compress IPv6', () => {
+            expect(normalizeIP('2001:0DB8:0000:0000:0000:0000:0000:0001')).toEqual({ ip: '2001:db8::1', version: 6 });
+        });
+
+        it('should map missing or invalid values to "unknown"', () => {
+            expect(normalizeIP(null)).toEqual({ ip: 'unknown', version: null });
+            expect(normalizeIP('not-an-ip')).toEqual({ ip: 'unknown', version: null });
+        });
+    });
+
+    describe('enrichRequest', () => {
+        it('should read request.cf and the normalized client IP', () => {
+            const network = enrichRequest(request({ 'CF-Connecting-IP': '::ffff:198.51.100.7' }, {
+                asn: 64500,
+                asOrganization: 'Example Hosting',
+                country: 'NL',
+                city: 'Amsterdam',
+                region: 'North Holland',
+                colo: 'AMS',
+                tlsVersion: 'TLSv1.3',
+                httpProtocol: 'HTTP/2',
+            }));
+
+            expect(network).toEqual({
+                ip: '198.51.100.7',
+                ipVersion: 4,
+                asn: 64500,
+                asOrganization: 'Example Hosting',
+                country: 'NL',
+                city: 'Amsterdam',
+                region: 'North Holland',
+                colo: 'AMS',
+                tlsVersion: 'TLSv1.3',
+                httpProtocol: 'HTTP/2',
+            });
+        });
+
+        it('should fall back to CF-IPCountry and null fields without request.cf', () => {
+            const network = enrichRequest(request({ 'CF-IPCountry': 'DE' }));
+
+            expect(network.ip).toBe('unknown');
+            expect(network.country).toBe('DE');
+            expect(network.asn).toBeNull();
+            expect(network.colo).toBeNull();
+        });
+    });
+
+    describe('SOC alert observables', () => {
+        const assessment: SecurityAssessment = {
+            attackType: 'SQL Injection',
+            confidence: 'High',
+            explanation: 'Tautology',
+            impact: 'Data Exfiltration',
+            mitigation: 'Parameterized Queries',
+            riskScore: 95,
+            action: 'block',
+            executive_summary: 'SQL injection attempt.',
+            timestamp: '2024-01-01T00:00:00.000Z',
+        };
+
+        it('should add source endpoint and network observables', () => {
+            const finding = toDetectionFinding(assessment, {
+                uid: 'scan-1',
+                rawData: {},
+                network: enrichRequest(request({ 'CF-Connecting-IP': '203.0.113.5' }, { asn: 64500, country: 'NL', colo: 'AMS' })),
+            });
+
+            expect(finding.src_endpoint?.ip).toBe('203.0.113.5');
+            expect(finding.src_endpoint?.autonomous_system).toEqual({ number: 64500, name: undefined });
+            expect(finding.observables).toEqual(expect.arrayContaining([
+                { name: 'src_endpoint.ip', type: 'IP Address', value: '203.0.113.5' },
+                { name: 'src_endpoint.autonomous_system.number', type: 'Other', value: '64500' },
+                { name: 'src_endpoint.location.country', type: 'Other', value: 'NL' },
+                { name: 'cloudflare.colo', type: 'Other', value: 'AMS' },
+            ]));
+            expect(finding.observables.some((o) => o.name === 'tls.version')).toBe(false);
+        });
+
+        it('should leave the finding unchanged without network context', () => {
+            const finding = toDetectionFinding(assessment, { uid: 'scan-1', rawData: {} });
+            expect(finding.observables).toHaveLength(3);
+            expect('src_endpoint' in finding).toBe(false);
+        });
+    });
+});
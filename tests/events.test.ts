@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    parseEventQuery,
+    buildEventFilterClause,
+    handleEventsRequest,
+    encodeCursor,
+    decodeCursor,
+    toFtsQuery,
+    EventQueryError,
+    MAX_PAGE_SIZE,
+} from '../src/events';
+import { Env } from '../src/types';
+
+function row(id: string, timestamp: string, extra: Record<string, unknown> = {}) {
+    return {
+        id,
+        timestamp,
+        ip_address: '203.0.113.5',
+        country: 'Unknown',
+        request_path: '/login',
+        attack_type: 'SQL Injection',
+        risk_score: 95,
+        action: 'block',
+        payload_preview: "' OR 1=1 --",
+        matched_input: 'query.id',
+        agent: 'SQLiAgent',
+        cache_hit: 0,
+        request_method: 'GET',
+        rule_id: 'ips-blocked-1a2b3c4d',
+        asn: 64500,
+        as_organization: 'Example Hosting',
+        city: 'Amsterdam',
+        colo: 'AMS',
+        tls_version: 'TLSv1.3',
+        would_block: null,
+        ...extra,
+    };
+}
+
+describe('Security Event Queries (/v1/events)', () => {
+    let mockEnv: Env;
+    let all: ReturnType<typeof vi.fn>;
+    let first: ReturnType<typeof vi.fn>;
+    let bind: ReturnType<typeof vi.fn>;
+    let prepare: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        all = vi.fn().mockResolvedValue({ results: [] });
+        first = vi.fn().mockResolvedValue(null);
+        bind = vi.fn().mockReturnValue({ all, first });
+        prepare = vi.fn().mockReturnValue({ bind });
+        mockEnv = {
+            AI: {} as any,
+            SENTINEL_KV: {} as any,
+            DB: { prepare } as any,
+            API_KEY: 'test-key',
+        } as Env;
+    });
+
+    const get = (path: string) => handleEventsRequest(new URL(`https://sentinel.example.com${path}`), mockEnv, {});
+
+    describe('parseEventQuery', () => {
+        it('should apply defaults', () => {
+            const query = parseEventQuery(new URLSearchParams());
+            expect(query.limit).toBe(50);
+            expect(query.cursor).toBeUndefined();
+        });
+
+        it('should parse every filter', () => {
+            const query = parseEventQuery(new URLSearchParams(
+                'from=2024-01-01&to=2024-02-01T00:00:00Z&ip=1.2.3.4&attack_type=XSS&action=block&min_risk=50&max_risk=90&would_block=true&q=select&limit=10'
+            ));
+            expect(query).toMatchObject({
+                from: '2024-01-01T00:00:00.000Z',
+                to: '2024-02-01T00:00:00.000Z',
+                ip: '1.2.3.4',
+                attackType: 'XSS',
+                action: 'block',
+                minRisk: 50,
+                maxRisk: 90,
+                wouldBlock: true,
+                search: 'select',
+                limit: 10,
+            });
+        });
+
+        it.each([
+            'from=yesterday',
+            'action=deny',
+            'min_risk=abc',
+            'max_risk=101',
+            'would_block=yes',
+            'limit=0',
+            `limit=${MAX_PAGE_SIZE + 1}`,
+            'cursor=not-a-cursor',
+        ])('should reject %s', (params) => {
+            expect(() => parseEventQuery(new URLSearchParams(params))).toThrow(EventQueryError);
+        });
+    });
+
+    describe('buildEventFilterClause', () => {
+        it('should match everything without filters', () => {
+            expect(buildEventFilterClause({})).toEqual({ clause: '1 = 1', bindings: [] });
+        });
+
+        it('should bind filter values instead of interpolating them', () => {
+            const { clause, bindings } = buildEventFilterClause({ ip: "1.2.3.4' OR '1'='1", minRisk: 10 });
+            expect(clause).toBe('ip_address = ? AND risk_score >= ?');
+            expect(bindings).toEqual(["1.2.3.4' OR '1'='1", 10]);
+        });
+
+        it('should search payload_preview through the FTS index', () => {
+            const { clause, bindings } = buildEventFilterClause({ search: 'union select' });
+            expect(clause).toContain('security_events_fts MATCH ?');
+            expect(bindings).toEqual(['"union" "select"']);
+        });
+    });
+
+    it('should quote FTS terms so attack payloads are searched literally', () => {
+        expect(toFtsQuery(`' OR "1"="1" --`)).toBe(`"'" "OR" """1""=""1""" "--"`);
+    });
+
+    it('should round-trip cursors', () => {
+        const cursor = { timestamp: '2024-01-01T00:00:00Z', id: 'abc' };
+        const encoded = encodeCursor(cursor);
+        expect(encoded).not.toMatch(/[+/=]/);
+        expect(decodeCursor(encoded)).toEqual(cursor);
+    });
+
+    it('should list events newest first', async () => {
+        all.mockResolvedValue({ results: [row('b', '2024-01-02T00:00:00Z'), row('a', '2024-01-01T00:00:00Z')] });
+
+        const response = await get('/v1/events?action=block');
+        const body = await response.json() as any;
+
+        expect(response.status).toBe(200);
+        expect(prepare.mock.calls[0][0]).toContain('ORDER BY timestamp DESC, id DESC LIMIT ?');
+        expect(bind).toHaveBeenCalledWith('block', 51);
+        expect(body.nextCursor).toBeNull();
+        expect(body.events[0]).toEqual({
+            id: 'b',
+            timestamp: '2024-01-02T00:00:00Z',
+            ipAddress: '203.0.113.5',
+            country: 'Unknown',
+            requestPath: '/login',
+            attackType: 'SQL Injection',
+            riskScore: 95,
+            action: 'block',
+            payloadPreview: "' OR 1=1 --",
+            matchedInput: 'query.id',
+            agent: 'SQLiAgent',
+            cacheHit: false,
+            requestMethod: 'GET',
+            ruleId: 'ips-blocked-1a2b3c4d',
+            asn: 64500,
+            asOrganization: 'Example Hosting',
+            city: 'Amsterdam',
+            colo: 'AMS',
+            tlsVersion: 'TLSv1.3',
+            wouldBlock: null,
+        });
+    });
+
+    it('should paginate on (timestamp, id)', async () => {
+        all.mockResolvedValue({
+            results: [row('c', '2024-01-03T00:00:00Z'), row('b', '2024-01-02T00:00:00Z'), row('a', '2024-01-01T00:00:00Z')],
+        });
+
+        const body = await (await get('/v1/events?limit=2')).json() as any;
+        expect(body.events.map((e: any) => e.id)).toEqual(['c', 'b']);
+        expect(decodeCursor(body.nextCursor)).toEqual({ timestamp: '2024-01-02T00:00:00Z', id: 'b' });
+
+        await get(`/v1/events?limit=2&cursor=${body.nextCursor}`);
+        expect(prepare.mock.calls[1][0]).toContain('(timestamp < ? OR (timestamp = ? AND id < ?))');
+        expect(bind).toHaveBeenLastCalledWith('2024-01-02T00:00:00Z', '2024-01-02T00:00:00Z', 'b', 3);
+    });
+
+    it('should return 400 for invalid filters', async () => {
+        const response = await get('/v1/events?min_risk=high');
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as any).error).toBe('Bad Request');
+        expect(prepare).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when D1 fails', async () => {
+        all.mockRejectedValue(new Error('D1 unavailable'));
+        const response = await get('/v1/events');
+        expect(response.status).toBe(500);
+    });
+
+    it('should return a single event with parsed metadata', async () => {
+        const metadata = { confidence: 'High', full_assessment: { attackType: 'SQL Injection', riskScore: 95 } };
+        first.mockResolvedValue({ ...row('evt-1', '2024-01-01T00:00:00Z'), metadata: JSON.stringify(metadata) });
+
+        const response = await get('/v1/events/evt-1');
+        const body = await response.json() as any;
+
+        expect(response.status).toBe(200);
+        expect(bind).toHaveBeenCalledWith('evt-1');
+        expect(body.event.id).toBe('evt-1');
+        expect(body.event.metadata).toEqual(metadata);
+    });
+
+    it('should return 404 for an unknown event', async () => {
+        const response = await get('/v1/events/missing');
+        expect(response.status).toBe(404);
+    });
+
+    it('should return 400 for a malformed event id', async () => {
+        const response = await get('/v1/events/%E0');
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as any).error).toBe('Bad Request');
+    });
+});
@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    findExceptions,
+    inputExceptions,
+    handleExceptionsRequest,
+    clearExceptionCache,
+    ExceptionRule,
+    DEFAULT_EXCEPTION_TTL_SECONDS,
+} from '../src/exceptions';
+import { SQLiAgent } from '../src/agents/SQLiAgent';
+import { AgentOrchestrator } from '../src/agents/AgentOrchestrator';
+import { SecurityMemory } from '../src/memory';
+import { AuthPrincipal, Env, NetworkContext, RequestContext, RequestInput } from '../src/types';
+
+const NOW = Date.parse('2024-03-01T00:00:00.000Z');
+
+function fakeKV(store: Map<string, string>) {
+    return {
+        get: vi.fn(async (key: string) => (store.has(key) ? JSON.parse(store.get(key)!) : null)),
+        put: vi.fn(async (key: string, value: string) => { store.set(key, value); }),
+        delete: vi.fn(async (key: string) => { store.delete(key); }),
+        list: vi.fn(async ({ prefix }: { prefix: string }) => ({
+            keys: [...store.keys()].filter((name) => name.startsWith(prefix)).map((name) => ({ name })),
+            list_complete: true,
+        })),
+    };
+}
+
+function rule(id: string, overrides: Partial<ExceptionRule> = {}): ExceptionRule {
+    return {
+        id,
+        match: { path: '/cms/save' },
+        suppress: { flags: ['Multiple SQL Keywords'] },
+        reason: 'CMS help texts',
+        createdBy: 'analyst-1',
+        createdAt: '2024-02-01T00:00:00.000Z',
+        expiresAt: '2024-04-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+function network(ip: string): NetworkContext {
+    return { ip, ipVersion: 4 } as NetworkContext;
+}
+
+describe('Detection Exceptions', () => {
+    let mockEnv: Env;
+    let store: Map<string, string>;
+    let kv: ReturnType<typeof fakeKV>;
+    const analyst: AuthPrincipal = { keyId: 'analyst-1', scope: 'analyst', rateLimit: 100 };
+
+    beforeEach(() => {
+        clearExceptionCache();
+        store = new Map();
+        kv = fakeKV(store);
+        mockEnv = {
+            AI: { run: vi.fn() } as any,
+            SENTINEL_KV: kv as any,
+            DB: {} as any,
+            API_KEY: 'test-key',
+        } as Env;
+    });
+
+    const put = (...rules: ExceptionRule[]) => rules.forEach((r) => store.set(`exception:${r.id}`, JSON.stringify(r)));
+
+    describe('findExceptions', () => {
+        const find = (path: string, init: RequestInit = {}, ip = '203.0.113.5') =>
+            findExceptions(mockEnv, new Request(`https://app.example.com${path}`, init), new URL(`https://app.example.com${path}`), network(ip), NOW);
+
+        it('should match on path, methods, ip and header', async () => {
+            put(
+                rule('by-path'),
+                rule('by-method', { match: { path: '/cms/*', methods: ['POST'] } }),
+                rule('by-ip', { match: { ip: '203.0.113.0/24' } }),
+                rule('by-header', { match: { header: { name: 'x-cms-client', value: 'editor' } } }),
+            );
+
+            const ids = (await find('/cms/save', { method: 'POST', headers: { 'X-CMS-Client': 'editor' } })).map((r) => r.id);
+            expect(ids.sort()).toEqual(['by-header', 'by-ip', 'by-method', 'by-path']);
+
+            clearExceptionCache();
+            expect((await find('/search', {}, '198.51.100.7')).map((r) => r.id)).toEqual([]);
+        });
+
+        it('should skip expired rules', async () => {
+            put(rule('expired', { expiresAt: '2024-02-29T00:00:00.000Z' }));
+            expect(await find('/cms/save')).toEqual([]);
+        });
+
+        it('should cache rules in the isolate', async () => {
+            put(rule('a'));
+            await find('/cms/save');
+            await find('/cms/save');
+            expect(kv.list).toHaveBeenCalledTimes(1);
+        });
+
+        it('should keep the last known rules when KV fails', async () => {
+            kv.list.mockRejectedValueOnce(new Error('KV unavailable'));
+            expect(await find('/cms/save')).toEqual([]);
+        });
+    });
+
+    describe('inputExceptions', () => {
+        const content: RequestInput = { location: 'body', name: 'content', value: 'x' };
+
+        it('should match on agent, input name and payload hash', () => {
+            const rules = [
+                rule('any'),
+                rule('sqli-only', { suppress: { agents: ['SQLiAgent'] } }),
+                rule('content', { match: { input: 'body.*' } }),
+                rule('query', { match: { input: 'query.q' } }),
+                rule('hash', { match: { payloadHash: 'ab'.repeat(32) } }),
+            ];
+
+            expect(inputExceptions(rules, 'SQLiAgent', content, 'ab'.repeat(32)).map((r) => r.id))
+                .toEqual(['any', 'sqli-only', 'content', 'hash']);
+            expect(inputExceptions(rules, 'XSSAgent', content).map((r) => r.id)).toEqual(['any', 'content']);
+        });
+    });
+
+    describe('Agent suppression', () => {
+        const content = (value: string): RequestInput[] => [{ location: 'body', name: 'content', value }];
+
+        it('should drop suppressed flags and recompute the score', () => {
+            const agent = new SQLiAgent(mockEnv);
+            const triage = agent.triageInputs(content("x' = 'x' from the table"), [rule('cms')]);
+
+            expect(triage.score).toBe(60);
+            expect(triage.flags).toEqual(['Tautology']);
+            expect(triage.exceptions).toEqual([
+                { rule: 'cms', agent: 'SQLiAgent', input: { location: 'body', name: 'content' }, flags: ['Multiple SQL Keywords'] },
+            ]);
+        });
+
+        it('should suppress every flag of an agent when no flags are listed', () => {
+            const agent = new SQLiAgent(mockEnv);
+            const triage = agent.triageInputs(content('1 OR 1=1 select from'), [rule('all', { suppress: { agents: ['SQLiAgent'] } })]);
+
+            expect(triage.score).toBe(0);
+            expect(triage.flags).toEqual([]);
+            expect(triage.exceptions?.[0].flags).toEqual(['Tautology', 'Logic Replacement', 'Multiple SQL Keywords']);
+        });
+
+        it('should leave other inputs untouched', () => {
+            const agent = new SQLiAgent(mockEnv);
+            const triage = agent.triageInputs(
+                [...content('Select a valid option from the table'), { location: 'query', name: 'id', value: "1' OR '1'='1" }],
+                [rule('cms', { match: { input: 'body.content' } })]
+            );
+
+            expect(triage.input).toEqual({ location: 'query', name: 'id' });
+            expect(triage.score).toBeGreaterThan(50);
+            expect(triage.exceptions?.map((match) => match.input)).toEqual([{ location: 'body', name: 'content' }]);
+        });
+
+        it('should record matches on the merged assessment and skip AI verification', async () => {
+            const agent = new SQLiAgent(mockEnv);
+            const orchestrator = new AgentOrchestrator().register(agent);
+            const payload = '1 OR 1=1 select from';
+            const request: RequestContext = {
+                method: 'POST',
+                path: '/cms/save',
+                query: {},
+                body: { type: 'form', fields: { content: [payload] } },
+                cookies: {},
+                headers: {},
+            };
+            const hashRule = rule('hash', { match: { payloadHash: await SecurityMemory.hash(payload) }, suppress: { agents: ['SQLiAgent'] } });
+
+            const merged = await orchestrator.analyze(request, undefined, undefined, [hashRule]);
+
+            expect(mockEnv.AI.run).not.toHaveBeenCalled();
+            expect(merged.action).toBe('allow');
+            expect(merged.exceptions).toEqual([
+                expect.objectContaining({ rule: 'hash', agent: 'SQLiAgent', input: { location: 'body', name: 'content' } }),
+            ]);
+        });
+    });
+
+    describe('Management API (/v1/exceptions)', () => {
+        const call = (method: string, path: string, body?: unknown) => handleExceptionsRequest(
+            new Request(`https://sentinel.example.com${path}`, { method, body: body === undefined ? undefined : JSON.stringify(body) }),
+            mockEnv,
+            new URL(`https://sentinel.example.com${path}`),
+            analyst,
+            {}
+        );
+
+        it('should create a rule with its author, reason and expiry', async () => {
+            const response = await call('POST', '/v1/exceptions', {
+                match: { path: '/cms/save', methods: ['post'], ip: '203.0.113.7/24' },
+                suppress: { flags: ['Multiple SQL Keywords'] },
+                reason: 'CMS help texts',
+            });
+            const { exception } = await response.json() as any;
+
+            expect(response.status).toBe(201);
+            expect(exception).toMatchObject({
+                match: { path: '/cms/save', methods: ['POST'], ip: '203.0.113.0/24' },
+                createdBy: 'analyst-1',
+                reason: 'CMS help texts',
+            });
+            expect(Date.parse(exception.expiresAt) - Date.parse(exception.createdAt)).toBe(DEFAULT_EXCEPTION_TTL_SECONDS * 1000);
+            expect(kv.put).toHaveBeenCalledWith(`exception:${exception.id}`, expect.any(String), { expirationTtl: DEFAULT_EXCEPTION_TTL_SECONDS });
+        });
+
+        it.each([
+            [{ suppress: { flags: ['x'] }, reason: 'r' }, 'match must be an object'],
+            [{ match: {}, suppress: { flags: ['x'] }, reason: 'r' }, 'match needs at least one of path, methods, ip, header, input, payloadHash'],
+            [{ match: { route: '/a' }, suppress: { flags: ['x'] }, reason: 'r' }, 'match has unknown field "route"'],
+            [{ match: { ip: 'nope' }, suppress: { flags: ['x'] }, reason: 'r' }, 'match.ip must be an IP address or CIDR range'],
+            [{ match: { payloadHash: 'abc' }, suppress: { flags: ['x'] }, reason: 'r' }, 'match.payloadHash must be a hex SHA-256 digest'],
+            [{ match: { path: '/a' }, suppress: {}, reason: 'r' }, 'suppress needs agents, flags or both'],
+            [{ match: { path: '/a' }, suppress: { flags: ['x'] } }, 'reason is required (a string of at most 500 characters)'],
+            [{ match: { path: '/a' }, suppress: { flags: ['x'] }, reason: 'r', ttlSeconds: 10 }, 'ttlSeconds must be an integer between 60 and 31536000'],
+        ])('should reject %j', async (body, message) => {
+            const response = await call('POST', '/v1/exceptions', body);
+            expect(response.status).toBe(400);
+            expect(await response.json()).toEqual({ error: 'Bad Request', message });
+            expect(kv.put).not.toHaveBeenCalled();
+        });
+
+        it('should require an admin key for rules not pinned to specific traffic', async () => {
+            const body = { match: { path: '/*' }, suppress: { agents: ['SQLiAgent', 'XSSAgent'] }, reason: 'Too noisy' };
+            const allFlags = { flags: ['Tautology', 'Logic Replacement', 'Multiple SQL Keywords'] };
+
+            const response = await call('POST', '/v1/exceptions', body);
+            expect(response.status).toBe(403);
+            expect(((await response.json()) as any).error).toBe('Forbidden');
+            for (const match of [{ methods: ['GET'], input: '*' }, { input: '*.*' }, { input: 'body.*' }, { path: '/*.php' }]) {
+                expect((await call('POST', '/v1/exceptions', { ...body, match })).status).toBe(403);
+            }
+            // Listing every flag of an agent switches it off just the same
+            expect((await call('POST', '/v1/exceptions', { ...body, match: { methods: ['POST'] }, suppress: allFlags })).status).toBe(403);
+            expect(kv.put).not.toHaveBeenCalled();
+
+            // Pinned to a route, an input field or a source: fine for analysts
+            for (const match of [{ path: '/cms/*' }, { path: '/' }, { input: 'body.content' }, { input: 'query.q*' }, { ip: '203.0.113.5' }]) {
+                expect((await call('POST', '/v1/exceptions', { ...body, match, suppress: allFlags })).status).toBe(201);
+            }
+
+            const admin: AuthPrincipal = { keyId: 'default', scope: 'admin', rateLimit: 120 };
+            const asAdmin = await handleExceptionsRequest(
+                new Request('https://sentinel.example.com/v1/exceptions', { method: 'POST', body: JSON.stringify(body) }),
+                mockEnv,
+                new URL('https://sentinel.example.com/v1/exceptions'),
+                admin,
+                {}
+            );
+            expect(asAdmin.status).toBe(201);
+        });
+
+        it('should list and delete rules', async () => {
+            put(rule('a'), rule('b'));
+
+            const list = await (await call('GET', '/v1/exceptions')).json() as any;
+            expect(list.exceptions.map((r: ExceptionRule) => r.id)).toEqual(['a', 'b']);
+
+            const response = await call('DELETE', '/v1/exceptions/a');
+            expect(response.status).toBe(200);
+            expect(((await response.json()) as any).deleted.id).toBe('a');
+            expect(store.has('exception:a')).toBe(false);
+
+            expect((await call('DELETE', '/v1/exceptions/a')).status).toBe(404);
+            expect((await call('DELETE', '/v1/exceptions/%E0')).status).toBe(400);
+        });
+    });
+});
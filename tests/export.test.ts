@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleEventExportRequest, csvField, toOcsfFinding, EXPORT_PAGE_SIZE } from '../src/export';
+import { alertSeverity, ocsfSeverityId, toDetectionFinding } from '../src/ocsf';
+import { Env, SecurityAssessment } from '../src/types';
+
+const assessment: SecurityAssessment = {
+    attackType: 'SQL Injection',
+    confidence: 'High',
+    explanation: 'Tautology',
+    impact: 'Data Exfiltration',
+    mitigation: 'Parameterized Queries',
+    riskScore: 95,
+    action: 'block',
+    executive_summary: 'SQL injection attempt.',
+    timestamp: '2024-01-01T00:00:00.000Z',
+};
+
+function row(n: number, extra: Record<string, unknown> = {}) {
+    return {
+        id: `evt-${String(n).padStart(4, '0')}`,
+        timestamp: new Date(Date.UTC(2024, 0, 1) + n * 1000).toISOString(),
+        ip_address: '203.0.113.5',
+        country: 'Unknown',
+        request_path: '/login',
+        attack_type: 'SQL Injection',
+        risk_score: 95,
+        action: 'block',
+        payload_preview: 'GET /login?id=1',
+        matched_input: 'query.id',
+        agent: 'SQLiAgent',
+        cache_hit: 1,
+        request_method: 'GET',
+        rule_id: null,
+        asn: 64500,
+        as_organization: 'Example Hosting',
+        city: null,
+        colo: 'AMS',
+        tls_version: 'TLSv1.3',
+        would_block: null,
+        metadata: JSON.stringify({ confidence: 'High', full_assessment: assessment }),
+        ...extra,
+    };
+}
+
+describe('Forensic Ledger Export (/v1/events/export)', () => {
+    let mockEnv: Env;
+    let all: ReturnType<typeof vi.fn>;
+    let bind: ReturnType<typeof vi.fn>;
+    let prepare: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        all = vi.fn().mockResolvedValue({ results: [] });
+        bind = vi.fn().mockReturnValue({ all });
+        prepare = vi.fn().mockReturnValue({ bind });
+        mockEnv = {
+            AI: {} as any,
+            SENTINEL_KV: {} as any,
+            DB: { prepare } as any,
+            API_KEY: 'test-key',
+        } as Env;
+    });
+
+    const range = 'from=2024-01-01T00:00:00Z&to=2024-02-01T00:00:00Z';
+    const get = (query: string) =>
+        handleEventExportRequest(new URL(`https://sentinel.example.com/v1/events/export?${query}`), mockEnv, {});
+
+    it('should require a date range', async () => {
+        const response = await get('format=csv&from=2024-01-01');
+        expect(response.status).toBe(400);
+        expect(prepare).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown formats', async () => {
+        const response = await get(`format=xml&${range}`);
+        expect(response.status).toBe(400);
+    });
+
+    it('should stream CSV with a header row', async () => {
+        all.mockResolvedValueOnce({ results: [row(1, { payload_preview: 'a,"b"' })] });
+
+        const response = await get(`format=csv&${range}`);
+        expect(response.headers.get('Content-Type')).toContain('text/csv');
+        expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="sentinel-events-2024-01-01-2024-02-01.csv"');
+
+        const lines = (await response.text()).split('\r\n');
+        expect(lines[0]).toBe('id,timestamp,ip_address,country,asn,as_organization,city,colo,tls_version,request_method,request_path,attack_type,risk_score,action,payload_preview,matched_input,agent,cache_hit,rule_id,would_block');
+        expect(lines[1]).toBe('evt-0001,2024-01-01T00:00:01.000Z,203.0.113.5,Unknown,64500,Example Hosting,,AMS,TLSv1.3,GET,/login,SQL Injection,95,block,"a,""b""",query.id,SQLiAgent,1,,');
+        expect(prepare.mock.calls[0][0]).not.toContain('metadata');
+    });
+
+    it('should page through D1 with a (timestamp, id) cursor', async () => {
+        const firstPage = Array.from({ length: EXPORT_PAGE_SIZE }, (_, i) => row(EXPORT_PAGE_SIZE + 1 - i));
+        all.mockResolvedValueOnce({ results: firstPage })
+            .mockResolvedValueOnce({ results: [row(1)] });
+
+        const lines = (await (await get(`format=ndjson&${range}`)).text()).trim().split('\n');
+
+        expect(lines).toHaveLength(EXPORT_PAGE_SIZE + 1);
+        expect(prepare).toHaveBeenCalledTimes(2);
+        const last = firstPage[firstPage.length - 1];
+        expect(bind).toHaveBeenLastCalledWith(
+            '2024-01-01T00:00:00.000Z', '2024-02-01T00:00:00.000Z',
+            last.timestamp, last.timestamp, last.id, EXPORT_PAGE_SIZE
+        );
+        expect(JSON.parse(lines[0]).metadata.full_assessment.attackType).toBe('SQL Injection');
+    });
+
+    it('should stream OCSF Detection Findings', async () => {
+        all.mockResolvedValueOnce({ results: [row(1)] });
+
+        const [line] = (await (await get(`format=ocsf&${range}&action=block`)).text()).trim().split('\n');
+        const finding = JSON.parse(line);
+
+        expect(finding.class_uid).toBe(2004);
+        expect(finding.finding_info.uid).toBe('evt-0001');
+        expect(finding.time).toBe(Date.parse('2024-01-01T00:00:01.000Z'));
+        expect(JSON.parse(finding.raw_data).sourceIP).toBe('203.0.113.5');
+        expect(finding.src_endpoint).toEqual({
+            ip: '203.0.113.5',
+            location: {},
+            autonomous_system: { number: 64500, name: 'Example Hosting' },
+        });
+        expect(finding.observables).toContainEqual({ name: 'cloudflare.colo', type: 'Other', value: 'AMS' });
+    });
+
+    it('should abort the stream when D1 fails mid-export', async () => {
+        all.mockRejectedValue(new Error('D1 unavailable'));
+        const response = await get(`format=ndjson&${range}`);
+        await expect(response.text()).rejects.toThrow();
+    });
+
+    it('should rebuild an assessment for events without a stored one', () => {
+        const finding = toOcsfFinding({
+            id: 'evt-1',
+            timestamp: '2024-01-01T00:00:00.000Z',
+            ipAddress: '203.0.113.5',
+            country: 'Unknown',
+            requestPath: '/',
+            attackType: 'XSS',
+            riskScore: 72,
+            action: 'flag',
+            payloadPreview: '<script>',
+            matchedInput: null,
+            agent: null,
+            cacheHit: null,
+            requestMethod: null,
+            ruleId: null,
+            asn: null,
+            asOrganization: null,
+            city: null,
+            colo: null,
+            tlsVersion: null,
+            metadata: { confidence: 'Medium', mitigation: 'Encode output' },
+        });
+        expect(finding.severity_id).toBe(3);
+        expect(finding.finding_info.title).toBe('XSS Detected');
+        expect(finding.remediation.desc).toBe('Encode output');
+    });
+
+    it('should neutralise spreadsheet formulas in CSV fields', () => {
+        expect(csvField('=HYPERLINK("http://evil")')).toBe(`"'=HYPERLINK(""http://evil"")"`);
+        expect(csvField('-1')).toBe("'-1");
+        expect(csvField(95)).toBe('95');
+        expect(csvField(null)).toBe('');
+    });
+});
+
+describe('OCSF Detection Finding Mapping', () => {
+    it('should map risk scores to severities', () => {
+        expect([95, 90, 70, 50].map(ocsfSeverityId)).toEqual([5, 4, 3, 2]);
+        expect([95, 75, 50].map(alertSeverity)).toEqual(['critical', 'high', 'medium']);
+    });
+
+    it('should build a Detection Finding', () => {
+        const finding = toDetectionFinding(assessment, { uid: 'scan-abc', rawData: { cacheKey: 'abc' }, time: 1000 });
+        expect(finding).toMatchObject({
+            class_uid: 2004,
+            category_uid: 2,
+            severity_id: 5,
+            severity: 'critical',
+            time: 1000,
+            finding_info: { uid: 'scan-abc', title: 'SQL Injection Detected', modified_time: 1000 },
+            remediation: { desc: 'Parameterized Queries' },
+        });
+        expect(JSON.parse(finding.raw_data)).toMatchObject({ cacheKey: 'abc', originalTimestamp: assessment.timestamp });
+    });
+});
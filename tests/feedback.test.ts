@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleFeedbackRequest, feedbackOutcome, parseFeedbackQuery } from '../src/feedback';
+import { clearExceptionCache } from '../src/exceptions';
+import { encodeCursor, EventQueryError } from '../src/events';
+import { AuthPrincipal, Env } from '../src/types';
+
+const assessment = { attackType: 'SQL Injection', riskScore: 92, action: 'block', agentResults: [{ agent: 'SQLiAgent', flags: ['Multiple SQL Keywords'] }] };
+
+function eventRow(extra: Record<string, unknown> = {}) {
+    return {
+        id: 'evt-1',
+        timestamp: '2024-03-01T00:00:00.000Z',
+        ip_address: '203.0.113.5',
+        country: 'NL',
+        request_path: '/cms/save',
+        attack_type: 'SQL Injection',
+        risk_score: 92,
+        action: 'block',
+        payload_preview: 'content=Select a valid option from the table',
+        matched_input: 'body.content',
+        agent: 'SQLiAgent',
+        cache_hit: 0,
+        request_method: 'POST',
+        rule_id: 'ips-blocked-1a2b3c4d',
+        asn: null,
+        as_organization: null,
+        city: null,
+        colo: null,
+        tls_version: null,
+        would_block: null,
+        metadata: JSON.stringify({ confidence: 'High', full_assessment: assessment }),
+        ...extra,
+    };
+}
+
+describe('Verdict Feedback', () => {
+    let mockEnv: Env;
+    let statements: { sql: string; args: unknown[] }[];
+    let event: Record<string, unknown> | null;
+    let cacheKey: string | null;
+    let feedbackRows: unknown[];
+    let failInsert: boolean;
+    let kv: { get: ReturnType<typeof vi.fn>; put: ReturnType<typeof vi.fn>; delete: ReturnType<typeof vi.fn>; list: ReturnType<typeof vi.fn> };
+    const analyst: AuthPrincipal = { keyId: 'analyst-1', scope: 'analyst', rateLimit: 100 };
+
+    beforeEach(() => {
+        clearExceptionCache();
+        statements = [];
+        event = eventRow();
+        cacheKey = 'abc123';
+        feedbackRows = [];
+        failInsert = false;
+        kv = {
+            get: vi.fn(async () => null),
+            put: vi.fn(async () => {}),
+            delete: vi.fn(async () => {}),
+            list: vi.fn(async () => ({ keys: [], list_complete: true })),
+        };
+        const prepare = vi.fn((sql: string) => {
+            const statement = {
+                bind: (...args: unknown[]) => { statements.push({ sql, args }); return statement; },
+                first: vi.fn(async () => sql.includes('SELECT cache_key') ? (event ? { cache_key: cacheKey } : null) : event),
+                all: vi.fn(async () => ({ results: feedbackRows })),
+                run: vi.fn(async () => {
+                    if (failInsert && sql.includes('INSERT INTO verdict_feedback')) throw new Error('D1 unavailable');
+                    return { success: true };
+                }),
+            };
+            return statement;
+        });
+        mockEnv = {
+            AI: {} as any,
+            SENTINEL_KV: kv as any,
+            DB: { prepare } as any,
+            API_KEY: 'test-key',
+        } as Env;
+    });
+
+    const post = (id: string, body: unknown) => handleFeedbackRequest(
+        new Request(`https://sentinel.example.com/v1/events/${id}/feedback`, { method: 'POST', body: JSON.stringify(body) }),
+        mockEnv,
+        new URL(`https://sentinel.example.com/v1/events/${id}/feedback`),
+        analyst,
+        {}
+    );
+    const list = (query = '') => handleFeedbackRequest(
+        new Request(`https://sentinel.example.com/v1/feedback${query}`),
+        mockEnv,
+        new URL(`https://sentinel.example.com/v1/feedback${query}`),
+        analyst,
+        {}
+    );
+    const inserts = () => statements.filter(({ sql }) => sql.includes('INSERT INTO verdict_feedback'));
+
+    it('should classify the verdict against the label', () => {
+        expect(feedbackOutcome('benign', 'block')).toBe('false_positive');
+        expect(feedbackOutcome('benign', 'flag')).toBe('false_positive');
+        expect(feedbackOutcome('malicious', 'allow')).toBe('false_negative');
+        expect(feedbackOutcome('malicious', null)).toBe('false_negative');
+        expect(feedbackOutcome('malicious', 'block')).toBe('confirmed');
+        expect(feedbackOutcome('benign', 'allow')).toBe('confirmed');
+    });
+
+    it('should record a labeled correction with an event snapshot and invalidate the cached verdict', async () => {
+        const response = await post('evt-1', { label: 'benign', notes: 'CMS help text' });
+        const body = await response.json() as any;
+
+        expect(response.status).toBe(201);
+        expect(body.feedback).toMatchObject({
+            eventId: 'evt-1',
+            createdBy: 'analyst-1',
+            label: 'benign',
+            outcome: 'false_positive',
+            notes: 'CMS help text',
+            exceptionId: null,
+            event: { requestPath: '/cms/save', matchedInput: 'body.content', action: 'block', riskScore: 92 },
+            assessment,
+        });
+        expect(body.cacheInvalidated).toBe(true);
+        expect(kv.delete).toHaveBeenCalledWith('assessment:abc123');
+
+        const [insert] = inserts();
+        expect(insert.args.slice(3, 9)).toEqual(['evt-1', 'benign', 'false_positive', null, 'CMS help text', null]);
+        expect(JSON.parse(insert.args[18] as string)).toEqual(assessment);
+    });
+
+    it('should not touch the cache for events without a cache key', async () => {
+        cacheKey = null;
+        const body = await (await post('evt-1', { label: 'malicious' })).json() as any;
+
+        expect(body.feedback.outcome).toBe('confirmed');
+        expect(body.cacheInvalidated).toBe(false);
+        expect(kv.delete).not.toHaveBeenCalled();
+    });
+
+    it('should create an exception for the event\'s route and input by default', async () => {
+        const response = await post('evt-1', {
+            label: 'benign',
+            notes: 'CMS help text',
+            exception: { suppress: { flags: ['Multiple SQL Keywords'] } },
+        });
+        const body = await response.json() as any;
+
+        expect(response.status).toBe(201);
+        expect(body.exception).toMatchObject({
+            match: { path: '/cms/save', input: 'body.content' },
+            suppress: { flags: ['Multiple SQL Keywords'] },
+            reason: 'CMS help text',
+            createdBy: 'analyst-1',
+        });
+        expect(body.feedback.exceptionId).toBe(body.exception.id);
+        expect(kv.put).toHaveBeenCalledWith(`exception:${body.exception.id}`, expect.any(String), expect.anything());
+    });
+
+    it('should remove the exception again when the feedback row cannot be written', async () => {
+        failInsert = true;
+        kv.get.mockImplementation(async (key: string) => key.startsWith('exception:') ? JSON.parse(kv.put.mock.calls[0][1]) : null);
+
+        const response = await post('evt-1', { label: 'benign', exception: { suppress: { flags: ['Multiple SQL Keywords'] } } });
+
+        expect(response.status).toBe(500);
+        const [key] = kv.put.mock.calls[0];
+        expect(kv.delete).toHaveBeenCalledWith(key);
+    });
+
+    it.each([
+        [{ label: 'wrong' }, 'label must be one of benign, malicious'],
+        [{ label: 'benign', attackType: 'XSS' }, 'attackType is only allowed with label malicious'],
+        [{ label: 'malicious', exception: { suppress: { flags: ['x'] } } }, 'exception is only allowed with label benign'],
+        [{ label: 'benign', notes: '' }, 'notes must be a non-empty string of at most 1000 characters'],
+        [{ label: 'benign', exception: { suppress: {} } }, 'suppress needs agents, flags or both'],
+    ])('should reject %j', async (body, message) => {
+        const response = await post('evt-1', body);
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({ error: 'Bad Request', message });
+        expect(inserts()).toHaveLength(0);
+    });
+
+    it('should return 404 for an unknown event', async () => {
+        event = null;
+        const response = await post('missing', { label: 'benign' });
+        expect(response.status).toBe(404);
+        expect(inserts()).toHaveLength(0);
+    });
+
+    it('should return 400 for a malformed event id', async () => {
+        const response = await post('%E0', { label: 'benign' });
+        expect(response.status).toBe(400);
+        expect(inserts()).toHaveLength(0);
+    });
+
+    describe('Labeled dataset (GET /v1/feedback)', () => {
+        it('should parse filters', () => {
+            expect(parseFeedbackQuery(new URLSearchParams('label=benign&outcome=false_positive&from=2024-03-01&limit=10'))).toEqual({
+                label: 'benign',
+                outcome: 'false_positive',
+                from: '2024-03-01T00:00:00.000Z',
+                limit: 10,
+            });
+            expect(() => parseFeedbackQuery(new URLSearchParams('outcome=wrong'))).toThrow(EventQueryError);
+            expect(() => parseFeedbackQuery(new URLSearchParams('limit=0'))).toThrow(EventQueryError);
+        });
+
+        it('should page through feedback newest first', async () => {
+            const row = (id: string, createdAt: string) => ({
+                id, created_at: createdAt, key_id: 'analyst-1', event_id: 'evt-1', label: 'benign', outcome: 'false_positive',
+                expected_attack_type: null, notes: null, exception_id: null, event_timestamp: '2024-03-01T00:00:00.000Z',
+                request_method: 'POST', request_path: '/cms/save', matched_input: 'body.content', payload_preview: 'x',
+                attack_type: 'SQL Injection', risk_score: 92, action: 'block', agent: 'SQLiAgent', assessment: JSON.stringify(assessment),
+            });
+            feedbackRows = [row('b', '2024-03-02T00:00:00.000Z'), row('a', '2024-03-01T00:00:00.000Z')];
+
+            const body = await (await list('?outcome=false_positive&limit=1')).json() as any;
+
+            expect(body.feedback).toHaveLength(1);
+            expect(body.feedback[0]).toMatchObject({ id: 'b', outcome: 'false_positive', event: { agent: 'SQLiAgent' }, assessment });
+            expect(body.nextCursor).toBe(encodeCursor({ timestamp: '2024-03-02T00:00:00.000Z', id: 'b' }));
+            expect(statements[0].sql).toContain('outcome = ?');
+            expect(statements[0].args).toEqual(['false_positive', 2]);
+        });
+
+        it('should return 400 for invalid filters', async () => {
+            expect((await list('?label=unknown')).status).toBe(400);
+        });
+    });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MIGRATIONS, runMigrations, getMigrationStatus, handleMigrationsRequest } from '../src/migrations';
+import { Env, Migration } from '../src/types';
+
+/**
+ * Minimal D1 stand-in: tracks schema_migrations rows and table columns, and
+ * records the SQL of every batch.
+ */
+function fakeD1(tables: Record<string, string[]> = {}) {
+    const applied: { version: number; name: string; applied_at: string }[] = [];
+    const batches: string[][] = [];
+
+    const statement = (sql: string, args: unknown[] = []) => ({
+        sql,
+        args,
+        bind: (...values: unknown[]) => statement(sql, values),
+        run: vi.fn(async () => ({ success: true })),
+        all: vi.fn(async () => {
+            const pragma = sql.match(/^PRAGMA table_info\((\w+)\)/);
+            if (pragma) return { results: (tables[pragma[1]] ?? []).map((name) => ({ name })) };
+            return { results: [...applied].sort((a, b) => a.version - b.version) };
+        }),
+        first: vi.fn(async () => applied.find((row) => row.version === args[0]) ?? null),
+    });
+
+    const db = {
+        prepare: vi.fn((sql: string) => statement(sql)),
+        batch: vi.fn(async (statements: ReturnType<typeof statement>[]) => {
+            batches.push(statements.map((s) => s.sql));
+            for (const s of statements) {
+                const alter = s.sql.match(/^ALTER TABLE (\w+) ADD COLUMN (\w+)/);
+                if (alter) tables[alter[1]].push(alter[2]);
+                if (s.sql.startsWith('INSERT INTO schema_migrations')) {
+                    applied.push({ version: s.args[0] as number, name: s.args[1] as string, applied_at: s.args[2] as string });
+                }
+            }
+            return [];
+        }),
+    };
+    return { db, applied, batches, tables };
+}
+
+describe('D1 Schema Migrations', () => {
+    let d1: ReturnType<typeof fakeD1>;
+    let mockEnv: Env;
+
+    beforeEach(() => {
+        d1 = fakeD1();
+        mockEnv = {
+            AI: {} as any,
+            SENTINEL_KV: {} as any,
+            DB: d1.db as any,
+            API_KEY: 'test-key',
+        } as Env;
+    });
+
+    it('should declare unique, ascending versions', () => {
+        const versions = MIGRATIONS.map((m) => m.version);
+        expect(versions).toEqual([...new Set(versions)].sort((a, b) => a - b));
+    });
+
+    it('should apply every migration to a fresh database', async () => {
+        const ran = await runMigrations(mockEnv);
+
+        expect(ran.map((m) => m.version)).toEqual(MIGRATIONS.map((m) => m.version));
+        expect(d1.applied.map((m) => m.version)).toEqual(MIGRATIONS.map((m) => m.version));
+        expect(d1.batches).toHaveLength(MIGRATIONS.length);
+        // No ALTERs: the CREATE TABLE statements define the columns on a fresh database
+        expect(d1.batches.flat().some((sql) => sql.startsWith('ALTER TABLE'))).toBe(false);
+        expect(d1.batches.flat().some((sql) => sql.startsWith('DROP'))).toBe(false);
+    });
+
+    it('should be idempotent', async () => {
+        await runMigrations(mockEnv);
+        d1.db.batch.mockClear();
+
+        expect(await runMigrations(mockEnv)).toEqual([]);
+        expect(d1.db.batch).not.toHaveBeenCalled();
+    });
+
+    it('should add only the missing columns to an existing ledger', async () => {
+        d1 = fakeD1({
+            security_events: ['id', 'timestamp', 'ip_address', 'country', 'request_path', 'attack_type', 'risk_score', 'action', 'payload_preview', 'metadata'],
+        });
+        mockEnv.DB = d1.db as any;
+
+        await runMigrations(mockEnv);
+
+        const alters = d1.batches.flat().filter((sql) => sql.startsWith('ALTER TABLE'));
+        expect(alters).toEqual([
+            'ALTER TABLE security_events ADD COLUMN matched_input TEXT',
+            'ALTER TABLE security_events ADD COLUMN agent TEXT',
+            'ALTER TABLE security_events ADD COLUMN cache_hit INTEGER',
+            'ALTER TABLE security_events ADD COLUMN request_method TEXT',
+            'ALTER TABLE security_events ADD COLUMN rule_id TEXT',
+            'ALTER TABLE security_events ADD COLUMN asn INTEGER',
+            'ALTER TABLE security_events ADD COLUMN as_organization TEXT',
+            'ALTER TABLE security_events ADD COLUMN city TEXT',
+            'ALTER TABLE security_events ADD COLUMN colo TEXT',
+            'ALTER TABLE security_events ADD COLUMN tls_version TEXT',
+            'ALTER TABLE security_events ADD COLUMN would_block INTEGER',
+            'ALTER TABLE security_events ADD COLUMN cache_key TEXT',
+        ]);
+    });
+
+    it('should stop at a failing migration', async () => {
+        const migrations: Migration[] = [
+            { version: 1, name: 'good', statements: ['CREATE TABLE IF NOT EXISTS a (id TEXT)'] },
+            { version: 2, name: 'bad', statements: ['CREATE TABLE b ('] },
+            { version: 3, name: 'later', statements: ['CREATE TABLE IF NOT EXISTS c (id TEXT)'] },
+        ];
+        d1.db.batch.mockImplementation(async (statements: any[]) => {
+            if (statements.some((s) => s.sql === 'CREATE TABLE b (')) throw new Error('syntax error');
+            for (const s of statements) {
+                if (s.sql.startsWith('INSERT INTO schema_migrations')) d1.applied.push({ version: s.args[0], name: s.args[1], applied_at: s.args[2] });
+            }
+            return [];
+        });
+
+        await expect(runMigrations(mockEnv, migrations)).rejects.toThrow('Migration 2 (bad) failed: syntax error');
+        expect(d1.applied.map((m) => m.version)).toEqual([1]);
+    });
+
+    it('should tolerate a concurrent runner applying the same migration', async () => {
+        const migrations: Migration[] = [{ version: 1, name: 'race', statements: [] }];
+        d1.db.batch.mockImplementation(async () => {
+            // The other runner committed first; our INSERT hits the primary key
+            d1.applied.push({ version: 1, name: 'race', applied_at: '2024-01-01T00:00:00Z' });
+            throw new Error('UNIQUE constraint failed: schema_migrations.version');
+        });
+
+        expect(await runMigrations(mockEnv, migrations)).toEqual([]);
+    });
+
+    it('should report applied and pending migrations', async () => {
+        await runMigrations(mockEnv, MIGRATIONS.slice(0, 1));
+
+        const status = await getMigrationStatus(mockEnv);
+        expect(status.current).toBe(1);
+        expect(status.applied[0]).toMatchObject({ version: 1, name: 'initial_schema' });
+        expect(status.pending.map((m) => m.version)).toEqual(MIGRATIONS.slice(1).map((m) => m.version));
+    });
+
+    it('should only run migrations on POST', async () => {
+        const url = 'https://sentinel.example.com/v1/admin/migrations';
+
+        const status = await handleMigrationsRequest(new Request(url), mockEnv, {});
+        expect(((await status.json()) as any).pending).toHaveLength(MIGRATIONS.length);
+        expect(d1.db.batch).not.toHaveBeenCalled();
+
+        const run = await handleMigrationsRequest(new Request(url, { method: 'POST' }), mockEnv, {});
+        const body = await run.json() as any;
+        expect(run.status).toBe(200);
+        expect(body.applied).toHaveLength(MIGRATIONS.length);
+        expect(body.pending).toEqual([]);
+    });
+});
@@ -0,0 +1,477 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    findActiveMitigation,
+    isAllowlisted,
+    putMitigation,
+    clearMitigationCache,
+    handleMitigationsRequest,
+    cleanupMitigations,
+    ENFORCEMENT_CACHE_TTL_MS,
+    DEFAULT_MANUAL_TTL_SECONDS,
+    MAX_CLEANUP_DELETIONS,
+    ORPHAN_GRACE_MS,
+} from '../src/mitigations';
+import { AuthPrincipal, Env, MitigationRecord } from '../src/types';
+import { mockCloudflareApi } from './mocks/cloudflare';
+
+const NOW = Date.parse('2024-03-01T00:00:00.000Z');
+
+interface Entry {
+    value: string;
+    expiration?: number; // Epoch seconds
+    metadata?: unknown;
+}
+
+/**
+ * In-memory KV supporting get / put / list with expirations and metadata,
+ * paginated two keys at a time to exercise the cursor loop.
+ */
+function fakeKV(store: Map<string, Entry>) {
+    return {
+        get: vi.fn(async (key: string, type?: string) => {
+            const entry = store.get(key);
+            if (!entry) return null;
+            return type === 'json' ? JSON.parse(entry.value) : entry.value;
+        }),
+        delete: vi.fn(async (key: string) => { store.delete(key); }),
+        put: vi.fn(async (key: string, value: string, options: { expirationTtl?: number; metadata?: unknown } = {}) => {
+            store.set(key, {
+                value,
+                expiration: options.expirationTtl ? Math.floor(NOW / 1000) + options.expirationTtl : undefined,
+                metadata: options.metadata,
+            });
+        }),
+        list: vi.fn(async ({ prefix, cursor }: { prefix: string; cursor?: string }) => {
+            const names = [...store.keys()].filter((name) => name.startsWith(prefix)).sort();
+            const start = cursor ? Number(cursor) : 0;
+            const keys = names.slice(start, start + 2).map((name) => ({
+                name,
+                expiration: store.get(name)!.expiration,
+                metadata: store.get(name)!.metadata,
+            }));
+            const complete = start + 2 >= names.length;
+            return complete ? { keys, list_complete: true } : { keys, list_complete: false, cursor: String(start + 2) };
+        }),
+    };
+}
+
+function record(sourceIP: string, overrides: Partial<MitigationRecord> = {}): MitigationRecord {
+    return {
+        ruleId: 'ips-blocked-1a2b3c4d',
+        sourceIP,
+        attackType: 'SQL Injection',
+        riskScore: 95,
+        createdAt: '2024-03-01T00:00:00.000Z',
+        expiresAt: '2024-03-01T01:00:00.000Z',
+        ...overrides,
+    };
+}
+
+describe('Active Mitigation Enforcement', () => {
+    let mockEnv: Env;
+    let store: Map<string, Entry>;
+    let kv: ReturnType<typeof fakeKV>;
+
+    beforeEach(() => {
+        clearMitigationCache();
+        store = new Map();
+        kv = fakeKV(store);
+        mockEnv = {
+            AI: {} as any,
+            SENTINEL_KV: kv as any,
+            SENTINEL_WORKFLOW: {} as any,
+            DB: {} as any,
+            ENVIRONMENT: 'dev',
+            API_KEY: 'test-key',
+        };
+    });
+
+    it('should match a blocked IP in any notation', async () => {
+        await putMitigation(mockEnv, record('203.0.113.5', { mode: 'block' }), 3600);
+
+        const match = await findActiveMitigation(mockEnv, '::ffff:203.0.113.5', NOW);
+        expect(match).toEqual({
+            target: '203.0.113.5',
+            mode: 'block',
+            ruleId: 'ips-blocked-1a2b3c4d',
+            expiresAt: '2024-03-01T01:00:00.000Z',
+        });
+        expect(await findActiveMitigation(mockEnv, '203.0.113.6', NOW)).toBeNull();
+    });
+
+    it('should match CIDR rules and prefer the most specific one', async () => {
+        await putMitigation(mockEnv, record('198.51.100.0/24', { mode: 'block' }), 3600);
+        await putMitigation(mockEnv, record('198.51.100.7', { mode: 'challenge' }), 3600);
+
+        expect((await findActiveMitigation(mockEnv, '198.51.100.200', NOW))?.target).toBe('198.51.100.0/24');
+        // The /32 challenge rule wins and is left to Cloudflare's managed challenge
+        expect(await findActiveMitigation(mockEnv, '198.51.100.7', NOW)).toBeNull();
+    });
+
+    it('should let allowlisted sources through a blocked range', async () => {
+        await putMitigation(mockEnv, record('10.0.0.0/8', { mode: 'block' }), 3600);
+        store.set('allowlist:10.20.0.0/16', { value: '{"reason":"office"}' });
+
+        expect(await findActiveMitigation(mockEnv, '10.20.1.1', NOW)).toBeNull();
+        expect(await findActiveMitigation(mockEnv, '10.30.1.1', NOW)).not.toBeNull();
+        expect(await isAllowlisted(mockEnv, '10.20.1.1', NOW)).toBe(true);
+    });
+
+    it('should not enforce tracked-only records, including legacy ones without metadata', async () => {
+        store.set('mitigation:192.0.2.1', { value: JSON.stringify(record('192.0.2.1', { ruleId: 'tracked-only' })) });
+        store.set('mitigation:192.0.2.2', { value: JSON.stringify(record('192.0.2.2')) });
+        await putMitigation(mockEnv, record('192.0.2.3', { ruleId: 'tracked-only', mode: 'track' }), 3600);
+
+        expect(await findActiveMitigation(mockEnv, '192.0.2.1', NOW)).toBeNull();
+        expect((await findActiveMitigation(mockEnv, '192.0.2.2', NOW))?.mode).toBe('block');
+        expect(await findActiveMitigation(mockEnv, '192.0.2.3', NOW)).toBeNull();
+    });
+
+    it('should ignore expired rules', async () => {
+        await putMitigation(mockEnv, record('203.0.113.5', { mode: 'block' }), 60);
+        expect(await findActiveMitigation(mockEnv, '203.0.113.5', NOW + 61_000)).toBeNull();
+    });
+
+    it('should serve lookups from the isolate cache until the TTL passes', async () => {
+        await findActiveMitigation(mockEnv, '203.0.113.5', NOW);
+        await findActiveMitigation(mockEnv, '203.0.113.6', NOW + 1000);
+        expect(kv.list).toHaveBeenCalledTimes(2); // mitigation: + allowlist: prefixes, once
+        expect(kv.get).not.toHaveBeenCalled();
+
+        // Written by this isolate: applies without a reload
+        await putMitigation(mockEnv, record('203.0.113.5', { mode: 'block' }), 3600);
+        expect(await findActiveMitigation(mockEnv, '203.0.113.5', NOW + 2000)).not.toBeNull();
+        expect(kv.list).toHaveBeenCalledTimes(2);
+
+        await findActiveMitigation(mockEnv, '203.0.113.5', NOW + ENFORCEMENT_CACHE_TTL_MS + 2000);
+        expect(kv.list).toHaveBeenCalledTimes(4);
+    });
+
+    it('should page through every mitigation key', async () => {
+        for (let i = 1; i <= 5; i++) {
+            await putMitigation(mockEnv, record(`192.0.2.${i}`, { mode: 'block' }), 3600);
+        }
+        clearMitigationCache();
+
+        expect(await findActiveMitigation(mockEnv, '192.0.2.5', NOW)).not.toBeNull();
+        expect(kv.list.mock.calls.filter(([options]) => options.prefix === 'mitigation:')).toHaveLength(3);
+    });
+
+    it('should fail open when KV is unavailable', async () => {
+        kv.list.mockRejectedValue(new Error('KV down'));
+        expect(await findActiveMitigation(mockEnv, '203.0.113.5', NOW)).toBeNull();
+    });
+
+    it('should keep the last known rules when a reload fails', async () => {
+        await putMitigation(mockEnv, record('203.0.113.5', { mode: 'block' }), 3600);
+        await findActiveMitigation(mockEnv, '203.0.113.5', NOW);
+
+        kv.list.mockRejectedValue(new Error('KV down'));
+        expect(await findActiveMitigation(mockEnv, '203.0.113.5', NOW + ENFORCEMENT_CACHE_TTL_MS + 1)).not.toBeNull();
+    });
+});
+
+describe('Mitigation Management (/v1/mitigations)', () => {
+    const principal: AuthPrincipal = { keyId: 'soc-lead', scope: 'admin', rateLimit: 120 };
+    let mockEnv: Env;
+    let store: Map<string, Entry>;
+    let cloudflare: ReturnType<typeof mockCloudflareApi>;
+    let audit: unknown[][];
+
+    function call(method: string, path: string, body?: unknown): Promise<Response> {
+        const request = new Request(`https://sentinel.example${path}`, {
+            method,
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        return handleMitigationsRequest(request, mockEnv, new URL(request.url), principal, {});
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(NOW);
+        clearMitigationCache();
+        store = new Map();
+        audit = [];
+        cloudflare = mockCloudflareApi();
+        mockEnv = {
+            AI: {} as any,
+            SENTINEL_KV: fakeKV(store) as any,
+            SENTINEL_WORKFLOW: {} as any,
+            DB: {
+                prepare: vi.fn(() => ({
+                    bind: (...args: unknown[]) => ({ run: vi.fn(async () => { audit.push(args); return {}; }) }),
+                })),
+            } as any,
+            ENVIRONMENT: 'dev',
+            API_KEY: 'test-key',
+            CLOUDFLARE_API_TOKEN: 'cf-token',
+            CLOUDFLARE_ZONE_ID: 'zone-1',
+        };
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('should create a block with a matching Cloudflare rule and audit entry', async () => {
+        const response = await call('POST', '/v1/mitigations', { ip: '::ffff:203.0.113.5', reason: 'Credential stuffing' });
+        const { mitigation } = await response.json() as any;
+
+        expect(response.status).toBe(201);
+        expect(mitigation).toMatchObject({ sourceIP: '203.0.113.5', mode: 'block', createdBy: 'soc-lead', reason: 'Credential stuffing' });
+        expect(mitigation.expiresAt).toBe(new Date(NOW + DEFAULT_MANUAL_TTL_SECONDS * 1000).toISOString());
+
+        const rule = cloudflare.rules.get(mitigation.ruleId)!;
+        expect(rule.mode).toBe('block');
+        expect(rule.configuration).toEqual({ target: 'ip', value: '203.0.113.5' });
+        expect(rule.notes).toContain('Key: soc-lead');
+
+        expect(store.get('mitigation:203.0.113.5')?.metadata).toEqual({ mode: 'block', ruleId: mitigation.ruleId });
+        expect(audit[0].slice(2, 8)).toEqual(['soc-lead', 'create', '203.0.113.5', 'block', mitigation.expiresAt, mitigation.ruleId]);
+        expect(await findActiveMitigation(mockEnv, '203.0.113.5')).not.toBeNull();
+    });
+
+    it('should create CIDR range rules', async () => {
+        const response = await call('POST', '/v1/mitigations', { ip: '198.51.100.9/24', mode: 'challenge', ttlSeconds: 600 });
+        const { mitigation } = await response.json() as any;
+
+        expect(mitigation.sourceIP).toBe('198.51.100.0/24');
+        expect(cloudflare.rules.get(mitigation.ruleId)).toMatchObject({
+            mode: 'managed_challenge',
+            configuration: { target: 'ip_range', value: '198.51.100.0/24' },
+        });
+    });
+
+    it('should reject invalid input and duplicates', async () => {
+        expect((await call('POST', '/v1/mitigations', { ip: 'example.com' })).status).toBe(400);
+        expect((await call('POST', '/v1/mitigations', { ip: '203.0.113.5', mode: 'nuke' })).status).toBe(400);
+        expect((await call('POST', '/v1/mitigations', { ip: '203.0.113.5', ttlSeconds: 10 })).status).toBe(400);
+
+        const range = await call('POST', '/v1/mitigations', { ip: '203.0.112.0/20' });
+        expect(range.status).toBe(400);
+        expect(await range.json()).toEqual({ error: 'Bad Request', message: 'CIDR ranges must be /16 or /24 for IPv4, /32, /48 or /64 for IPv6' });
+        expect((await call('POST', '/v1/mitigations', { ip: '2001:db8::/56' })).status).toBe(400);
+        expect(cloudflare.rules.size).toBe(0);
+
+        await call('POST', '/v1/mitigations', { ip: '203.0.113.5' });
+        expect((await call('POST', '/v1/mitigations', { ip: '203.0.113.5' })).status).toBe(409);
+        expect(cloudflare.rules.size).toBe(1);
+    });
+
+    it('should refuse to block allowlisted addresses', async () => {
+        store.set('allowlist:10.0.0.0/8', { value: '{}' });
+        expect((await call('POST', '/v1/mitigations', { ip: '10.1.2.3' })).status).toBe(409);
+    });
+
+    it('should write nothing when the Cloudflare rule cannot be created', async () => {
+        cloudflare.failNext(500);
+        const response = await call('POST', '/v1/mitigations', { ip: '203.0.113.5' });
+
+        expect(response.status).toBe(502);
+        expect(store.has('mitigation:203.0.113.5')).toBe(false);
+        expect(audit).toHaveLength(0);
+    });
+
+    it('should keep KV-only mitigations when Cloudflare is not configured', async () => {
+        mockEnv.CLOUDFLARE_API_TOKEN = undefined;
+        const { mitigation } = await (await call('POST', '/v1/mitigations', { ip: '203.0.113.5' })).json() as any;
+
+        expect(mitigation.ruleId).toBeNull();
+        expect(cloudflare.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should extend the TTL and change the mode of the Cloudflare rule', async () => {
+        const { mitigation: created } = await (await call('POST', '/v1/mitigations', { ip: '203.0.113.5' })).json() as any;
+
+        const response = await call('PATCH', '/v1/mitigations/203.0.113.5', { mode: 'challenge', ttlSeconds: 7 * 86400 });
+        const { mitigation } = await response.json() as any;
+
+        expect(response.status).toBe(200);
+        expect(mitigation).toMatchObject({ ruleId: created.ruleId, mode: 'challenge', expiresAt: '2024-03-08T00:00:00.000Z' });
+        expect(cloudflare.rules.get(created.ruleId)?.mode).toBe('managed_challenge');
+        expect(store.get('mitigation:203.0.113.5')?.expiration).toBe(NOW / 1000 + 7 * 86400);
+        expect(audit[1][3]).toBe('update');
+        expect(JSON.parse(audit[1][9] as string).mode).toBe('block');
+    });
+
+    it('should remove the Cloudflare rule when a block is downgraded to track', async () => {
+        const { mitigation: created } = await (await call('POST', '/v1/mitigations', { ip: '203.0.113.5' })).json() as any;
+        const { mitigation } = await (await call('PATCH', '/v1/mitigations/203.0.113.5', { mode: 'track' })).json() as any;
+
+        expect(mitigation.ruleId).toBeNull();
+        expect(cloudflare.rules.has(created.ruleId)).toBe(false);
+        expect(await findActiveMitigation(mockEnv, '203.0.113.5')).toBeNull();
+    });
+
+    it('should create a Cloudflare rule when an auto-mitigation without one is escalated', async () => {
+        await putMitigation(mockEnv, record('203.0.113.5', { ruleId: 'tracked-only', mode: 'track' }), 3600);
+        const { mitigation } = await (await call('PATCH', '/v1/mitigations/203.0.113.5', { mode: 'block' })).json() as any;
+
+        expect(cloudflare.rules.get(mitigation.ruleId)?.mode).toBe('block');
+        expect(mitigation.attackType).toBe('SQL Injection');
+    });
+
+    it('should revoke a mitigation and its Cloudflare rule', async () => {
+        await call('POST', '/v1/mitigations', { ip: '198.51.100.0/24' });
+        const response = await call('DELETE', '/v1/mitigations/198.51.100.0%2F24');
+
+        expect(response.status).toBe(200);
+        expect(cloudflare.rules.size).toBe(0);
+        expect(store.has('mitigation:198.51.100.0/24')).toBe(false);
+        expect(await findActiveMitigation(mockEnv, '198.51.100.1')).toBeNull();
+        expect(audit[1].slice(2, 5)).toEqual(['soc-lead', 'revoke', '198.51.100.0/24']);
+    });
+
+    it('should revoke when the Cloudflare rule is already gone', async () => {
+        const { mitigation } = await (await call('POST', '/v1/mitigations', { ip: '203.0.113.5' })).json() as any;
+        cloudflare.rules.delete(mitigation.ruleId);
+
+        expect((await call('DELETE', '/v1/mitigations/203.0.113.5')).status).toBe(200);
+        expect(store.has('mitigation:203.0.113.5')).toBe(false);
+    });
+
+    it('should keep the record when the Cloudflare rule cannot be deleted', async () => {
+        await call('POST', '/v1/mitigations', { ip: '203.0.113.5' });
+        cloudflare.failNext(429, { 'Retry-After': '30' });
+
+        expect((await call('DELETE', '/v1/mitigations/203.0.113.5')).status).toBe(502);
+        expect(store.has('mitigation:203.0.113.5')).toBe(true);
+    });
+
+    it('should return 404 for unknown mitigations', async () => {
+        expect((await call('DELETE', '/v1/mitigations/192.0.2.1')).status).toBe(404);
+        expect((await call('PATCH', '/v1/mitigations/192.0.2.1', { mode: 'block' })).status).toBe(404);
+    });
+
+    it('should return 400 for malformed targets', async () => {
+        expect((await call('DELETE', '/v1/mitigations/%E0')).status).toBe(400);
+    });
+});
+
+describe('Self-Healing Cleanup (cleanupMitigations)', () => {
+    const EXPIRED = Math.floor(NOW / 1000) - 60;
+    const LIVE = Math.floor(NOW / 1000) + 3600;
+    const OLD = new Date(NOW - ORPHAN_GRACE_MS - 1000).toISOString();
+    let mockEnv: Env;
+    let store: Map<string, Entry>;
+    let cloudflare: ReturnType<typeof mockCloudflareApi>;
+
+    function seedRule(id: string, value: string, notes: string, createdOn = OLD) {
+        cloudflare.rules.set(id, { id, mode: 'block', configuration: { target: 'ip', value }, notes, created_on: createdOn });
+    }
+
+    function seedRecord(ip: string, ruleId: string, expiration?: number, overrides: Partial<MitigationRecord> = {}) {
+        store.set(`mitigation:${ip}`, {
+            value: JSON.stringify(record(ip, { ruleId, ...overrides })),
+            expiration,
+            metadata: expiration ? { mode: 'block', ruleId } : undefined,
+        });
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(NOW);
+        clearMitigationCache();
+        store = new Map();
+        cloudflare = mockCloudflareApi();
+        mockEnv = {
+            AI: {} as any,
+            SENTINEL_KV: fakeKV(store) as any,
+            SENTINEL_WORKFLOW: {} as any,
+            DB: {} as any,
+            ENVIRONMENT: 'dev',
+            API_KEY: 'test-key',
+            CLOUDFLARE_API_TOKEN: 'cf-token',
+            CLOUDFLARE_ZONE_ID: 'zone-1',
+        };
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('should delete the Cloudflare rule and KV record of expired mitigations across list pages', async () => {
+        const expiredRule = 'a'.repeat(32);
+        const liveRule = 'b'.repeat(32);
+        seedRule(expiredRule, '203.0.113.5', 'Auto-blocked by Sentinel AI | Attack: SQL Injection');
+        seedRule(liveRule, '203.0.113.6', 'Auto-blocked by Sentinel AI | Attack: XSS');
+        seedRecord('203.0.113.5', expiredRule, EXPIRED);
+        seedRecord('203.0.113.6', liveRule, LIVE);
+        seedRecord('203.0.113.7', 'tracked-only', EXPIRED);
+        // Legacy record without KV expiration or metadata: expiry comes from the value
+        seedRecord('203.0.113.8', 'tracked-only', undefined, { expiresAt: '2024-02-29T23:00:00.000Z' });
+
+        const result = await cleanupMitigations(mockEnv, NOW);
+
+        expect(result).toEqual({ scanned: 4, expired: 3, rulesDeleted: 1, orphansDeleted: 0, errors: 0, complete: true });
+        expect([...cloudflare.rules.keys()]).toEqual([liveRule]);
+        expect([...store.keys()]).toEqual(['mitigation:203.0.113.6']);
+    });
+
+    it('should treat a rule that is already gone (404) as deleted', async () => {
+        seedRecord('203.0.113.5', 'c'.repeat(32), EXPIRED);
+
+        const result = await cleanupMitigations(mockEnv, NOW);
+
+        expect(result.errors).toBe(0);
+        expect(store.size).toBe(0);
+    });
+
+    it('should reconcile orphaned Sentinel rules past the grace period only', async () => {
+        seedRule('1'.repeat(32), '198.51.100.1', 'Auto-blocked by Sentinel AI | Attack: SQL Injection');
+        seedRule('2'.repeat(32), '198.51.100.2', 'Blocked by Sentinel AI (manual) | Key: soc-lead');
+        seedRule('3'.repeat(32), '198.51.100.3', 'Auto-blocked by Sentinel AI | Attack: XSS', new Date(NOW - 1000).toISOString());
+        seedRule('4'.repeat(32), '198.51.100.4', 'Office VPN');
+        seedRule('5'.repeat(32), '198.51.100.5', 'Auto-blocked by Sentinel AI | Attack: RCE');
+        seedRecord('198.51.100.5', '5'.repeat(32), LIVE);
+
+        const result = await cleanupMitigations(mockEnv, NOW);
+
+        expect(result.orphansDeleted).toBe(2);
+        expect([...cloudflare.rules.keys()].sort()).toEqual(['3'.repeat(32), '4'.repeat(32), '5'.repeat(32)]);
+    });
+
+    it('should page through Cloudflare rules and stop at MAX_CLEANUP_DELETIONS', async () => {
+        for (let i = 0; i < 501; i++) {
+            seedRule((0x1000 + i).toString(16).padStart(32, '0'), '192.0.2.1', `Auto-blocked by Sentinel AI | #${i}`);
+        }
+
+        const result = await cleanupMitigations(mockEnv, NOW);
+
+        const listCalls = cloudflare.fetch.mock.calls
+            .map(([input]) => new URL(String(input)))
+            .filter((url) => url.searchParams.has('page'));
+        expect(listCalls.map((url) => url.searchParams.get('page'))).toEqual(['1', '2']);
+        expect(listCalls[0].searchParams.get('notes')).toBe('Sentinel AI');
+        expect(result.orphansDeleted).toBe(MAX_CLEANUP_DELETIONS);
+        expect(result.complete).toBe(false);
+        expect(cloudflare.rules.size).toBe(501 - MAX_CLEANUP_DELETIONS);
+    });
+
+    it('should keep the record and skip reconciliation when rate limited', async () => {
+        const ruleId = 'a'.repeat(32);
+        seedRule(ruleId, '203.0.113.5', 'Auto-blocked by Sentinel AI');
+        seedRule('1'.repeat(32), '198.51.100.1', 'Auto-blocked by Sentinel AI');
+        seedRecord('203.0.113.5', ruleId, EXPIRED);
+        cloudflare.failNext(429, { 'Retry-After': '30' });
+
+        const result = await cleanupMitigations(mockEnv, NOW);
+
+        expect(result).toMatchObject({ expired: 0, rulesDeleted: 0, orphansDeleted: 0, errors: 1, complete: false });
+        expect(store.has('mitigation:203.0.113.5')).toBe(true);
+        expect(cloudflare.rules.size).toBe(2);
+        expect(cloudflare.calls.filter((call) => call.method === 'GET')).toHaveLength(0);
+    });
+
+    it('should only clean up KV without Cloudflare credentials', async () => {
+        mockEnv.CLOUDFLARE_API_TOKEN = undefined;
+        seedRecord('203.0.113.5', 'a'.repeat(32), EXPIRED);
+
+        const result = await cleanupMitigations(mockEnv, NOW);
+
+        expect(result).toMatchObject({ expired: 1, rulesDeleted: 0 });
+        expect(cloudflare.calls).toHaveLength(0);
+    });
+});
@@ -0,0 +1,94 @@
+import { vi } from 'vitest';
+
+export interface MockAccessRule {
+    id: string;
+    mode: string;
+    configuration: { target: string; value: string };
+    notes: string;
+    created_on: string;
+}
+
+/**
+ * In-memory stand-in for the Cloudflare IP Access Rules API, installed as the
+ * global `fetch`. `failNext` makes the next call return the given status.
+ * Listing filters by `notes` (case-insensitive substring) and paginates with
+ * `page` / `per_page` like the real API.
+ */
+export function mockCloudflareApi() {
+    const rules = new Map<string, MockAccessRule>();
+    const calls: { method: string; path: string; body: any }[] = [];
+    let failure: { status: number; headers?: Record<string, string> } | null = null;
+    let nextId = 1;
+
+    const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+        new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+    const fetchMock = vi.fn(async (input: string | URL | Request, init: RequestInit = {}) => {
+        const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url);
+        const method = init.method ?? 'GET';
+        const body = typeof init.body === 'string' ? JSON.parse(init.body) : undefined;
+        const match = url.pathname.match(/^\/client\/v4\/zones\/[^/]+\/firewall\/access_rules\/rules(?:\/([^/]+))?$/);
+        calls.push({ method, path: url.pathname, body });
+
+        if (!match) return json({ success: false, errors: [{ message: 'Unknown route' }] }, 404);
+        if (failure) {
+            const { status, headers } = failure;
+            failure = null;
+            return json({ success: false, errors: [{ message: `HTTP ${status}` }] }, status, headers);
+        }
+
+        const id = match[1];
+        if (method === 'POST' && !id) {
+            const rule: MockAccessRule = {
+                id: (nextId++).toString(16).padStart(32, '0'),
+                mode: body.mode,
+                configuration: body.configuration,
+                notes: body.notes,
+                created_on: new Date().toISOString(),
+            };
+            rules.set(rule.id, rule);
+            return json({ success: true, result: rule });
+        }
+
+        if (method === 'GET' && !id) {
+            const notes = (url.searchParams.get('notes') ?? '').toLowerCase();
+            const page = Number(url.searchParams.get('page') ?? 1);
+            const perPage = Number(url.searchParams.get('per_page') ?? 20);
+            const matching = [...rules.values()].filter((rule) => rule.notes.toLowerCase().includes(notes));
+            return json({
+                success: true,
+                result: matching.slice((page - 1) * perPage, page * perPage),
+                result_info: {
+                    page,
+                    per_page: perPage,
+                    total_pages: Math.max(1, Math.ceil(matching.length / perPage)),
+                    total_count: matching.length,
+                },
+            });
+        }
+
+        const rule = id ? rules.get(id) : undefined;
+        if (!rule) return json({ success: false, errors: [{ message: 'Not found' }] }, 404);
+
+        if (method === 'PATCH') {
+            Object.assign(rule, body);
+            return json({ success: true, result: rule });
+        }
+        if (method === 'DELETE') {
+            rules.delete(rule.id);
+            return json({ success: true, result: { id: rule.id } });
+        }
+        return json({ success: true, result: rule });
+    });
+
+    vi.stubGlobal('fetch', fetchMock);
+
+    return {
+        rules,
+        calls,
+        fetch: fetchMock,
+        failNext(status: number, headers?: Record<string, string>) {
+            failure = { status, headers };
+        },
+    };
+}
@@ -0,0 +1,68 @@
+/**
+ * In-memory stand-in for a Durable Object namespace: one instance of the real
+ * class per name, each with its own storage, requests to an instance served
+ * one at a time like the runtime's input gate. `runAlarms` fires every alarm
+ * that is due as of Date.now().
+ */
+export function mockDurableObjectNamespace<T extends { fetch(request: Request): Promise<Response>; alarm?(): Promise<void> }>(
+    create: (state: DurableObjectState) => T
+) {
+    interface Instance {
+        object: T;
+        storage: Map<string, unknown>;
+        alarm: number | null;
+        queue: Promise<unknown>;
+    }
+    const instances = new Map<string, Instance>();
+
+    const instance = (name: string): Instance => {
+        let existing = instances.get(name);
+        if (!existing) {
+            const storage = new Map<string, unknown>();
+            const entry: Instance = { object: undefined as unknown as T, storage, alarm: null, queue: Promise.resolve() };
+            const state = {
+                id: { name, toString: () => name },
+                storage: {
+                    get: async (key: string) => structuredClone(storage.get(key)),
+                    put: async (key: string, value: unknown) => { storage.set(key, structuredClone(value)); },
+                    delete: async (key: string) => storage.delete(key),
+                    deleteAll: async () => { storage.clear(); },
+                    setAlarm: async (time: number | Date) => { entry.alarm = Number(time); },
+                    getAlarm: async () => entry.alarm,
+                    deleteAlarm: async () => { entry.alarm = null; },
+                },
+                waitUntil: () => {},
+                blockConcurrencyWhile: async <R>(callback: () => Promise<R>) => callback(),
+            } as unknown as DurableObjectState;
+            entry.object = create(state);
+            instances.set(name, entry);
+            existing = entry;
+        }
+        return existing;
+    };
+
+    const namespace = {
+        idFromName: (name: string) => ({ name, toString: () => name }),
+        get: (id: { name: string }) => ({
+            fetch: (input: RequestInfo | URL, init?: RequestInit) => {
+                const target = instance(id.name);
+                const run = target.queue.then(() => target.object.fetch(new Request(input, init)));
+                target.queue = run.catch(() => {});
+                return run;
+            },
+        }),
+    };
+
+    return {
+        namespace: namespace as unknown as DurableObjectNamespace,
+        instances,
+        async runAlarms() {
+            for (const target of instances.values()) {
+                if (target.alarm !== null && target.alarm <= Date.now()) {
+                    target.alarm = null;
+                    await target.object.alarm?.();
+                }
+            }
+        },
+    };
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { parseIPv4, parseIPv6, parseIP, formatIP, parseCIDR, formatCIDR, cidrContains } from '../src/net';
+
+describe('IP Address Utilities', () => {
+    describe('parseIPv4', () => {
+        it('should accept only dotted-quad decimal in strict mode', () => {
+            expect(parseIPv4("127.0.0.1")).toEqual([127, 0, 0, 1]);
+            expect(parseIPv4("0177.0.0.1")).toBeNull();
+            expect(parseIPv4("127.1")).toBeNull();
+            expect(parseIPv4("256.0.0.1")).toBeNull();
+        });
+
+        it('should follow inet_aton() in lenient mode', () => {
+            expect(parseIPv4("2130706433", true)).toEqual([127, 0, 0, 1]);
+            expect(parseIPv4("0x7f.0.0.1", true)).toEqual([127, 0, 0, 1]);
+            expect(parseIPv4("0177.0.0.01", true)).toEqual([127, 0, 0, 1]);
+            expect(parseIPv4("127.1", true)).toEqual([127, 0, 0, 1]);
+            expect(parseIPv4("169.254.43518", true)).toEqual([169, 254, 169, 254]);
+        });
+
+        it('should reject out-of-range and non-numeric parts', () => {
+            expect(parseIPv4("4294967296", true)).toBeNull();
+            expect(parseIPv4("08.0.0.1", true)).toBeNull();
+            expect(parseIPv4("example.com", true)).toBeNull();
+        });
+    });
+
+    describe('parseIPv6', () => {
+        it('should expand compressed addresses', () => {
+            expect(parseIPv6("::1")).toEqual([...Array(15).fill(0), 1]);
+            expect(parseIPv6("[fe80::1%eth0]")?.slice(0, 2)).toEqual([0xfe, 0x80]);
+        });
+
+        it('should reject malformed addresses', () => {
+            expect(parseIPv6("1::2::3")).toBeNull();
+            expect(parseIPv6("1:2:3:4:5:6:7")).toBeNull();
+            expect(parseIPv6("12345::1")).toBeNull();
+        });
+    });
+
+    describe('parseIP / formatIP', () => {
+        it('should unwrap IPv4-mapped and IPv4-compatible addresses', () => {
+            expect(formatIP(parseIP("::ffff:10.0.0.1")!)).toBe("10.0.0.1");
+            expect(formatIP(parseIP("::ffff:a00:1")!)).toBe("10.0.0.1");
+            expect(formatIP(parseIP("::10.0.0.1")!)).toBe("10.0.0.1");
+        });
+
+        it('should keep :: and ::1 as IPv6', () => {
+            expect(parseIP("::")?.version).toBe(6);
+            expect(formatIP(parseIP("::1")!)).toBe("::1");
+        });
+
+        it('should format IPv6 per RFC 5952', () => {
+            expect(formatIP(parseIP("2001:0DB8:0000:0000:0000:0000:0000:0001")!)).toBe("2001:db8::1");
+            expect(formatIP(parseIP("2001:db8:0:1:0:0:0:1")!)).toBe("2001:db8:0:1::1");
+            expect(formatIP(parseIP("2001:db8:0:1:1:1:1:1")!)).toBe("2001:db8:0:1:1:1:1:1");
+        });
+    });
+
+    describe('parseCIDR / cidrContains', () => {
+        it('should clear host bits and treat bare addresses as single hosts', () => {
+            expect(formatCIDR(parseCIDR("203.0.113.77/24")!)).toBe("203.0.113.0/24");
+            expect(formatCIDR(parseCIDR("2001:db8::1")!)).toBe("2001:db8::1/128");
+            expect(formatCIDR(parseCIDR("10.1.2.3/12")!)).toBe("10.0.0.0/12");
+            expect(formatCIDR(parseCIDR("::ffff:10.0.0.0/104")!)).toBe("10.0.0.0/8");
+        });
+
+        it('should reject malformed ranges', () => {
+            expect(parseCIDR("10.0.0.0/33")).toBeNull();
+            expect(parseCIDR("10.0.0.0/")).toBeNull();
+            expect(parseCIDR("10.0.0.0/8/8")).toBeNull();
+            expect(parseCIDR("example.com/24")).toBeNull();
+        });
+
+        it('should match addresses inside the range only', () => {
+            const range = parseCIDR("198.51.100.0/22")!;
+            expect(cidrContains(range, parseIP("198.51.103.255")!)).toBe(true);
+            expect(cidrContains(range, parseIP("::ffff:198.51.101.1")!)).toBe(true);
+            expect(cidrContains(range, parseIP("198.51.104.0")!)).toBe(false);
+            expect(cidrContains(parseCIDR("2001:db8::/32")!, parseIP("2001:db8:ffff::1")!)).toBe(true);
+            expect(cidrContains(parseCIDR("0.0.0.0/0")!, parseIP("2001:db8::1")!)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    escalateBlock,
+    parseDuration,
+    parsePenaltyPolicy,
+    policyFor,
+    selectTier,
+    DEFAULT_BLOCK_TIERS,
+    DEFAULT_LOOKBACK_SECONDS,
+} from '../src/penalties';
+import { Env } from '../src/types';
+
+const NOW = Date.parse('2024-03-01T00:00:00.000Z');
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+describe('Escalating Block Durations', () => {
+    let mockEnv: Env;
+    let store: Map<string, { value: string; ttl?: number }>;
+
+    beforeEach(() => {
+        store = new Map();
+        mockEnv = {
+            AI: {} as any,
+            SENTINEL_KV: {
+                get: vi.fn(async (key: string) => (store.has(key) ? JSON.parse(store.get(key)!.value) : null)),
+                put: vi.fn(async (key: string, value: string, options: { expirationTtl?: number } = {}) => {
+                    store.set(key, { value, ttl: options.expirationTtl });
+                }),
+            } as any,
+            SENTINEL_WORKFLOW: {} as any,
+            DB: {} as any,
+            ENVIRONMENT: 'dev',
+            API_KEY: 'test-key',
+        };
+    });
+
+    describe('parseDuration', () => {
+        it('should accept seconds and s / m / h / d suffixes', () => {
+            expect(parseDuration(3600)).toBe(3600);
+            expect(parseDuration('90s')).toBe(90);
+            expect(parseDuration('30m')).toBe(30 * 60);
+            expect(parseDuration('6h')).toBe(6 * HOUR);
+            expect(parseDuration('7D')).toBe(7 * DAY);
+        });
+
+        it('should reject malformed and sub-minute durations', () => {
+            expect(parseDuration('soon')).toBeNull();
+            expect(parseDuration('1.5h')).toBeNull();
+            expect(parseDuration(30)).toBeNull();
+            expect(parseDuration(null)).toBeNull();
+        });
+    });
+
+    describe('parsePenaltyPolicy', () => {
+        it('should default to 1h, 6h, 24h, 7d over 30 days', () => {
+            const config = parsePenaltyPolicy(mockEnv);
+            expect(config.tiers).toEqual([HOUR, 6 * HOUR, DAY, 7 * DAY]);
+            expect(config.tiers).toEqual(DEFAULT_BLOCK_TIERS);
+            expect(config.lookbackSeconds).toBe(DEFAULT_LOOKBACK_SECONDS);
+        });
+
+        it('should apply per-attack-type overrides that inherit unset fields', () => {
+            mockEnv.BLOCK_PENALTY_POLICY = JSON.stringify({
+                tiers: ['2h', '1d'],
+                lookback: '14d',
+                attackTypes: {
+                    'Command Injection': { tiers: ['1d', '30d'] },
+                    'XSS': { lookback: '1d' },
+                    'Broken': { tiers: [] },
+                },
+            });
+            const config = parsePenaltyPolicy(mockEnv);
+
+            expect(policyFor(config, 'SQL Injection')).toMatchObject({ tiers: [2 * HOUR, DAY], lookbackSeconds: 14 * DAY });
+            expect(policyFor(config, 'Command Injection')).toEqual({ tiers: [DAY, 30 * DAY], lookbackSeconds: 14 * DAY });
+            expect(policyFor(config, 'XSS')).toEqual({ tiers: [2 * HOUR, DAY], lookbackSeconds: DAY });
+            expect(config.attackTypes).not.toHaveProperty('Broken');
+        });
+
+        it('should fall back to the defaults on invalid JSON or tiers', () => {
+            mockEnv.BLOCK_PENALTY_POLICY = '{not json';
+            expect(parsePenaltyPolicy(mockEnv).tiers).toEqual(DEFAULT_BLOCK_TIERS);
+
+            mockEnv.BLOCK_PENALTY_POLICY = JSON.stringify({ tiers: ['1h', 'forever'] });
+            expect(parsePenaltyPolicy(mockEnv).tiers).toEqual(DEFAULT_BLOCK_TIERS);
+        });
+    });
+
+    describe('selectTier', () => {
+        it('should stay on the last tier once it is reached', () => {
+            const policy = { tiers: [HOUR, DAY], lookbackSeconds: DAY };
+            expect(selectTier(policy, 0)).toEqual({ tier: 1, durationSeconds: HOUR, priorOffenses: 0 });
+            expect(selectTier(policy, 1)).toEqual({ tier: 2, durationSeconds: DAY, priorOffenses: 1 });
+            expect(selectTier(policy, 5)).toEqual({ tier: 2, durationSeconds: DAY, priorOffenses: 5 });
+        });
+    });
+
+    describe('escalateBlock', () => {
+        it('should escalate through the tiers for repeat blocks of an IP', async () => {
+            const durations = [];
+            let at = NOW;
+            for (let i = 0; i < 5; i++) {
+                const penalty = await escalateBlock(mockEnv, '203.0.113.5', 'SQL Injection', at);
+                durations.push(penalty.durationSeconds);
+                at += penalty.durationSeconds * 1000; // Blocked again once the block ends
+            }
+
+            expect(durations).toEqual([HOUR, 6 * HOUR, DAY, 7 * DAY, 7 * DAY]);
+            expect(store.get('offenses:ip:203.0.113.5')?.ttl).toBe(DEFAULT_LOOKBACK_SECONDS);
+        });
+
+        it('should step up one tier for a burst of blocks within the current block', async () => {
+            const penalties = [];
+            for (let i = 0; i < 5; i++) {
+                penalties.push(await escalateBlock(mockEnv, '203.0.113.5', 'SQL Injection', NOW + i * 100));
+            }
+
+            expect(penalties.map((penalty) => penalty.tier)).toEqual([1, 1, 1, 1, 1]);
+            expect(JSON.parse(store.get('offenses:ip:203.0.113.5')!.value).offenses).toEqual([NOW]);
+            expect(JSON.parse(store.get('offenses:net:203.0.113.0/24')!.value).offenses).toEqual([NOW]);
+
+            const next = await escalateBlock(mockEnv, '203.0.113.5', 'SQL Injection', NOW + HOUR * 1000);
+            expect(next).toEqual({ tier: 2, durationSeconds: 6 * HOUR, priorOffenses: 1 });
+        });
+
+        it('should count offenses from the same network', async () => {
+            await escalateBlock(mockEnv, '198.51.100.7', 'SQL Injection', NOW);
+            const penalty = await escalateBlock(mockEnv, '::ffff:198.51.100.200', 'XSS', NOW + 1000);
+
+            expect(penalty).toEqual({ tier: 2, durationSeconds: 6 * HOUR, priorOffenses: 1 });
+            expect(store.has('offenses:net:198.51.100.0/24')).toBe(true);
+        });
+
+        it('should forget offenses outside the lookback window', async () => {
+            mockEnv.BLOCK_PENALTY_POLICY = JSON.stringify({ lookback: '1d' });
+            await escalateBlock(mockEnv, '2001:db8::1', 'SQL Injection', NOW);
+
+            const penalty = await escalateBlock(mockEnv, '2001:db8::1', 'SQL Injection', NOW + 2 * DAY * 1000);
+            expect(penalty.tier).toBe(1);
+            expect(store.has('offenses:net:2001:db8::/64')).toBe(true);
+        });
+
+        it('should give ranges and unknown sources the first tier without recording', async () => {
+            expect((await escalateBlock(mockEnv, 'unknown', 'SQL Injection', NOW)).tier).toBe(1);
+            expect((await escalateBlock(mockEnv, '198.51.100.0/24', 'SQL Injection', NOW)).tier).toBe(1);
+            expect(store.size).toBe(0);
+        });
+
+        it('should fail open to the first tier when KV is unavailable', async () => {
+            (mockEnv.SENTINEL_KV.get as any).mockRejectedValue(new Error('KV down'));
+            (mockEnv.SENTINEL_KV.put as any).mockRejectedValue(new Error('KV down'));
+
+            expect(await escalateBlock(mockEnv, '203.0.113.5', 'SQL Injection', NOW)).toEqual({
+                tier: 1,
+                durationSeconds: HOUR,
+                priorOffenses: 0,
+            });
+        });
+    });
+});
@@ -0,0 +1,312 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    applyPolicy,
+    clearPolicyCache,
+    handlePolicyRequest,
+    isShadowMode,
+    loadPolicy,
+    mitigationMode,
+    resolvePolicy,
+    shouldAlert,
+    shouldCache,
+    validatePolicy,
+    verifyThreshold,
+    DEFAULT_POLICY,
+    DEFAULT_THRESHOLDS,
+    POLICY_CACHE_TTL_MS,
+    StoredPolicy,
+} from '../src/policy';
+import { AuthPrincipal, Env, SecurityAssessment } from '../src/types';
+
+const admin: AuthPrincipal = { keyId: 'ops', scope: 'admin', rateLimit: 120 };
+
+function assessment(overrides: Partial<SecurityAssessment> = {}): SecurityAssessment {
+    return {
+        attackType: 'SQLi',
+        confidence: 'Medium',
+        explanation: 'test',
+        impact: 'test',
+        mitigation: 'test',
+        riskScore: 65,
+        action: 'flag',
+        executive_summary: 'test',
+        timestamp: '2024-01-01T00:00:00Z',
+        ...overrides,
+    };
+}
+
+function policy(document: unknown): StoredPolicy {
+    const result = validatePolicy(document);
+    if (!result.ok) throw new Error(result.errors.join('; '));
+    return { version: 3, document: result.document, createdAt: '2024-03-01T00:00:00.000Z', createdBy: 'ops' };
+}
+
+const EXAMPLE = {
+    defaults: { alert: 85 },
+    rules: [
+        { id: 'admin-strict', match: { path: '/admin/*' }, block: 60 },
+        { id: 'search-flag-only', match: { path: '/search' }, maxAction: 'flag' },
+        { id: 'sqli-post', match: { methods: ['post'], attackTypes: ['SQLi'] }, mitigate: 90, verify: 30 },
+    ],
+};
+
+describe('Action Policy', () => {
+    describe('Defaults', () => {
+        it('should reproduce the built-in thresholds', () => {
+            const { version, rules, ...thresholds } = resolvePolicy(DEFAULT_POLICY, { path: '/', method: 'GET' });
+            expect(version).toBe(0);
+            expect(rules).toEqual([]);
+            expect(thresholds).toEqual(DEFAULT_THRESHOLDS);
+        });
+
+        it('should keep the agents action and leave the assessment untouched', () => {
+            const verdict = assessment();
+            expect(applyPolicy(DEFAULT_POLICY, verdict, { path: '/', method: 'GET' })).toBe(verdict);
+        });
+
+        it('should cache high-risk or high-confidence verdicts', () => {
+            expect(shouldCache(DEFAULT_POLICY, assessment({ riskScore: 51 }))).toBe(true);
+            expect(shouldCache(DEFAULT_POLICY, assessment({ riskScore: 50 }))).toBe(false);
+            expect(shouldCache(DEFAULT_POLICY, assessment({ riskScore: 0, confidence: 'High' }))).toBe(true);
+        });
+
+        it('should alert above 80 or on block', () => {
+            expect(shouldAlert(DEFAULT_POLICY, assessment({ riskScore: 81 }))).toBe(true);
+            expect(shouldAlert(DEFAULT_POLICY, assessment({ riskScore: 80 }))).toBe(false);
+            expect(shouldAlert(DEFAULT_POLICY, assessment({ riskScore: 10, action: 'block' }))).toBe(true);
+        });
+
+        it('should track above 70 and block at 95', () => {
+            expect(mitigationMode(DEFAULT_POLICY, assessment({ riskScore: 70 }))).toBeNull();
+            expect(mitigationMode(DEFAULT_POLICY, assessment({ riskScore: 71 }))).toBe('track');
+            expect(mitigationMode(DEFAULT_POLICY, assessment({ riskScore: 95 }))).toBe('block');
+        });
+    });
+
+    describe('Rules', () => {
+        const current = policy(EXAMPLE);
+
+        it('should block at a lower score on matching routes', () => {
+            const decided = applyPolicy(current, assessment(), { path: '/admin/users', method: 'GET' });
+            expect(decided.action).toBe('block');
+            expect(decided.policy).toEqual({ version: 3, rules: ['admin-strict'], originalAction: 'flag' });
+
+            expect(applyPolicy(current, assessment(), { path: '/admin', method: 'GET' }).action).toBe('flag');
+        });
+
+        it('should cap the action on flag-only routes', () => {
+            const decided = applyPolicy(current, assessment({ riskScore: 99, action: 'block' }), { path: '/search', method: 'GET' });
+            expect(decided.action).toBe('flag');
+            expect(decided.policy?.originalAction).toBe('block');
+        });
+
+        it('should match methods and attack types', () => {
+            const context = { path: '/login', method: 'POST' };
+            expect(mitigationMode(current, assessment({ riskScore: 90 }), context)).toBe('block');
+            expect(mitigationMode(current, assessment({ riskScore: 90, attackType: 'XSS' }), context)).toBe('track');
+            expect(mitigationMode(current, assessment({ riskScore: 90 }), { path: '/login', method: 'GET' })).toBe('track');
+        });
+
+        it('should match heuristic fallback verdicts on their base attack type', () => {
+            const fallback = assessment({ riskScore: 90, attackType: 'SQLi (Heuristic Fallback)' });
+            expect(mitigationMode(current, fallback, { path: '/login', method: 'POST' })).toBe('block');
+            expect(resolvePolicy(current, { method: 'POST', attackType: 'XSS (Heuristic Fallback)' }).rules).toEqual([]);
+        });
+
+        it('should let later rules override earlier ones', () => {
+            const layered = policy({
+                rules: [
+                    { id: 'everything', match: { path: '/*' }, block: 70 },
+                    { id: 'api', match: { path: '/api/*' }, block: 90 },
+                ],
+            });
+            const resolved = resolvePolicy(layered, { path: '/api/items' });
+            expect(resolved.block).toBe(90);
+            expect(resolved.rules).toEqual(['everything', 'api']);
+        });
+
+        it('should skip route rules when no route is known', () => {
+            // /v1/analyze and SentinelWorkflow decide without a request path
+            const resolved = resolvePolicy(current, { attackType: 'SQLi' });
+            expect(resolved.rules).toEqual([]);
+            expect(resolved.alert).toBe(85);
+        });
+
+        it('should decide the verify threshold before the attack type is known', () => {
+            expect(verifyThreshold(current, { path: '/login', method: 'POST', attackType: 'SQLi' })).toBe(50);
+            const strictAdmin = policy({ rules: [{ id: 'admin', match: { path: '/admin/*' }, verify: 20 }] });
+            expect(verifyThreshold(strictAdmin, { path: '/admin/x', method: 'GET' })).toBe(20);
+        });
+    });
+
+    describe('Shadow mode', () => {
+        it('should be off by default and configurable globally and per route', () => {
+            expect(isShadowMode(DEFAULT_POLICY, { path: '/', method: 'GET' })).toBe(false);
+
+            const onboarding = policy({
+                defaults: { shadow: true },
+                rules: [{ id: 'enforce-login', match: { path: '/login', methods: ['POST'] }, shadow: false }],
+            });
+            expect(isShadowMode(onboarding, { path: '/search', method: 'GET' })).toBe(true);
+            expect(isShadowMode(onboarding, { path: '/login', method: 'POST' })).toBe(false);
+
+            const newApp = policy({ rules: [{ id: 'new-app', match: { path: '/beta/*' }, shadow: true }] });
+            expect(isShadowMode(newApp, { path: '/beta/api', method: 'GET' })).toBe(true);
+            expect(isShadowMode(newApp, { path: '/api', method: 'GET' })).toBe(false);
+        });
+
+        it('should ignore attack-type rules and reject non-booleans', () => {
+            const byType = policy({ rules: [{ id: 'xss', match: { attackTypes: ['XSS'] }, shadow: true }] });
+            expect(isShadowMode(byType, { path: '/', method: 'GET', attackType: 'XSS' })).toBe(false);
+            expect(validatePolicy({ defaults: { shadow: 'yes' } })).toEqual({ ok: false, errors: ['defaults.shadow must be true or false'] });
+        });
+    });
+
+    describe('Validation', () => {
+        it('should normalize a valid document', () => {
+            const result = validatePolicy(EXAMPLE);
+            expect(result.ok).toBe(true);
+            if (result.ok) expect(result.document.rules[2].match.methods).toEqual(['POST']);
+        });
+
+        it('should report every problem', () => {
+            const result = validatePolicy({
+                defaults: { alert: 120, verbose: true },
+                rules: [
+                    { id: 'a', match: { path: 'admin' }, block: '60' },
+                    { id: 'a', match: { methods: [] }, maxAction: 'deny' },
+                    { match: { path: '/x', host: 'example.com' } },
+                ],
+                extra: 1,
+            });
+            expect(result.ok).toBe(false);
+            if (!result.ok) {
+                expect(result.errors).toEqual(expect.arrayContaining([
+                    'Unknown field "extra"',
+                    'defaults.alert must be an integer from 0 to 100',
+                    'defaults has unknown field "verbose"',
+                    'rules[0].match.path must be a path pattern starting with "/"',
+                    'rules[0].block must be an integer from 0 to 100 or null',
+                    'rules[1].match.methods must be a non-empty array of strings',
+                    'rules[1].maxAction must be one of allow, flag, block',
+                    'rules[2].id must be a non-empty string',
+                    'rules[2].match has unknown field "host"',
+                ]));
+            }
+        });
+
+        it('should reject duplicate rule ids and non-objects', () => {
+            const duplicate = validatePolicy({ rules: [{ id: 'a', match: {} }, { id: 'a', match: {} }] });
+            expect(duplicate).toEqual({ ok: false, errors: ['rules[1].id "a" is not unique'] });
+            expect(validatePolicy([])).toEqual({ ok: false, errors: ['Policy must be a JSON object'] });
+        });
+    });
+
+    describe('Storage and API', () => {
+        let mockEnv: Env;
+        let kvStore: Map<string, string>;
+
+        function call(method: string, path: string, body?: unknown) {
+            const url = new URL(`https://sentinel.example.com${path}`);
+            const request = new Request(url, { method, body: body === undefined ? undefined : JSON.stringify(body) });
+            return handlePolicyRequest(request, mockEnv, url, admin, {});
+        }
+
+        beforeEach(() => {
+            clearPolicyCache();
+            kvStore = new Map();
+            mockEnv = {
+                AI: {} as any,
+                SENTINEL_KV: {
+                    get: vi.fn(async (key: string, type?: string) => {
+                        const value = kvStore.get(key);
+                        if (value === undefined) return null;
+                        return type === 'json' ? JSON.parse(value) : value;
+                    }),
+                    put: vi.fn(async (key: string, value: string) => { kvStore.set(key, value); }),
+                    list: vi.fn(async ({ prefix }: { prefix: string }) => ({
+                        keys: [...kvStore.keys()].filter((name) => name.startsWith(prefix)).sort().map((name) => ({ name })),
+                        list_complete: true,
+                    })),
+                } as any,
+                SENTINEL_WORKFLOW: {} as any,
+                DB: {} as any,
+                ENVIRONMENT: 'dev',
+                API_KEY: 'test-key',
+            };
+        });
+
+        it('should serve the built-in policy until one is published', async () => {
+            const response = await call('GET', '/v1/policy');
+            expect(response.status).toBe(200);
+            expect((await response.json() as any).policy).toEqual(DEFAULT_POLICY);
+            expect(await loadPolicy(mockEnv)).toEqual(DEFAULT_POLICY);
+        });
+
+        it('should publish numbered versions', async () => {
+            const first = await call('PUT', '/v1/policy', EXAMPLE);
+            expect(first.status).toBe(201);
+            expect((await first.json() as any).policy).toMatchObject({ version: 1, createdBy: 'ops' });
+
+            await call('PUT', '/v1/policy', { rules: [] });
+            expect(JSON.parse(kvStore.get('policy:current')!).version).toBe(2);
+            expect(kvStore.has('policy:version:000001')).toBe(true);
+
+            const versions = await (await call('GET', '/v1/policy/versions')).json() as any;
+            expect(versions.versions.map((v: StoredPolicy) => v.version)).toEqual([2, 1]);
+            expect(versions.versions[0].document).toBeUndefined();
+
+            const one = await (await call('GET', '/v1/policy/versions/1')).json() as any;
+            expect(one.policy.document.rules).toHaveLength(3);
+            expect((await loadPolicy(mockEnv)).version).toBe(2);
+        });
+
+        it('should reject invalid documents with the validation errors', async () => {
+            const response = await call('PUT', '/v1/policy', { rules: [{ id: 'x', match: {}, block: 101 }] });
+            expect(response.status).toBe(400);
+            expect(await response.json()).toEqual({
+                error: 'Bad Request',
+                message: 'Invalid policy',
+                errors: ['rules[0].block must be an integer from 0 to 100 or null'],
+            });
+            expect(kvStore.size).toBe(0);
+
+            expect((await call('PUT', '/v1/policy', 'not json')).status).toBe(400);
+        });
+
+        it('should roll back by republishing an old version', async () => {
+            await call('PUT', '/v1/policy', EXAMPLE);
+            await call('PUT', '/v1/policy', { rules: [] });
+
+            const response = await call('POST', '/v1/policy/rollback', { version: 1 });
+            expect(response.status).toBe(201);
+            const { policy: current } = await response.json() as any;
+            expect(current).toMatchObject({ version: 3, rolledBackFrom: 1 });
+            expect(current.document.rules.map((rule: { id: string }) => rule.id)).toEqual(['admin-strict', 'search-flag-only', 'sqli-post']);
+
+            expect((await call('POST', '/v1/policy/rollback', { version: 9 })).status).toBe(404);
+            expect((await call('GET', '/v1/policy/versions/abc')).status).toBe(400);
+        });
+
+        it('should cache the policy per isolate and keep it when KV fails', async () => {
+            vi.useFakeTimers();
+            try {
+                vi.setSystemTime(Date.parse('2024-03-01T00:00:00.000Z'));
+                kvStore.set('policy:current', JSON.stringify(policy(EXAMPLE)));
+                expect((await loadPolicy(mockEnv)).version).toBe(3);
+
+                kvStore.delete('policy:current');
+                expect((await loadPolicy(mockEnv)).version).toBe(3);
+
+                vi.advanceTimersByTime(POLICY_CACHE_TTL_MS);
+                (mockEnv.SENTINEL_KV.get as any).mockRejectedValueOnce(new Error('KV down'));
+                expect((await loadPolicy(mockEnv)).version).toBe(3);
+
+                vi.advanceTimersByTime(POLICY_CACHE_TTL_MS);
+                expect((await loadPolicy(mockEnv)).version).toBe(0);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+    });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { resolveOrigin, buildUpstreamUrl, forwardToOrigin, parseOriginRoutes } from '../src/proxy';
+import { Env } from '../src/types';
+
+describe('Reverse-Proxy Mode', () => {
+    let mockEnv: Env;
+
+    beforeEach(() => {
+        mockEnv = {
+            AI: {} as any,
+            SENTINEL_KV: {} as any,
+            SENTINEL_WORKFLOW: {} as any,
+            DB: {} as any,
+            ENVIRONMENT: 'dev',
+            API_KEY: 'test-key',
+        };
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    describe('Origin Resolution', () => {
+        it('should return null when no origin is configured', () => {
+            expect(resolveOrigin(new URL('https://app.example.com/login'), mockEnv)).toBeNull();
+        });
+
+        it('should fall back to ORIGIN_URL', () => {
+            mockEnv.ORIGIN_URL = 'https://origin.internal';
+            expect(resolveOrigin(new URL('https://app.example.com/login'), mockEnv)).toBe('https://origin.internal');
+        });
+
+        it('should prefer the longest matching route', () => {
+            mockEnv.ORIGIN_URL = 'https://default.internal';
+            mockEnv.ORIGIN_ROUTES = JSON.stringify({
+                'app.example.com': 'https://app.internal',
+                'app.example.com/api/': 'https://api.internal',
+                '/static/': 'https://cdn.internal',
+            });
+
+            expect(resolveOrigin(new URL('https://app.example.com/home'), mockEnv)).toBe('https://app.internal');
+            expect(resolveOrigin(new URL('https://app.example.com/api/users'), mockEnv)).toBe('https://api.internal');
+            expect(resolveOrigin(new URL('https://other.example.com/static/a.js'), mockEnv)).toBe('https://cdn.internal');
+            expect(resolveOrigin(new URL('https://other.example.com/'), mockEnv)).toBe('https://default.internal');
+        });
+
+        it('should ignore malformed ORIGIN_ROUTES', () => {
+            expect(parseOriginRoutes('not json')).toEqual({});
+            expect(parseOriginRoutes('["https://a"]')).toEqual({});
+        });
+    });
+
+    describe('Upstream URL', () => {
+        it('should preserve path and query string', () => {
+            const upstream = buildUpstreamUrl(new URL('https://app.example.com/a/b?x=1'), 'https://origin.internal');
+            expect(upstream.toString()).toBe('https://origin.internal/a/b?x=1');
+        });
+
+        it('should prepend the origin base path', () => {
+            const upstream = buildUpstreamUrl(new URL('https://app.example.com/a?x=1'), 'https://origin.internal/app/');
+            expect(upstream.toString()).toBe('https://origin.internal/app/a?x=1');
+        });
+    });
+
+    describe('Forwarding', () => {
+        it('should forward method, headers and body with verdict headers', async () => {
+            const fetchMock = vi.fn(async (req: Request) => {
+                return new Response('origin says hi', { status: 201, headers: { 'X-Origin': 'yes' } });
+            });
+            vi.stubGlobal('fetch', fetchMock);
+
+            const request = new Request('https://app.example.com/submit?id=7', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'X-Sentinel-Action': 'allow' },
+                body: JSON.stringify({ name: 'alice' }),
+            });
+
+            const response = await forwardToOrigin(request, 'https://origin.internal', {
+                riskScore: 12,
+                attackType: 'Benign',
+                action: 'allow',
+                cacheHit: true,
+            });
+
+            const upstream = fetchMock.mock.calls[0][0] as Request;
+            expect(upstream.url).toBe('https://origin.internal/submit?id=7');
+            expect(upstream.method).toBe('POST');
+            expect(upstream.headers.get('Content-Type')).toBe('application/json');
+            expect(upstream.headers.get('X-Sentinel-Risk-Score')).toBe('12');
+            expect(upstream.headers.get('X-Sentinel-Cache')).toBe('HIT');
+            expect(upstream.headers.get('X-Forwarded-Host')).toBe('app.example.com');
+            expect(await upstream.text()).toBe('{"name":"alice"}');
+
+            expect(response.status).toBe(201);
+            expect(response.headers.get('X-Origin')).toBe('yes');
+            expect(response.headers.get('X-Sentinel-Attack-Type')).toBe('Benign');
+            expect(await response.text()).toBe('origin says hi');
+        });
+
+        it('should strip client-supplied verdict headers', async () => {
+            const fetchMock = vi.fn(async () => new Response('ok'));
+            vi.stubGlobal('fetch', fetchMock);
+
+            const request = new Request('https://app.example.com/', {
+                headers: { 'X-Sentinel-Risk-Score': '0', 'X-Sentinel-Anything': 'forged' },
+            });
+            await forwardToOrigin(request, 'https://origin.internal', {
+                riskScore: 40,
+                attackType: 'SQLi',
+                action: 'flag',
+                cacheHit: false,
+            });
+
+            const upstream = (fetchMock.mock.calls[0] as unknown[])[0] as Request;
+            expect(upstream.headers.get('X-Sentinel-Risk-Score')).toBe('40');
+            expect(upstream.headers.get('X-Sentinel-Anything')).toBeNull();
+        });
+
+        it('should mark fail-open requests', async () => {
+            const fetchMock = vi.fn(async () => new Response('ok'));
+            vi.stubGlobal('fetch', fetchMock);
+
+            const response = await forwardToOrigin(new Request('https://app.example.com/'), 'https://origin.internal', null);
+            const upstream = (fetchMock.mock.calls[0] as unknown[])[0] as Request;
+            expect(upstream.headers.get('X-Sentinel-Fail-Open')).toBe('true');
+            expect(response.headers.get('X-Sentinel-Fail-Open')).toBe('true');
+        });
+
+        it('should return 502 when the origin is unreachable', async () => {
+            vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('connection refused'); }));
+
+            const response = await forwardToOrigin(new Request('https://app.example.com/'), 'https://origin.internal', null);
+            expect(response.status).toBe(502);
+        });
+    });
+});
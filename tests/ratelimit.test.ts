@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    RateLimiter,
+    findRateLimitViolation,
+    matchesRoute,
+    parseRateLimits,
+    rateLimitAssessment,
+    shouldMitigate,
+    DEFAULT_RATE_LIMITS,
+} from '../src/ratelimit';
+import { parsePenaltyPolicy, policyFor } from '../src/penalties';
+import { Env, NetworkContext } from '../src/types';
+import { mockDurableObjectNamespace } from './mocks/durable-object';
+
+const NOW = Date.parse('2024-03-01T00:00:00.000Z');
+
+function network(ip = '203.0.113.5'): NetworkContext {
+    return {
+        ip,
+        ipVersion: ip === 'unknown' ? null : 4,
+        asn: null,
+        asOrganization: null,
+        country: null,
+        city: null,
+        region: null,
+        colo: null,
+        tlsVersion: null,
+        httpProtocol: null,
+    };
+}
+
+describe('Traffic Rate Limiting', () => {
+    let mockEnv: Env;
+    let limiter: ReturnType<typeof mockDurableObjectNamespace<RateLimiter>>;
+
+    function check(path: string, init: RequestInit = {}, ip = '203.0.113.5') {
+        const url = new URL(`https://app.example.com${path}`);
+        return findRateLimitViolation(mockEnv, new Request(url, init), url, network(ip));
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(NOW);
+        limiter = mockDurableObjectNamespace((state) => new RateLimiter(state, {} as Env));
+        mockEnv = {
+            AI: {} as any,
+            SENTINEL_KV: {} as any,
+            SENTINEL_WORKFLOW: {} as any,
+            DB: {} as any,
+            ENVIRONMENT: 'dev',
+            API_KEY: 'test-key',
+            RATE_LIMITER: limiter.namespace,
+        };
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('Configuration', () => {
+        it('should default to 300 requests per minute per IP', () => {
+            expect(parseRateLimits(mockEnv)).toEqual(DEFAULT_RATE_LIMITS);
+        });
+
+        it('should parse rules and skip malformed ones', () => {
+            mockEnv.RATE_LIMITS = JSON.stringify([
+                { id: 'login', route: '/login', methods: ['post'], limit: 5, window: '30s' },
+                { id: 'api', route: '/api/*', limit: 100, window: '1m', key: 'apiKey', header: 'X-API-Key', mitigate: false },
+                { id: 'bad-window', route: '/x', limit: 5, window: 'soon' },
+                { id: 'bad-key', route: '/x', limit: 5, window: 60, key: 'cookie' },
+            ]);
+
+            expect(parseRateLimits(mockEnv)).toEqual([
+                { id: 'login', route: '/login', methods: ['POST'], limit: 5, windowSeconds: 30, key: 'ip', header: null, mitigate: true },
+                { id: 'api', route: '/api/*', methods: null, limit: 100, windowSeconds: 60, key: 'apiKey', header: 'X-API-Key', mitigate: false },
+            ]);
+        });
+
+        it('should fall back to the defaults on invalid JSON', () => {
+            mockEnv.RATE_LIMITS = '{not json';
+            expect(parseRateLimits(mockEnv)).toEqual(DEFAULT_RATE_LIMITS);
+        });
+
+        it('should match route patterns', () => {
+            expect(matchesRoute('/*', '/anything/at/all')).toBe(true);
+            expect(matchesRoute('/api/*', '/api/v1/users')).toBe(true);
+            expect(matchesRoute('/api/*', '/apix')).toBe(false);
+            expect(matchesRoute('/login', '/login')).toBe(true);
+            expect(matchesRoute('/login', '/login/reset')).toBe(false);
+            expect(matchesRoute('/a.b', '/aXb')).toBe(false);
+        });
+    });
+
+    describe('Sliding window', () => {
+        beforeEach(() => {
+            mockEnv.RATE_LIMITS = JSON.stringify([{ id: 'login', route: '/login', methods: ['POST'], limit: 3, window: '1m' }]);
+        });
+
+        it('should reject requests over the limit per IP', async () => {
+            for (let i = 0; i < 3; i++) {
+                expect(await check('/login', { method: 'POST' })).toBeNull();
+            }
+
+            const violation = await check('/login', { method: 'POST' });
+            expect(violation?.rule.id).toBe('login');
+            expect(violation?.result).toEqual({ allowed: false, count: 3, retryAfter: 60, rejected: 1 });
+            expect(shouldMitigate(violation!)).toBe(true);
+
+            // Other clients, methods and routes are unaffected
+            expect(await check('/login', { method: 'POST' }, '198.51.100.7')).toBeNull();
+            expect(await check('/login')).toBeNull();
+            expect(await check('/home', { method: 'POST' })).toBeNull();
+
+            // Only the first rejection in a window triggers a mitigation
+            expect(shouldMitigate((await check('/login', { method: 'POST' }))!)).toBe(false);
+        });
+
+        it('should weight the previous window by its remaining overlap', async () => {
+            for (let i = 0; i < 3; i++) await check('/login', { method: 'POST' });
+
+            // 15s into the next window, 75% of the previous 3 requests still count
+            vi.setSystemTime(NOW + 75_000);
+            expect(await check('/login', { method: 'POST' })).not.toBeNull();
+
+            // 45s in, only 25% do: room for two more
+            vi.setSystemTime(NOW + 105_000);
+            expect(await check('/login', { method: 'POST' })).toBeNull();
+            expect(await check('/login', { method: 'POST' })).toBeNull();
+            expect(await check('/login', { method: 'POST' })).not.toBeNull();
+        });
+
+        it('should clear idle counters with an alarm', async () => {
+            await check('/login', { method: 'POST' });
+            const [instance] = limiter.instances.values();
+            expect(instance.storage.size).toBe(1);
+
+            vi.setSystemTime(NOW + 120_000);
+            await limiter.runAlarms();
+            expect(instance.storage.size).toBe(0);
+        });
+
+        it('should count concurrent requests exactly', async () => {
+            const results = await Promise.all(Array.from({ length: 10 }, () => check('/login', { method: 'POST' })));
+            expect(results.filter((violation) => violation === null)).toHaveLength(3);
+        });
+    });
+
+    describe('API key rules', () => {
+        beforeEach(() => {
+            mockEnv.RATE_LIMITS = JSON.stringify([
+                { id: 'api', route: '/api/*', limit: 1, window: '1m', key: 'apiKey', header: 'X-API-Key' },
+            ]);
+        });
+
+        it('should count per API key across IPs, hashing the key', async () => {
+            const headers = { 'X-API-Key': 'secret-key-1' };
+            expect(await check('/api/items', { headers }, '203.0.113.5')).toBeNull();
+
+            const violation = await check('/api/items', { headers }, '198.51.100.7');
+            expect(violation?.rule.id).toBe('api');
+            expect(shouldMitigate(violation!)).toBe(false);
+            expect(await check('/api/items', { headers: { 'X-API-Key': 'secret-key-2' } })).toBeNull();
+
+            const names = [...limiter.instances.keys()];
+            expect(names.some((name) => name.includes('secret-key'))).toBe(false);
+        });
+
+        it('should not count requests without the key', async () => {
+            expect(await check('/api/items')).toBeNull();
+            expect(await check('/api/items')).toBeNull();
+            expect(limiter.instances.size).toBe(0);
+        });
+    });
+
+    describe('Failure handling', () => {
+        it('should be disabled without the RATE_LIMITER binding', async () => {
+            mockEnv.RATE_LIMITER = undefined;
+            mockEnv.RATE_LIMITS = JSON.stringify([{ id: 'all', route: '/*', limit: 1, window: '1m' }]);
+            await check('/');
+            expect(await check('/')).toBeNull();
+        });
+
+        it('should fail open when the limiter is unreachable', async () => {
+            mockEnv.RATE_LIMITER = {
+                idFromName: () => ({}),
+                get: () => ({ fetch: async () => { throw new Error('DO unavailable'); } }),
+            } as any;
+            expect(await check('/')).toBeNull();
+        });
+
+        it('should skip sources without a known IP', async () => {
+            mockEnv.RATE_LIMITS = JSON.stringify([{ id: 'all', route: '/*', limit: 1, window: '1m' }]);
+            await check('/', {}, 'unknown');
+            expect(await check('/', {}, 'unknown')).toBeNull();
+        });
+    });
+
+    describe('Assessment', () => {
+        it('should report Rate Abuse with short escalation tiers', async () => {
+            mockEnv.RATE_LIMITS = JSON.stringify([{ id: 'all', route: '/*', limit: 1, window: '1m' }]);
+            await check('/');
+            const assessment = rateLimitAssessment((await check('/'))!);
+
+            expect(assessment).toMatchObject({ attackType: 'Rate Abuse', action: 'block', confidence: 'High' });
+            expect(assessment.explanation).toContain('rate limit "all"');
+            expect(policyFor(parsePenaltyPolicy(mockEnv), 'Rate Abuse').tiers[0]).toBe(600);
+        });
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    getReputation,
+    recordReputation,
+    reputationKeys,
+    decayScore,
+    REPUTATION_HALF_LIFE_MS,
+    MAX_REPUTATION_MODIFIER,
+} from '../src/reputation';
+import { Env, NetworkContext } from '../src/types';
+
+const NOW = Date.parse('2024-03-01T00:00:00.000Z');
+
+function network(overrides: Partial<NetworkContext> = {}): NetworkContext {
+    return {
+        ip: '203.0.113.5',
+        ipVersion: 4,
+        asn: 64500,
+        asOrganization: null,
+        country: null,
+        city: null,
+        region: null,
+        colo: null,
+        tlsVersion: null,
+        httpProtocol: null,
+        ...overrides,
+    };
+}
+
+describe('Source Reputation', () => {
+    let mockEnv: Env;
+    let store: Map<string, string>;
+
+    beforeEach(() => {
+        store = new Map();
+        mockEnv = {
+            AI: {} as any,
+            SENTINEL_KV: {
+                get: vi.fn(async (key: string) => (store.has(key) ? JSON.parse(store.get(key)!) : null)),
+                put: vi.fn(async (key: string, value: string) => { store.set(key, value); }),
+            } as any,
+            SENTINEL_WORKFLOW: {} as any,
+            DB: {} as any,
+            ENVIRONMENT: 'dev',
+            API_KEY: 'test-key',
+        };
+    });
+
+    describe('reputationKeys', () => {
+        it('should key IPv4 sources by IP, /24 and ASN', () => {
+            expect(reputationKeys(network())).toEqual({
+                ip: 'reputation:ip:203.0.113.5',
+                network: 'reputation:net:203.0.113.0/24',
+                asn: 'reputation:asn:64500',
+            });
+        });
+
+        it('should key IPv6 sources by /64', () => {
+            const keys = reputationKeys(network({ ip: '2001:db8:1:2:3:4:5:6', ipVersion: 6, asn: null }));
+            expect(keys).toEqual({
+                ip: 'reputation:ip:2001:db8:1:2:3:4:5:6',
+                network: 'reputation:net:2001:db8:1:2::/64',
+            });
+        });
+
+        it('should skip the IP scopes for unknown clients', () => {
+            expect(reputationKeys(network({ ip: 'unknown', ipVersion: null }))).toEqual({ asn: 'reputation:asn:64500' });
+        });
+    });
+
+    it('should halve a score every half-life', () => {
+        expect(decayScore({ score: 40, updatedAt: NOW }, NOW + REPUTATION_HALF_LIFE_MS)).toBeCloseTo(20);
+        expect(decayScore({ score: 40, updatedAt: NOW }, NOW + 2 * REPUTATION_HALF_LIFE_MS)).toBeCloseTo(10);
+    });
+
+    it('should start every source with a clean record', async () => {
+        expect(await getReputation(mockEnv, network(), NOW)).toEqual({ modifier: 0, ip: 0, network: 0, asn: 0 });
+    });
+
+    it('should accumulate blocks across IP, network and ASN', async () => {
+        await recordReputation(mockEnv, network(), 'block', NOW);
+        await recordReputation(mockEnv, network(), 'flag', NOW);
+
+        expect(JSON.parse(store.get('reputation:ip:203.0.113.5')!)).toEqual({ score: 14, updatedAt: NOW, events: 2 });
+        expect(await getReputation(mockEnv, network(), NOW)).toEqual({ modifier: 24, ip: 14, network: 14, asn: 14 });
+
+        // A neighbour on the same /24 inherits part of the network's record
+        const neighbour = await getReputation(mockEnv, network({ ip: '203.0.113.77' }), NOW);
+        expect(neighbour).toEqual({ modifier: 10, ip: 0, network: 14, asn: 14 });
+    });
+
+    it('should cap the modifier', async () => {
+        for (let i = 0; i < 10; i++) await recordReputation(mockEnv, network(), 'block', NOW);
+        expect((await getReputation(mockEnv, network(), NOW)).modifier).toBe(MAX_REPUTATION_MODIFIER);
+    });
+
+    it('should decay recorded history', async () => {
+        await recordReputation(mockEnv, network(), 'block', NOW);
+        const later = await getReputation(mockEnv, network(), NOW + REPUTATION_HALF_LIFE_MS);
+        expect(later.ip).toBe(5);
+    });
+
+    it('should not write for allowed requests', async () => {
+        await recordReputation(mockEnv, network(), 'allow', NOW);
+        expect(mockEnv.SENTINEL_KV.put).not.toHaveBeenCalled();
+    });
+
+    it('should fail open when KV is unavailable', async () => {
+        (mockEnv.SENTINEL_KV.get as any).mockRejectedValue(new Error('KV down'));
+        expect((await getReputation(mockEnv, network(), NOW)).modifier).toBe(0);
+    });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { applyRetention, parseRetentionPolicy, RETENTION_BATCH_SIZE, MAX_RETENTION_BATCHES } from '../src/retention';
+import { Env } from '../src/types';
+
+const NOW = new Date('2024-03-01T00:00:00.000Z');
+
+function row(id: string, timestamp: string, action = 'allow') {
+    return {
+        id,
+        timestamp,
+        ip_address: '203.0.113.5',
+        country: 'US',
+        request_path: '/',
+        attack_type: action === 'allow' ? 'Benign' : 'SQL Injection',
+        risk_score: action === 'allow' ? 5 : 95,
+        action,
+        payload_preview: 'GET /',
+        matched_input: null,
+        agent: null,
+        cache_hit: 0,
+        request_method: 'GET',
+        rule_id: null,
+        metadata: JSON.stringify({ confidence: 'High' }),
+    };
+}
+
+async function gunzip(body: ArrayBuffer): Promise<string> {
+    return new Response(new Blob([body]).stream().pipeThrough(new DecompressionStream('gzip'))).text();
+}
+
+describe('Forensic Ledger Retention', () => {
+    let mockEnv: Env;
+    let pages: Record<string, any[][]>; // Queued SELECT results per pass filter
+    let batches: { sql: string; args: unknown[] }[][];
+    let put: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        pages = { allow: [], all: [] };
+        batches = [];
+        put = vi.fn().mockResolvedValue({});
+
+        const statement = (sql: string, args: unknown[] = []) => ({
+            sql,
+            args,
+            bind: (...values: unknown[]) => statement(sql, values),
+            all: vi.fn(async () => {
+                const queue = sql.includes("action = 'allow'") ? pages.allow : pages.all;
+                return { results: queue.shift() ?? [] };
+            }),
+        });
+
+        mockEnv = {
+            AI: {} as any,
+            SENTINEL_KV: {} as any,
+            DB: {
+                prepare: vi.fn((sql: string) => statement(sql)),
+                batch: vi.fn(async (statements: any[]) => {
+                    batches.push(statements.map((s) => ({ sql: s.sql, args: s.args })));
+                    return [];
+                }),
+            } as any,
+            API_KEY: 'test-key',
+        } as Env;
+    });
+
+    describe('parseRetentionPolicy', () => {
+        it('should default to 30 days', () => {
+            expect(parseRetentionPolicy(mockEnv)).toEqual({ retentionDays: 30, allowRetentionDays: 30 });
+        });
+
+        it('should cap allow retention at the full retention', () => {
+            expect(parseRetentionPolicy({ ...mockEnv, RETENTION_DAYS: '90', ALLOW_RETENTION_DAYS: '7' }))
+                .toEqual({ retentionDays: 90, allowRetentionDays: 7 });
+            expect(parseRetentionPolicy({ ...mockEnv, RETENTION_DAYS: '7', ALLOW_RETENTION_DAYS: '90' }))
+                .toEqual({ retentionDays: 7, allowRetentionDays: 7 });
+        });
+
+        it('should ignore invalid values', () => {
+            expect(parseRetentionPolicy({ ...mockEnv, RETENTION_DAYS: '0', ALLOW_RETENTION_DAYS: 'soon' }))
+                .toEqual({ retentionDays: 30, allowRetentionDays: 30 });
+        });
+    });
+
+    it('should do nothing when no rows have expired', async () => {
+        const result = await applyRetention(mockEnv, NOW);
+        expect(result).toEqual({ deleted: 0, rolledUp: 0, archives: [], complete: true });
+        expect(mockEnv.DB.batch).not.toHaveBeenCalled();
+    });
+
+    it('should downsample allow rows sooner than the full retention', async () => {
+        mockEnv.RETENTION_DAYS = '30';
+        mockEnv.ALLOW_RETENTION_DAYS = '7';
+        pages.allow.push([row('a1', '2024-02-20T10:15:00.000Z'), row('a2', '2024-02-20T10:45:00.000Z')]);
+        pages.all.push([row('b1', '2024-01-15T00:00:00.000Z', 'block')]);
+
+        const result = await applyRetention(mockEnv, NOW);
+
+        expect(result).toMatchObject({ deleted: 3, rolledUp: 2, archives: [], complete: true });
+        expect(batches).toHaveLength(2);
+
+        const [rollup, remove] = batches[0];
+        expect(rollup.sql).toContain('INSERT INTO security_event_rollups');
+        expect(rollup.sql).toContain('ON CONFLICT(hour, action) DO UPDATE');
+        expect(remove.sql).toMatch(/^DELETE FROM security_events WHERE action = 'allow' AND timestamp < \?/);
+        // Cutoff (7 days) followed by the batch's last (timestamp, id)
+        expect(remove.args).toEqual(['2024-02-23T00:00:00.000Z', '2024-02-20T10:45:00.000Z', '2024-02-20T10:45:00.000Z', 'a2']);
+
+        expect(batches[1][1].args[0]).toBe('2024-01-31T00:00:00.000Z');
+    });
+
+    it('should archive expired rows to R2 and record a manifest', async () => {
+        mockEnv.ARCHIVE_BUCKET = { put } as any;
+        pages.allow.push([row('a1', '2024-01-02T03:04:05.000Z'), row('b1', '2024-01-02T04:00:00.000Z', 'block')]);
+
+        const result = await applyRetention(mockEnv, NOW);
+
+        expect(put).toHaveBeenCalledTimes(1);
+        const [key, body, options] = put.mock.calls[0];
+        expect(key).toMatch(/^security_events\/2024\/01\/02\/2024-01-02T03-04-05-000Z-[0-9a-f-]+\.ndjson\.gz$/);
+        expect(options.httpMetadata.contentEncoding).toBe('gzip');
+        expect(options.customMetadata.eventCount).toBe('2');
+        expect(result.archives).toEqual([key]);
+
+        const lines = (await gunzip(body)).trim().split('\n').map((line) => JSON.parse(line));
+        expect(lines.map((e) => e.id)).toEqual(['a1', 'b1']);
+        expect(lines[0].metadata).toEqual({ confidence: 'High' });
+
+        const manifest = batches[0].find((s) => s.sql.includes('INSERT INTO archive_manifests'))!;
+        expect(manifest.args.slice(2, 7)).toEqual([key, 2, '2024-01-02T03:04:05.000Z', '2024-01-02T04:00:00.000Z', body.byteLength]);
+        expect(manifest.args[7]).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should not delete rows when archiving fails', async () => {
+        mockEnv.ARCHIVE_BUCKET = { put: vi.fn().mockRejectedValue(new Error('R2 unavailable')) } as any;
+        pages.allow.push([row('a1', '2024-01-02T00:00:00.000Z')]);
+
+        await expect(applyRetention(mockEnv, NOW)).rejects.toThrow('R2 unavailable');
+        expect(mockEnv.DB.batch).not.toHaveBeenCalled();
+    });
+
+    it('should stop after the per-run batch limit', async () => {
+        const full = Array.from({ length: RETENTION_BATCH_SIZE }, (_, i) => row(`a${i}`, '2024-01-01T00:00:00.000Z'));
+        for (let i = 0; i <= MAX_RETENTION_BATCHES; i++) pages.allow.push(full);
+
+        const result = await applyRetention(mockEnv, NOW);
+
+        expect(result.complete).toBe(false);
+        expect(result.deleted).toBe(RETENTION_BATCH_SIZE * MAX_RETENTION_BATCHES);
+        expect(batches).toHaveLength(MAX_RETENTION_BATCHES);
+    });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildShadowReport, handleShadowReportRequest, parsePeriod, DEFAULT_REPORT_PERIOD_MS, REPORT_TOP_N } from '../src/shadow';
+import { Env } from '../src/types';
+
+const NOW = Date.parse('2024-03-01T00:00:00.000Z');
+
+describe('Shadow Mode Report (/v1/shadow/report)', () => {
+    let mockEnv: Env;
+    let prepare: ReturnType<typeof vi.fn>;
+    let bind: ReturnType<typeof vi.fn>;
+
+    // Answers each report query by what it groups on
+    function fakeD1(results: { totals: unknown; routes: unknown[]; attackTypes: unknown[]; sources: unknown[] }) {
+        bind = vi.fn();
+        prepare = vi.fn((sql: string) => {
+            const statement = {
+                bind: (...args: unknown[]) => { bind(sql, ...args); return statement; },
+                first: vi.fn(async () => results.totals),
+                all: vi.fn(async () => ({
+                    results: sql.includes('GROUP BY request_path') ? results.routes
+                        : sql.includes('GROUP BY attack_type') ? results.attackTypes
+                        : results.sources,
+                })),
+            };
+            return statement;
+        });
+        return { prepare } as any;
+    }
+
+    beforeEach(() => {
+        mockEnv = {
+            AI: {} as any,
+            SENTINEL_KV: {} as any,
+            SENTINEL_WORKFLOW: {} as any,
+            DB: fakeD1({
+                totals: { evaluated: 200, would_block: 12, would_flag: 5 },
+                routes: [
+                    { path: '/admin/login', evaluated: 40, would_block: 10 },
+                    { path: '/search', evaluated: 160, would_block: 2 },
+                ],
+                attackTypes: [
+                    { attack_type: 'SQL Injection', would_block: 7 },
+                    { attack_type: 'Rate Abuse', would_block: 5 },
+                ],
+                sources: [{ ip_address: '203.0.113.5', would_block: 9 }],
+            }),
+            ENVIRONMENT: 'dev',
+            API_KEY: 'test-key',
+        };
+    });
+
+    it('should summarize would-be blocks by route, attack type and source', async () => {
+        const report = await buildShadowReport(mockEnv, '2024-02-29T00:00:00.000Z', '2024-03-01T00:00:00.000Z');
+
+        expect(report).toEqual({
+            from: '2024-02-29T00:00:00.000Z',
+            to: '2024-03-01T00:00:00.000Z',
+            evaluated: 200,
+            wouldBlock: 12,
+            wouldFlag: 5,
+            wouldBlockRate: 0.06,
+            routes: [
+                { path: '/admin/login', evaluated: 40, wouldBlock: 10, wouldBlockRate: 0.25 },
+                { path: '/search', evaluated: 160, wouldBlock: 2, wouldBlockRate: 0.0125 },
+            ],
+            attackTypes: [
+                { attackType: 'SQL Injection', wouldBlock: 7 },
+                { attackType: 'Rate Abuse', wouldBlock: 5 },
+            ],
+            sources: [{ ip: '203.0.113.5', wouldBlock: 9 }],
+        });
+    });
+
+    it('should only count shadow-mode events in the period', async () => {
+        await buildShadowReport(mockEnv, '2024-02-29T00:00:00.000Z', '2024-03-01T00:00:00.000Z');
+
+        for (const [sql] of prepare.mock.calls) {
+            expect(sql).toMatch(/would_block (IS NOT NULL|= 1) AND timestamp >= \? AND timestamp < \?/);
+        }
+        const grouped = bind.mock.calls.filter(([sql]) => sql.includes('GROUP BY'));
+        expect(grouped.map((call) => call.slice(1))).toEqual(
+            Array(3).fill(['2024-02-29T00:00:00.000Z', '2024-03-01T00:00:00.000Z', REPORT_TOP_N])
+        );
+    });
+
+    it('should report zero rates for an empty period', async () => {
+        mockEnv.DB = fakeD1({ totals: { evaluated: 0, would_block: null, would_flag: null }, routes: [], attackTypes: [], sources: [] });
+        const report = await buildShadowReport(mockEnv, '2024-02-29T00:00:00.000Z', '2024-03-01T00:00:00.000Z');
+        expect(report).toMatchObject({ evaluated: 0, wouldBlock: 0, wouldFlag: 0, wouldBlockRate: 0, routes: [] });
+    });
+
+    it('should default to the last 24 hours', () => {
+        expect(parsePeriod(new URLSearchParams(), NOW)).toEqual({
+            from: new Date(NOW - DEFAULT_REPORT_PERIOD_MS).toISOString(),
+            to: '2024-03-01T00:00:00.000Z',
+        });
+        expect(parsePeriod(new URLSearchParams('to=2024-02-01'), NOW).from).toBe('2024-01-31T00:00:00.000Z');
+    });
+
+    it('should return 400 for an invalid period', async () => {
+        const get = (query: string) => handleShadowReportRequest(new URL(`https://sentinel.example.com/v1/shadow/report?${query}`), mockEnv, {});
+
+        expect((await get('from=yesterday')).status).toBe(400);
+        const response = await get('from=2024-03-02&to=2024-03-01');
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({ error: 'Bad Request', message: 'from must be before to' });
+        expect(prepare).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when D1 fails', async () => {
+        mockEnv.DB = { prepare: () => { throw new Error('D1 unavailable'); } } as any;
+        const response = await handleShadowReportRequest(new URL('https://sentinel.example.com/v1/shadow/report'), mockEnv, {});
+        expect(response.status).toBe(500);
+    });
+});